@@ -0,0 +1,125 @@
+jest.mock("../src/lib/analysisJobs", () => ({
+  claimNextJob: jest.fn(),
+  completeJob: jest.fn().mockResolvedValue(undefined),
+  failJob: jest.fn().mockResolvedValue(undefined),
+  failStalledJobs: jest.fn(),
+  loadJobUploads: jest.fn(),
+  removeJobUploads: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock("../src/lib/analyzePipeline", () => {
+  class AnalysisRequestError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+      super(message);
+      this.status = status;
+    }
+  }
+  return {
+    AnalysisRequestError,
+    isAnalysisRequestError: (error: unknown) => error instanceof AnalysisRequestError,
+    runAnalysisPipeline: jest.fn(),
+  };
+});
+
+jest.mock("../src/lib/profile", () => ({
+  getOrCreateProfile: jest.fn().mockResolvedValue({ credits: 7 }),
+}));
+
+import * as jobs from "../src/lib/analysisJobs";
+import * as pipeline from "../src/lib/analyzePipeline";
+import type { AnalysisJob } from "../src/lib/analysisJobs";
+import {
+  drainJobBatch,
+  kickJobWorker,
+  processAnalysisJob,
+  sweepStalledJobs,
+} from "../src/workers/analysisJobs.worker";
+
+const job = {
+  id: "job-1",
+  user_id: "user-1",
+  status: "running",
+  request: { planId: "free", hasUserVocal: false, daw: "Ableton Live" },
+} as unknown as AnalysisJob;
+const uploads = { file: Buffer.from("audio"), userVocal: null };
+
+const mocked = {
+  claimNextJob: jobs.claimNextJob as jest.Mock,
+  completeJob: jobs.completeJob as jest.Mock,
+  failJob: jobs.failJob as jest.Mock,
+  failStalledJobs: jobs.failStalledJobs as jest.Mock,
+  loadJobUploads: jobs.loadJobUploads as jest.Mock,
+  runAnalysisPipeline: pipeline.runAnalysisPipeline as jest.Mock,
+};
+
+describe("analysis job worker", () => {
+  const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    consoleError.mockRestore();
+  });
+
+  it("stores the result with the remaining credits", async () => {
+    mocked.runAnalysisPipeline.mockResolvedValue({ plugins: [] });
+
+    const outcome = await processAnalysisJob(job, uploads);
+
+    expect(outcome).toEqual({ ok: true, result: { plugins: [], jobId: "job-1", remainingCredits: 7 } });
+    expect(mocked.completeJob).toHaveBeenCalledWith("job-1", outcome.ok && outcome.result);
+    expect(mocked.failJob).not.toHaveBeenCalled();
+  });
+
+  it("fails the job, which refunds the credit, when the pipeline throws", async () => {
+    mocked.runAnalysisPipeline.mockRejectedValue(
+      new pipeline.AnalysisRequestError("Model returned no content.", 502)
+    );
+
+    const outcome = await processAnalysisJob(job, uploads);
+
+    expect(outcome).toEqual({ ok: false, error: "Model returned no content.", status: 502 });
+    expect(mocked.failJob).toHaveBeenCalledWith("job-1", "Model returned no content.");
+    expect(mocked.completeJob).not.toHaveBeenCalled();
+  });
+
+  it("drains queued jobs using their stored uploads", async () => {
+    mocked.claimNextJob.mockResolvedValueOnce(job).mockResolvedValueOnce(null);
+    mocked.loadJobUploads.mockResolvedValue(uploads);
+    mocked.runAnalysisPipeline.mockResolvedValue({ plugins: [] });
+
+    await kickJobWorker();
+
+    expect(mocked.loadJobUploads).toHaveBeenCalledWith(job);
+    expect(mocked.runAnalysisPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", planId: "free", uploads }),
+      undefined
+    );
+    expect(jobs.removeJobUploads).toHaveBeenCalledWith(job);
+  });
+
+  it("stops a bounded drain at the job limit", async () => {
+    mocked.claimNextJob.mockResolvedValue(job);
+    mocked.loadJobUploads.mockResolvedValue(uploads);
+    mocked.runAnalysisPipeline.mockResolvedValue({ plugins: [] });
+
+    await expect(drainJobBatch({ maxJobs: 2, budgetMs: 60_000 })).resolves.toBe(2);
+    expect(mocked.claimNextJob).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not claim once the time budget is spent", async () => {
+    await expect(drainJobBatch({ maxJobs: 10, budgetMs: 0 })).resolves.toBe(0);
+    expect(mocked.claimNextJob).not.toHaveBeenCalled();
+  });
+
+  it("keeps going when the stalled job sweep fails", async () => {
+    mocked.failStalledJobs.mockResolvedValueOnce(3).mockRejectedValueOnce(new Error("timeout"));
+
+    await expect(sweepStalledJobs()).resolves.toBe(3);
+    await expect(sweepStalledJobs()).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+const getUser = jest.fn();
+const update = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    auth: { getUser: (...args: unknown[]) => getUser(...args) },
+    from: () => ({
+      update: (values: unknown) => {
+        update(values);
+        const filter = { eq: () => filter, then: (resolve: (value: unknown) => unknown) => resolve({ error: null }) };
+        return filter;
+      },
+    }),
+  },
+}));
+
+jest.mock("../../src/middleware/planGate", () => {
+  const actual = jest.requireActual("../../src/middleware/planGate");
+  return { ...actual, resolvePlanContext: jest.fn() };
+});
+
+jest.mock("../../src/lib/workspaces", () => ({
+  WorkspaceError: jest.requireActual("../../src/lib/workspaces").WorkspaceError,
+  assertWorkspaceRole: jest.fn(),
+  resolveFolderAccess: jest.fn(),
+  resolvePresetAccess: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { PATCH } from "../../src/app/api/presets/[id]/route";
+import { getPlan } from "../../src/lib/plans";
+import * as planGate from "../../src/middleware/planGate";
+import * as workspaces from "../../src/lib/workspaces";
+
+const patch = (body: Record<string, unknown>) =>
+  PATCH(
+    new NextRequest("http://localhost/api/presets/preset-1", {
+      method: "PATCH",
+      headers: { authorization: "Bearer token", "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: "preset-1" }) }
+  );
+
+const signInAs = (userId: string) => {
+  getUser.mockResolvedValue({ data: { user: { id: userId, email: `${userId}@studio.test` } }, error: null });
+  (planGate.resolvePlanContext as jest.Mock).mockResolvedValue({
+    userId,
+    profile: { id: userId, credits: 10, tier: "standard_15", updated_at: null },
+    plan: getPlan("standard_15"),
+  });
+};
+
+const presetIn = (workspaceId: string | null) =>
+  (workspaces.resolvePresetAccess as jest.Mock).mockResolvedValue({
+    id: "preset-1",
+    user_id: "author",
+    workspace_id: workspaceId,
+  });
+
+describe("PATCH /api/presets/{id} library moves", () => {
+  beforeEach(() => {
+    (workspaces.assertWorkspaceRole as jest.Mock).mockResolvedValue("editor");
+    (workspaces.resolveFolderAccess as jest.Mock).mockImplementation(async (_userId, folderId: string) => ({
+      id: folderId,
+      user_id: "author",
+      workspace_id: folderId === "personal-folder" ? null : "ws-1",
+    }));
+  });
+
+  it("lets the author move a chain between libraries", async () => {
+    signInAs("author");
+    presetIn(null);
+
+    const response = await patch({ workspaceId: "ws-1" });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith({ workspace_id: "ws-1", folder_id: null });
+  });
+
+  it("stops other editors from moving a chain out of the workspace", async () => {
+    signInAs("editor");
+    presetIn("ws-1");
+
+    const toPersonal = await patch({ workspaceId: null });
+    const toOtherWorkspace = await patch({ workspaceId: "ws-2" });
+    const toPersonalFolder = await patch({ folderId: "personal-folder" });
+
+    for (const response of [toPersonal, toOtherWorkspace, toPersonalFolder]) {
+      expect(response.status).toBe(403);
+    }
+    await expect(toPersonal.json()).resolves.toMatchObject({
+      error: "Only the chain's author can move it to another library.",
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("lets other editors file a chain within its workspace", async () => {
+    signInAs("editor");
+    presetIn("ws-1");
+
+    const response = await patch({ folderId: "team-folder" });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith({ folder_id: "team-folder" });
+    expect(workspaces.resolvePresetAccess).toHaveBeenCalledWith("editor", "preset-1", "editor");
+  });
+
+  it("checks the target workspace role before moving", async () => {
+    signInAs("author");
+    presetIn(null);
+    (workspaces.assertWorkspaceRole as jest.Mock).mockRejectedValue(
+      new workspaces.WorkspaceError("This needs the editor role in the workspace.", 403)
+    );
+
+    const response = await patch({ workspaceId: "ws-1" });
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
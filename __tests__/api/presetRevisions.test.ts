@@ -0,0 +1,99 @@
+const getUser = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: { auth: { getUser: (...args: unknown[]) => getUser(...args) } },
+}));
+
+jest.mock("../../src/middleware/planGate", () => {
+  const actual = jest.requireActual("../../src/middleware/planGate");
+  return { ...actual, resolvePlanContext: jest.fn() };
+});
+
+jest.mock("../../src/lib/workspaces", () => ({
+  WorkspaceError: jest.requireActual("../../src/lib/workspaces").WorkspaceError,
+  listMemberEmails: jest.fn().mockResolvedValue({ editor: "editor@studio.test" }),
+  resolvePresetAccess: jest.fn(),
+}));
+
+jest.mock("../../src/lib/presetRevisions", () => ({
+  listPresetRevisions: jest.fn(),
+  restorePresetRevision: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { GET } from "../../src/app/api/presets/[id]/revisions/route";
+import { POST as restore } from "../../src/app/api/presets/[id]/revisions/[revisionId]/restore/route";
+import { getPlan } from "../../src/lib/plans";
+import * as planGate from "../../src/middleware/planGate";
+import * as revisions from "../../src/lib/presetRevisions";
+import * as workspaces from "../../src/lib/workspaces";
+
+const request = (method = "GET") =>
+  new NextRequest("http://localhost/api/presets/preset-1/revisions", {
+    method,
+    headers: { authorization: "Bearer token" },
+  });
+
+const revision = {
+  id: "rev-2",
+  preset_id: "preset-1",
+  user_id: "author",
+  version: 2,
+  action: "edit",
+  plugins: [],
+  edited_by: "editor",
+};
+
+describe("preset history for workspace members", () => {
+  beforeEach(() => {
+    getUser.mockResolvedValue({ data: { user: { id: "editor", email: "editor@studio.test" } }, error: null });
+    (planGate.resolvePlanContext as jest.Mock).mockResolvedValue({
+      userId: "editor",
+      profile: { id: "editor", credits: 10, tier: "standard_15", updated_at: null },
+      plan: getPlan("standard_15"),
+    });
+    (workspaces.resolvePresetAccess as jest.Mock).mockResolvedValue({
+      id: "preset-1",
+      user_id: "author",
+      workspace_id: "ws-1",
+    });
+  });
+
+  it("lists the author's history to a member who can view the chain", async () => {
+    (revisions.listPresetRevisions as jest.Mock).mockResolvedValue([revision]);
+
+    const response = await GET(request(), { params: Promise.resolve({ id: "preset-1" }) });
+
+    expect(response.status).toBe(200);
+    expect(workspaces.resolvePresetAccess).toHaveBeenCalledWith("editor", "preset-1", "viewer");
+    expect(revisions.listPresetRevisions).toHaveBeenCalledWith("author", "preset-1");
+    await expect(response.json()).resolves.toEqual({
+      items: [{ ...revision, edited_by_email: "editor@studio.test" }],
+    });
+  });
+
+  it("restores under the author and records the member who restored", async () => {
+    (revisions.restorePresetRevision as jest.Mock).mockResolvedValue(revision);
+
+    const response = await restore(request("POST"), {
+      params: Promise.resolve({ id: "preset-1", revisionId: "rev-1" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(workspaces.resolvePresetAccess).toHaveBeenCalledWith("editor", "preset-1", "editor");
+    expect(revisions.restorePresetRevision).toHaveBeenCalledWith("author", "preset-1", "rev-1", "editor");
+  });
+
+  it("does not let viewers restore", async () => {
+    (workspaces.resolvePresetAccess as jest.Mock).mockRejectedValue(
+      new workspaces.WorkspaceError("This needs the editor role in the workspace.", 403)
+    );
+
+    const response = await restore(request("POST"), {
+      params: Promise.resolve({ id: "preset-1", revisionId: "rev-1" }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(revisions.restorePresetRevision).not.toHaveBeenCalled();
+  });
+});
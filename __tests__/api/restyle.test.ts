@@ -0,0 +1,172 @@
+const getUser = jest.fn();
+const loadPreset = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => {
+  const filter = { eq: () => filter, maybeSingle: () => loadPreset() };
+  return {
+    supabaseAdmin: {
+      auth: { getUser: (...args: unknown[]) => getUser(...args) },
+      from: () => ({ select: () => filter }),
+    },
+  };
+});
+
+jest.mock("../../src/middleware/planGate", () => {
+  const actual = jest.requireActual("../../src/middleware/planGate");
+  return { ...actual, resolvePlanContext: jest.fn(), shouldChargeCredits: () => true };
+});
+
+jest.mock("../../src/lib/analysis", () => ({
+  getAnalysis: jest.fn(),
+  saveAnalysis: jest.fn(),
+}));
+
+jest.mock("../../src/lib/analyzePipeline", () => ({
+  ...jest.requireActual("../../src/lib/analyzePipeline"),
+  resolvePremiumPlugins: jest.fn().mockResolvedValue({ premiumPlugins: [] }),
+}));
+
+jest.mock("../../src/lib/chainValidation", () => ({
+  ...jest.requireActual("../../src/lib/chainValidation"),
+  generateValidatedChain: jest.fn(),
+}));
+
+jest.mock("../../src/lib/creditLedger", () => ({
+  consumeCredit: jest.fn(),
+  refundCredit: jest.fn().mockResolvedValue(4),
+}));
+
+jest.mock("../../src/lib/presetRevisions", () => ({
+  recordPresetRevision: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { POST } from "../../src/app/api/restyle/route";
+import * as analyses from "../../src/lib/analysis";
+import * as chainValidation from "../../src/lib/chainValidation";
+import * as ledger from "../../src/lib/creditLedger";
+import { getPlan } from "../../src/lib/plans";
+import * as revisions from "../../src/lib/presetRevisions";
+import * as planGate from "../../src/middleware/planGate";
+
+const plugins = [{ name: "EQ Eight", type: "eq", settings: {}, comment: "" }];
+
+const analysis = {
+  id: "analysis-1",
+  daw: "Ableton Live",
+  clip_start: 0,
+  clip_end: 30,
+  duration: 30,
+  plugins,
+  features: {},
+};
+
+const generated = {
+  ok: true,
+  generation: { provider: "openai", model: "gpt", fallback: false },
+  summary: "Brighter and more upfront.",
+  plugins,
+  report: { valid: true, attempts: 1, violations: [] },
+};
+
+const restyle = (body: Record<string, unknown> = { analysisId: "analysis-1", stylePrompt: "brighter" }) =>
+  POST(
+    new NextRequest("http://localhost/api/restyle", {
+      method: "POST",
+      headers: { authorization: "Bearer token", "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({}) }
+  );
+
+const mocked = {
+  consumeCredit: ledger.consumeCredit as jest.Mock,
+  refundCredit: ledger.refundCredit as jest.Mock,
+  generateValidatedChain: chainValidation.generateValidatedChain as jest.Mock,
+  getAnalysis: analyses.getAnalysis as jest.Mock,
+  saveAnalysis: analyses.saveAnalysis as jest.Mock,
+  recordPresetRevision: revisions.recordPresetRevision as jest.Mock,
+};
+
+describe("POST /api/restyle credits", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(console, "info").mockImplementation(() => undefined);
+    getUser.mockResolvedValue({ data: { user: { id: "user-1", email: "a@b.c" } }, error: null });
+    (planGate.resolvePlanContext as jest.Mock).mockResolvedValue({
+      userId: "user-1",
+      profile: { id: "user-1", credits: 5, tier: "pro_29", updated_at: null },
+      plan: getPlan("pro_29"),
+    });
+    mocked.consumeCredit.mockResolvedValue(4);
+    mocked.getAnalysis.mockResolvedValue(analysis);
+    mocked.generateValidatedChain.mockResolvedValue(generated);
+    mocked.saveAnalysis.mockResolvedValue("analysis-2");
+  });
+
+  it("charges one credit and does not refund on success", async () => {
+    const response = await restyle();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ analysisId: "analysis-2", remainingCredits: 4 });
+    expect(mocked.consumeCredit).toHaveBeenCalledTimes(1);
+    expect(mocked.consumeCredit).toHaveBeenCalledWith("user-1", "restyle");
+    expect(mocked.refundCredit).not.toHaveBeenCalled();
+  });
+
+  it("does not run without a credit", async () => {
+    mocked.consumeCredit.mockResolvedValue(null);
+
+    const response = await restyle();
+
+    expect(response.status).toBe(402);
+    expect(mocked.generateValidatedChain).not.toHaveBeenCalled();
+    expect(mocked.refundCredit).not.toHaveBeenCalled();
+  });
+
+  it("refunds once when generation throws", async () => {
+    mocked.generateValidatedChain.mockRejectedValue(new Error("socket hang up"));
+
+    const response = await restyle();
+
+    expect(response.status).toBe(500);
+    expect(mocked.refundCredit).toHaveBeenCalledTimes(1);
+    expect(mocked.refundCredit).toHaveBeenCalledWith("user-1", "restyle_failed");
+  });
+
+  it("refunds once when the chain fails validation", async () => {
+    mocked.generateValidatedChain.mockResolvedValue({
+      ok: false,
+      generation: generated.generation,
+      error: "The model kept using plugins outside the catalog.",
+    });
+
+    const response = await restyle();
+
+    expect(response.status).toBe(502);
+    expect(mocked.refundCredit).toHaveBeenCalledTimes(1);
+  });
+
+  it("refunds once when the re-styled analysis is not saved", async () => {
+    mocked.saveAnalysis.mockResolvedValue(null);
+
+    const response = await restyle();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ error: "Unable to save the re-styled chain." });
+    expect(mocked.refundCredit).toHaveBeenCalledTimes(1);
+  });
+
+  it("refunds once when the preset revision is not recorded", async () => {
+    loadPreset.mockResolvedValue({ data: { ...analysis, id: "preset-1" }, error: null });
+    mocked.recordPresetRevision.mockRejectedValue(new Error("connection reset"));
+
+    const response = await restyle({ presetId: "preset-1", stylePrompt: "brighter" });
+
+    expect(response.status).toBe(500);
+    expect(mocked.recordPresetRevision).toHaveBeenCalledWith(
+      expect.objectContaining({ presetId: "preset-1", action: "restyle" })
+    );
+    expect(mocked.refundCredit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,4 +1,5 @@
 import { gunzipSync } from "zlib";
+import JSZip from "jszip";
 
 import {
   FlStudioFstSerializer,
@@ -6,8 +7,12 @@ import {
   LogicPatchSerializer,
   ProToolsPresetSerializer,
   StudioOnePresetSerializer,
+  CubaseVstPresetSerializer,
+  BitwigChainSerializer,
   StubZipSerializer,
   serializePreset,
+  serializeBundle,
+  resolveBundleSerializers,
   getExporterCoverage,
 } from "../../src/exporters";
 import type { PluginChain } from "../../src/exporters";
@@ -96,6 +101,60 @@ describe("native exporters", () => {
     expect(preset.data.subarray(0, 2).toString("utf-8")).toBe("PK");
   });
 
+  it("bundles Cubase track presets with VST3 preset containers", async () => {
+    const chain = buildChain({ daw: "Cubase", dawId: "cubase" });
+    const preset = await serializePreset(chain);
+
+    expect(preset.serializerId).toBe(CubaseVstPresetSerializer.id);
+    expect(preset.isNative).toBe(true);
+    expect(preset.mime).toBe("application/zip");
+
+    const zip = await JSZip.loadAsync(preset.data);
+    const vstPath = Object.keys(zip.files).find((path) => path.endsWith(".vstpreset"));
+    expect(vstPath).toBeDefined();
+    expect(zip.file("Track Presets/unit_test.trackpreset.xml")).not.toBeNull();
+
+    const vst = await zip.file(vstPath!)!.async("nodebuffer");
+    expect(vst.subarray(0, 4).toString("ascii")).toBe("VST3");
+    expect(vst.readInt32LE(4)).toBe(1);
+    expect(vst.subarray(8, 40).toString("ascii")).toMatch(/^[0-9A-F]{32}$/);
+    const listOffset = Number(vst.readBigInt64LE(40));
+    expect(vst.subarray(listOffset, listOffset + 4).toString("ascii")).toBe("List");
+    expect(vst.readInt32LE(listOffset + 4)).toBe(3);
+    expect(vst.subarray(listOffset + 8, listOffset + 12).toString("ascii")).toBe("Comp");
+  });
+
+  it("builds Bitwig device chains preferring CLAP identifiers", async () => {
+    const chain = buildChain({
+      daw: "Bitwig",
+      dawId: "bitwig",
+      plugins: [
+        {
+          name: "Pro-Q 3",
+          type: "Equalizer",
+          settings: { Gain: "+2dB" },
+          comment: "Air shelf",
+          identifiers: { clap: "com.fabfilter.pro-q.3", vst3: "FFPQ3" },
+        },
+        {
+          name: "Tone Comp",
+          type: "Compressor",
+          settings: {},
+          bypassed: true,
+          identifiers: { vst3: "ABCDEF" },
+        },
+      ],
+    });
+    const preset = await BitwigChainSerializer.serialize(chain);
+
+    expect(preset.serializerId).toBe("bitwig-chain");
+    expect(preset.isNative).toBe(true);
+    const xml = preset.data.toString("utf-8");
+    expect(xml).toContain('format="CLAP" id="com.fabfilter.pro-q.3" enabled="true"');
+    expect(xml).toContain('format="VST3" id="ABCDEF" enabled="false"');
+    expect(xml).toContain("<Remark>Air shelf</Remark>");
+  });
+
   it("falls back to stub exporter when DAW is unsupported", async () => {
     const chain = buildChain({ daw: "Unknown DAW", dawId: "unknown_daw" });
     const preset = await serializePreset(chain);
@@ -105,12 +164,38 @@ describe("native exporters", () => {
     expect(preset.filename.endsWith("stub.zip")).toBe(true);
   });
 
+  it("bundles every selected serializer with a manifest", async () => {
+    const chain = buildChain({ daw: "Reaper", dawId: "reaper" });
+    const serializers = resolveBundleSerializers(["Reaper", "ableton_live", "logic-patch"]);
+    expect(serializers.map((item) => item.id)).toEqual([
+      "reaper-rfx",
+      "ableton-adg",
+      "logic-patch",
+    ]);
+
+    const bundle = await serializeBundle(chain, serializers);
+    expect(bundle.mime).toBe("application/zip");
+
+    const zip = await JSZip.loadAsync(bundle.data);
+    const manifest = JSON.parse(await zip.file("manifest.json")!.async("string"));
+    expect(manifest.exports).toHaveLength(3);
+    for (const entry of manifest.exports) {
+      expect(entry.isNative).toBe(true);
+      expect(zip.file(entry.filename)).not.toBeNull();
+    }
+    expect(zip.file("chain.json")).not.toBeNull();
+  });
+
   it("reports coverage metadata", () => {
     const nativeCoverage = getExporterCoverage("FL Studio");
     expect(nativeCoverage.status).toBe("native");
     expect(nativeCoverage.serializerId).toBe("fl-studio-fst");
 
-    const manualCoverage = getExporterCoverage("Bitwig");
+    const nuendoCoverage = getExporterCoverage("Nuendo");
+    expect(nuendoCoverage.status).toBe("native");
+    expect(nuendoCoverage.serializerId).toBe("cubase-vstpreset");
+
+    const manualCoverage = getExporterCoverage("Reason");
     expect(manualCoverage.status).toBe("manual");
   });
 });
@@ -0,0 +1,53 @@
+import {
+  ReaperRfxSerializer,
+  buildPluginParameters,
+  parseParameterValue,
+  resolveParameterSchema,
+} from "../../src/exporters";
+
+describe("parameter schemas", () => {
+  it("parses unit strings into the schema's unit", () => {
+    expect(parseParameterValue("+3dB", "dB")).toBe(3);
+    expect(parseParameterValue("5kHz", "Hz")).toBe(5000);
+    expect(parseParameterValue("4:1", "ratio")).toBe(4);
+    expect(parseParameterValue("0.25 s", "ms")).toBe(250);
+    expect(parseParameterValue("80 ms", "s")).toBe(0.08);
+    expect(parseParameterValue("-inf", "dB")).toBe(Number.NEGATIVE_INFINITY);
+    expect(parseParameterValue("warm", "dB")).toBeNull();
+  });
+
+  it("clamps and normalizes settings against the plugin schema", () => {
+    const parameters = buildPluginParameters({
+      name: "Fruity Parametric EQ 2",
+      type: "Equalizer",
+      settings: { Gain: "+30dB", Frequency: "5kHz", Character: "airy" },
+    });
+
+    expect(parameters).toEqual([
+      expect.objectContaining({ id: "gain", label: "Gain", value: "18", normalized: 1, min: -18, max: 18, unit: "dB" }),
+      expect.objectContaining({ id: "frequency", label: "Frequency", value: "5000", unit: "Hz" }),
+    ]);
+    expect(parameters?.[1].normalized).toBeCloseTo(0.7993, 3);
+  });
+
+  it("resolves premium slugs and falls back to catalog types", () => {
+    expect(resolveParameterSchema({ name: "Pro-C 2", vendor: "FabFilter", type: "Compressor", settings: {} })?.[1]).toMatchObject({
+      id: "ratio",
+      max: 100,
+    });
+    expect(resolveParameterSchema({ name: "Mystery Verb", type: "Reverb", settings: {} })?.[0].id).toBe("decay");
+    expect(resolveParameterSchema({ name: "Mystery", type: "Utility", settings: {} })).toBeNull();
+  });
+
+  it("writes normalized values into Reaper chains", async () => {
+    const preset = await ReaperRfxSerializer.serialize({
+      daw: "Reaper",
+      dawId: "reaper",
+      plugins: [{ name: "ReaComp", type: "Compressor", settings: { Threshold: "-18dB", Ratio: "4:1" } }],
+    });
+    const xml = preset.data.toString("utf-8");
+
+    expect(xml).toContain('<PRESET_PARAM name="Threshold" value="-18dB" id="threshold" normalized="0.7" min="-60" max="0" unit="dB"/>');
+    expect(xml).toMatch(/<PRESET_PARAM name="Ratio" value="4:1" id="ratio" normalized="0\.\d+" min="1" max="100" unit="ratio"\/>/);
+  });
+});
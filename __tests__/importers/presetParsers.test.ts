@@ -0,0 +1,131 @@
+import {
+  ReaperRfxSerializer,
+  FlStudioFstSerializer,
+  AbletonAdgSerializer,
+  LogicPatchSerializer,
+  StudioOnePresetSerializer,
+} from "../../src/exporters";
+import type { PluginChain, PresetSerializer } from "../../src/exporters";
+import { parsePresetFile, PresetImportError } from "../../src/importers";
+
+const buildChain = (daw: string, dawId: string, names: [string, string]): PluginChain => ({
+  daw,
+  dawId,
+  summary: "Round trip & <friends>",
+  clipWindow: "00:00 → 00:15",
+  song: {
+    title: "Unit Test",
+    artist: "ToneTerminal",
+    album: null,
+    timecode: "0:10",
+  },
+  plugins: [
+    {
+      name: names[0],
+      type: "Equalizer",
+      settings: {
+        Gain: "+3dB",
+        Frequency: "5kHz",
+      },
+      comment: "Boost \"presence\"",
+    },
+    {
+      name: names[1],
+      type: "Compressor",
+      settings: {
+        Ratio: "4:1",
+      },
+      comment: null,
+    },
+  ],
+});
+
+const roundTrip = async (serializer: PresetSerializer, chain: PluginChain) => {
+  const preset = await serializer.serialize(chain);
+  return parsePresetFile(preset.data, preset.filename);
+};
+
+describe("preset importers", () => {
+  it("round-trips Reaper RFX chains", async () => {
+    const chain = buildChain("Reaper", "reaper", ["ReaEQ", "ReaComp"]);
+    const { chain: parsed, parserId } = await roundTrip(ReaperRfxSerializer, chain);
+
+    expect(parserId).toBe("reaper-rfx");
+    expect(parsed.summary).toBe(chain.summary);
+    expect(parsed.clipWindow).toBe(chain.clipWindow);
+    expect(parsed.song?.title).toBe("Unit Test");
+    expect(parsed.song?.timecode).toBe("0:10");
+    expect(parsed.plugins.map(({ name, type, settings, comment }) => ({ name, type, settings, comment }))).toEqual(
+      chain.plugins
+    );
+  });
+
+  it("reads Reaper's native chain text", async () => {
+    const text = [
+      "BYPASS 0 0 0",
+      '<VST "VST3: ReaEQ (Cockos)" reaeq.vst3 0 "" 1919247729{56535472656571726561657100000000} ""',
+      "  cWVlcu5e7f4CAAAAAQAAAAAAAAACAAAAAAAAAAIAAAABAAAAAAAAAAIAAAAAAAAAXAAAAAEAAAAAABAA",
+      ">",
+      "BYPASS 1 0 0",
+      '<JS "utility/saturation" ""',
+      "  0.5 - - -",
+      ">",
+    ].join("\n");
+    const { chain } = await parsePresetFile(Buffer.from(text), "vocal.RfxChain");
+
+    expect(chain.plugins).toHaveLength(2);
+    expect(chain.plugins[0]).toMatchObject({ name: "ReaEQ", vendor: "Cockos", type: "Equalizer", bypassed: false });
+    expect(chain.plugins[1]).toMatchObject({ name: "JS: Saturation", type: "Saturation", bypassed: true });
+  });
+
+  it("round-trips FL Studio FST files", async () => {
+    const chain = buildChain("FL Studio", "fl_studio", ["Fruity Parametric EQ 2", "Fruity Compressor"]);
+    const { chain: parsed } = await roundTrip(FlStudioFstSerializer, chain);
+
+    expect(parsed.summary).toBe(chain.summary);
+    expect(parsed.clipWindow).toBe(chain.clipWindow);
+    expect(parsed.plugins.map(({ name, type, settings, comment }) => ({ name, type, settings, comment }))).toEqual(
+      chain.plugins
+    );
+  });
+
+  it("round-trips Ableton device racks", async () => {
+    const chain = buildChain("Ableton Live", "ableton_live", ["EQ Eight", "Glue Compressor"]);
+    chain.plugins[1].bypassed = true;
+    const { chain: parsed } = await roundTrip(AbletonAdgSerializer, chain);
+
+    expect(parsed.summary).toBe(chain.summary);
+    expect(parsed.plugins.map((plugin) => plugin.name)).toEqual(["EQ Eight", "Glue Compressor"]);
+    expect(parsed.plugins[0].settings).toEqual(chain.plugins[0].settings);
+    expect(parsed.plugins[0].comment).toBe(chain.plugins[0].comment);
+    expect(parsed.plugins[1].type).toBe("Compressor");
+    expect(parsed.plugins[1].bypassed).toBe(true);
+  });
+
+  it("round-trips Logic channel strip patches", async () => {
+    const chain = buildChain("Logic Pro", "logic_pro", ["Channel EQ", "Compressor"]);
+    const { chain: parsed } = await roundTrip(LogicPatchSerializer, chain);
+
+    expect(parsed.clipWindow).toBe(chain.clipWindow);
+    expect(parsed.plugins.map(({ name, type, settings, comment }) => ({ name, type, settings, comment }))).toEqual(
+      chain.plugins
+    );
+  });
+
+  it("round-trips Studio One presets", async () => {
+    const chain = buildChain("Studio One", "studio_one", ["Pro EQ2", "Compressor"]);
+    const { chain: parsed } = await roundTrip(StudioOnePresetSerializer, chain);
+
+    expect(parsed.summary).toBe(chain.summary);
+    expect(parsed.song?.artist).toBe("ToneTerminal");
+    expect(parsed.plugins.map(({ name, type, settings, comment }) => ({ name, type, settings, comment }))).toEqual(
+      chain.plugins
+    );
+  });
+
+  it("rejects unsupported files", async () => {
+    await expect(parsePresetFile(Buffer.from("hello"), "notes.txt")).rejects.toBeInstanceOf(
+      PresetImportError
+    );
+  });
+});
@@ -0,0 +1,51 @@
+jest.mock("../../src/lib/pluginProfile", () => ({
+  getPluginProfile: jest.fn(),
+}));
+
+jest.mock("../../src/workers/metrics.worker", () => ({
+  extractMetrics: jest.fn(),
+  scanSections: jest.fn(),
+}));
+
+import { getPlan } from "../../src/lib/plans";
+import { getPluginProfile } from "../../src/lib/pluginProfile";
+import { buildChainSchema, validateChainOutput } from "../../src/lib/chainValidation";
+import { buildAllowedCatalog, resolvePremiumPlugins } from "../../src/lib/analyzePipeline";
+
+describe("buildAllowedCatalog", () => {
+  it("limits chains to the DAW catalog plus owned premium plugins", () => {
+    const { allowedPlugins } = buildAllowedCatalog("Ableton Live", ["antares_autotune_pro"]);
+    const names = allowedPlugins.map((plugin) => plugin.name);
+
+    expect(names).toEqual(expect.arrayContaining(["EQ Eight", "Auto-Tune Pro"]));
+    expect(names).not.toContain("Pro-Q 3");
+
+    const { report } = validateChainOutput(
+      {
+        plugins: [
+          { name: "Auto-Tune Pro", type: "Pitch", settings: { retune: "20 ms" } },
+          { name: "Pro-Q 3", type: "Equalizer", settings: { frequency: "200 Hz" } },
+        ],
+      },
+      buildChainSchema(allowedPlugins)
+    );
+    expect(report.plugins.map((plugin) => plugin.status)).toEqual(["valid", "rejected"]);
+  });
+});
+
+describe("resolvePremiumPlugins", () => {
+  it("prefers the saved plugin profile over the request", async () => {
+    (getPluginProfile as jest.Mock).mockResolvedValue({ plugins: ["fabfilter_pro_q_3"] });
+
+    await expect(
+      resolvePremiumPlugins("user-1", "ableton_live", getPlan("pro_29"), ["antares_autotune_pro"])
+    ).resolves.toEqual({ premiumPlugins: ["fabfilter_pro_q_3"], usedProfile: true });
+  });
+
+  it("ignores premium plugins on plans without premium inventory", async () => {
+    await expect(
+      resolvePremiumPlugins("user-1", "ableton_live", getPlan("free"), ["antares_autotune_pro"])
+    ).resolves.toEqual({ premiumPlugins: [], usedProfile: false });
+    expect(getPluginProfile).not.toHaveBeenCalled();
+  });
+});
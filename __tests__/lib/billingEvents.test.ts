@@ -0,0 +1,94 @@
+const rpc = jest.fn();
+const update = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    rpc: (...args: unknown[]) => rpc(...args),
+    from: () => ({
+      update: (values: unknown) => {
+        update(values);
+        return { eq: () => Promise.resolve({ error: null }) };
+      },
+    }),
+  },
+}));
+
+jest.mock("../../src/lib/profile", () => ({
+  findUserIdByStripeCustomer: jest.fn().mockResolvedValue(null),
+  getOrCreateProfile: jest.fn(),
+  setStripeCustomerId: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock("../../src/lib/creditLedger", () => ({
+  ...jest.requireActual("../../src/lib/creditLedger"),
+  startCreditPeriod: jest.fn().mockResolvedValue(null),
+}));
+
+import { readFileSync } from "fs";
+import path from "path";
+import type Stripe from "stripe";
+import * as ledger from "../../src/lib/creditLedger";
+import * as profiles from "../../src/lib/profile";
+import { hashPayload, processBillingEvent } from "../../src/lib/billingEvents";
+
+const raw = readFileSync(
+  path.join(__dirname, "..", "data", "stripe", "customer.subscription.deleted.json"),
+  "utf8"
+);
+const event = JSON.parse(raw) as Stripe.Event;
+
+describe("processBillingEvent", () => {
+  beforeEach(() => {
+    (profiles.getOrCreateProfile as jest.Mock).mockResolvedValue({
+      id: "8f14e45f-ceea-4672-9c1a-3f6e4b1d2a10",
+      tier: "pro_29",
+      credits: 12,
+      stripe_customer_id: "cus_Q1standard",
+    });
+  });
+
+  it("records what a new event changed", async () => {
+    rpc.mockResolvedValue({ data: [{ claimed: true, outcome: "processing" }], error: null });
+
+    const result = await processBillingEvent(event, hashPayload(raw));
+
+    expect(rpc).toHaveBeenCalledWith(
+      "claim_billing_event",
+      expect.objectContaining({ p_event_id: "evt_1PsubDeleted", p_payload_hash: hashPayload(raw) })
+    );
+    expect(ledger.startCreditPeriod).toHaveBeenCalledWith(
+      expect.objectContaining({ tier: "free", reason: "subscription_deleted" })
+    );
+    expect(result).toMatchObject({ duplicate: false, outcome: "processed" });
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: "processed",
+        user_id: "8f14e45f-ceea-4672-9c1a-3f6e4b1d2a10",
+        detail: "pro_29 -> free (subscription_deleted)",
+      })
+    );
+  });
+
+  it("skips deliveries that were already processed", async () => {
+    rpc.mockResolvedValue({ data: [{ claimed: false, outcome: "processed" }], error: null });
+
+    const result = await processBillingEvent(event, hashPayload(raw));
+
+    expect(result).toMatchObject({ duplicate: true, outcome: "processed" });
+    expect(ledger.startCreditPeriod).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("stores the error when applying the event fails", async () => {
+    rpc.mockResolvedValue({ data: [{ claimed: true, outcome: "processing" }], error: null });
+    (ledger.startCreditPeriod as jest.Mock).mockRejectedValueOnce(new Error("profiles locked"));
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const result = await processBillingEvent(event, hashPayload(raw));
+
+    expect(result).toMatchObject({ duplicate: false, outcome: "failed", error: "profiles locked" });
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: "failed", error: "profiles locked" })
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { diffPluginChains } from "../../src/lib/chainDiff";
+
+type Plugin = { name: string; settings: Record<string, string>; bypassed?: boolean };
+
+const before: Plugin[] = [
+  { name: "EQ Eight", settings: { frequency: "120 Hz", gain: "-3 dB" } },
+  { name: "Compressor", settings: { threshold: "-18 dB", ratio: "3:1" } },
+  { name: "Reverb", settings: { decay: "1.2 s", mix: "20%" } },
+];
+
+describe("diffPluginChains", () => {
+  it("reports added, removed, reordered and changed plugins", () => {
+    const diff = diffPluginChains(before, [
+      { name: "Compressor", settings: { threshold: "-22 dB", ratio: "3:1", attack: "10 ms" } },
+      { name: "Saturator", settings: { drive: "4 dB" } },
+      { name: "EQ Eight", settings: { frequency: "120 Hz", gain: "-3 dB" }, bypassed: true },
+    ]);
+
+    expect(diff.added).toEqual([{ index: 1, name: "Saturator" }]);
+    expect(diff.removed).toEqual([{ index: 2, name: "Reverb" }]);
+    expect(diff.reordered).toEqual([{ name: "EQ Eight", from: 0, to: 2 }]);
+    expect(diff.changed).toEqual([
+      {
+        name: "Compressor",
+        from: 1,
+        to: 0,
+        settings: [
+          { key: "threshold", from: "-18 dB", to: "-22 dB" },
+          { key: "attack", from: null, to: "10 ms" },
+        ],
+        bypassed: null,
+      },
+      { name: "EQ Eight", from: 0, to: 2, settings: [], bypassed: { from: false, to: true } },
+    ]);
+    expect(diff.identical).toBe(false);
+  });
+
+  it("does not count an insertion as a reorder", () => {
+    const diff = diffPluginChains(before, [
+      before[0],
+      { name: "De-Esser", settings: { frequency: "6 kHz" } },
+      before[1],
+      before[2],
+    ]);
+
+    expect(diff.added).toEqual([{ index: 1, name: "De-Esser" }]);
+    expect(diff.reordered).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diffPluginChains(before, before).identical).toBe(true);
+  });
+
+  it("reports only the moved plugin when one plugin moves to the end", () => {
+    const diff = diffPluginChains(before, [before[1], before[2], before[0]]);
+
+    expect(diff.reordered).toEqual([{ name: "EQ Eight", from: 0, to: 2 }]);
+    expect(diff.changed).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  clampSettingValue,
+  createCatalogPlugin,
+  findSettingSpec,
+  formatSettingValue,
+  parseEditedChain,
+} from "../../src/lib/chainEditor";
+
+describe("parseEditedChain", () => {
+  const isAllowed = (name: string) => ["Compressor", "EQ Eight"].includes(name);
+
+  it("writes slot indexes from array order and drops stored parameters", () => {
+    const { plugins, error } = parseEditedChain(
+      [
+        { name: "EQ Eight", type: "Equalizer", settings: { frequency: "200 Hz" }, slotIndex: 4 },
+        {
+          name: "Compressor",
+          type: "Compressor",
+          settings: { ratio: 4 },
+          bypassed: true,
+          parameters: [{ id: "ratio", value: 2 }],
+        },
+      ],
+      isAllowed
+    );
+
+    expect(error).toBeNull();
+    expect(plugins.map((plugin) => plugin.slotIndex)).toEqual([0, 1]);
+    expect(plugins[1]).toEqual({
+      name: "Compressor",
+      type: "Compressor",
+      settings: { ratio: "4" },
+      comment: null,
+      bypassed: true,
+      slotIndex: 1,
+    });
+  });
+
+  it("rejects plugins outside the allowed catalog", () => {
+    const { plugins, error } = parseEditedChain([{ name: "Pro-Q 3", settings: {} }], isAllowed);
+    expect(plugins).toEqual([]);
+    expect(error).toBe("Pro-Q 3 is not available for this DAW.");
+  });
+});
+
+describe("setting helpers", () => {
+  it("formats and clamps values in the spec's unit", () => {
+    const ratio = findSettingSpec({ name: "Compressor", type: "Compressor" }, "Ratio");
+    expect(ratio?.id).toBe("ratio");
+    expect(formatSettingValue(clampSettingValue(40, ratio!), ratio!.unit)).toBe("20:1");
+    expect(formatSettingValue(-12, "dB")).toBe("-12 dB");
+    expect(formatSettingValue(35, "%")).toBe("35%");
+  });
+
+  it("starts new catalog plugins in the middle of each range", () => {
+    const plugin = createCatalogPlugin({ name: "Compressor", type: "Compressor" });
+    expect(plugin.settings.Threshold).toBe("-30 dB");
+    expect(plugin.bypassed).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import pluginCatalog from "../../src/data/dawPlugins.json";
+import {
+  createPluginStreamParser,
+  generateChain,
+  resolveChainGenerator,
+  type ChainGenerationRequest,
+  type ChainGenerator,
+} from "../../src/lib/chainGenerator";
+import { TONAL_BAND_CENTERS_HZ, TONAL_REFERENCES } from "../../src/data/tonalReferences";
+import type { CatalogPlugin } from "../../src/lib/ruleBasedChain";
+import { compareMetrics } from "../../src/workers/metricDeltas";
+import type { Metrics } from "../../src/workers/metrics.worker";
+
+const catalog = pluginCatalog as Record<string, CatalogPlugin[]>;
+const NO_ISSUE = { events: 0, peak_hz: null, peak_level_db: null, severity: "none" as const };
+
+const metrics: Metrics = {
+  tempo_bpm: 90,
+  centroid_hz: 1800,
+  mfcc_mean: [],
+  pitch_dev_cents: 150,
+  rms_lufs: -16,
+  integrated_lufs: -16,
+  momentary_max_lufs: -10,
+  short_term_max_lufs: -12,
+  loudness_range_lu: 11,
+  true_peak_dbtp: -0.2,
+  sibilance: { events: 9, peak_hz: 6800, peak_level_db: -22, severity: "severe" },
+  plosives: { events: 3, peak_hz: 70, peak_level_db: -18, severity: "moderate" },
+  harshness: NO_ISSUE,
+  tonal_profile: [],
+  separation: { applied: false, method: null, vocal_ratio: null },
+  transient_density: "high",
+  spectral_rolloff_hz: 8000,
+  harmonic_to_noise_ratio: 0.6,
+  transcription: "",
+  formant_frequencies: [],
+};
+
+const request = (overrides: Partial<ChainGenerationRequest> = {}): ChainGenerationRequest => ({
+  task: "analyze",
+  systemPrompt: "system",
+  userMessages: ["user"],
+  catalog: catalog["Logic Pro"],
+  metrics,
+  ...overrides,
+});
+
+describe("chain generator", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.CHAIN_PROVIDER;
+    delete process.env.CHAIN_PROVIDER_FREE;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("falls back to the rule-based backend when no provider is configured", () => {
+    expect(resolveChainGenerator({ task: "analyze" }).id).toBe("rule_based");
+    process.env.CHAIN_PROVIDER = "openai_compatible";
+    expect(resolveChainGenerator({ task: "analyze" }).id).toBe("rule_based");
+  });
+
+  it("lets a plan override the default provider", () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    process.env.CHAIN_PROVIDER_FREE = "rule_based";
+    expect(resolveChainGenerator({ task: "analyze", planId: "free" }).id).toBe("rule_based");
+    expect(resolveChainGenerator({ task: "restyle", planId: "pro_29" })).toMatchObject({
+      id: "openai",
+      model: "gpt-4o-mini",
+    });
+  });
+
+  it("builds a deterministic, catalog-only chain from metrics", async () => {
+    const first = await generateChain(request());
+    const second = await generateChain(request());
+    expect(first.content).toBe(second.content);
+
+    const parsed = JSON.parse(first.content) as {
+      summary: string;
+      plugins: Array<{ name: string; settings: Record<string, string> }>;
+    };
+    const names = catalog["Logic Pro"].map((plugin) => plugin.name);
+    expect(parsed.plugins.every((plugin) => names.includes(plugin.name))).toBe(true);
+    expect(parsed.plugins.map((plugin) => plugin.name)).toEqual([
+      "Channel EQ",
+      "Pitch Correction",
+      "Compressor",
+      "Space Designer",
+      "Limiter",
+    ]);
+    expect(parsed.plugins[0].settings).toMatchObject({
+      "High-Pass": "110 Hz",
+      "Sibilance Cut": "-3.0 dB @ 6800 Hz",
+    });
+    expect(parsed.plugins[2].settings).toMatchObject({ Ratio: "4:1", Attack: "5 ms", Threshold: "-20 dB" });
+    expect(parsed.summary).toContain("-16.0 LUFS");
+  });
+
+  it("shapes the EQ against the requested tonal reference", async () => {
+    const dark = TONAL_REFERENCES.find((reference) => reference.id === "dark_rnb_vocal")!;
+    const tonalMetrics: Metrics = {
+      ...metrics,
+      tonal_profile: TONAL_BAND_CENTERS_HZ.map((center_hz, index) => ({
+        center_hz,
+        level_db: dark.curve[index],
+      })),
+    };
+    const eqSettings = async (tonalReference?: string) => {
+      const result = await generateChain(request({ metrics: tonalMetrics, tonalReference }));
+      return (JSON.parse(result.content) as { plugins: Array<{ settings: Record<string, string> }> })
+        .plugins[0].settings;
+    };
+
+    const closest = await eqSettings();
+    expect(closest["Cut Frequency"]).toBeUndefined();
+    expect(closest["Boost Frequency"]).toBeUndefined();
+
+    const bright = await eqSettings("bright_pop_vocal");
+    expect(bright["Boost Frequency"]).toMatch(/Hz$/);
+    expect(Number.parseInt(bright["Boost Frequency"], 10)).toBeGreaterThanOrEqual(5000);
+  });
+
+  it("matches the user vocal to the reference clip in A/B mode", async () => {
+    const flat = TONAL_BAND_CENTERS_HZ.map((center_hz) => ({ center_hz, level_db: 0 }));
+    const deltas = compareMetrics(
+      {
+        ...metrics,
+        integrated_lufs: -12,
+        loudness_range_lu: 4,
+        tonal_profile: flat.map((band) => (band.center_hz === 250 ? { ...band, level_db: -6 } : band)),
+      },
+      {
+        ...metrics,
+        tonal_profile: flat.map((band) => (band.center_hz === 5000 ? { ...band, level_db: -6 } : band)),
+      }
+    );
+
+    const result = await generateChain(request({ metricDeltas: deltas, tonalReference: "dark_rnb_vocal" }));
+    const parsed = JSON.parse(result.content) as {
+      summary: string;
+      plugins: Array<{ name: string; settings: Record<string, string>; comment: string }>;
+    };
+    const plugin = (name: string) => parsed.plugins.find((entry) => entry.name === name)!;
+
+    expect(plugin("Channel EQ").settings).toMatchObject({
+      "Cut Frequency": "250 Hz",
+      "Cut Gain": "-4.5 dB",
+      "Boost Frequency": "5000 Hz",
+      "Boost Gain": "+3.0 dB",
+    });
+    expect(plugin("Channel EQ").comment).toContain("the reference clip");
+    expect(plugin("Compressor").settings).toMatchObject({ Ratio: "4:1" });
+    expect(plugin("Limiter").settings).toMatchObject({ Gain: "+4.0 dB" });
+    expect(parsed.summary).toContain("reference clip");
+  });
+
+  it("uses the rule-based chain when the configured backend fails", async () => {
+    const failing: ChainGenerator = {
+      id: "openai",
+      model: "gpt-test",
+      generate: jest.fn().mockRejectedValue(new Error("offline")),
+    };
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const result = await generateChain(request(), { generator: failing });
+    warn.mockRestore();
+
+    expect(result).toMatchObject({ provider: "rule_based", model: null, fallback: true });
+    expect(JSON.parse(result.content).plugins.length).toBeGreaterThan(0);
+  });
+
+  it("restyles an existing chain from style keywords offline", async () => {
+    const result = await generateChain(
+      request({
+        task: "restyle",
+        existingChain: [
+          { name: "ReaComp", type: "Compressor", settings: { Ratio: "3:1" } },
+          { name: "ReaVerbate", type: "Reverb", settings: { Mix: "12%" }, comment: "Room." },
+        ],
+        stylePrompt: "make it punchy and more spacious",
+      })
+    );
+    const { plugins } = JSON.parse(result.content);
+
+    expect(plugins[0].settings.Ratio).toBe("4:1");
+    expect(plugins[1].settings.Mix).toBe("22%");
+    expect(plugins[1].comment).toMatch(/^Room\. Restyled offline/);
+  });
+
+  it("emits complete plugin objects while the response is still streaming", () => {
+    const plugins: unknown[] = [];
+    const push = createPluginStreamParser((plugin) => plugins.push(plugin));
+    const content = JSON.stringify({
+      summary: 'Uses "plugins": [ loosely',
+      plugins: [
+        { name: "Channel EQ", settings: { "High-Pass": "80 Hz" }, comment: "Cut {mud}." },
+        { name: "Compressor", settings: { Ratio: "3:1" } },
+      ],
+    });
+
+    push(content.slice(0, content.indexOf("Compressor")));
+    expect(plugins).toHaveLength(1);
+    push(content.slice(content.indexOf("Compressor")));
+    expect(plugins).toEqual(JSON.parse(content).plugins);
+  });
+});
@@ -0,0 +1,75 @@
+import { translateChain } from "../../src/lib/chainTranslation";
+import type { PluginChain } from "../../src/exporters";
+
+const flChain: PluginChain = {
+  daw: "FL Studio",
+  dawId: "fl_studio",
+  summary: "Bright vocal",
+  plugins: [
+    {
+      name: "Fruity Parametric EQ 2",
+      type: "Equalizer",
+      settings: { freq: "5kHz", gain: "+3dB", Q: "0.7" },
+    },
+    {
+      name: "Maximus",
+      type: "Dynamics",
+      settings: { Ceiling: "-1dB", Thresh: "-6dB" },
+      identifiers: { vst3: "FL-MAXIMUS" },
+    },
+    {
+      name: "Pro-Q 3",
+      type: "Equalizer",
+      vendor: "FabFilter",
+      settings: { "Band 1": "High shelf" },
+    },
+  ],
+};
+
+describe("translateChain", () => {
+  it("swaps stock plugins for the target DAW's equivalents and maps setting keys", () => {
+    const { chain, changes } = translateChain(flChain, "logic_pro");
+
+    expect(chain.daw).toBe("Logic Pro");
+    expect(chain.dawId).toBe("logic_pro");
+    expect(chain.plugins.map((plugin) => plugin.name)).toEqual(["Channel EQ", "Limiter", "Pro-Q 3"]);
+    expect(chain.plugins[0].settings).toEqual({ Frequency: "5kHz", Gain: "+3dB", Q: "0.7" });
+    expect(chain.plugins[1].settings).toEqual({ "Output Level": "-1dB", Threshold: "-6dB" });
+    expect(chain.plugins[1].identifiers).toBeNull();
+    expect(chain.plugins[1].comment).toContain("Translated from Maximus");
+    expect(chain.plugins[2]).toBe(flChain.plugins[2]);
+    expect(changes).toEqual([
+      { from: "Fruity Parametric EQ 2", to: "Channel EQ", type: "Equalizer", translated: true },
+      { from: "Maximus", to: "Limiter", type: "Limiter", translated: true },
+    ]);
+  });
+
+  it("falls back to the nearest catalog type when the target lacks an exact match", () => {
+    const { chain } = translateChain(
+      {
+        daw: "Pro Tools",
+        dawId: "pro_tools",
+        plugins: [{ name: "SansAmp PSA-1", type: "Saturation", settings: { Drive: "40%" } }],
+      },
+      "logic_pro"
+    );
+    expect(chain.plugins[0].name).toBe("SansAmp PSA-1");
+
+    const limited = translateChain(
+      {
+        daw: "Logic Pro",
+        dawId: "logic_pro",
+        plugins: [{ name: "Limiter", type: "Limiter", settings: {} }],
+      },
+      "fl_studio"
+    );
+    expect(limited.chain.plugins[0].name).toBe("Maximus");
+  });
+
+  it("reports stock plugins as untranslated when the target DAW has no catalog", () => {
+    const { chain, changes } = translateChain(flChain, "cubase");
+    expect(chain.daw).toBe("Cubase");
+    expect(chain.plugins.map((plugin) => plugin.name)).toEqual(["Fruity Parametric EQ 2", "Maximus", "Pro-Q 3"]);
+    expect(changes.every((change) => !change.translated)).toBe(true);
+  });
+});
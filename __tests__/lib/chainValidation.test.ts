@@ -0,0 +1,78 @@
+import pluginCatalog from "../../src/data/dawPlugins.json";
+import type { ChainGenerator } from "../../src/lib/chainGenerator";
+import {
+  buildChainSchema,
+  generateValidatedChain,
+  validateChainOutput,
+} from "../../src/lib/chainValidation";
+import { buildRuleBasedChain, type CatalogPlugin } from "../../src/lib/ruleBasedChain";
+
+const catalog = pluginCatalog as Record<string, CatalogPlugin[]>;
+const schema = buildChainSchema(catalog["Logic Pro"]);
+
+const compressor = {
+  name: "Compressor",
+  type: "Compressor",
+  settings: { Threshold: "-18 dB", Ratio: "3:1", Attack: "10 ms", Release: "120 ms" },
+  comment: "",
+};
+
+describe("chain validation", () => {
+  it("rejects unknown plugins instead of substituting them", () => {
+    const { plugins, report } = validateChainOutput(
+      { summary: "ok", plugins: [compressor, { name: "FabFilter Pro-Q 3", type: "Equalizer", settings: {} }] },
+      schema
+    );
+
+    expect(plugins.map((plugin) => plugin.name)).toEqual(["Compressor"]);
+    expect(report.valid).toBe(false);
+    expect(report.plugins[1]).toMatchObject({ name: "FabFilter Pro-Q 3", status: "rejected" });
+  });
+
+  it("flags missing required settings and warns on out-of-range values", () => {
+    const { report } = validateChainOutput(
+      {
+        plugins: [
+          { name: "Compressor", type: "Compressor", settings: { Threshold: "-18 dB", Ratio: "90:1" } },
+          { name: "Channel EQ", type: "Equalizer", settings: { "High-Pass": "90 Hz" } },
+        ],
+      },
+      schema
+    );
+
+    expect(report.plugins[0].status).toBe("invalid");
+    expect(report.plugins[0].errors).toEqual([
+      "Missing required setting Attack.",
+      "Missing required setting Release.",
+    ]);
+    expect(report.plugins[0].warnings[0]).toMatch(/Ratio 90:1 is outside/);
+    expect(report.plugins[1].status).toBe("valid");
+  });
+
+  it("accepts the rule-based chain for every catalog", () => {
+    for (const plugins of Object.values(catalog)) {
+      const chain = buildRuleBasedChain(plugins, null);
+      expect(validateChainOutput(chain, buildChainSchema(plugins)).report.violations).toEqual([]);
+    }
+  });
+
+  it("sends violations back for a bounded repair retry", async () => {
+    const responses = [
+      JSON.stringify({ summary: "", plugins: [{ name: "Pro-Q 3", type: "Equalizer", settings: {} }] }),
+      JSON.stringify({ summary: "fixed", plugins: [compressor] }),
+    ];
+    const generate = jest.fn(async () => responses.shift() ?? "");
+    const generator: ChainGenerator = { id: "openai", model: "test", generate };
+
+    const result = await generateValidatedChain(
+      { task: "analyze", systemPrompt: "system", userMessages: ["user"], catalog: catalog["Logic Pro"] },
+      schema,
+      { generator }
+    );
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    const repairRequest = (generate.mock.calls[1] as unknown[])[0] as { userMessages: string[] };
+    expect(repairRequest.userMessages[1]).toContain('"Pro-Q 3" is not in the allowed catalog.');
+    expect(result.ok && result.report).toMatchObject({ valid: true, attempts: 2 });
+  });
+});
@@ -0,0 +1,84 @@
+const rpc = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: { rpc: (...args: unknown[]) => rpc(...args) },
+}));
+
+import type Stripe from "stripe";
+import {
+  calendarMonthPeriod,
+  resetCreditsIfDue,
+  subscriptionPeriod,
+} from "../../src/lib/creditLedger";
+import type { Profile } from "../../src/lib/profile";
+
+const profile = (overrides: Partial<Profile>): Profile => ({
+  id: "user-1",
+  credits: 0,
+  tier: "free",
+  updated_at: null,
+  ...overrides,
+});
+
+describe("credit periods", () => {
+  it("spans the current UTC calendar month", () => {
+    const period = calendarMonthPeriod(new Date("2025-12-17T23:30:00Z"));
+    expect(period.start.toISOString()).toBe("2025-12-01T00:00:00.000Z");
+    expect(period.end.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("reads the billing period from subscription items or the legacy fields", () => {
+    const itemLevel = {
+      items: { data: [{ current_period_start: 1_700_000_000, current_period_end: 1_702_592_000 }] },
+    } as unknown as Stripe.Subscription;
+    const legacy = {
+      current_period_start: 1_700_000_000,
+      current_period_end: 1_702_592_000,
+      items: { data: [] },
+    } as unknown as Stripe.Subscription;
+
+    expect(subscriptionPeriod(itemLevel)?.end.getTime()).toBe(1_702_592_000_000);
+    expect(subscriptionPeriod(legacy)?.start.getTime()).toBe(1_700_000_000_000);
+    expect(subscriptionPeriod({ items: { data: [] } } as unknown as Stripe.Subscription)).toBeNull();
+  });
+});
+
+describe("resetCreditsIfDue", () => {
+  const now = new Date("2025-06-10T12:00:00Z");
+
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it("leaves paid plans and unexpired free periods alone", async () => {
+    const paid = profile({ tier: "pro_29", credits_period_end: "2025-05-01T00:00:00Z" });
+    const current = profile({ credits_period_end: "2025-07-01T00:00:00Z" });
+
+    await expect(resetCreditsIfDue(paid, now)).resolves.toBe(paid);
+    await expect(resetCreditsIfDue(current, now)).resolves.toBe(current);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("starts a new month once the free period has ended", async () => {
+    rpc.mockResolvedValue({
+      data: [{ id: "user-1", credits: 3, tier: "free", credits_period_end: "2025-07-01T00:00:00.000Z" }],
+      error: null,
+    });
+
+    const updated = await resetCreditsIfDue(
+      profile({ credits_period_end: "2025-06-01T00:00:00Z" }),
+      now
+    );
+
+    expect(rpc).toHaveBeenCalledWith(
+      "start_credit_period",
+      expect.objectContaining({
+        p_credits: 3,
+        p_kind: "reset",
+        p_period_start: "2025-06-01T00:00:00.000Z",
+        p_force: false,
+      })
+    );
+    expect(updated.credits).toBe(3);
+  });
+});
@@ -0,0 +1,63 @@
+jest.mock("../../src/lib/supabaseAdmin", () => ({ supabaseAdmin: undefined }));
+
+import { createShareToken, isShareActive, toSharedChain } from "../../src/lib/presetShares";
+
+describe("isShareActive", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+
+  it("rejects revoked and expired links", () => {
+    expect(isShareActive({ expires_at: null, revoked_at: "2026-02-01T00:00:00Z" }, now)).toBe(false);
+    expect(isShareActive({ expires_at: "2026-03-01T11:59:59Z", revoked_at: null }, now)).toBe(false);
+  });
+
+  it("accepts links without an expiry or with one in the future", () => {
+    expect(isShareActive({ expires_at: null, revoked_at: null }, now)).toBe(true);
+    expect(isShareActive({ expires_at: "2026-03-08T12:00:00Z", revoked_at: null }, now)).toBe(true);
+  });
+});
+
+describe("toSharedChain", () => {
+  it("exposes the chain and public metrics but not private notes or tags", () => {
+    const chain = toSharedChain(
+      {
+        id: "preset-1",
+        user_id: "owner-1",
+        daw: "Ableton Live",
+        plugins: [{ name: "EQ Eight", type: "Equalizer", settings: {} }],
+        tags: ["client-x"],
+        folder_id: "folder-1",
+        clip_start: 12,
+        clip_end: 27,
+        created_at: "2026-02-01T00:00:00Z",
+        features: {
+          ai_summary: "Bright pop vocal.",
+          user_notes: "Client hates this mix",
+          transcription: "private lyrics",
+          tempo_bpm: 120,
+          integrated_lufs: -14.2,
+          transient_density: "high",
+          detected_song: { title: "Song", artist: "Artist", timecode: null },
+        },
+      },
+      { expires_at: null }
+    );
+
+    expect(chain).toEqual({
+      daw: "Ableton Live",
+      plugins: [{ name: "EQ Eight", type: "Equalizer", settings: {} }],
+      summary: "Bright pop vocal.",
+      song: { title: "Song", artist: "Artist", timecode: null },
+      metrics: { tempo_bpm: 120, integrated_lufs: -14.2, transient_density: "high" },
+      clipStart: 12,
+      clipEnd: 27,
+      createdAt: "2026-02-01T00:00:00Z",
+      expiresAt: null,
+    });
+  });
+});
+
+describe("createShareToken", () => {
+  it("creates URL-safe tokens", () => {
+    expect(createShareToken()).toMatch(/^[\w-]{24}$/);
+  });
+});
@@ -0,0 +1,30 @@
+import { eventStreamResponse, readEventStream } from "../../src/lib/sse";
+
+describe("event stream", () => {
+  it("round-trips events sent by the producer", async () => {
+    const response = eventStreamResponse(async (send) => {
+      send("stage", { stage: "extracting_metrics" });
+      send("complete", { plugins: [{ name: "Compressor" }] });
+    });
+    const events: Array<[string, unknown]> = [];
+    await readEventStream(response, (event, data) => events.push([event, data]));
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(events).toEqual([
+      ["stage", { stage: "extracting_metrics" }],
+      ["complete", { plugins: [{ name: "Compressor" }] }],
+    ]);
+  });
+
+  it("reports producer failures as an error event", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const response = eventStreamResponse(async () => {
+      throw new Error("boom");
+    });
+    const events: string[] = [];
+    await readEventStream(response, (event) => events.push(event));
+    error.mockRestore();
+
+    expect(events).toEqual(["error"]);
+  });
+});
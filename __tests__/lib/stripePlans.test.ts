@@ -0,0 +1,109 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type Stripe from "stripe";
+import {
+  creditsForPlanChange,
+  loadPricePlanMap,
+  planChangeReason,
+  resolveBillingEvent,
+} from "../../src/lib/stripePlans";
+
+const fixture = (name: string) =>
+  JSON.parse(
+    readFileSync(path.join(__dirname, "..", "data", "stripe", `${name}.json`), "utf8")
+  ) as Stripe.Event;
+
+const priceMap = loadPricePlanMap({
+  STRIPE_PRICE_ID: "price_standard_monthly",
+  STRIPE_PRO_PRICE_ID: "price_pro_monthly",
+  STRIPE_PRICE_PLAN_MAP: "price_standard_annual=standard_15, price_bogus=enterprise",
+});
+
+const USER_ID = "8f14e45f-ceea-4672-9c1a-3f6e4b1d2a10";
+
+describe("loadPricePlanMap", () => {
+  it("maps checkout prices and extra prices to paid plans only", () => {
+    expect(priceMap.get("price_standard_monthly")).toBe("standard_15");
+    expect(priceMap.get("price_pro_monthly")).toBe("pro_29");
+    expect(priceMap.get("price_standard_annual")).toBe("standard_15");
+    expect(priceMap.has("price_bogus")).toBe(false);
+  });
+});
+
+describe("resolveBillingEvent", () => {
+  it("only links the customer when checkout completes", () => {
+    expect(resolveBillingEvent(fixture("checkout.session.completed"), priceMap)).toEqual({
+      userId: USER_ID,
+      customerId: "cus_Q1standard",
+      action: { kind: "link" },
+    });
+  });
+
+  it("activates the plan that matches the subscribed price", () => {
+    const created = resolveBillingEvent(fixture("customer.subscription.created.standard"), priceMap);
+    expect(created?.action).toEqual({
+      kind: "activate",
+      planId: "standard_15",
+      period: { start: new Date(1717200000 * 1000), end: new Date(1719792000 * 1000) },
+      reason: "subscription_started",
+    });
+
+    const upgraded = resolveBillingEvent(fixture("customer.subscription.updated.upgrade"), priceMap);
+    expect(upgraded?.action).toMatchObject({ kind: "activate", planId: "pro_29" });
+  });
+
+  it("falls back to the checkout plan when the price is not mapped", () => {
+    const resolution = resolveBillingEvent(
+      fixture("customer.subscription.created.standard"),
+      loadPricePlanMap({})
+    );
+    expect(resolution?.action).toMatchObject({ kind: "activate", planId: "standard_15" });
+  });
+
+  it("keeps the plan while a payment is past due", () => {
+    const resolution = resolveBillingEvent(fixture("customer.subscription.updated.past_due"), priceMap);
+    expect(resolution?.action).toEqual({ kind: "grace", status: "past_due" });
+  });
+
+  it("renews from the paid invoice's subscription line", () => {
+    const resolution = resolveBillingEvent(fixture("invoice.paid.renewal"), priceMap);
+    expect(resolution).toEqual({
+      userId: USER_ID,
+      customerId: "cus_Q1standard",
+      action: {
+        kind: "activate",
+        planId: "pro_29",
+        period: { start: new Date(1719792000 * 1000), end: new Date(1722470400 * 1000) },
+        reason: "subscription_renewal",
+      },
+    });
+  });
+
+  it("cancels to free when the subscription is deleted", () => {
+    const resolution = resolveBillingEvent(fixture("customer.subscription.deleted"), priceMap);
+    expect(resolution?.action).toEqual({ kind: "cancel", reason: "subscription_deleted" });
+  });
+});
+
+describe("plan changes", () => {
+  const period = { start: new Date("2024-06-01T00:00:00Z"), end: new Date("2024-07-01T00:00:00Z") };
+
+  it("carries usage across a mid-period upgrade or downgrade", () => {
+    const standard = { tier: "standard_15", credits: 25, credits_period_start: "2024-06-01T00:00:00Z" };
+    expect(creditsForPlanChange(standard, "pro_29", period)).toBe(55);
+
+    const pro = { tier: "pro_29", credits: 10, credits_period_start: "2024-06-01T00:00:00Z" };
+    expect(creditsForPlanChange(pro, "standard_15", period)).toBe(0);
+  });
+
+  it("grants the full allowance for a new period", () => {
+    const profile = { tier: "pro_29", credits: 2, credits_period_start: "2024-05-01T00:00:00Z" };
+    expect(creditsForPlanChange(profile, "pro_29", period)).toBe(60);
+  });
+
+  it("labels upgrades and downgrades", () => {
+    expect(planChangeReason("standard_15", "pro_29")).toBe("plan_upgraded");
+    expect(planChangeReason("pro_29", "standard_15")).toBe("plan_downgraded");
+    expect(planChangeReason("pro_29", "pro_29")).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+// Just enough of the query builder for the lookups and single-row writes in workspaces.ts.
+const query = (table: string) => {
+  const filters: [string, unknown][] = [];
+  let write: { kind: "update"; values: Row } | { kind: "delete" } | null = null;
+  const matches = () =>
+    (tables[table] ?? []).filter((row) => filters.every(([column, value]) => row[column] === value));
+  const run = () => {
+    const rows = matches();
+    if (write?.kind === "delete") {
+      tables[table] = (tables[table] ?? []).filter((row) => !rows.includes(row));
+    } else if (write?.kind === "update") {
+      rows.forEach((row) => Object.assign(row, (write as { values: Row }).values));
+    }
+    return rows;
+  };
+
+  const builder = {
+    select: () => builder,
+    update: (values: Row) => {
+      write = { kind: "update", values };
+      return builder;
+    },
+    delete: () => {
+      write = { kind: "delete" };
+      return builder;
+    },
+    eq: (column: string, value: unknown) => {
+      filters.push([column, value]);
+      return builder;
+    },
+    maybeSingle: () => Promise.resolve({ data: run()[0] ?? null, error: null }),
+    then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+      Promise.resolve({ data: run(), error: null }).then(resolve),
+  };
+  return builder;
+};
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: { from: (table: string) => query(table) },
+}));
+
+import {
+  hasWorkspaceRole,
+  isWorkspaceRole,
+  removeWorkspaceMember,
+  resolveFolderAccess,
+  resolvePresetAccess,
+  updateWorkspaceMemberRole,
+} from "../../src/lib/workspaces";
+
+const seed = () => {
+  tables.workspaces = [{ id: "ws-1", name: "Vocal Team", owner_id: "owner", created_at: "2026-01-01" }];
+  tables.workspace_members = [
+    { workspace_id: "ws-1", user_id: "owner", email: "owner@studio.test", role: "admin" },
+    { workspace_id: "ws-1", user_id: "editor", email: "editor@studio.test", role: "editor" },
+    { workspace_id: "ws-1", user_id: "viewer", email: "viewer@studio.test", role: "viewer" },
+  ];
+  tables.analysis_presets = [
+    { id: "personal-preset", user_id: "owner", workspace_id: null },
+    { id: "team-preset", user_id: "owner", workspace_id: "ws-1" },
+  ];
+  tables.analysis_folders = [{ id: "team-folder", user_id: "owner", workspace_id: "ws-1" }];
+};
+
+describe("isWorkspaceRole", () => {
+  it("accepts only the known roles", () => {
+    expect(isWorkspaceRole("viewer")).toBe(true);
+    expect(isWorkspaceRole("admin")).toBe(true);
+    expect(isWorkspaceRole("owner")).toBe(false);
+    expect(isWorkspaceRole(null)).toBe(false);
+  });
+});
+
+describe("hasWorkspaceRole", () => {
+  it("lets higher roles do what lower roles can", () => {
+    expect(hasWorkspaceRole("admin", "editor")).toBe(true);
+    expect(hasWorkspaceRole("editor", "editor")).toBe(true);
+    expect(hasWorkspaceRole("editor", "admin")).toBe(false);
+    expect(hasWorkspaceRole("viewer", "editor")).toBe(false);
+  });
+});
+
+describe("library access", () => {
+  beforeEach(seed);
+
+  it("keeps personal chains private to their owner", async () => {
+    await expect(resolvePresetAccess("owner", "personal-preset", "editor")).resolves.toMatchObject({
+      user_id: "owner",
+      workspace_id: null,
+    });
+    await expect(resolvePresetAccess("editor", "personal-preset", "viewer")).rejects.toMatchObject({
+      status: 404,
+      message: "Preset not found.",
+    });
+  });
+
+  it("hides workspace items from non-members and unknown IDs", async () => {
+    await expect(resolvePresetAccess("stranger", "team-preset", "viewer")).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(resolveFolderAccess("stranger", "team-folder", "viewer")).rejects.toMatchObject({
+      status: 404,
+      message: "Folder not found.",
+    });
+    await expect(resolveFolderAccess("owner", "missing-folder", "viewer")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("checks the member's role against the one required", async () => {
+    await expect(resolvePresetAccess("viewer", "team-preset", "viewer")).resolves.toMatchObject({
+      workspace_id: "ws-1",
+    });
+    await expect(resolvePresetAccess("viewer", "team-preset", "editor")).rejects.toMatchObject({
+      status: 403,
+    });
+    await expect(resolveFolderAccess("editor", "team-folder", "editor")).resolves.toMatchObject({
+      id: "team-folder",
+    });
+    await expect(resolveFolderAccess("editor", "team-folder", "admin")).rejects.toMatchObject({
+      status: 403,
+    });
+  });
+});
+
+describe("member management", () => {
+  beforeEach(seed);
+
+  it("keeps the owner an admin", async () => {
+    await expect(updateWorkspaceMemberRole("ws-1", "owner", "viewer")).rejects.toMatchObject({
+      status: 409,
+    });
+    expect(tables.workspace_members[0].role).toBe("admin");
+
+    await expect(updateWorkspaceMemberRole("ws-1", "viewer", "editor")).resolves.toMatchObject({
+      user_id: "viewer",
+      role: "editor",
+    });
+  });
+
+  it("does not let the owner leave or be removed", async () => {
+    await expect(removeWorkspaceMember("ws-1", "owner")).rejects.toMatchObject({ status: 409 });
+    expect(tables.workspace_members).toHaveLength(3);
+
+    await removeWorkspaceMember("ws-1", "editor");
+    expect(tables.workspace_members.map((member) => member.user_id)).toEqual(["owner", "viewer"]);
+    await expect(removeWorkspaceMember("ws-1", "editor")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("reports a missing workspace", async () => {
+    await expect(updateWorkspaceMemberRole("ws-2", "editor", "admin")).rejects.toMatchObject({
+      status: 404,
+      message: "Workspace not found.",
+    });
+  });
+});
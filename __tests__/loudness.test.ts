@@ -0,0 +1,94 @@
+import { measureLoudness } from "../src/workers/loudness";
+
+const SAMPLE_RATE = 48000;
+
+const sine = (dbfs: number, seconds: number, frequency = 1000, phase = 0): Float32Array => {
+  const amplitude = 10 ** (dbfs / 20);
+  return Float32Array.from(
+    { length: Math.round(SAMPLE_RATE * seconds) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase)
+  );
+};
+
+const concat = (...parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// Deterministic pink noise (Paul Kellet's filter over a seeded LCG).
+const pinkNoise = (seconds: number, gain = 1): Float32Array => {
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0xffffffff - 0.5;
+  };
+  const b = [0, 0, 0, 0, 0, 0, 0];
+  return Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, () => {
+    const white = random();
+    b[0] = 0.99886 * b[0] + white * 0.0555179;
+    b[1] = 0.99332 * b[1] + white * 0.0750759;
+    b[2] = 0.969 * b[2] + white * 0.153852;
+    b[3] = 0.8665 * b[3] + white * 0.3104856;
+    b[4] = 0.55 * b[4] + white * 0.5329522;
+    b[5] = -0.7616 * b[5] - white * 0.016898;
+    const pink = b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362;
+    b[6] = white * 0.115926;
+    return pink * 0.2 * gain;
+  });
+};
+
+describe("BS.1770 loudness", () => {
+  it("reads a stereo 1 kHz sine at -23 dBFS as -23 LUFS", () => {
+    const tone = sine(-23, 5);
+    const metrics = measureLoudness([tone, tone], SAMPLE_RATE);
+
+    expect(metrics.integrated_lufs).toBeCloseTo(-23, 1);
+    expect(metrics.momentary_max_lufs).toBeCloseTo(-23, 1);
+    expect(metrics.short_term_max_lufs).toBeCloseTo(-23, 1);
+    expect(metrics.loudness_range_lu).toBe(0);
+  });
+
+  it("gates quiet passages out of the integrated loudness", () => {
+    const program = concat(sine(-36, 3), sine(-20, 20), sine(-36, 3));
+    const metrics = measureLoudness([program], SAMPLE_RATE);
+
+    // Mono carries no second channel, so the same tone reads 3 LU lower.
+    expect(Math.abs(metrics.integrated_lufs + 23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it("measures a 10 LU loudness range between two steady sections", () => {
+    const program = concat(sine(-20, 10), sine(-30, 10));
+    const metrics = measureLoudness([program], SAMPLE_RATE);
+
+    expect(metrics.loudness_range_lu).toBeGreaterThanOrEqual(9);
+    expect(metrics.loudness_range_lu).toBeLessThanOrEqual(11);
+  });
+
+  it("finds inter-sample peaks with 4x oversampling", () => {
+    const tone = sine(0, 1, SAMPLE_RATE / 4, Math.PI / 4);
+    const metrics = measureLoudness([tone], SAMPLE_RATE);
+
+    expect(metrics.sample_peak_dbfs).toBeCloseTo(-3.01, 1);
+    expect(Math.abs(metrics.true_peak_dbtp)).toBeLessThan(0.2);
+  });
+
+  it("tracks pink noise level changes exactly and keeps its range narrow", () => {
+    const loud = measureLoudness([pinkNoise(6)], SAMPLE_RATE);
+    const quiet = measureLoudness([pinkNoise(6, 10 ** (-10 / 20))], SAMPLE_RATE);
+
+    expect(loud.integrated_lufs - quiet.integrated_lufs).toBeCloseTo(10, 1);
+    expect(loud.loudness_range_lu).toBeLessThan(1);
+    expect(loud.true_peak_dbtp).toBeGreaterThanOrEqual(loud.sample_peak_dbfs);
+  });
+
+  it("floors silence instead of returning -Infinity", () => {
+    const metrics = measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE);
+    expect(metrics.integrated_lufs).toBe(-70);
+    expect(metrics.true_peak_dbtp).toBe(-120);
+  });
+});
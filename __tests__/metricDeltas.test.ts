@@ -0,0 +1,64 @@
+import type { Metrics } from "../src/workers/metrics.worker";
+import { compareMetrics } from "../src/workers/metricDeltas";
+
+const EMPTY_ISSUE = { events: 0, peak_hz: null, peak_level_db: null, severity: "none" as const };
+
+const metrics = (overrides: Partial<Metrics>): Metrics => ({
+  tempo_bpm: 120,
+  centroid_hz: 1500,
+  mfcc_mean: [],
+  pitch_dev_cents: 20,
+  rms_lufs: -18,
+  integrated_lufs: -18,
+  momentary_max_lufs: -14,
+  short_term_max_lufs: -16,
+  loudness_range_lu: 6,
+  true_peak_dbtp: -1,
+  sibilance: EMPTY_ISSUE,
+  plosives: EMPTY_ISSUE,
+  harshness: EMPTY_ISSUE,
+  tonal_profile: [],
+  separation: { applied: false, method: null, vocal_ratio: null },
+  transient_density: "low",
+  spectral_rolloff_hz: 8000,
+  harmonic_to_noise_ratio: 0.5,
+  transcription: "",
+  formant_frequencies: [],
+  ...overrides,
+});
+
+describe("reference-vs-user metric deltas", () => {
+  it("reports reference minus user for loudness, pitch and tonal balance", () => {
+    const reference = metrics({
+      integrated_lufs: -10,
+      loudness_range_lu: 3,
+      pitch_dev_cents: 5,
+      transient_density: "high",
+      tonal_profile: [
+        { center_hz: 250, level_db: 2 },
+        { center_hz: 5000, level_db: -1 },
+        { center_hz: 16000, level_db: -8 },
+      ],
+    });
+    const user = metrics({
+      integrated_lufs: -21.5,
+      loudness_range_lu: 9,
+      pitch_dev_cents: 45,
+      tonal_profile: [
+        { center_hz: 250, level_db: 4.5 },
+        { center_hz: 5000, level_db: -6 },
+      ],
+    });
+
+    const deltas = compareMetrics(reference, user);
+
+    expect(deltas.integrated_lufs).toBe(11.5);
+    expect(deltas.loudness_range_lu).toBe(-6);
+    expect(deltas.pitch_dev_cents).toBe(-40);
+    expect(deltas.transient_density).toEqual({ reference: "high", user: "low" });
+    expect(deltas.tonal_deltas).toEqual([
+      { center_hz: 250, delta_db: -2.5 },
+      { center_hz: 5000, delta_db: 5 },
+    ]);
+  });
+});
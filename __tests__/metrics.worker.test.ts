@@ -177,6 +177,9 @@ describe("metrics worker stub", () => {
     expect(metrics).toHaveProperty("centroid_hz");
     expect(metrics).toHaveProperty("mfcc_mean");
     expect(metrics).toHaveProperty("rms_lufs");
+    expect(metrics.integrated_lufs).toBe(-70);
+    expect(metrics).toHaveProperty("true_peak_dbtp");
+    expect(metrics.separation.applied).toBe(false);
     expect(Array.isArray(metrics.mfcc_mean)).toBe(true);
   });
 });
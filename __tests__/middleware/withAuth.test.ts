@@ -0,0 +1,102 @@
+const getUser = jest.fn();
+
+jest.mock("../../src/lib/supabaseAdmin", () => ({
+  supabaseAdmin: { auth: { getUser: (...args: unknown[]) => getUser(...args) } },
+}));
+
+jest.mock("../../src/middleware/planGate", () => {
+  const actual = jest.requireActual("../../src/middleware/planGate");
+  return { ...actual, resolvePlanContext: jest.fn() };
+});
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPlan } from "../../src/lib/plans";
+import * as planGate from "../../src/middleware/planGate";
+import { ApiError, dawFromQuery, withAuth } from "../../src/middleware/withAuth";
+
+const call = (handler: ReturnType<typeof withAuth>, url = "http://localhost/api/test", token = "token") =>
+  handler(
+    new NextRequest(url, {
+      headers: token ? { authorization: `Bearer ${token}`, "x-request-id": "req-12345678" } : {},
+    }),
+    { params: Promise.resolve({}) }
+  );
+
+describe("withAuth", () => {
+  beforeEach(() => {
+    getUser.mockResolvedValue({ data: { user: { id: "user-1", email: "a@b.c" } }, error: null });
+    (planGate.resolvePlanContext as jest.Mock).mockResolvedValue({
+      userId: "user-1",
+      profile: { id: "user-1", credits: 3, tier: "free", updated_at: null },
+      plan: getPlan("free"),
+    });
+  });
+
+  it("passes the caller's plan context to the handler", async () => {
+    const handler = jest.fn(async (_request, context) =>
+      NextResponse.json({ userId: context.userId, plan: context.plan.id })
+    );
+
+    const response = await call(withAuth(handler));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-Request-Id")).toBe("req-12345678");
+    await expect(response.json()).resolves.toEqual({ userId: "user-1", plan: "free" });
+  });
+
+  it("rejects missing tokens before resolving the plan", async () => {
+    const response = await call(withAuth(jest.fn()), undefined, "");
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toMatchObject({ code: "unauthorized" });
+    expect(planGate.resolvePlanContext).not.toHaveBeenCalled();
+  });
+
+  it("applies feature and DAW gates before the handler runs", async () => {
+    const handler = jest.fn();
+
+    const feature = await call(withAuth(handler, { feature: "canAccessLibrary" }));
+    const daw = await call(
+      withAuth(handler, { daw: dawFromQuery() }),
+      "http://localhost/api/test?daw=logic_pro"
+    );
+
+    expect(feature.status).toBe(403);
+    await expect(feature.json()).resolves.toMatchObject({ code: "plan_upgrade_required" });
+    expect(daw.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("formats handler errors with a code and request ID", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const known = await call(withAuth(async () => {
+      throw new ApiError("Folder name is required.");
+    }));
+    const unknown = await call(withAuth(async () => {
+      throw new Error("connection reset");
+    }, { errorMessage: "Unable to load folders." }));
+
+    await expect(known.json()).resolves.toEqual({
+      error: "Folder name is required.",
+      code: "bad_request",
+      requestId: "req-12345678",
+    });
+    expect(unknown.status).toBe(500);
+    await expect(unknown.json()).resolves.toMatchObject({
+      error: "Unable to load folders.",
+      code: "internal_error",
+    });
+  });
+
+  it("hides the message of library errors that carry a status", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const response = await call(withAuth(async () => {
+      throw Object.assign(new Error("JWT secret mismatch for project abc"), { status: 403 });
+    }, { errorMessage: "Unable to load folders." }));
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ error: "Unable to load folders." });
+  });
+});
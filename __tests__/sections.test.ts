@@ -0,0 +1,55 @@
+import { findCandidateSections } from "../src/workers/sections";
+
+const SAMPLE_RATE = 16000;
+
+const tone = (frequency: number, dbfs: number, seconds: number): Float32Array => {
+  const amplitude = 10 ** (dbfs / 20);
+  return Float32Array.from(
+    { length: SAMPLE_RATE * seconds },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+};
+
+const concat = (...parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+describe("section scanning", () => {
+  it("ranks the loud vocal-band passage first and keeps candidates distinct", () => {
+    const track = concat(tone(60, -30, 20), tone(1000, -10, 15), tone(80, -10, 25));
+    const candidates = findCandidateSections(track, SAMPLE_RATE, { windowSeconds: 15, hopSeconds: 5 });
+
+    expect(candidates).toHaveLength(3);
+    expect(candidates[0]).toMatchObject({ start: 20, end: 35 });
+    expect(candidates[0].vocal_presence).toBeGreaterThan(0.9);
+    expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+    for (const [index, candidate] of candidates.entries()) {
+      for (const other of candidates.slice(index + 1)) {
+        const overlap = Math.min(candidate.end, other.end) - Math.max(candidate.start, other.start);
+        expect(overlap).toBeLessThanOrEqual(7.5);
+      }
+    }
+  });
+
+  it("scores a window that ends on the last frame when the hop does not divide the track", () => {
+    const track = concat(tone(60, -30, 23), tone(1000, -10, 15));
+    const candidates = findCandidateSections(track, SAMPLE_RATE, { windowSeconds: 15, hopSeconds: 5 });
+
+    expect(candidates[0]).toMatchObject({ start: 23, end: 38 });
+  });
+
+  it("returns the whole clip when it is shorter than one window", () => {
+    const candidates = findCandidateSections(tone(1000, -12, 6), SAMPLE_RATE);
+    expect(candidates).toEqual([expect.objectContaining({ start: 0, end: 6 })]);
+  });
+
+  it("returns nothing for empty audio", () => {
+    expect(findCandidateSections(new Float32Array(0), SAMPLE_RATE)).toEqual([]);
+  });
+});
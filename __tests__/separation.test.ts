@@ -0,0 +1,54 @@
+import { centerHarmonicSeparator, downmix, resolveSeparator } from "../src/workers/separation";
+import { bandPower, powerSpectra, toDb } from "../src/workers/spectrum";
+
+const SAMPLE_RATE = 44100;
+const LENGTH = SAMPLE_RATE * 2;
+
+const sine = (frequency: number, amplitude: number) =>
+  Float32Array.from({ length: LENGTH }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+const clicks = (amplitude: number) =>
+  Float32Array.from({ length: LENGTH }, (_, i) => (i % 11025 < 8 ? amplitude : 0));
+
+const sum = (...parts: Float32Array[]) =>
+  Float32Array.from({ length: LENGTH }, (_, i) => parts.reduce((acc, part) => acc + part[i], 0));
+
+const levelAt = (audio: Float32Array, frequency: number) => {
+  const spectra = powerSpectra(audio.subarray(SAMPLE_RATE / 2, LENGTH - SAMPLE_RATE / 2), 4096, 2048);
+  const binHz = SAMPLE_RATE / 4096;
+  const average = spectra.reduce(
+    (acc, spectrum) => acc + bandPower(spectrum, { low: frequency * 0.9, high: frequency * 1.1 }, binHz),
+    0
+  );
+  return toDb(average / spectra.length);
+};
+
+describe("vocal separation", () => {
+  it("keeps the centered harmonic voice and suppresses panned, percussive and sub content", async () => {
+    const voice = sum(sine(220, 0.2), sine(440, 0.1), sine(660, 0.05));
+    const guitar = sine(330, 0.2);
+    const bass = sine(50, 0.3);
+    const drums = clicks(0.8);
+    const left = sum(voice, guitar, bass, drums);
+    const right = sum(voice, bass, drums);
+
+    const result = await centerHarmonicSeparator.separate({ left, right, sampleRate: SAMPLE_RATE });
+    const mix = downmix({ left, right, sampleRate: SAMPLE_RATE });
+
+    expect(result).toMatchObject({ applied: true, method: "center_hpss" });
+    expect(result.vocal).toHaveLength(LENGTH);
+    expect(levelAt(mix, 220) - levelAt(result.vocal, 220)).toBeLessThan(1.5);
+    expect(levelAt(mix, 330) - levelAt(result.vocal, 330)).toBeGreaterThan(15);
+    expect(levelAt(mix, 50) - levelAt(result.vocal, 50)).toBeGreaterThan(30);
+    // Only the clicks carry energy up at 6 kHz.
+    expect(levelAt(mix, 6000) - levelAt(result.vocal, 6000)).toBeGreaterThan(10);
+    expect(result.vocal_ratio).toBeLessThan(0.6);
+  });
+
+  it("passes short or silent audio through untouched", async () => {
+    const silent = new Float32Array(SAMPLE_RATE);
+    const result = await centerHarmonicSeparator.separate({ left: silent, right: silent, sampleRate: SAMPLE_RATE });
+    expect(result).toMatchObject({ applied: false, method: null, vocal_ratio: null });
+    expect(resolveSeparator("unknown").id).toBe("center_hpss");
+  });
+});
@@ -0,0 +1,64 @@
+import { TONAL_BAND_CENTERS_HZ, getTonalReference } from "../src/data/tonalReferences";
+import { compareToReferences, compareTonalProfile, measureTonalProfile } from "../src/workers/tonalBalance";
+
+const SAMPLE_RATE = 44100;
+
+// Equal-amplitude sines at every band center: a flat 1/3-octave profile.
+const flatChord = (seconds: number, boost: Record<number, number> = {}): Float32Array => {
+  const length = Math.round(SAMPLE_RATE * seconds);
+  const output = new Float32Array(length);
+  for (const center of TONAL_BAND_CENTERS_HZ) {
+    const amplitude = 0.01 * 10 ** ((boost[center] ?? 0) / 20);
+    for (let i = 0; i < length; i += 1) {
+      output[i] += amplitude * Math.sin((2 * Math.PI * center * i) / SAMPLE_RATE);
+    }
+  }
+  return output;
+};
+
+describe("tonal balance", () => {
+  it("measures a flat 1/3-octave profile and picks up a single-band boost", () => {
+    const flat = measureTonalProfile(flatChord(1), SAMPLE_RATE);
+    expect(flat).toHaveLength(TONAL_BAND_CENTERS_HZ.length);
+    for (const band of flat) {
+      expect(Math.abs(band.level_db)).toBeLessThan(0.5);
+    }
+
+    const boosted = measureTonalProfile(flatChord(1, { 250: 6 }), SAMPLE_RATE);
+    const band250 = boosted.find((band) => band.center_hz === 250);
+    const band1k = boosted.find((band) => band.center_hz === 1000);
+    expect((band250?.level_db ?? 0) - (band1k?.level_db ?? 0)).toBeCloseTo(6, 0);
+  });
+
+  it("reports per-band deltas against a reference with the overall offset removed", () => {
+    const reference = getTonalReference("dark_rnb_vocal")!;
+    const profile = TONAL_BAND_CENTERS_HZ.map((center, index) => ({
+      center_hz: center,
+      level_db: reference.curve[index] - 20 + (center === 3150 ? 4 : 0),
+    }));
+    const comparison = compareTonalProfile(profile, reference);
+
+    expect(comparison?.reference).toBe("dark_rnb_vocal");
+    const at3k = comparison?.deltas.find((delta) => delta.center_hz === 3150);
+    const at500 = comparison?.deltas.find((delta) => delta.center_hz === 500);
+    expect(at3k?.delta_db).toBeCloseTo(3.8, 1);
+    expect(at500?.delta_db).toBeCloseTo(-0.2, 1);
+  });
+
+  it("picks the closest reference unless one is requested", () => {
+    const bright = getTonalReference("bright_pop_vocal")!;
+    const profile = TONAL_BAND_CENTERS_HZ.map((center, index) => ({
+      center_hz: center,
+      level_db: bright.curve[index],
+    }));
+
+    expect(compareToReferences(profile)).toMatchObject({ reference: "bright_pop_vocal", deviation_db: 0 });
+    expect(compareToReferences(profile, "dark_rnb_vocal")?.reference).toBe("dark_rnb_vocal");
+    expect(compareToReferences([], "dark_rnb_vocal")).toBeNull();
+  });
+
+  it("returns an empty profile for silence or clips shorter than one frame", () => {
+    expect(measureTonalProfile(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+    expect(measureTonalProfile(new Float32Array(1024), SAMPLE_RATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { detectVocalIssues } from "../src/workers/vocalIssues";
+
+const SAMPLE_RATE = 44100;
+
+const tone = (frequency: number, dbfs: number, seconds: number): Float32Array => {
+  const amplitude = 10 ** (dbfs / 20);
+  return Float32Array.from(
+    { length: Math.round(SAMPLE_RATE * seconds) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+};
+
+const mix = (...parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(Math.max(...parts.map((part) => part.length)));
+  for (const part of parts) {
+    part.forEach((value, index) => {
+      output[index] += value;
+    });
+  }
+  return output;
+};
+
+const concat = (...parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// A steady 400 Hz "voice" with short bursts of another tone dropped in.
+const withBursts = (frequency: number, dbfs: number, count: number): Float32Array => {
+  const segments: Float32Array[] = [];
+  for (let i = 0; i < count; i += 1) {
+    segments.push(tone(400, -20, 0.5), mix(tone(400, -20, 0.08), tone(frequency, dbfs, 0.08)));
+  }
+  segments.push(tone(400, -20, 0.5));
+  return concat(...segments);
+};
+
+describe("vocal issue detection", () => {
+  it("counts sibilant bursts and locates their peak frequency", () => {
+    const { sibilance, plosives } = detectVocalIssues(withBursts(7000, -10, 4), SAMPLE_RATE);
+
+    expect(sibilance.events).toBe(4);
+    expect(Math.abs((sibilance.peak_hz ?? 0) - 7000)).toBeLessThan(50);
+    // A -10 dBFS peak sine carries -13 dB of mean-square power.
+    expect(Math.abs((sibilance.peak_level_db ?? 0) + 13)).toBeLessThan(1.5);
+    expect(sibilance.severity).not.toBe("none");
+    expect(plosives.events).toBe(0);
+  });
+
+  it("flags short low-frequency thumps as plosives", () => {
+    const { plosives, sibilance } = detectVocalIssues(withBursts(80, -6, 3), SAMPLE_RATE);
+
+    expect(plosives.events).toBe(3);
+    expect(Math.abs((plosives.peak_hz ?? 0) - 80)).toBeLessThan(50);
+    expect(sibilance.events).toBe(0);
+  });
+
+  it("reports 2-4 kHz energy that outweighs the midrange as harshness", () => {
+    const harsh = detectVocalIssues(mix(tone(3000, -12, 2), tone(1000, -24, 2)), SAMPLE_RATE);
+    const smooth = detectVocalIssues(mix(tone(3000, -30, 2), tone(1000, -12, 2)), SAMPLE_RATE);
+
+    expect(harsh.harshness.events).toBeGreaterThan(0);
+    expect(Math.abs((harsh.harshness.peak_hz ?? 0) - 3000)).toBeLessThan(50);
+    expect(harsh.harshness.severity).toBe("severe");
+    expect(smooth.harshness).toMatchObject({ events: 0, severity: "none" });
+  });
+
+  it("stays quiet on silence and short input", () => {
+    const silent = detectVocalIssues(new Float32Array(SAMPLE_RATE), SAMPLE_RATE);
+    expect(silent.sibilance).toEqual({ events: 0, peak_hz: null, peak_level_db: null, severity: "none" });
+    expect(detectVocalIssues(new Float32Array(256), SAMPLE_RATE).harshness.events).toBe(0);
+  });
+});
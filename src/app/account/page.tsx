@@ -51,6 +51,33 @@ type HistoryState<T> = {
   error: string | null;
 };
 
+type UsageEntry = {
+  id: string;
+  kind: "grant" | "reset" | "consume" | "refund";
+  delta: number;
+  balance_after: number | null;
+  reason: string;
+  created_at: string;
+};
+
+const USAGE_REASON_LABELS: Record<string, string> = {
+  signup: "Welcome credits",
+  monthly_reset: "Monthly reset",
+  analysis: "Analysis",
+  analysis_failed: "Refund for failed analysis",
+  restyle: "Re-style",
+  restyle_failed: "Refund for failed re-style",
+  checkout_completed: "Plan upgrade",
+  subscription_started: "Subscription started",
+  subscription_renewal: "Subscription renewal",
+  subscription_canceled: "Subscription canceled",
+  subscription_unpaid: "Subscription unpaid",
+  subscription_deleted: "Subscription ended",
+};
+
+const formatUsageReason = (entry: UsageEntry) =>
+  USAGE_REASON_LABELS[entry.reason] ?? entry.reason.replace(/_/g, " ");
+
 type AccountTab = "overview" | "premium" | "saved" | "history" | "preferences";
 
 const ACCOUNT_TABS: { id: AccountTab; label: string }[] = [
@@ -140,6 +167,14 @@ export default function AccountPage() {
     items: [],
     error: null,
   });
+  const [usageHistory, setUsageHistory] = useState<
+    HistoryState<UsageEntry> & { periodEnd: string | null }
+  >({
+    loading: true,
+    items: [],
+    error: null,
+    periodEnd: null,
+  });
   const [selectedChain, setSelectedChain] = useState<{
     title: string;
     subtitle: string;
@@ -233,6 +268,7 @@ export default function AccountPage() {
       setProfile((prev) => ({ ...prev, loading: false }));
       setAnalysisHistory((prev) => ({ ...prev, loading: false }));
       setPresetHistory((prev) => ({ ...prev, loading: false }));
+      setUsageHistory((prev) => ({ ...prev, loading: false }));
       return;
     }
 
@@ -242,6 +278,7 @@ export default function AccountPage() {
       setProfile((prev) => ({ ...prev, loading: true, error: null }));
       setAnalysisHistory((prev) => ({ ...prev, loading: true, error: null }));
       setPresetHistory((prev) => ({ ...prev, loading: true, error: null }));
+      setUsageHistory((prev) => ({ ...prev, loading: true, error: null }));
 
       const {
         data: { session },
@@ -264,15 +301,18 @@ export default function AccountPage() {
         Authorization: `Bearer ${session.access_token}`,
       };
 
-      const [profileResponse, analysesResponse, presetsResponse] = await Promise.all([
-        fetch("/api/check-credits", { headers }),
-        fetch("/api/analyses", { headers }),
-        fetch("/api/presets", { headers }),
-      ]);
+      const [profileResponse, analysesResponse, presetsResponse, usageResponse] =
+        await Promise.all([
+          fetch("/api/check-credits", { headers }),
+          fetch("/api/analyses", { headers }),
+          fetch("/api/presets", { headers }),
+          fetch("/api/credit-ledger", { headers }),
+        ]);
 
       const profilePayload = await profileResponse.json().catch(() => null);
       const analysesPayload = await analysesResponse.json().catch(() => null);
       const presetsPayload = await presetsResponse.json().catch(() => null);
+      const usagePayload = await usageResponse.json().catch(() => null);
 
       if (cancelled) return;
 
@@ -338,6 +378,27 @@ export default function AccountPage() {
           error: null,
         });
       }
+
+      if (!usageResponse.ok || !usagePayload) {
+        setUsageHistory({
+          loading: false,
+          items: [],
+          periodEnd: null,
+          error:
+            (usagePayload && typeof usagePayload.error === "string"
+              ? usagePayload.error
+              : null) ?? "Unable to load credit usage.",
+        });
+      } else {
+        setUsageHistory({
+          loading: false,
+          items: Array.isArray(usagePayload.items)
+            ? (usagePayload.items as UsageEntry[])
+            : [],
+          periodEnd: typeof usagePayload.periodEnd === "string" ? usagePayload.periodEnd : null,
+          error: null,
+        });
+      }
     };
 
     void loadAccountData();
@@ -655,8 +716,7 @@ export default function AccountPage() {
         method: "POST",
         headers,
         body: JSON.stringify({
-          daw: chain.daw,
-          plugins: chain.plugins,
+          analysisId: chain.id,
           stylePrompt,
         }),
       });
@@ -669,12 +729,27 @@ export default function AccountPage() {
         );
       }
 
+      const revision: ChainSummary = {
+        ...chain,
+        id: typeof payload.analysisId === "string" ? payload.analysisId : chain.id,
+        created_at: new Date().toISOString(),
+        plugins: payload.plugins as PluginPreset[],
+        summary: typeof payload.summary === "string" ? payload.summary : null,
+        features: payload.features ?? null,
+      };
+      if (typeof payload.analysisId === "string") {
+        setAnalysisHistory((prev) => ({ ...prev, items: [revision, ...prev.items] }));
+      }
+      if (typeof payload.remainingCredits === "number") {
+        setProfile((prev) => ({ ...prev, credits: payload.remainingCredits }));
+      }
+
       openChain(
         chain.daw,
         `Re-styled • ${new Date().toLocaleString()}`,
-        payload.plugins as PluginPreset[],
-        null,
-        null
+        revision.plugins,
+        revision.summary,
+        revision.features
       );
       setToast("Re-style ready.");
     } catch (caught) {
@@ -1100,6 +1175,56 @@ export default function AccountPage() {
           </p>
         )}
 
+        <section className={activeTab === "overview" ? "mb-10" : "hidden"}>
+          <div className="flex flex-wrap items-end justify-between gap-2">
+            <div>
+              <h2 className="text-xl font-semibold text-white">Usage History</h2>
+              <p className="text-sm text-slate-400">
+                Every credit granted, used, or refunded on your account.
+              </p>
+            </div>
+            {usageHistory.periodEnd && (
+              <p className="text-xs uppercase tracking-[0.3em] text-slate-400">
+                Credits reset {new Date(usageHistory.periodEnd).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+
+          {usageHistory.loading ? (
+            <p className="mt-4 text-sm text-slate-400">Loading usage…</p>
+          ) : usageHistory.error ? (
+            <p className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-xs uppercase tracking-[0.3em] text-red-200">
+              {usageHistory.error}
+            </p>
+          ) : usageHistory.items.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-400">No credit activity yet.</p>
+          ) : (
+            <ul className="mt-4 divide-y divide-white/10 rounded-2xl border border-white/10 bg-black/40">
+              {usageHistory.items.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 text-sm"
+                >
+                  <div>
+                    <p className="text-white">{formatUsageReason(entry)}</p>
+                    <p className="text-xs text-slate-500">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={entry.delta < 0 ? "text-amber-200" : "text-emerald-300"}>
+                      {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                    </p>
+                    {typeof entry.balance_after === "number" && (
+                      <p className="text-xs text-slate-500">Balance {entry.balance_after}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
         <section className={activeTab === "premium" ? "mt-12" : "hidden"}>
           <h2 className="text-xl font-semibold text-white">Premium Plugin Profile</h2>
           <p className="text-sm text-slate-400">
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getBillingEvent, replayBillingEvent } from "@/lib/billingEvents";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+export const runtime = "nodejs";
+
+export const POST = withAuth<{ eventId: string }>(async (_request, { params }) => {
+  const { eventId } = params;
+  const record = await getBillingEvent(eventId);
+  if (!record) {
+    throw new ApiError("Billing event not found.", 404);
+  }
+  if (record.outcome !== "failed") {
+    throw new ApiError(`Only failed events can be replayed; this one is ${record.outcome}.`, 409);
+  }
+
+  const result = await replayBillingEvent(eventId);
+  if (!result || result.duplicate) {
+    throw new ApiError("This event is already being processed.", 409);
+  }
+  return NextResponse.json({ eventId, ...result }, { status: result.outcome === "failed" ? 500 : 200 });
+}, { admin: true, errorMessage: "Unable to replay billing event." });
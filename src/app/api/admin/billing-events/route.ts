@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { listBillingEvents, type BillingEventOutcome } from "@/lib/billingEvents";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+export const runtime = "nodejs";
+
+const MAX_EVENTS = 200;
+const OUTCOMES: BillingEventOutcome[] = ["processing", "processed", "ignored", "failed"];
+
+export const GET = withAuth(async (request) => {
+  const { searchParams } = new URL(request.url);
+  const outcomeParam = searchParams.get("outcome");
+  const outcome = OUTCOMES.find((value) => value === outcomeParam) ?? null;
+  if (outcomeParam && !outcome) {
+    throw new ApiError(`Unknown outcome. Use one of: ${OUTCOMES.join(", ")}.`);
+  }
+
+  const limitParam = Number.parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), MAX_EVENTS) : 50;
+
+  const items = await listBillingEvents({
+    userId: searchParams.get("userId"),
+    outcome,
+    limit,
+  });
+  return NextResponse.json({ items });
+}, { admin: true, errorMessage: "Unable to load billing events." });
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getAnalysisJob, serializeJob } from "@/lib/analysisJobs";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+export const runtime = "nodejs";
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const GET = withAuth<{ jobId: string }>(async (_request, { userId, params }) => {
+  const { jobId } = params;
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    throw new ApiError("Analysis job not found.", 404);
+  }
+
+  const job = await getAnalysisJob(userId, jobId);
+  if (!job) {
+    throw new ApiError("Analysis job not found.", 404);
+  }
+  return NextResponse.json(serializeJob(job));
+}, { errorMessage: "Unable to load the analysis job." });
@@ -1,107 +1,65 @@
 import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { getOrCreateProfile } from "@/lib/profile";
+import { priceIdForPlan } from "@/lib/stripePlans";
+import { ApiError, withAuth } from "@/middleware/withAuth";
 
-const STANDARD_PRICE_ID = process.env.STRIPE_PRICE_ID ?? "";
-const PRO_PRICE_ID = process.env.STRIPE_PRO_PRICE_ID ?? "";
-
-const buildError = (message: string, status = 400) =>
-  NextResponse.json({ error: message }, { status });
-
-export async function POST(request: Request) {
-  try {
-    if (!stripe) {
-      return buildError(
-        "Stripe is not configured. Set STRIPE_SECRET_KEY.",
-        500
-      );
-    }
-
-    if (!supabaseAdmin) {
-      return buildError(
-        "Supabase configuration missing on server.",
-        500
-      );
-    }
-
-    const authorization = request.headers.get("authorization");
-    if (!authorization?.startsWith("Bearer ")) {
-      return buildError("Authorization header missing.", 401);
-    }
-
-    const accessToken = authorization.replace("Bearer ", "");
-    const {
-      data: { user },
-      error: authError,
-    } = await supabaseAdmin.auth.getUser(accessToken);
-
-    if (authError || !user) {
-      return buildError("Invalid or expired session.", 401);
-    }
-
-    const profile = await getOrCreateProfile(user.id);
-
-    const { searchParams } = new URL(request.url);
-    const planId = searchParams.get("planId") ?? "standard_15";
+export const POST = withAuth(async (request, { user, profile }) => {
+  if (!stripe) {
+    throw new ApiError("Stripe is not configured. Set STRIPE_SECRET_KEY.", 500);
+  }
 
-    let priceId: string | null = null;
-    if (planId === "pro_29") {
-      priceId = PRO_PRICE_ID || null;
-    } else {
-      priceId = STANDARD_PRICE_ID || null;
-    }
+  const { searchParams } = new URL(request.url);
+  const planId = searchParams.get("planId") === "pro_29" ? "pro_29" : "standard_15";
 
-    if (!priceId) {
-      const envHint =
-        planId === "pro_29"
-          ? "Set STRIPE_PRO_PRICE_ID to your Pro subscription price ID."
-          : "Set STRIPE_PRICE_ID to your Standard subscription price ID.";
-      return buildError(
-        `Stripe price ID missing for ${planId}. ${envHint}`,
-        500
-      );
-    }
+  const priceId = priceIdForPlan(planId);
 
-    if (profile.tier === "pro" && planId === "pro_29") {
-      return buildError("You already have an active Pro subscription.");
-    }
+  if (!priceId) {
+    const envHint =
+      planId === "pro_29"
+        ? "Set STRIPE_PRO_PRICE_ID to your Pro subscription price ID."
+        : "Set STRIPE_PRICE_ID to your Standard subscription price ID.";
+    throw new ApiError(`Stripe price ID missing for ${planId}. ${envHint}`, 500);
+  }
 
-    const origin =
-      request.headers.get("origin") ??
-      process.env.NEXT_PUBLIC_SITE_URL ??
-      "http://localhost:3000";
+  if (profile.tier === planId) {
+    throw new ApiError(
+      `You already have an active ${planId === "pro_29" ? "Pro" : "Standard"} subscription.`
+    );
+  }
 
-    const session = await stripe.checkout.sessions.create({
-      mode: "subscription",
-      customer_email: user.email ?? undefined,
-      automatic_tax: { enabled: false },
-      allow_promotion_codes: true,
-      line_items: [
-        {
-          price: priceId,
-          quantity: 1,
-        },
-      ],
-      success_url: `${origin}/success`,
-      cancel_url: `${origin}/account`,
+  const origin =
+    request.headers.get("origin") ??
+    process.env.NEXT_PUBLIC_SITE_URL ??
+    "http://localhost:3000";
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "subscription",
+    customer_email: user.email ?? undefined,
+    automatic_tax: { enabled: false },
+    allow_promotion_codes: true,
+    line_items: [
+      {
+        price: priceId,
+        quantity: 1,
+      },
+    ],
+    success_url: `${origin}/success`,
+    cancel_url: `${origin}/account`,
+    metadata: {
+      supabase_user_id: user.id,
+      plan_id: planId,
+    },
+    subscription_data: {
       metadata: {
         supabase_user_id: user.id,
+        plan_id: planId,
       },
-      subscription_data: {
-        metadata: {
-          supabase_user_id: user.id,
-        },
-      },
-    });
-
-    if (!session.url) {
-      return buildError("Unable to create checkout session.", 500);
-    }
+    },
+  });
 
-    return NextResponse.json({ url: session.url });
-  } catch (error) {
-    console.error("/api/checkout error", error);
-    return buildError("Unable to start checkout. Please try again.", 500);
+  if (!session.url) {
+    throw new ApiError("Unable to create checkout session.", 500);
   }
-}
+
+  return NextResponse.json({ url: session.url });
+}, { errorMessage: "Unable to start checkout. Please try again." });
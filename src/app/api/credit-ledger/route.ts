@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { listCreditLedger } from "@/lib/creditLedger";
+import { withAuth } from "@/middleware/withAuth";
+
+const MAX_ENTRIES = 100;
+
+export const GET = withAuth(async (request, { userId, profile, plan }) => {
+  const limitParam = Number.parseInt(new URL(request.url).searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), MAX_ENTRIES) : 50;
+
+  const items = await listCreditLedger(userId, limit);
+
+  return NextResponse.json({
+    items,
+    credits: profile.credits,
+    allowance: plan.generationsPerMonth,
+    periodStart: profile.credits_period_start ?? null,
+    periodEnd: profile.credits_period_end ?? null,
+  });
+}, { errorMessage: "Unable to load credit usage. Please try again later." });
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { ApiError, withApiHandler } from "@/middleware/withAuth";
+import { drainJobBatch, sweepStalledJobs } from "@/workers/analysisJobs.worker";
+
+export const runtime = "nodejs";
+// Each pass runs queued analyses to completion before responding.
+export const maxDuration = 300;
+
+// Stop claiming well before maxDuration so the last job can finish instead of being cut off
+// mid-run, which would cost it an attempt.
+const MAX_JOBS_PER_PASS = 10;
+const CLAIM_BUDGET_MS = 120_000;
+
+const isAuthorized = (authorization: string | null) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !authorization) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authorization);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// Scheduled drain of the analysis queue, so queued work does not wait for the next submission.
+// Jobs left running by a stopped instance are retried until their attempts run out; those and
+// jobs that were never queued are failed and refunded first.
+export const GET = withApiHandler(async (request) => {
+  if (!isAuthorized(request.headers.get("authorization"))) {
+    throw new ApiError("Unauthorized.", 401);
+  }
+
+  const startedAt = Date.now();
+  const failed = await sweepStalledJobs();
+  const processed = await drainJobBatch({ maxJobs: MAX_JOBS_PER_PASS, budgetMs: CLAIM_BUDGET_MS });
+  return NextResponse.json({ ok: true, failed, processed, durationMs: Date.now() - startedAt });
+}, { errorMessage: "Unable to process analysis jobs." });
@@ -1,14 +1,18 @@
-import { NextResponse } from "next/server";
 import {
   serializePreset,
+  serializeBundle,
+  resolveBundleSerializers,
   getExporterCoverage,
   type PluginChain,
   type PluginChainPlugin,
   type PluginIdentifierMap,
   type PluginParameter,
+  type PresetSerializer,
+  type SerializedPreset,
 } from "@/exporters";
-import { resolvePlanContext, assertFeature, isPlanGateError, normalizeDawIdentifier } from "@/middleware/planGate";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { normalizeDawIdentifier, PlanGateError } from "@/middleware/planGate";
+import { ApiError, dawFromJson, withAuth } from "@/middleware/withAuth";
+import { translateChain, type TranslationChange } from "@/lib/chainTranslation";
 
 export const runtime = "nodejs";
 
@@ -126,135 +130,138 @@ function normalizePlugins(raw: unknown): PluginChain["plugins"] {
     .filter((plugin): plugin is PluginChain["plugins"][number] => plugin !== null);
 }
 
-export async function POST(request: Request) {
-  try {
-    if (!supabaseAdmin) {
-      return NextResponse.json(
-        { error: "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY." },
-        { status: 500 }
-      );
-    }
+export const POST = withAuth(async (request, { userId, plan }) => {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    throw new ApiError("Invalid request payload.");
+  }
 
-    const authorization = request.headers.get("authorization");
-    if (!authorization?.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Authorization header missing." }, { status: 401 });
-    }
+  const daw = typeof (body as { daw?: unknown }).daw === "string" ? (body as { daw: string }).daw : null;
+  if (!daw) {
+    throw new ApiError("Missing DAW identifier.");
+  }
 
-    const accessToken = authorization.replace("Bearer ", "");
-    const {
-      data: { user },
-      error,
-    } = await supabaseAdmin.auth.getUser(accessToken);
+  const plugins = normalizePlugins((body as { plugins?: unknown }).plugins);
+  if (!plugins.length) {
+    throw new ApiError("No plugins were provided. Run an analysis before exporting a preset.");
+  }
 
-    if (error || !user) {
-      return NextResponse.json({ error: "Invalid or expired session." }, { status: 401 });
-    }
+  const summary =
+    typeof (body as { summary?: unknown }).summary === "string"
+      ? (body as { summary: string }).summary
+      : null;
+  const clipWindow =
+    typeof (body as { clipWindow?: unknown }).clipWindow === "string"
+      ? (body as { clipWindow: string }).clipWindow
+      : null;
+  const songRaw = (body as { song?: unknown }).song;
+  const song =
+    songRaw && typeof songRaw === "object"
+      ? {
+          title:
+            typeof (songRaw as { title?: unknown }).title === "string"
+              ? (songRaw as { title: string }).title
+              : undefined,
+          artist:
+            typeof (songRaw as { artist?: unknown }).artist === "string"
+              ? (songRaw as { artist: string }).artist
+              : undefined,
+          album:
+            typeof (songRaw as { album?: unknown }).album === "string"
+              ? (songRaw as { album: string }).album
+              : null,
+          timecode:
+            typeof (songRaw as { timecode?: unknown }).timecode === "string"
+              ? (songRaw as { timecode: string }).timecode
+              : null,
+        }
+      : null;
 
-    let planContext;
-    try {
-      planContext = await resolvePlanContext(user.id);
-      assertFeature(
-        planContext.plan,
-        "canExportPreset",
-        "Exporting presets is available on paid plans. Upgrade to export chains."
-      );
-    } catch (gateError) {
-      if (isPlanGateError(gateError)) {
-        return NextResponse.json({ error: gateError.message }, { status: gateError.status });
-      }
-      throw gateError;
-    }
+  const dawId = normalizeDawIdentifier(daw);
 
-    const body = await request.json().catch(() => null);
-    if (!body || typeof body !== "object") {
-      return NextResponse.json({ error: "Invalid request payload." }, { status: 400 });
-    }
+  let chain: PluginChain = {
+    daw,
+    dawId,
+    summary,
+    clipWindow,
+    song,
+    plugins,
+  };
 
-    const daw = typeof (body as { daw?: unknown }).daw === "string" ? (body as { daw: string }).daw : null;
-    if (!daw) {
-      return NextResponse.json({ error: "Missing DAW identifier." }, { status: 400 });
-    }
+  const targetDawRaw = (body as { targetDaw?: unknown }).targetDaw;
+  const targetDawId =
+    typeof targetDawRaw === "string" && targetDawRaw.trim().length > 0
+      ? normalizeDawIdentifier(targetDawRaw)
+      : null;
 
-    const plugins = normalizePlugins((body as { plugins?: unknown }).plugins);
-    if (!plugins.length) {
-      return NextResponse.json(
-        { error: "No plugins were provided. Run an analysis before exporting a preset." },
-        { status: 400 }
-      );
-    }
-
-    const summary =
-      typeof (body as { summary?: unknown }).summary === "string"
-        ? (body as { summary: string }).summary
-        : null;
-    const clipWindow =
-      typeof (body as { clipWindow?: unknown }).clipWindow === "string"
-        ? (body as { clipWindow: string }).clipWindow
-        : null;
-    const songRaw = (body as { song?: unknown }).song;
-    const song =
-      songRaw && typeof songRaw === "object"
-        ? {
-            title:
-              typeof (songRaw as { title?: unknown }).title === "string"
-                ? (songRaw as { title: string }).title
-                : undefined,
-            artist:
-              typeof (songRaw as { artist?: unknown }).artist === "string"
-                ? (songRaw as { artist: string }).artist
-                : undefined,
-            album:
-              typeof (songRaw as { album?: unknown }).album === "string"
-                ? (songRaw as { album: string }).album
-                : null,
-            timecode:
-              typeof (songRaw as { timecode?: unknown }).timecode === "string"
-                ? (songRaw as { timecode: string }).timecode
-                : null,
-          }
-        : null;
-
-    const dawId = normalizeDawIdentifier(daw);
+  let translation: TranslationChange[] = [];
+  if (targetDawId && targetDawId !== dawId) {
+    const translated = translateChain(chain, targetDawId);
+    chain = translated.chain;
+    translation = translated.changes;
+  }
 
-    const chain: PluginChain = {
-      daw,
-      dawId,
-      summary,
-      clipWindow,
-      song,
-      plugins,
-    };
+  const bundleRequested = (body as { bundle?: unknown }).bundle === true;
+  const formatsRaw = (body as { formats?: unknown }).formats;
+  const formats = Array.isArray(formatsRaw)
+    ? formatsRaw.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    : [];
 
-    const preset = await serializePreset(chain);
+  let preset: SerializedPreset;
+  if (bundleRequested) {
+    // A bundle only carries formats for DAWs on the plan. "Export All" leaves the others out, and
+    // asking for one by name is an upgrade error.
+    const isOnPlan = (serializer: PresetSerializer) =>
+      plan.allowedDAWs.some((allowed) => serializer.canHandle(allowed));
+    const requested = resolveBundleSerializers(formats);
+    const blocked = requested.filter((serializer) => !isOnPlan(serializer));
+    if (formats.length && blocked.length) {
+      throw new PlanGateError(
+        `${blocked.map((serializer) => serializer.label).join(", ")} ${
+          blocked.length === 1 ? "is" : "are"
+        } not included in your current plan. Upgrade to export ${blocked.length === 1 ? "it" : "them"}.`,
+        403
+      );
+    }
+    const serializers = requested.filter(isOnPlan);
+    if (!serializers.length) {
+      throw new ApiError("None of the requested export formats are available.");
+    }
+    preset = await serializeBundle(chain, serializers);
+  } else {
+    preset = await serializePreset(chain);
+  }
 
-    console.info("export_preset", {
-      user_id: user.id,
-      daw: chain.daw,
-      daw_id: dawId,
-      serializer: preset.serializerId,
-      native: preset.isNative,
-    });
+  console.info("export_preset", {
+    user_id: userId,
+    daw: chain.daw,
+    daw_id: chain.dawId,
+    translated_from: chain.dawId !== dawId ? dawId : null,
+    serializer: preset.serializerId,
+    native: preset.isNative,
+    bundle: bundleRequested,
+  });
 
-    const coverage = getExporterCoverage(dawId);
-    const binaryBody = new Uint8Array(preset.data);
+  const coverage = getExporterCoverage(chain.dawId ?? dawId);
+  const binaryBody = new Uint8Array(preset.data);
 
-    return new Response(binaryBody, {
-      status: 200,
-      headers: {
-        "Content-Type": preset.mime,
-        "Content-Disposition": `attachment; filename="${preset.filename}"`,
-        "Cache-Control": "no-store",
-        "X-ToneTerminal-Exporter": preset.serializerId,
-        "X-ToneTerminal-Native": preset.isNative ? "true" : "false",
-        "X-ToneTerminal-Format": preset.mime,
-        "X-ToneTerminal-Target": coverage.nativeFormat ?? "manual",
-      },
-    });
-  } catch (error) {
-    console.error("/api/export-preset error", error);
-    return NextResponse.json(
-      { error: "Unable to export preset. Please try again later." },
-      { status: 500 }
-    );
-  }
-}
+  return new Response(binaryBody, {
+    status: 200,
+    headers: {
+      "Content-Type": preset.mime,
+      "Content-Disposition": `attachment; filename="${preset.filename}"`,
+      "Cache-Control": "no-store",
+      "X-ToneTerminal-Exporter": preset.serializerId,
+      "X-ToneTerminal-Native": preset.isNative ? "true" : "false",
+      "X-ToneTerminal-Format": preset.mime,
+      "X-ToneTerminal-Target": bundleRequested ? "bundle" : coverage.nativeFormat ?? "manual",
+      "X-ToneTerminal-Translated": String(translation.filter((change) => change.translated).length),
+    },
+  });
+}, {
+  feature: "canExportPreset",
+  featureMessage: "Exporting presets is available on paid plans. Upgrade to export chains.",
+  // Translating to another DAW needs that DAW on the plan.
+  daw: dawFromJson("targetDaw"),
+  errorMessage: "Unable to export preset. Please try again later.",
+});
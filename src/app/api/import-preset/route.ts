@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+import { parsePresetFile } from "@/importers";
+import { recordPresetRevision } from "@/lib/presetRevisions";
+import { assertWorkspaceRole, resolveFolderAccess } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+const MAX_IMPORT_BYTES = 8 * 1024 * 1024;
+
+const PRESET_COLUMNS =
+  "id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id, summary, tags, favorite, features";
+const BASE_COLUMNS =
+  "id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id";
+
+export const POST = withAuth(async (request, { userId, supabase }) => {
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    throw new ApiError("Invalid multipart form payload.");
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof Blob)) {
+    throw new ApiError("Preset file missing from request.");
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ApiError("Preset file is too large to import.", 413);
+  }
+
+  const filename =
+    typeof (file as File).name === "string" && (file as File).name.trim().length > 0
+      ? (file as File).name.trim()
+      : "preset";
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  const parsed = await parsePresetFile(buffer, filename);
+
+  const { chain } = parsed;
+  const summary =
+    typeof chain.summary === "string" && chain.summary.trim().length > 0
+      ? chain.summary.trim()
+      : null;
+
+  const features: Record<string, unknown> = {
+    imported_from: filename,
+    import_format: parsed.label,
+    import_parser: parsed.parserId,
+    clip_window: chain.clipWindow ?? null,
+    detected_song: chain.song
+      ? {
+          title: chain.song.title ?? null,
+          artist: chain.song.artist ?? null,
+          timecode: chain.song.timecode ?? null,
+        }
+      : null,
+  };
+  if (summary) {
+    features.ai_summary = summary;
+  }
+
+  const insertPayload: Record<string, unknown> = {
+    user_id: userId,
+    daw: chain.daw,
+    clip_start: 0,
+    clip_end: 0,
+    duration: 0,
+    plugins: chain.plugins,
+    tags: ["imported"],
+    favorite: false,
+    summary,
+    features,
+  };
+
+  const folderId = formData.get("folderId");
+  if (typeof folderId === "string" && folderId.trim().length > 0) {
+    const folder = await resolveFolderAccess(userId, folderId.trim(), "editor");
+    insertPayload.folder_id = folder.id;
+    if (folder.workspace_id) {
+      insertPayload.workspace_id = folder.workspace_id;
+    }
+  } else {
+    const workspaceId = formData.get("workspaceId");
+    if (typeof workspaceId === "string" && workspaceId.trim().length > 0) {
+      await assertWorkspaceRole(userId, workspaceId.trim(), "editor");
+      insertPayload.workspace_id = workspaceId.trim();
+    }
+  }
+
+  let { data, error } = await supabase
+    .from("analysis_presets")
+    .insert(insertPayload)
+    .select(PRESET_COLUMNS)
+    .single();
+
+  const missingColumn =
+    error?.message &&
+    /does not exist|'?(tags|favorite|summary|features)'?/.test(
+      error.message.toLowerCase()
+    );
+
+  if (missingColumn) {
+    const fallbackPayload = { ...insertPayload };
+    delete (fallbackPayload as { tags?: unknown }).tags;
+    delete (fallbackPayload as { favorite?: unknown }).favorite;
+    delete (fallbackPayload as { summary?: unknown }).summary;
+    delete (fallbackPayload as { features?: unknown }).features;
+    const fallback = await supabase
+      .from("analysis_presets")
+      .insert(fallbackPayload)
+      .select(BASE_COLUMNS)
+      .single();
+    error = fallback.error;
+    data = fallback.data
+      ? { ...fallback.data, summary, tags: [], favorite: false, features: null }
+      : fallback.data;
+  }
+
+  if (error || !data) {
+    throw new ApiError(`Unable to save imported preset: ${error?.message ?? "Unknown error"}`, 500);
+  }
+
+  // The imported chain is the preset's first revision.
+  try {
+    await recordPresetRevision({
+      presetId: (data as { id: string }).id,
+      userId,
+      action: "import",
+      plugins: chain.plugins,
+      summary,
+    });
+  } catch (revisionError) {
+    console.warn("import preset revision failed", revisionError);
+  }
+
+  console.info("import_preset", {
+    user_id: userId,
+    parser: parsed.parserId,
+    daw: chain.daw,
+    plugin_count: chain.plugins.length,
+  });
+
+  return NextResponse.json({ ok: true, item: data, parser: parsed.parserId }, { status: 201 });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to import presets into your library.",
+  errorMessage: "Unable to import preset. Please try again later.",
+});
@@ -1,122 +1,51 @@
-import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  PlanGateError,
-  assertFeature,
-  resolvePlanContext,
-} from "@/middleware/planGate";
+import { NextResponse } from "next/server";
+import { resolveFolderAccess } from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
 
-const errorResponse = (message: string, status = 400) =>
-  NextResponse.json({ error: message }, { status });
+const LIBRARY_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to organize saved chains.",
+};
 
-async function ensureLibraryAccess(userId: string) {
-  const context = await resolvePlanContext(userId);
-  assertFeature(
-    context.plan,
-    "canAccessLibrary",
-    "Upgrade your plan to organize saved chains."
-  );
-}
+export const PATCH = withAuth<{ id: string }>(async (request, { userId, supabase, params }) => {
+  const payload = await request.json().catch(() => null);
+  const nextName = payload && typeof payload.name === "string" ? payload.name.trim() : "";
 
-async function resolveUser(request: NextRequest) {
-  if (!supabaseAdmin) {
-    throw new PlanGateError(
-      "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.",
-      500
-    );
+  if (!nextName) {
+    throw new ApiError("Folder name is required.");
   }
 
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    throw new PlanGateError("Authorization header missing.", 401);
-  }
+  const folder = await resolveFolderAccess(userId, params.id, "editor");
 
-  const token = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(token);
+  const { data, error } = await supabase
+    .from("analysis_folders")
+    .update({
+      name: nextName,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", folder.id)
+    .select("id, name, created_at, updated_at")
+    .single();
 
-  if (error || !user) {
-    throw new PlanGateError("Invalid or expired session.", 401);
+  if (error || !data) {
+    throw new ApiError(`Unable to rename folder: ${error?.message ?? "Unknown error."}`, 500);
   }
 
-  return user;
-}
-
-export async function PATCH(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await resolveUser(request);
-    await ensureLibraryAccess(user.id);
-    const { id } = await context.params;
-
-    const payload = await request.json().catch(() => null);
-    const nextName =
-      payload && typeof payload.name === "string"
-        ? payload.name.trim()
-        : "";
-
-    if (!nextName) {
-      return errorResponse("Folder name is required.");
-    }
+  return NextResponse.json({ ...data, workspace_id: folder.workspace_id });
+}, LIBRARY_ACCESS);
 
-    const { data, error } = await supabaseAdmin!
-      .from("analysis_folders")
-      .update({
-        name: nextName,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id)
-      .eq("user_id", user.id)
-      .select("id, name, created_at, updated_at")
-      .single();
+// Deleting a workspace folder is an admin action; its presets stay in the workspace, unfiled.
+export const DELETE = withAuth<{ id: string }>(async (_request, { userId, supabase, params }) => {
+  const folder = await resolveFolderAccess(userId, params.id, "admin");
 
-    if (error || !data) {
-      return errorResponse(
-        `Unable to rename folder: ${error?.message ?? "Unknown error."}`,
-        500
-      );
-    }
+  const { error } = await supabase
+    .from("analysis_folders")
+    .delete()
+    .eq("id", folder.id);
 
-    return NextResponse.json(data);
-  } catch (error) {
-    if (error instanceof PlanGateError) {
-      return errorResponse(error.message, error.status);
-    }
-    throw error;
+  if (error) {
+    throw new ApiError(`Unable to delete folder: ${error.message}`, 500);
   }
-}
 
-export async function DELETE(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await resolveUser(request);
-    await ensureLibraryAccess(user.id);
-    const { id } = await context.params;
-
-    const { error } = await supabaseAdmin!
-      .from("analysis_folders")
-      .delete()
-      .eq("id", id)
-      .eq("user_id", user.id);
-
-    if (error) {
-      return errorResponse(
-        `Unable to delete folder: ${error.message}`,
-        500
-      );
-    }
-
-    return NextResponse.json({ ok: true });
-  } catch (error) {
-    if (error instanceof PlanGateError) {
-      return errorResponse(error.message, error.status);
-    }
-    throw error;
-  }
-}
+  return NextResponse.json({ ok: true });
+}, LIBRARY_ACCESS);
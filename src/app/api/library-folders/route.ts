@@ -1,127 +1,84 @@
-import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  PlanGateError,
-  assertFeature,
-  resolvePlanContext,
-} from "@/middleware/planGate";
+import { NextResponse } from "next/server";
+import { assertWorkspaceRole, listWorkspaces } from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
 
-const errorResponse = (message: string, status = 400) =>
-  NextResponse.json({ error: message }, { status });
+const LIBRARY_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to organize saved chains.",
+};
 
-async function ensureLibraryAccess(userId: string) {
-  const context = await resolvePlanContext(userId);
-  assertFeature(
-    context.plan,
-    "canAccessLibrary",
-    "Upgrade your plan to organize saved chains."
-  );
-}
+const FOLDER_COLUMNS = "id, name, created_at, updated_at, workspace_id";
+const BASE_COLUMNS = "id, name, created_at, updated_at";
 
-export async function GET(request: NextRequest) {
-  if (!supabaseAdmin) {
-    return errorResponse(
-      "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.",
-      500
-    );
-  }
-
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return errorResponse("Authorization header missing.", 401);
-  }
-
-  const token = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(token);
+// Without a workspaceId this returns the caller's personal folders plus every workspace folder
+// they can see, so presets can be moved between the two.
+export const GET = withAuth(async (request, { userId, supabase }) => {
+  const workspaceId = new URL(request.url).searchParams.get("workspaceId");
 
-  if (error || !user) {
-    return errorResponse("Invalid or expired session.", 401);
-  }
-
-  try {
-    await ensureLibraryAccess(user.id);
-  } catch (caught) {
-    if (caught instanceof PlanGateError) {
-      return errorResponse(caught.message, caught.status);
-    }
-    throw caught;
-  }
-
-  const { data, error: fetchError } = await supabaseAdmin
+  let query = supabase
     .from("analysis_folders")
-    .select("id, name, created_at, updated_at")
-    .eq("user_id", user.id)
+    .select(FOLDER_COLUMNS)
     .order("created_at", { ascending: true });
 
-  if (fetchError) {
-    return errorResponse(`Unable to load folders: ${fetchError.message}`, 500);
+  if (workspaceId) {
+    await assertWorkspaceRole(userId, workspaceId, "viewer");
+    query = query.eq("workspace_id", workspaceId);
+  } else {
+    const workspaceIds = (await listWorkspaces(userId)).map((workspace) => workspace.id);
+    query = workspaceIds.length
+      ? query.or(`and(user_id.eq.${userId},workspace_id.is.null),workspace_id.in.(${workspaceIds.join(",")})`)
+      : query.eq("user_id", userId).is("workspace_id", null);
   }
 
-  return NextResponse.json({ items: data ?? [] });
-}
+  let { data, error } = await query;
 
-export async function POST(request: NextRequest) {
-  if (!supabaseAdmin) {
-    return errorResponse(
-      "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.",
-      500
-    );
+  if (!workspaceId && error?.message?.toLowerCase().includes("workspace_id")) {
+    const fallback = await supabase
+      .from("analysis_folders")
+      .select(BASE_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+    error = fallback.error;
+    data = fallback.data ? fallback.data.map((folder) => ({ ...folder, workspace_id: null })) : null;
   }
 
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return errorResponse("Authorization header missing.", 401);
+  if (error) {
+    throw new ApiError(`Unable to load folders: ${error.message}`, 500);
   }
 
-  const token = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(token);
-
-  if (error || !user) {
-    return errorResponse("Invalid or expired session.", 401);
-  }
+  return NextResponse.json({ items: data ?? [] });
+}, LIBRARY_ACCESS);
 
-  let name: string | null = null;
-  try {
-    const payload = await request.json();
-    name = typeof payload?.name === "string" ? payload.name.trim() : "";
-  } catch {
-    name = null;
-  }
+export const POST = withAuth(async (request, { userId, supabase }) => {
+  const payload = await request.json().catch(() => null);
+  const name = typeof payload?.name === "string" ? payload.name.trim() : "";
+  const workspaceId =
+    typeof payload?.workspaceId === "string" && payload.workspaceId.trim()
+      ? payload.workspaceId.trim()
+      : null;
 
   if (!name) {
-    return errorResponse("Folder name is required.");
+    throw new ApiError("Folder name is required.");
   }
 
-  try {
-    await ensureLibraryAccess(user.id);
-  } catch (caught) {
-    if (caught instanceof PlanGateError) {
-      return errorResponse(caught.message, caught.status);
-    }
-    throw caught;
+  const insertPayload: Record<string, unknown> = {
+    user_id: userId,
+    name,
+  };
+  if (workspaceId) {
+    await assertWorkspaceRole(userId, workspaceId, "editor");
+    insertPayload.workspace_id = workspaceId;
   }
 
-  const { data: folder, error: insertError } = await supabaseAdmin
+  const { data: folder, error } = await supabase
     .from("analysis_folders")
-    .insert({
-      user_id: user.id,
-      name,
-    })
-    .select("id, name, created_at, updated_at")
+    .insert(insertPayload)
+    .select(BASE_COLUMNS)
     .single();
 
-  if (insertError || !folder) {
-    return errorResponse(
-      `Unable to create folder: ${insertError?.message ?? "Unknown error."}`,
-      500
-    );
+  if (error || !folder) {
+    throw new ApiError(`Unable to create folder: ${error?.message ?? "Unknown error."}`, 500);
   }
 
-  return NextResponse.json(folder, { status: 201 });
-}
+  return NextResponse.json({ ...folder, workspace_id: workspaceId }, { status: 201 });
+}, LIBRARY_ACCESS);
@@ -1,161 +1,87 @@
 import { NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  PlanGateError,
-  assertFeature,
-  isPlanGateError,
-  normalizeDawIdentifier,
-  resolvePlanContext,
-} from "@/middleware/planGate";
+import { normalizeDawIdentifier } from "@/middleware/planGate";
+import { ApiError, dawFromQuery, withAuth } from "@/middleware/withAuth";
 import { getPluginProfile, upsertPluginProfile, deletePluginProfile } from "@/lib/pluginProfile";
 import { sanitizePluginSelection, isValidPluginSlug } from "@/lib/pluginInventory";
 import { DAWS, type DawId } from "@/data/daws";
 
-function errorResponse(message: string, status = 400) {
-  return NextResponse.json({ error: message }, { status });
-}
-
-async function ensureUser(request: Request) {
-  if (!supabaseAdmin) {
-    throw new Error(
-      "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
-    );
-  }
-
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    throw new PlanGateError("Authorization header missing.", 401);
-  }
-
-  const accessToken = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(accessToken);
-
-  if (error || !user) {
-    throw new PlanGateError("Invalid or expired session.", 401);
-  }
-
-  return user;
-}
-
 function parseDaw(searchParams: URLSearchParams): DawId {
   const raw = searchParams.get("daw");
   if (!raw) {
-    throw new PlanGateError("Missing daw parameter.", 400);
+    throw new ApiError("Missing daw parameter.");
   }
   const normalized = normalizeDawIdentifier(raw) as DawId;
   if (!(normalized in DAWS)) {
-    throw new PlanGateError("Unsupported DAW.", 400);
+    throw new ApiError("Unsupported DAW.");
   }
   return normalized;
 }
 
-export async function GET(request: Request) {
-  try {
-    const user = await ensureUser(request);
-    const planContext = await resolvePlanContext(user.id);
-    assertFeature(
-      planContext.plan,
-      "canUsePremiumInventory",
-      "Upgrade your plan to manage premium plugin profiles."
-    );
-
-    const { searchParams } = new URL(request.url);
-    const daw = parseDaw(searchParams);
-
-    const profile = await getPluginProfile(user.id, daw);
-
-    return NextResponse.json({
-      profile: profile
-        ? {
-            daw: profile.daw,
-            plugins: profile.plugins,
-          }
-        : null,
-    });
-  } catch (error) {
-    if (isPlanGateError(error)) {
-      const gate = error as PlanGateError;
-      return errorResponse(gate.message, gate.status);
-    }
-    console.error("GET /api/plugin-profile error", error);
-    return errorResponse("Unable to load plugin profile.", 500);
+export const GET = withAuth(async (request, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const daw = parseDaw(searchParams);
+
+  const profile = await getPluginProfile(userId, daw);
+
+  return NextResponse.json({
+    profile: profile
+      ? {
+          daw: profile.daw,
+          plugins: profile.plugins,
+        }
+      : null,
+  });
+}, {
+  feature: "canUsePremiumInventory",
+  featureMessage: "Upgrade your plan to manage premium plugin profiles.",
+  daw: dawFromQuery(),
+  errorMessage: "Unable to load plugin profile.",
+});
+
+export const PUT = withAuth(async (request, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const daw = parseDaw(searchParams);
+
+  const payload = await request.json().catch(() => null);
+  if (!payload || !Array.isArray(payload.plugins)) {
+    throw new ApiError("Invalid request body. Expected { plugins: string[] }.");
   }
-}
-
-export async function PUT(request: Request) {
-  try {
-    const user = await ensureUser(request);
-    const planContext = await resolvePlanContext(user.id);
-    assertFeature(
-      planContext.plan,
-      "canUsePremiumInventory",
-      "Upgrade your plan to save premium plugin profiles."
-    );
-
-    const { searchParams } = new URL(request.url);
-    const daw = parseDaw(searchParams);
-
-    const payload = await request.json().catch(() => null);
-    if (!payload || !Array.isArray(payload.plugins)) {
-      return errorResponse("Invalid request body. Expected { plugins: string[] }.");
-    }
-
-    const unique = Array.from(new Set(payload.plugins)).filter((slug) =>
-      typeof slug === "string"
-    );
-
-    const invalid = unique.filter((slug) => !isValidPluginSlug(slug));
-    if (invalid.length > 0) {
-      return errorResponse(
-        `Unknown plugin slugs: ${invalid.join(", ")}`,
-        400
-      );
-    }
 
-    const sanitized = sanitizePluginSelection(daw, unique);
-    const profile = await upsertPluginProfile(user.id, daw, sanitized);
+  const unique = Array.from(new Set(payload.plugins)).filter((slug) =>
+    typeof slug === "string"
+  );
 
-    return NextResponse.json({
-      profile: {
-        daw: profile.daw,
-        plugins: profile.plugins,
-      },
-    });
-  } catch (error) {
-    if (isPlanGateError(error)) {
-      const gate = error as PlanGateError;
-      return errorResponse(gate.message, gate.status);
-    }
-    console.error("PUT /api/plugin-profile error", error);
-    return errorResponse("Unable to save plugin profile.", 500);
+  const invalid = unique.filter((slug) => !isValidPluginSlug(slug));
+  if (invalid.length > 0) {
+    throw new ApiError(`Unknown plugin slugs: ${invalid.join(", ")}`);
   }
-}
-
-export async function DELETE(request: Request) {
-  try {
-    const user = await ensureUser(request);
-    const planContext = await resolvePlanContext(user.id);
-    assertFeature(
-      planContext.plan,
-      "canUsePremiumInventory",
-      "Upgrade your plan to manage premium plugin profiles."
-    );
-
-    const { searchParams } = new URL(request.url);
-    const daw = parseDaw(searchParams);
 
-    await deletePluginProfile(user.id, daw);
-
-    return NextResponse.json({ ok: true });
-  } catch (error) {
-    if (isPlanGateError(error)) {
-      const gate = error as PlanGateError;
-      return errorResponse(gate.message, gate.status);
-    }
-    console.error("DELETE /api/plugin-profile error", error);
-    return errorResponse("Unable to delete plugin profile.", 500);
-  }
-}
+  const sanitized = sanitizePluginSelection(daw, unique);
+  const profile = await upsertPluginProfile(userId, daw, sanitized);
+
+  return NextResponse.json({
+    profile: {
+      daw: profile.daw,
+      plugins: profile.plugins,
+    },
+  });
+}, {
+  feature: "canUsePremiumInventory",
+  featureMessage: "Upgrade your plan to save premium plugin profiles.",
+  daw: dawFromQuery(),
+  errorMessage: "Unable to save plugin profile.",
+});
+
+export const DELETE = withAuth(async (request, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const daw = parseDaw(searchParams);
+
+  await deletePluginProfile(userId, daw);
+
+  return NextResponse.json({ ok: true });
+}, {
+  feature: "canUsePremiumInventory",
+  featureMessage: "Upgrade your plan to manage premium plugin profiles.",
+  daw: dawFromQuery(),
+  errorMessage: "Unable to delete plugin profile.",
+});
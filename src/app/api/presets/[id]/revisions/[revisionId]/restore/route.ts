@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { restorePresetRevision } from "@/lib/presetRevisions";
+import { resolvePresetAccess } from "@/lib/workspaces";
+import { withAuth } from "@/middleware/withAuth";
+
+export const POST = withAuth<{ id: string; revisionId: string }>(async (_request, { userId, params }) => {
+  const access = await resolvePresetAccess(userId, params.id, "editor");
+  const revision = await restorePresetRevision(access.user_id, access.id, params.revisionId, userId);
+  return NextResponse.json({ revision });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to restore preset revision. Please try again later.",
+});
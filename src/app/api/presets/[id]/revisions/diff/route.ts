@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { diffPluginChains } from "@/lib/chainDiff";
+import { listPresetRevisions } from "@/lib/presetRevisions";
+import { resolvePresetAccess } from "@/lib/workspaces";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+// Compares two revisions of a preset. `to` defaults to the latest revision and `from` to its parent.
+export const GET = withAuth<{ id: string }>(async (request, { userId, params }) => {
+  const searchParams = new URL(request.url).searchParams;
+  const access = await resolvePresetAccess(userId, params.id, "viewer");
+  const revisions = await listPresetRevisions(access.user_id, access.id);
+  if (!revisions.length) {
+    throw new ApiError("This preset has no revision history yet.", 404);
+  }
+
+  const toId = searchParams.get("to");
+  const to = toId ? revisions.find((revision) => revision.id === toId) : revisions[0];
+  if (!to) {
+    throw new ApiError("Revision not found.", 404);
+  }
+
+  const fromId = searchParams.get("from") ?? to.parent_id;
+  const from = fromId ? revisions.find((revision) => revision.id === fromId) : null;
+  if (fromId && !from) {
+    throw new ApiError("Revision not found.", 404);
+  }
+
+  return NextResponse.json({
+    from: from ? { id: from.id, version: from.version, action: from.action } : null,
+    to: { id: to.id, version: to.version, action: to.action },
+    diff: diffPluginChains(from?.plugins ?? [], to.plugins),
+  });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to compare preset revisions. Please try again later.",
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { listPresetRevisions } from "@/lib/presetRevisions";
+import { listMemberEmails, resolvePresetAccess } from "@/lib/workspaces";
+import { withAuth } from "@/middleware/withAuth";
+
+// History is recorded under the chain's author, so workspace members read it through the author.
+export const GET = withAuth<{ id: string }>(async (_request, { userId, params }) => {
+  const access = await resolvePresetAccess(userId, params.id, "viewer");
+  const revisions = await listPresetRevisions(access.user_id, access.id);
+  const editorEmails = await listMemberEmails(
+    revisions.flatMap((revision) => (revision.edited_by ? [revision.edited_by] : []))
+  );
+  const items = revisions.map((revision) => ({
+    ...revision,
+    edited_by_email: revision.edited_by ? editorEmails[revision.edited_by] ?? null : null,
+  }));
+  return NextResponse.json({ items });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to load preset history. Please try again later.",
+});
@@ -1,68 +1,39 @@
-import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  PlanGateError,
-  assertFeature,
-  resolvePlanContext,
-} from "@/middleware/planGate";
-
-const errorResponse = (message: string, status = 400) =>
-  NextResponse.json({ error: message }, { status });
-
-async function ensureLibraryAccess(userId: string) {
-  const context = await resolvePlanContext(userId);
-  assertFeature(
-    context.plan,
-    "canAccessLibrary",
-    "Upgrade your plan to manage saved chains."
-  );
-}
+import { NextResponse } from "next/server";
+import { DAWS, type DawId } from "@/data/daws";
+import type { PluginPreset } from "@/types/plugins";
+import { buildAllowedCatalog, dawLabelFor, resolvePremiumPlugins } from "@/lib/analyzePipeline";
+import { parseEditedChain } from "@/lib/chainEditor";
+import { recordPresetRevision, type PresetRevision } from "@/lib/presetRevisions";
+import { assertWorkspaceRole, resolveFolderAccess, resolvePresetAccess } from "@/lib/workspaces";
+import { assertDAWAllowed, normalizeDawIdentifier } from "@/middleware/planGate";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
+
+const LIBRARY_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+};
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === "object" && !Array.isArray(value);
 
-export async function PATCH(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  if (!supabaseAdmin) {
-    return errorResponse(
-      "Supabase configuration missing on server.",
-      500
-    );
-  }
-
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return errorResponse("Authorization header missing.", 401);
-  }
-
-  const accessToken = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(accessToken);
-
-  if (error || !user) {
-    return errorResponse("Invalid or expired session.", 401);
-  }
-
-  try {
-    await ensureLibraryAccess(user.id);
-  } catch (error) {
-    if (error instanceof PlanGateError) {
-      return errorResponse(error.message, error.status);
-    }
-    throw error;
-  }
-
-  const { id } = await context.params;
+export const PATCH = withAuth<{ id: string }>(async (request, { userId, plan, supabase, params }) => {
+  const { id } = params;
 
   const payload = await request.json().catch(() => null);
   if (!payload) {
-    return errorResponse("Invalid request payload.");
+    throw new ApiError("Invalid request payload.");
   }
 
+  // Workspace presets can be changed by any editor; writes stay keyed to the author's rows.
+  // Moving a chain to another library is left to its author, who must be able to follow it there.
+  const access = await resolvePresetAccess(userId, id, "editor");
+  const ownerId = access.user_id;
+  const assertCanChangeLibrary = () => {
+    if (ownerId !== userId) {
+      throw new ApiError("Only the chain's author can move it to another library.", 403);
+    }
+  };
+
   const updates: Record<string, unknown> = {};
   let featuresUpdate: Record<string, unknown> | null | undefined;
 
@@ -72,13 +43,32 @@ export async function PATCH(
   if (typeof payload.favorite === "boolean") {
     updates.favorite = payload.favorite;
   }
+  // A folder move also moves the preset into the folder's library. Without a folderId,
+  // workspaceId moves it to the root of a workspace, or of the personal library when null.
   if (payload && "folderId" in payload) {
     if (payload.folderId === null) {
       updates.folder_id = null;
     } else if (typeof payload.folderId === "string" && payload.folderId.trim().length > 0) {
-      updates.folder_id = payload.folderId.trim();
+      const folder = await resolveFolderAccess(userId, payload.folderId.trim(), "editor");
+      if (folder.workspace_id !== access.workspace_id) {
+        assertCanChangeLibrary();
+        updates.workspace_id = folder.workspace_id;
+      }
+      updates.folder_id = folder.id;
     } else {
-      return errorResponse("folderId must be a string or null.");
+      throw new ApiError("folderId must be a string or null.");
+    }
+  } else if (payload && "workspaceId" in payload) {
+    if (typeof payload.workspaceId === "string" && payload.workspaceId.trim().length > 0) {
+      await assertWorkspaceRole(userId, payload.workspaceId.trim(), "editor");
+    } else if (payload.workspaceId !== null) {
+      throw new ApiError("workspaceId must be a string or null.");
+    }
+    const nextWorkspaceId = payload.workspaceId === null ? null : payload.workspaceId.trim();
+    if (nextWorkspaceId !== access.workspace_id) {
+      assertCanChangeLibrary();
+      updates.workspace_id = nextWorkspaceId;
+      updates.folder_id = null;
     }
   }
 
@@ -87,21 +77,18 @@ export async function PATCH(
       typeof payload.notes !== "string" &&
       payload.notes !== null
     ) {
-      return errorResponse("Notes must be a string or null.");
+      throw new ApiError("Notes must be a string or null.");
     }
 
-    const { data: existing, error: fetchError } = await supabaseAdmin
+    const { data: existing, error: fetchError } = await supabase
       .from("analysis_presets")
       .select("features")
       .eq("id", id)
-      .eq("user_id", user.id)
+      .eq("user_id", ownerId)
       .maybeSingle();
 
     if (fetchError) {
-      return errorResponse(
-        `Unable to load preset: ${fetchError.message}`,
-        500
-      );
+      throw new ApiError(`Unable to load preset: ${fetchError.message}`, 500);
     }
 
     const currentFeatures = isRecord(existing?.features)
@@ -124,78 +111,89 @@ export async function PATCH(
     updates.features = nextFeatures;
   }
 
-  if (Object.keys(updates).length === 0) {
-    return errorResponse("No valid fields provided.");
-  }
+  // Edited chains may use the DAW catalog, owned premium plugins, or anything already in the chain.
+  let editedPlugins: PluginPreset[] | null = null;
+  if ("plugins" in payload) {
+    const { data: preset, error: presetError } = await supabase
+      .from("analysis_presets")
+      .select("daw, plugins")
+      .eq("id", id)
+      .eq("user_id", ownerId)
+      .maybeSingle<{ daw: string; plugins: PluginPreset[] | null }>();
 
-  const { error: updateError } = await supabaseAdmin
-    .from("analysis_presets")
-    .update(updates)
-    .eq("id", id)
-    .eq("user_id", user.id);
-
-  if (updateError) {
-    return errorResponse(
-      `Unable to update preset: ${updateError.message}`,
-      500
-    );
-  }
+    if (presetError) {
+      throw new ApiError(`Unable to load preset: ${presetError.message}`, 500);
+    }
+    if (!preset) {
+      throw new ApiError("Preset not found.", 404);
+    }
 
-  return NextResponse.json({
-    ok: true,
-    features: featuresUpdate ?? undefined,
-  });
-}
-
-export async function DELETE(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  const { id } = await context.params;
-
-  if (!supabaseAdmin) {
-    return errorResponse(
-      "Supabase configuration missing on server.",
-      500
+    // Plans apply per seat: the editor's own plan must include the chain's DAW.
+    const dawId = normalizeDawIdentifier(preset.daw) as DawId;
+    if (dawId in DAWS) {
+      assertDAWAllowed(plan, dawId);
+    }
+    const { premiumPlugins } = await resolvePremiumPlugins(userId, dawId, plan);
+    const { allowedPlugins } = buildAllowedCatalog(dawLabelFor(preset.daw), premiumPlugins);
+    const allowedNames = new Set(
+      [...allowedPlugins, ...(preset.plugins ?? [])].map((plugin) => plugin.name.toLowerCase())
     );
+
+    const parsed = parseEditedChain(payload.plugins, (name) => allowedNames.has(name.toLowerCase()));
+    if (parsed.error) {
+      throw new ApiError(parsed.error, 422);
+    }
+    editedPlugins = parsed.plugins;
   }
 
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return errorResponse("Authorization header missing.", 401);
+  if (Object.keys(updates).length === 0 && !editedPlugins) {
+    throw new ApiError("No valid fields provided.");
   }
 
-  const accessToken = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(accessToken);
+  if (Object.keys(updates).length > 0) {
+    const { error: updateError } = await supabase
+      .from("analysis_presets")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", ownerId);
 
-  if (error || !user) {
-    return errorResponse("Invalid or expired session.", 401);
+    if (updateError) {
+      throw new ApiError(`Unable to update preset: ${updateError.message}`, 500);
+    }
   }
 
-  try {
-    await ensureLibraryAccess(user.id);
-  } catch (error) {
-    if (error instanceof PlanGateError) {
-      return errorResponse(error.message, error.status);
-    }
-    throw error;
+  let revision: PresetRevision | null = null;
+  if (editedPlugins) {
+    revision = await recordPresetRevision({
+      presetId: id,
+      userId: ownerId,
+      action: "edit",
+      plugins: editedPlugins,
+      editedBy: userId,
+    });
   }
 
-  const { error: deleteError } = await supabaseAdmin
+  return NextResponse.json({
+    ok: true,
+    features: featuresUpdate ?? undefined,
+    workspaceId: "workspace_id" in updates ? updates.workspace_id : undefined,
+    plugins: editedPlugins ?? undefined,
+    revision: revision ?? undefined,
+  });
+}, LIBRARY_ACCESS);
+
+export const DELETE = withAuth<{ id: string }>(async (_request, { userId, supabase, params }) => {
+  const access = await resolvePresetAccess(userId, params.id, "editor");
+
+  const { error: deleteError } = await supabase
     .from("analysis_presets")
     .delete()
-    .eq("id", id)
-    .eq("user_id", user.id);
+    .eq("id", access.id)
+    .eq("user_id", access.user_id);
 
   if (deleteError) {
-    return errorResponse(
-      `Unable to delete preset: ${deleteError.message}`,
-      500
-    );
+    throw new ApiError(`Unable to delete preset: ${deleteError.message}`, 500);
   }
 
   return NextResponse.json({ ok: true });
-}
+}, LIBRARY_ACCESS);
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { revokePresetShare } from "@/lib/presetShares";
+import { withAuth } from "@/middleware/withAuth";
+
+export const DELETE = withAuth<{ id: string; shareId: string }>(async (_request, { userId, params }) => {
+  const share = await revokePresetShare(userId, params.id, params.shareId);
+  return NextResponse.json({ share });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to revoke share link. Please try again later.",
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { createPresetShare, listPresetShares, MAX_SHARE_DAYS } from "@/lib/presetShares";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+const DEFAULT_SHARE_DAYS = 7;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+export const GET = withAuth<{ id: string }>(async (_request, { userId, params }) => {
+  const items = await listPresetShares(userId, params.id);
+  return NextResponse.json({ items });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to load share links. Please try again later.",
+});
+
+// `expiresInDays: null` creates a link that stays valid until it is revoked.
+export const POST = withAuth<{ id: string }>(async (request, { userId, params }) => {
+  const payload: unknown = await request.json().catch(() => ({}));
+  if (!isRecord(payload)) {
+    throw new ApiError("Invalid request payload.");
+  }
+  const requested = "expiresInDays" in payload ? payload.expiresInDays : DEFAULT_SHARE_DAYS;
+
+  if (
+    requested !== null &&
+    (typeof requested !== "number" || !Number.isInteger(requested) || requested < 1 || requested > MAX_SHARE_DAYS)
+  ) {
+    throw new ApiError(`expiresInDays must be a whole number from 1 to ${MAX_SHARE_DAYS}, or null.`);
+  }
+
+  const share = await createPresetShare(userId, params.id, requested);
+  return NextResponse.json({ share }, { status: 201 });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to manage saved chains.",
+  errorMessage: "Unable to create share link. Please try again later.",
+});
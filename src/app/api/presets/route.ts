@@ -1,13 +1,6 @@
 import { NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  assertFeature,
-  isPlanGateError,
-  resolvePlanContext,
-} from "@/middleware/planGate";
-
-const buildError = (message: string, status = 400) =>
-  NextResponse.json({ error: message }, { status });
+import { assertWorkspaceRole } from "@/lib/workspaces";
+import { ApiError, withAuth } from "@/middleware/withAuth";
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === "object" && !Array.isArray(value);
@@ -29,63 +22,40 @@ type PresetRow = Record<string, unknown> & {
   favorite?: unknown;
   features?: unknown;
   folder_id?: unknown;
+  workspace_id?: unknown;
 };
 
-export async function GET(request: Request) {
-  if (!supabaseAdmin) {
-    return buildError(
-      "Supabase configuration missing on server.",
-      500
-    );
-  }
-
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return buildError("Authorization header missing.", 401);
-  }
-
-  const accessToken = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error,
-  } = await supabaseAdmin.auth.getUser(accessToken);
-
-  if (error || !user) {
-    return buildError("Invalid or expired session.", 401);
-  }
-
-  try {
-    const context = await resolvePlanContext(user.id);
-    assertFeature(
-      context.plan,
-      "canAccessLibrary",
-      "Upgrade your plan to access saved chains."
-    );
-  } catch (error) {
-    if (isPlanGateError(error)) {
-      return buildError(error.message, error.status);
-    }
-    throw error;
-  }
-
-  const client = supabaseAdmin;
-
+export const GET = withAuth(async (request, { userId, supabase: client }) => {
   const BASE_COLUMNS =
-    "id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id";
-  const OPTIONAL_COLUMNS = ["summary", "tags", "favorite", "features"];
+    "id, user_id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id";
+  const OPTIONAL_COLUMNS = ["summary", "tags", "favorite", "features", "workspace_id"];
   const FULL_COLUMNS = `${BASE_COLUMNS}, ${OPTIONAL_COLUMNS.join(", ")}`;
 
   const url = new URL(request.url);
   const folderFilter = url.searchParams.get("folderId");
+  const workspaceId = url.searchParams.get("workspaceId");
 
-  const selectPresets = async (columns: string) => {
+  // A workspace library lists every member's presets; the personal one only the caller's own.
+  if (workspaceId) {
+    await assertWorkspaceRole(userId, workspaceId, "viewer");
+  }
+
+  const selectPresets = async (columns: string, scoped = true) => {
     const query = client
       .from("analysis_presets")
       .select(columns)
-      .eq("user_id", user.id)
       .order("created_at", { ascending: false })
       .limit(50);
 
+    if (workspaceId) {
+      query.eq("workspace_id", workspaceId);
+    } else {
+      query.eq("user_id", userId);
+      if (scoped) {
+        query.is("workspace_id", null);
+      }
+    }
+
     if (folderFilter === "null") {
       query.is("folder_id", null);
     } else if (folderFilter) {
@@ -109,12 +79,12 @@ export async function GET(request: Request) {
 
   const missingColumn =
     fetchError?.message &&
-    /does not exist|'?(tags|favorite|summary|features|folder_id)'?/.test(
+    /does not exist|'?(tags|favorite|summary|features|folder_id|workspace_id)'?/.test(
       fetchError.message.toLowerCase()
     );
 
   if (missingColumn) {
-    const fallback = await selectPresets(BASE_COLUMNS);
+    const fallback = await selectPresets(BASE_COLUMNS, false);
     fetchError = fallback.error;
     rows = Array.isArray(fallback.data)
       ? fallback.data.map((item) => {
@@ -124,6 +94,7 @@ export async function GET(request: Request) {
             favorite: false,
             features: null,
             folder_id: null,
+            workspace_id: null,
           };
 
           if (item && typeof item === "object" && !Array.isArray(item)) {
@@ -136,10 +107,7 @@ export async function GET(request: Request) {
   }
 
   if (fetchError) {
-    return buildError(
-      `Unable to load presets: ${fetchError.message}`,
-      500
-    );
+    throw new ApiError(`Unable to load presets: ${fetchError.message}`, 500);
   }
 
   const normalized =
@@ -169,9 +137,13 @@ export async function GET(request: Request) {
                 : undefined,
             features,
             folder_id: record.folder_id ?? null,
+            workspace_id: record.workspace_id ?? null,
           };
         })
       : [];
 
   return NextResponse.json({ items: normalized });
-}
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to access saved chains.",
+});
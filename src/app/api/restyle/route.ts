@@ -1,101 +1,244 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import type { DawId } from "@/data/daws";
+import type { PluginPreset } from "@/types/plugins";
+import { getAnalysis, saveAnalysis } from "@/lib/analysis";
+import {
+  buildAllowedCatalog,
+  dawLabelFor,
+  resolvePremiumPlugins,
+} from "@/lib/analyzePipeline";
+import {
+  buildChainSchema,
+  describeChainSchema,
+  generateValidatedChain,
+} from "@/lib/chainValidation";
+import { consumeCredit, refundCredit } from "@/lib/creditLedger";
+import { prettyPluginList } from "@/lib/pluginInventory";
+import { recordPresetRevision } from "@/lib/presetRevisions";
+import {
+  assertDAWAllowed,
+  assertQuotaAvailable,
+  normalizeDawIdentifier,
+  quotaExceededError,
+  shouldChargeCredits,
+} from "@/middleware/planGate";
+import { ApiError, withAuth, type SupabaseAdminClient } from "@/middleware/withAuth";
 
-const openaiApiKey = process.env.OPENAI_API_KEY;
-const openaiClient = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
+const MAX_STYLE_PROMPT_LENGTH = 500;
 
-export async function POST(request: Request) {
-  try {
-    if (!openaiClient) {
-      return NextResponse.json(
-        { error: "OpenAI configuration missing." },
-        { status: 500 }
-      );
-    }
+type RestyleSource = {
+  kind: "analysis" | "preset";
+  id: string;
+  daw: string;
+  clip_start: number;
+  clip_end: number;
+  duration: number;
+  plugins: PluginPreset[];
+  features?: Record<string, unknown> | null;
+};
 
-    const payload = await request.json().catch(() => null);
-    if (!payload) {
-      return NextResponse.json({ error: "Invalid request payload." }, { status: 400 });
-    }
+const readId = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
 
-    const { daw, plugins, stylePrompt } = payload;
-    if (typeof daw !== "string" || !Array.isArray(plugins) || typeof stylePrompt !== "string") {
-      return NextResponse.json(
-        { error: "Missing daw, plugins, or stylePrompt." },
-        { status: 400 }
-      );
-    }
+async function loadSource(
+  supabase: SupabaseAdminClient,
+  userId: string,
+  ids: { analysisId: string | null; presetId: string | null }
+): Promise<RestyleSource | null> {
+  if (ids.analysisId) {
+    const analysis = await getAnalysis(userId, ids.analysisId);
+    return analysis ? { ...analysis, kind: "analysis" } : null;
+  }
 
-    const systemPrompt = `You are ChainGen, an elite mix engineer. You will re-style an existing plugin chain for ${daw}.\nReturn ONLY JSON structured as { \"plugins\": [ { \"name\": string, \"type\": string, \"settings\": object, \"comment\": string } ] }.\nEnsure all plugin names are valid for ${daw}.`;
-
-    const existingChain = JSON.stringify(plugins, null, 2);
-
-    const response = await openaiClient.responses.create({
-      model: "gpt-4o-mini",
-      temperature: 0.4,
-      input: [
-        {
-          role: "system",
-          content: [
-            {
-              type: "input_text",
-              text: systemPrompt,
-            },
-          ],
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: `Here is the existing chain: ${existingChain}`,
-            },
-            {
-              type: "input_text",
-              text: `Re-style this chain with the following direction: ${stylePrompt}. Preserve reasonable gain staging and realistic settings. Remember to emit valid JSON only.`,
-            },
-          ],
-        },
-      ],
-    });
+  const { data, error } = await supabase
+    .from("analysis_presets")
+    .select("*")
+    .eq("id", ids.presetId)
+    .eq("user_id", userId)
+    .maybeSingle<Omit<RestyleSource, "kind">>();
+
+  if (error) {
+    throw new ApiError(`Unable to load preset: ${error.message}`, 500);
+  }
+  return data ? { ...data, kind: "preset" } : null;
+}
+
+// Re-styles a saved analysis or library preset. The source chain is read from the database, and the
+// output is restricted to the DAW catalog plus owned premium plugins. A re-styled analysis is saved
+// as a new analysis linked to its source; a re-styled preset gets a new revision.
+export const POST = withAuth(async (request, context) => {
+  const { userId, plan, supabase } = context;
+
+  const payload = await request.json().catch(() => null);
+  if (!payload || typeof payload !== "object") {
+    throw new ApiError("Invalid request payload.");
+  }
+
+  const analysisId = readId(payload.analysisId);
+  const presetId = readId(payload.presetId);
+  if (!analysisId && !presetId) {
+    throw new ApiError("Missing analysisId or presetId.");
+  }
+
+  const stylePrompt = typeof payload.stylePrompt === "string" ? payload.stylePrompt.trim() : "";
+  if (!stylePrompt) {
+    throw new ApiError("Missing stylePrompt.");
+  }
+  if (stylePrompt.length > MAX_STYLE_PROMPT_LENGTH) {
+    throw new ApiError(`Keep the style direction under ${MAX_STYLE_PROMPT_LENGTH} characters.`);
+  }
+
+  assertQuotaAvailable(context);
+
+  const source = await loadSource(supabase, userId, { analysisId, presetId });
+  if (!source) {
+    throw new ApiError(analysisId ? "Analysis not found." : "Preset not found.", 404);
+  }
+  if (!Array.isArray(source.plugins) || !source.plugins.length) {
+    throw new ApiError("The source chain has no plugins to re-style.", 422);
+  }
+
+  const dawId = normalizeDawIdentifier(source.daw) as DawId;
+  assertDAWAllowed(plan, dawId);
+  const dawLabel = dawLabelFor(source.daw);
 
-    const rawContent = response.output_text;
-    if (!rawContent) {
-      return NextResponse.json({ error: "Model returned no content." }, { status: 502 });
+  const { premiumPlugins } = await resolvePremiumPlugins(userId, dawId, plan);
+  const { allowedPlugins } = buildAllowedCatalog(dawLabel, premiumPlugins);
+  const chainSchema = buildChainSchema(allowedPlugins);
+
+  const systemPrompt = [
+    `You are ChainGen, an elite mix engineer. You will re-style an existing vocal plugin chain for ${dawLabel}.`,
+    premiumPlugins.length
+      ? `User owns these premium plugins for ${dawLabel}: ${prettyPluginList(premiumPlugins)}. Favor them when they fit the direction.`
+      : null,
+    "Respond ONLY with valid JSON shaped as {\"summary\": string, \"plugins\": [{\"name\": string, \"type\": string, \"settings\": object, \"comment\": string}]}.",
+    "Stay within the following plugin catalog:",
+    allowedPlugins.map((plugin) => `- ${plugin.name} (${plugin.type}): ${plugin.description}`).join("\n") ||
+      "- No plugins available; fall back to general advice.",
+    describeChainSchema(chainSchema),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  let remainingCredits: number | null = null;
+  const charged = shouldChargeCredits();
+  if (charged) {
+    remainingCredits = await consumeCredit(userId, "restyle");
+    if (remainingCredits === null) {
+      throw quotaExceededError(context);
     }
+  }
 
-    let parsed: unknown;
+  const refund = async () => {
+    if (!charged) return;
     try {
-      parsed = JSON.parse(rawContent);
+      await refundCredit(userId, "restyle_failed");
     } catch (error) {
-      console.error("restyle parse error", error, rawContent);
-      return NextResponse.json(
-        { error: "Model response was not valid JSON." },
-        { status: 502 }
-      );
+      console.error("restyle refund failed", { userId }, error);
     }
+  };
 
-    if (!parsed || typeof parsed !== "object") {
-      return NextResponse.json(
-        { error: "Model response missing plugins array." },
-        { status: 502 }
-      );
-    }
+  let chainResult: Awaited<ReturnType<typeof generateValidatedChain>>;
+  try {
+    chainResult = await generateValidatedChain(
+      {
+        task: "restyle",
+        systemPrompt,
+        userMessages: [
+          `Here is the existing chain: ${JSON.stringify(source.plugins, null, 2)}`,
+          `Re-style this chain with the following direction: ${stylePrompt}. Preserve reasonable gain staging and realistic settings. Remember to emit valid JSON only.`,
+        ],
+        temperature: 0.4,
+        catalog: allowedPlugins,
+        existingChain: source.plugins,
+        stylePrompt,
+      },
+      chainSchema,
+      { planId: plan.id }
+    );
+  } catch (error) {
+    await refund();
+    throw error;
+  }
 
-    const maybePlugins = (parsed as { plugins?: unknown }).plugins;
-    if (!Array.isArray(maybePlugins)) {
-      return NextResponse.json(
-        { error: "Model response missing plugins array." },
-        { status: 502 }
-      );
-    }
+  if (!chainResult.ok) {
+    await refund();
+    throw new ApiError(chainResult.error, 502);
+  }
 
-    return NextResponse.json({ plugins: maybePlugins });
-  } catch (error) {
-    console.error("/api/restyle error", error);
-    return NextResponse.json(
-      { error: "Unable to re-style chain. Please try again later." },
-      { status: 500 }
-    );
+  const { generation, summary, plugins, report: validation } = chainResult;
+  const features: Record<string, unknown> = {
+    ...(source.features ?? {}),
+    premium_plugins: premiumPlugins,
+    restyle: {
+      source: source.kind,
+      source_id: source.id,
+      style_prompt: stylePrompt,
+    },
+  };
+  delete features.parent_analysis_id;
+
+  let revisionId: string | null = null;
+  if (source.kind === "preset") {
+    try {
+      const revision = await recordPresetRevision({
+        presetId: source.id,
+        userId,
+        action: "restyle",
+        prompt: stylePrompt,
+        plugins,
+        summary: summary || null,
+      });
+      revisionId = revision?.id ?? null;
+    } catch (error) {
+      await refund();
+      throw error;
+    }
+  } else {
+    revisionId = await saveAnalysis({
+      userId,
+      daw: dawLabel,
+      start: source.clip_start,
+      end: source.clip_end,
+      duration: source.duration,
+      plugins,
+      summary: summary || null,
+      features,
+      parentAnalysisId: source.id,
+    });
+    // saveAnalysis logs and swallows insert errors, so a missing id means nothing was saved.
+    if (!revisionId) {
+      await refund();
+      throw new ApiError("Unable to save the re-styled chain.", 500);
+    }
   }
-}
+
+  console.info("restyle_telemetry", {
+    user_id: userId,
+    daw: dawLabel,
+    source: source.kind,
+    premium_count: premiumPlugins.length,
+    generator: generation.provider,
+    generator_fallback: generation.fallback,
+    validation_attempts: validation.attempts,
+    validation_passed: validation.valid,
+  });
+
+  return NextResponse.json({
+    analysisId: source.kind === "analysis" ? revisionId : null,
+    parentAnalysisId: source.kind === "analysis" ? source.id : null,
+    presetId: source.kind === "preset" ? source.id : null,
+    revisionId: source.kind === "preset" ? revisionId : null,
+    daw: dawLabel,
+    summary: summary || null,
+    plugins,
+    features,
+    validation,
+    generator: {
+      provider: generation.provider,
+      model: generation.model,
+      fallback: generation.fallback,
+    },
+    remainingCredits,
+  });
+}, { errorMessage: "Unable to re-style chain. Please try again later." });
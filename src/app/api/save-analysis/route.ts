@@ -1,58 +1,14 @@
 import { NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  PlanGateError,
-  assertFeature,
-  isPlanGateError,
-  resolvePlanContext,
-} from "@/middleware/planGate";
+import { resolveFolderAccess } from "@/lib/workspaces";
+import { ApiError, withAuth } from "@/middleware/withAuth";
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === "object" && !Array.isArray(value);
 
-export async function POST(request: Request) {
-  if (!supabaseAdmin) {
-    return NextResponse.json(
-      {
-        error:
-          "Supabase configuration missing on server. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.",
-      },
-      { status: 500 }
-    );
-  }
-
-  const authorization = request.headers.get("authorization");
-  if (!authorization?.startsWith("Bearer ")) {
-    return NextResponse.json({ error: "Authorization header missing." }, { status: 401 });
-  }
-
-  const accessToken = authorization.replace("Bearer ", "");
-  const {
-    data: { user },
-    error: authError,
-  } = await supabaseAdmin.auth.getUser(accessToken);
-
-  if (authError || !user) {
-    return NextResponse.json({ error: "Invalid or expired session." }, { status: 401 });
-  }
-
+export const POST = withAuth(async (request, { userId, supabase }) => {
   const payload = await request.json().catch(() => null);
   if (!payload) {
-    return NextResponse.json({ error: "Invalid request payload." }, { status: 400 });
-  }
-
-  try {
-    const context = await resolvePlanContext(user.id);
-    assertFeature(
-      context.plan,
-      "canAccessLibrary",
-      "Upgrade your plan to save chains to your library."
-    );
-  } catch (error) {
-    if (isPlanGateError(error)) {
-      return NextResponse.json({ error: error.message }, { status: (error as PlanGateError).status });
-    }
-    throw error;
+    throw new ApiError("Invalid request payload.");
   }
 
   const {
@@ -69,14 +25,14 @@ export async function POST(request: Request) {
   } = payload;
 
   if (typeof daw !== "string" || !Array.isArray(plugins)) {
-    return NextResponse.json({ error: "Missing or invalid preset data." }, { status: 400 });
+    throw new ApiError("Missing or invalid preset data.");
   }
 
   const normalizedTags = Array.isArray(tags) ? tags : [];
   const favoriteFlag = Boolean(favorite);
 
   const insertPayload: Record<string, unknown> = {
-    user_id: user.id,
+    user_id: userId,
     daw,
     clip_start: Number(clipStart) || 0,
     clip_end: Number(clipEnd) || 0,
@@ -87,7 +43,11 @@ export async function POST(request: Request) {
   };
 
   if (typeof folderId === "string" && folderId.trim().length > 0) {
-    insertPayload.folder_id = folderId.trim();
+    const folder = await resolveFolderAccess(userId, folderId.trim(), "editor");
+    insertPayload.folder_id = folder.id;
+    if (folder.workspace_id) {
+      insertPayload.workspace_id = folder.workspace_id;
+    }
   } else if (folderId === null) {
     insertPayload.folder_id = null;
   }
@@ -135,7 +95,7 @@ export async function POST(request: Request) {
     insertPayload.features = { ai_summary: normalizedSummary };
   }
 
-  let { error } = await supabaseAdmin
+  let { error } = await supabase
     .from("analysis_presets")
     .insert(insertPayload);
 
@@ -153,18 +113,18 @@ export async function POST(request: Request) {
     delete (fallbackPayload as { favorite?: unknown }).favorite;
     delete (fallbackPayload as { summary?: unknown }).summary;
     delete (fallbackPayload as { features?: unknown }).features;
-    const fallback = await supabaseAdmin
+    const fallback = await supabase
       .from("analysis_presets")
       .insert(fallbackPayload);
     error = fallback.error;
   }
 
   if (error) {
-    return NextResponse.json(
-      { error: `Unable to save preset: ${error.message}` },
-      { status: 500 }
-    );
+    throw new ApiError(`Unable to save preset: ${error.message}`, 500);
   }
 
   return NextResponse.json({ ok: true }, { status: 200 });
-}
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to save chains to your library.",
+});
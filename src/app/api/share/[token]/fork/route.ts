@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { DAWS } from "@/data/daws";
+import { recordPresetRevision } from "@/lib/presetRevisions";
+import { resolveShareToken, toSharedChain } from "@/lib/presetShares";
+import { assertDAWAllowed, normalizeDawIdentifier } from "@/middleware/planGate";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+const PRESET_COLUMNS =
+  "id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id, summary, tags, favorite, features";
+const BASE_COLUMNS =
+  "id, daw, clip_start, clip_end, duration, plugins, created_at, folder_id";
+
+export const POST = withAuth<{ token: string }>(async (_request, { userId, plan, supabase, params }) => {
+  const { share, preset } = await resolveShareToken(params.token);
+  const chain = toSharedChain(preset, share);
+
+  const dawId = normalizeDawIdentifier(chain.daw);
+  if (dawId in DAWS) {
+    assertDAWAllowed(plan, dawId);
+  }
+
+  // The fork only carries what the share link shows, plus where it came from.
+  const features: Record<string, unknown> = {
+    ...(chain.metrics ?? {}),
+    detected_song: chain.song,
+    forked_from_share: share.id,
+  };
+  if (chain.summary) {
+    features.ai_summary = chain.summary;
+  }
+
+  const insertPayload: Record<string, unknown> = {
+    user_id: userId,
+    daw: chain.daw,
+    clip_start: chain.clipStart,
+    clip_end: chain.clipEnd,
+    duration: Math.max(0, chain.clipEnd - chain.clipStart),
+    plugins: chain.plugins,
+    tags: ["forked"],
+    favorite: false,
+    summary: chain.summary,
+    features,
+  };
+
+  let { data, error } = await supabase
+    .from("analysis_presets")
+    .insert(insertPayload)
+    .select(PRESET_COLUMNS)
+    .single();
+
+  const missingColumn =
+    error?.message &&
+    /does not exist|'?(tags|favorite|summary|features)'?/.test(
+      error.message.toLowerCase()
+    );
+
+  if (missingColumn) {
+    const fallbackPayload = { ...insertPayload };
+    delete (fallbackPayload as { tags?: unknown }).tags;
+    delete (fallbackPayload as { favorite?: unknown }).favorite;
+    delete (fallbackPayload as { summary?: unknown }).summary;
+    delete (fallbackPayload as { features?: unknown }).features;
+    const fallback = await supabase
+      .from("analysis_presets")
+      .insert(fallbackPayload)
+      .select(BASE_COLUMNS)
+      .single();
+    error = fallback.error;
+    data = fallback.data
+      ? { ...fallback.data, summary: chain.summary, tags: [], favorite: false, features: null }
+      : fallback.data;
+  }
+
+  if (error || !data) {
+    throw new ApiError(`Unable to save forked chain: ${error?.message ?? "Unknown error"}`, 500);
+  }
+
+  try {
+    await recordPresetRevision({
+      presetId: (data as { id: string }).id,
+      userId,
+      action: "create",
+      plugins: chain.plugins,
+      summary: chain.summary,
+    });
+  } catch (revisionError) {
+    console.warn("fork preset revision failed", revisionError);
+  }
+
+  console.info("fork_preset", {
+    user_id: userId,
+    share_id: share.id,
+    daw: chain.daw,
+    plugin_count: chain.plugins.length,
+  });
+
+  return NextResponse.json({ ok: true, item: data }, { status: 201 });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to save shared chains to your library.",
+  errorMessage: "Unable to fork this chain. Please try again later.",
+});
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { resolveShareToken, toSharedChain } from "@/lib/presetShares";
+import { withApiHandler } from "@/middleware/withAuth";
+
+export const GET = withApiHandler<{ token: string }>(async (_request, { params }) => {
+  const { share, preset } = await resolveShareToken(params.token);
+  return NextResponse.json(
+    { chain: toSharedChain(preset, share) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}, {
+  errorMessage: "Unable to load this shared chain. Please try again later.",
+});
@@ -1,25 +1,22 @@
 import { NextResponse } from "next/server";
 import type Stripe from "stripe";
 import { stripe } from "@/lib/stripe";
-import {
-  DEFAULT_CREDITS,
-  getOrCreateProfile,
-  updateProfileTier,
-  setStripeCustomerId,
-} from "@/lib/profile";
+import { hashPayload, processBillingEvent } from "@/lib/billingEvents";
+import { ApiError, withApiHandler } from "@/middleware/withAuth";
 
 export const runtime = "nodejs";
 
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
-export async function POST(request: Request) {
+// Stripe authenticates with a signature rather than a user session, so this route skips withAuth.
+export const POST = withApiHandler(async (request) => {
   if (!stripe || !webhookSecret) {
-    return NextResponse.json({ received: false }, { status: 500 });
+    throw new ApiError("Stripe webhooks are not configured.", 500);
   }
 
   const signature = request.headers.get("stripe-signature");
   if (!signature) {
-    return NextResponse.json({ received: false }, { status: 400 });
+    throw new ApiError("Stripe signature header missing.");
   }
 
   const body = await request.arrayBuffer();
@@ -31,69 +28,13 @@ export async function POST(request: Request) {
     event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
   } catch (unknownError) {
     console.error("Stripe webhook signature verification failed", unknownError);
-    return NextResponse.json({ received: false }, { status: 400 });
+    throw new ApiError("Invalid Stripe signature.");
   }
 
-  try {
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const userId = session.metadata?.supabase_user_id;
-        if (userId) {
-          await getOrCreateProfile(userId);
-          await updateProfileTier(userId, "pro", 9999);
-          const customerId = typeof session.customer === "string" ? session.customer : null;
-          if (customerId) {
-            try {
-              await setStripeCustomerId(userId, customerId);
-            } catch (setError) {
-              console.warn("Failed to persist Stripe customer ID", setError);
-            }
-          }
-        }
-        break;
-      }
-      case "customer.subscription.created":
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const userId = subscription.metadata?.supabase_user_id;
-        if (!userId) {
-          break;
-        }
-        await getOrCreateProfile(userId);
-        if (subscription.status === "active" || subscription.status === "trialing") {
-          await updateProfileTier(userId, "pro", 9999);
-        } else if (subscription.status === "canceled" || subscription.status === "unpaid") {
-          await updateProfileTier(userId, "free", DEFAULT_CREDITS);
-        }
-        const customerId =
-          typeof subscription.customer === "string"
-            ? subscription.customer
-            : subscription.customer?.id ?? null;
-        if (userId && customerId) {
-          try {
-            await setStripeCustomerId(userId, customerId);
-          } catch (setError) {
-            console.warn("Failed to persist Stripe customer ID", setError);
-          }
-        }
-        break;
-      }
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const userId = subscription.metadata?.supabase_user_id;
-        if (userId) {
-          await updateProfileTier(userId, "free", DEFAULT_CREDITS);
-        }
-        break;
-      }
-      default:
-        break;
-    }
-  } catch (unknownError) {
-    console.error("Stripe webhook handling error", unknownError);
-    return NextResponse.json({ received: false }, { status: 500 });
+  const result = await processBillingEvent(event, hashPayload(payload));
+  if (result.outcome === "failed" && !result.duplicate) {
+    // A non-2xx response makes Stripe redeliver; the failed event is claimed again then.
+    throw new ApiError(result.error ?? "Stripe event handling failed.", 500);
   }
-
-  return NextResponse.json({ received: true }, { status: 200 });
-}
+  return NextResponse.json({ received: true, duplicate: result.duplicate }, { status: 200 });
+}, { errorMessage: "Stripe webhook handling failed." });
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import {
+  acceptWorkspaceInvite,
+  confirmedInviteEmail,
+  declineWorkspaceInvite,
+} from "@/lib/workspaces";
+import { ApiError, withAuth } from "@/middleware/withAuth";
+
+const requireConfirmedEmail = (user: Parameters<typeof confirmedInviteEmail>[0]) => {
+  const email = confirmedInviteEmail(user);
+  if (!email) {
+    throw new ApiError("Confirm your email address to respond to workspace invites.", 403);
+  }
+  return email;
+};
+
+// Plans apply per seat, so accepting needs library access on the invitee's own plan.
+export const POST = withAuth<{ inviteId: string }>(async (_request, { userId, user, params }) => {
+  const email = requireConfirmedEmail(user);
+  const member = await acceptWorkspaceInvite({ userId, email }, params.inviteId);
+  return NextResponse.json({ ok: true, member });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to join team workspaces.",
+});
+
+export const DELETE = withAuth<{ inviteId: string }>(async (_request, { user, params }) => {
+  await declineWorkspaceInvite(requireConfirmedEmail(user), params.inviteId);
+  return NextResponse.json({ ok: true });
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { confirmedInviteEmail, listInvitesForEmail } from "@/lib/workspaces";
+import { withAuth } from "@/middleware/withAuth";
+
+// Open to every plan so people can see and decline invites before upgrading.
+export const GET = withAuth(async (_request, { user }) => {
+  const email = confirmedInviteEmail(user);
+  const items = email ? await listInvitesForEmail(email) : [];
+  return NextResponse.json({ items });
+}, { errorMessage: "Unable to load workspace invites." });
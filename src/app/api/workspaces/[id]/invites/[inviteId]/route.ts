@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { assertWorkspaceRole, revokeWorkspaceInvite } from "@/lib/workspaces";
+import { withAuth } from "@/middleware/withAuth";
+
+export const DELETE = withAuth<{ id: string; inviteId: string }>(async (_request, { userId, params }) => {
+  await assertWorkspaceRole(userId, params.id, "admin");
+  await revokeWorkspaceInvite(params.id, params.inviteId);
+  return NextResponse.json({ ok: true });
+}, {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to use team workspaces.",
+});
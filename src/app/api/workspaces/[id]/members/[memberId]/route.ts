@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import {
+  assertWorkspaceRole,
+  isWorkspaceRole,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
+
+const WORKSPACE_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to use team workspaces.",
+};
+
+export const PATCH = withAuth<{ id: string; memberId: string }>(async (request, { userId, params }) => {
+  await assertWorkspaceRole(userId, params.id, "admin");
+
+  const payload = await request.json().catch(() => null);
+  if (!isWorkspaceRole(payload?.role)) {
+    throw new ApiError("role must be viewer, editor or admin.");
+  }
+
+  const member = await updateWorkspaceMemberRole(params.id, params.memberId, payload.role);
+  return NextResponse.json(member);
+}, WORKSPACE_ACCESS);
+
+// Admins remove members; anyone can remove themselves to leave.
+export const DELETE = withAuth<{ id: string; memberId: string }>(async (_request, { userId, params }) => {
+  await assertWorkspaceRole(userId, params.id, params.memberId === userId ? "viewer" : "admin");
+  await removeWorkspaceMember(params.id, params.memberId);
+  return NextResponse.json({ ok: true });
+}, WORKSPACE_ACCESS);
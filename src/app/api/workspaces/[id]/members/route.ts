@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import {
+  assertWorkspaceRole,
+  hasWorkspaceRole,
+  inviteWorkspaceMember,
+  isWorkspaceRole,
+  listWorkspaceInvites,
+  listWorkspaceMembers,
+} from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
+
+const WORKSPACE_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to use team workspaces.",
+};
+
+export const GET = withAuth<{ id: string }>(async (_request, { userId, params }) => {
+  const role = await assertWorkspaceRole(userId, params.id, "viewer");
+  const [items, invites] = await Promise.all([
+    listWorkspaceMembers(params.id),
+    hasWorkspaceRole(role, "admin") ? listWorkspaceInvites(params.id) : Promise.resolve([]),
+  ]);
+  return NextResponse.json({ items, invites });
+}, WORKSPACE_ACCESS);
+
+// Every address gets the same response. The invitee joins by accepting, which checks their own plan.
+export const POST = withAuth<{ id: string }>(async (request, { userId, params }) => {
+  await assertWorkspaceRole(userId, params.id, "admin");
+
+  const payload = await request.json().catch(() => null);
+  const email = typeof payload?.email === "string" ? payload.email.trim() : "";
+  const role = payload?.role ?? "viewer";
+
+  if (!email || !email.includes("@")) {
+    throw new ApiError("A valid email address is required.");
+  }
+  if (!isWorkspaceRole(role)) {
+    throw new ApiError("role must be viewer, editor or admin.");
+  }
+
+  const invite = await inviteWorkspaceMember(params.id, userId, { email, role });
+  return NextResponse.json(invite, { status: 201 });
+}, WORKSPACE_ACCESS);
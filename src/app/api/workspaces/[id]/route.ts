@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import {
+  assertWorkspaceRole,
+  deleteWorkspace,
+  MAX_WORKSPACE_NAME_LENGTH,
+  renameWorkspace,
+} from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
+
+const WORKSPACE_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to use team workspaces.",
+};
+
+export const PATCH = withAuth<{ id: string }>(async (request, { userId, params }) => {
+  await assertWorkspaceRole(userId, params.id, "admin");
+
+  const payload = await request.json().catch(() => null);
+  const name = typeof payload?.name === "string" ? payload.name.trim() : "";
+  if (!name) {
+    throw new ApiError("Workspace name is required.");
+  }
+  if (name.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new ApiError(`Workspace names are limited to ${MAX_WORKSPACE_NAME_LENGTH} characters.`);
+  }
+
+  await renameWorkspace(params.id, name);
+  return NextResponse.json({ ok: true, name });
+}, WORKSPACE_ACCESS);
+
+export const DELETE = withAuth<{ id: string }>(async (_request, { userId, params }) => {
+  await deleteWorkspace(userId, params.id);
+  return NextResponse.json({ ok: true });
+}, WORKSPACE_ACCESS);
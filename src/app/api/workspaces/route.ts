@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createWorkspace, listWorkspaces, MAX_WORKSPACE_NAME_LENGTH } from "@/lib/workspaces";
+import { ApiError, withAuth, type WithAuthOptions } from "@/middleware/withAuth";
+
+const WORKSPACE_ACCESS: WithAuthOptions = {
+  feature: "canAccessLibrary",
+  featureMessage: "Upgrade your plan to use team workspaces.",
+};
+
+export const GET = withAuth(async (_request, { userId }) => {
+  const items = await listWorkspaces(userId);
+  return NextResponse.json({ items });
+}, WORKSPACE_ACCESS);
+
+export const POST = withAuth(async (request, { userId, user }) => {
+  const payload = await request.json().catch(() => null);
+  const name = typeof payload?.name === "string" ? payload.name.trim() : "";
+
+  if (!name) {
+    throw new ApiError("Workspace name is required.");
+  }
+  if (name.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new ApiError(`Workspace names are limited to ${MAX_WORKSPACE_NAME_LENGTH} characters.`);
+  }
+
+  const workspace = await createWorkspace(userId, user.email ?? null, name);
+  return NextResponse.json(workspace, { status: 201 });
+}, WORKSPACE_ACCESS);
@@ -1,15 +1,18 @@
 "use client";
 
-import { ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import HeaderNav from "@/components/HeaderNav";
 import ParticlesBackground from "@/components/ParticlesBackground";
 import PluginCard from "@/components/PluginCard";
+import ChainEditor from "@/components/ChainEditor";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabaseClient";
 import { getPlan, getNormalizedTier } from "@/lib/plan";
-import { labelToDawId } from "@/lib/daws";
+import { labelToDawId, listDaws } from "@/lib/daws";
 import { NATIVE_EXPORTER_INFO } from "@/data/nativeExporters";
+import type { ChainDiff } from "@/lib/chainDiff";
+import type { Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from "@/lib/workspaces";
 import type { PluginPreset } from "@/types/plugins";
 
 const ACTION_BUTTON_CLASS =
@@ -23,6 +26,25 @@ type LibraryFolder = {
   name: string;
   created_at: string;
   updated_at?: string | null;
+  workspace_id?: string | null;
+};
+
+// "personal" or a workspace id.
+type LibraryScope = string;
+
+const PERSONAL_SCOPE = "personal";
+
+const WORKSPACE_ROLE_OPTIONS: WorkspaceRole[] = ["viewer", "editor", "admin"];
+
+type MembersViewState = {
+  workspace: Workspace;
+  loading: boolean;
+  error: string | null;
+  items: WorkspaceMember[];
+  invites: WorkspaceInvite[];
+  email: string;
+  role: WorkspaceRole;
+  saving: boolean;
 };
 
 type ViewMode = "list" | "grid";
@@ -108,6 +130,8 @@ const extractNotes = (features: Record<string, unknown> | null | undefined) =>
 
 type PresetRecord = {
   id: string;
+  user_id?: string;
+  workspace_id?: string | null;
   daw: string;
   clip_start: number;
   clip_end: number;
@@ -135,6 +159,80 @@ type SelectedView = {
   features?: Record<string, unknown> | null;
 };
 
+type PresetRevisionEntry = {
+  id: string;
+  version: number;
+  parent_id: string | null;
+  action: "create" | "import" | "restyle" | "edit" | "restore";
+  prompt: string | null;
+  restored_from: string | null;
+  plugins: PluginPreset[];
+  summary: string | null;
+  edited_by?: string | null;
+  edited_by_email?: string | null;
+  created_at: string;
+};
+
+type HistoryViewState = {
+  preset: PresetRecord;
+  loading: boolean;
+  error: string | null;
+  items: PresetRevisionEntry[];
+  diff: { revisionId: string; loading: boolean; data: ChainDiff | null; error: string | null } | null;
+  restoring: string | null;
+};
+
+const REVISION_ACTION_LABELS: Record<PresetRevisionEntry["action"], string> = {
+  create: "Saved",
+  import: "Imported",
+  restyle: "Re-styled",
+  edit: "Edited",
+  restore: "Restored",
+};
+
+type ShareLinkEntry = {
+  id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+type ShareViewState = {
+  preset: PresetRecord;
+  loading: boolean;
+  error: string | null;
+  items: ShareLinkEntry[];
+  expiresInDays: number | null;
+  creating: boolean;
+  revoking: string | null;
+};
+
+const SHARE_EXPIRY_OPTIONS: Array<{ label: string; value: number | null }> = [
+  { label: "1 day", value: 1 },
+  { label: "7 days", value: 7 },
+  { label: "30 days", value: 30 },
+  { label: "90 days", value: 90 },
+  { label: "Never", value: null },
+];
+
+const shareUrlFor = (token: string) =>
+  typeof window === "undefined" ? `/share/${token}` : `${window.location.origin}/share/${token}`;
+
+const shareStatus = (share: ShareLinkEntry) => {
+  if (share.revoked_at) return "Revoked";
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) return "Expired";
+  return share.expires_at
+    ? `Expires ${new Date(share.expires_at).toLocaleDateString()}`
+    : "Never expires";
+};
+
+type ChainEditorState = {
+  preset: PresetRecord;
+  saving: boolean;
+  error: string | null;
+};
+
 type NotesEditorState = {
   id: string;
   daw: string;
@@ -161,6 +259,16 @@ export default function LibraryPage() {
   const [query, setQuery] = useState("");
   const [toast, setToast] = useState<string | null>(null);
   const [notesEditor, setNotesEditor] = useState<NotesEditorState | null>(null);
+  const [historyView, setHistoryView] = useState<HistoryViewState | null>(null);
+  const [chainEditor, setChainEditor] = useState<ChainEditorState | null>(null);
+  const [shareView, setShareView] = useState<ShareViewState | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [scope, setScope] = useState<LibraryScope>(PERSONAL_SCOPE);
+  const [membersView, setMembersView] = useState<MembersViewState | null>(null);
+  const [pendingInvites, setPendingInvites] = useState<WorkspaceInvite[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [exportTargets, setExportTargets] = useState<Record<string, string>>({});
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -218,7 +326,8 @@ export default function LibraryPage() {
       }
 
       try {
-        const response = await fetch("/api/presets", {
+        const query = scope === PERSONAL_SCOPE ? "" : `?workspaceId=${encodeURIComponent(scope)}`;
+        const response = await fetch(`/api/presets${query}`, {
           headers: {
             Authorization: `Bearer ${session.access_token}`,
           },
@@ -263,7 +372,7 @@ export default function LibraryPage() {
     };
 
     void loadPresets();
-  }, [user]);
+  }, [user, scope]);
 
   useEffect(() => {
     if (!toast) return;
@@ -275,6 +384,7 @@ export default function LibraryPage() {
   const currentPlan = getPlan(currentPlanId);
   const canAccessLibrary = currentPlan.canAccessLibrary;
   const canExportPreset = currentPlan.canExportPreset;
+  const availableDaws = listDaws(currentPlan.allowedDAWs);
 
   const toggleFavorite = async (id: string) => {
     const target = presets.items.find((item) => item.id === id);
@@ -325,7 +435,10 @@ export default function LibraryPage() {
     }
   };
 
-  const handleExport = async (preset: PresetRecord) => {
+  const handleExport = async (
+    preset: PresetRecord,
+    options: { bundle?: boolean } = {}
+  ) => {
     if (!canExportPreset) {
       setToast("Upgrade your plan to export presets.");
       return;
@@ -336,6 +449,8 @@ export default function LibraryPage() {
 
     const clipWindow = buildClipWindowLabel(preset.clip_start, preset.clip_end, preset.duration || 15);
     const detectedSong = extractDetectedSong(preset.features ?? null);
+    const target = exportTargets[preset.id];
+    const targetDaw = target && target !== preset.daw ? target : null;
 
     try {
       const response = await fetch("/api/export-preset", {
@@ -347,6 +462,8 @@ export default function LibraryPage() {
           clipWindow,
           song: detectedSong,
           plugins: preset.plugins,
+          bundle: options.bundle ?? false,
+          targetDaw,
         }),
       });
 
@@ -374,15 +491,23 @@ export default function LibraryPage() {
       window.URL.revokeObjectURL(url);
       const nativeHeader = response.headers.get("X-ToneTerminal-Native");
       const targetHeader = response.headers.get("X-ToneTerminal-Target");
-      if (nativeHeader === "true") {
+      const translatedCount = Number(response.headers.get("X-ToneTerminal-Translated") ?? "0");
+      const translationNote =
+        targetDaw && translatedCount > 0
+          ? ` ${translatedCount} stock plugin${translatedCount === 1 ? "" : "s"} swapped for ${targetDaw} equivalents.`
+          : "";
+      if (targetHeader === "bundle") {
+        setToast("Multi-format bundle downloaded." + translationNote);
+      } else if (nativeHeader === "true") {
         setToast(
-          targetHeader && targetHeader !== "manual"
+          (targetHeader && targetHeader !== "manual"
             ? `Native preset downloaded (${targetHeader}).`
-            : "Native preset downloaded."
+            : "Native preset downloaded.") + translationNote
         );
       } else {
         setToast(
-          "Manual setup ZIP downloaded (README included). Native preset coming soon—Pro members get early access."
+          "Manual setup ZIP downloaded (README included). Native preset coming soon—Pro members get early access." +
+            translationNote
         );
       }
     } catch (caught) {
@@ -490,6 +615,95 @@ export default function LibraryPage() {
     void loadFolders();
   }, [user, canAccessLibrary, loadFolders]);
 
+  const loadWorkspaces = useCallback(async () => {
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+    try {
+      const response = await fetch("/api/workspaces", { headers });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to load workspaces."
+        );
+      }
+      setWorkspaces(Array.isArray(payload.items) ? (payload.items as Workspace[]) : []);
+    } catch (caught) {
+      setFolderError(
+        caught instanceof Error ? caught.message : "Unable to load workspaces."
+      );
+    }
+  }, [withSessionHeaders]);
+
+  const loadInvites = useCallback(async () => {
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+    try {
+      const response = await fetch("/api/workspace-invites", { headers });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to load workspace invites."
+        );
+      }
+      setPendingInvites(Array.isArray(payload.items) ? (payload.items as WorkspaceInvite[]) : []);
+    } catch (caught) {
+      setFolderError(
+        caught instanceof Error ? caught.message : "Unable to load workspace invites."
+      );
+    }
+  }, [withSessionHeaders]);
+
+  useEffect(() => {
+    if (!user || !supabase || !canAccessLibrary) {
+      setWorkspaces([]);
+      setPendingInvites([]);
+      setScope(PERSONAL_SCOPE);
+      return;
+    }
+    void loadWorkspaces();
+    void loadInvites();
+  }, [user, canAccessLibrary, loadWorkspaces, loadInvites]);
+
+  const handleRespondToInvite = useCallback(
+    async (invite: WorkspaceInvite, accept: boolean) => {
+      const headers = await withSessionHeaders();
+      if (!headers) return;
+      try {
+        const response = await fetch(`/api/workspace-invites/${invite.id}`, {
+          method: accept ? "POST" : "DELETE",
+          headers,
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok || !payload) {
+          throw new Error(
+            (payload && typeof payload.error === "string"
+              ? payload.error
+              : null) ?? "Unable to respond to the invite."
+          );
+        }
+        setPendingInvites((prev) => prev.filter((item) => item.id !== invite.id));
+        if (accept) {
+          await Promise.all([loadWorkspaces(), loadFolders()]);
+          setToast(`Joined ${invite.workspace_name ?? "the workspace"}.`);
+        } else {
+          setToast("Invite declined.");
+        }
+      } catch (caught) {
+        setToast(caught instanceof Error ? caught.message : "Unable to respond to the invite.");
+      }
+    },
+    [withSessionHeaders, loadWorkspaces, loadFolders]
+  );
+
+  const changeScope = useCallback((next: LibraryScope) => {
+    setScope(next);
+    setSelectedFolder("all");
+  }, []);
+
   const handleCreateFolder = useCallback(async () => {
     const name = window.prompt("Folder name");
     if (name === null) return;
@@ -504,7 +718,10 @@ export default function LibraryPage() {
       const response = await fetch("/api/library-folders", {
         method: "POST",
         headers,
-        body: JSON.stringify({ name: trimmed }),
+        body: JSON.stringify({
+          name: trimmed,
+          workspaceId: scope === PERSONAL_SCOPE ? undefined : scope,
+        }),
       });
       const payload = await response.json().catch(() => null);
       if (!response.ok || !payload) {
@@ -522,7 +739,7 @@ export default function LibraryPage() {
         caught instanceof Error ? caught.message : "Unable to create folder."
       );
     }
-  }, [withSessionHeaders]);
+  }, [scope, withSessionHeaders]);
 
   const handleRenameFolder = useCallback(async (folderId: string) => {
     const current = folders.find((folder) => folder.id === folderId);
@@ -624,180 +841,860 @@ export default function LibraryPage() {
               : null) ?? "Unable to move preset."
           );
         }
+        const movedScope =
+          payload.workspaceId === undefined ? scope : payload.workspaceId ?? PERSONAL_SCOPE;
         setPresets((prev) => ({
           ...prev,
-          items: prev.items.map((item) =>
-            item.id === presetId
-              ? {
-                  ...item,
-                  folder_id: folderId,
-                }
-              : item
-          ),
+          items:
+            movedScope === scope
+              ? prev.items.map((item) =>
+                  item.id === presetId
+                    ? {
+                        ...item,
+                        folder_id: folderId,
+                      }
+                    : item
+                )
+              : prev.items.filter((item) => item.id !== presetId),
         }));
-        setToast("Preset updated.");
+        setToast(movedScope === scope ? "Preset updated." : "Preset moved.");
       } catch (caught) {
         setToast(
           caught instanceof Error ? caught.message : "Unable to move preset."
         );
       }
     },
-    [withSessionHeaders]
+    [scope, withSessionHeaders]
   );
 
-  const handleView = (preset: PresetRecord) => {
-    const features = ensureFeatures(preset.features);
-    setSelected({
-      title: preset.daw,
-      subtitle: `Saved preset • ${new Date(preset.created_at).toLocaleString()}`,
-      plugins: preset.plugins,
-      summary: extractSummary({ summary: preset.summary ?? null, features }),
-      features,
-    });
-  };
-
-  const handleRestyle = async (preset: PresetRecord) => {
-    const input = window.prompt(
-      "How should this chain be re-styled? (e.g. 'brighter pop sheen with tighter compression')"
-    );
-    if (input === null) return;
-    const stylePrompt = input.trim();
-    if (!stylePrompt) {
-      setToast("Enter a direction to re-style the chain.");
+  const handleCreateWorkspace = async () => {
+    const name = window.prompt("Workspace name");
+    if (name === null) return;
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setToast("Workspace name cannot be empty.");
       return;
     }
-
     const headers = await withSessionHeaders();
     if (!headers) return;
-
     try {
-      const response = await fetch("/api/restyle", {
+      const response = await fetch("/api/workspaces", {
         method: "POST",
         headers,
-        body: JSON.stringify({
-          daw: preset.daw,
-          plugins: preset.plugins,
-          stylePrompt,
-        }),
+        body: JSON.stringify({ name: trimmed }),
       });
       const payload = await response.json().catch(() => null);
-      if (!response.ok || !payload || !Array.isArray(payload.plugins)) {
+      if (!response.ok || !payload || typeof payload.id !== "string") {
         throw new Error(
           (payload && typeof payload.error === "string"
             ? payload.error
-            : null) ?? "Unable to re-style chain."
+            : null) ?? "Unable to create workspace."
         );
       }
+      setWorkspaces((prev) => [...prev, payload as Workspace]);
+      changeScope(payload.id);
+      setToast("Workspace created.");
+    } catch (caught) {
+      setToast(
+        caught instanceof Error ? caught.message : "Unable to create workspace."
+      );
+    }
+  };
 
-      setSelected({
-        title: `${preset.daw} (Re-styled)`,
-        subtitle: `Re-styled • ${new Date().toLocaleString()}`,
-        plugins: payload.plugins as PluginPreset[],
-        summary: null,
-        features: null,
+  const handleDeleteWorkspace = async (workspace: Workspace) => {
+    const confirmed = window.confirm(
+      `Delete workspace "${workspace.name}"? Its folders are removed and its chains go back to their authors.`
+    );
+    if (!confirmed) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}`, {
+        method: "DELETE",
+        headers,
       });
-      setToast("Re-style ready.");
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to delete workspace."
+        );
+      }
+      setWorkspaces((prev) => prev.filter((item) => item.id !== workspace.id));
+      setFolders((prev) => prev.filter((folder) => folder.workspace_id !== workspace.id));
+      changeScope(PERSONAL_SCOPE);
+      setToast("Workspace deleted.");
     } catch (caught) {
       setToast(
-        caught instanceof Error
-          ? caught.message
-          : "Unable to re-style chain."
+        caught instanceof Error ? caught.message : "Unable to delete workspace."
       );
     }
   };
 
-  const handleTag = async (id: string) => {
-    const value = window.prompt("Add tags (comma separated)");
-    if (value === null) return;
-    const tags = value
-      .split(",")
-      .map((tag) => tag.trim())
-      .filter(Boolean);
-
+  const loadMembers = async (workspace: Workspace) => {
     const headers = await withSessionHeaders();
     if (!headers) return;
 
-    const previousItems = presets.items.map((item) => ({ ...item }));
-    setPresets((prev) => ({
-      ...prev,
-      items: prev.items.map((item) =>
-        item.id === id
+    setMembersView({
+      workspace,
+      loading: true,
+      error: null,
+      items: [],
+      invites: [],
+      email: "",
+      role: "viewer",
+      saving: false,
+    });
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/members`, { headers });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to load members."
+        );
+      }
+      setMembersView((prev) =>
+        prev && prev.workspace.id === workspace.id
           ? {
-              ...item,
-              tags,
+              ...prev,
+              loading: false,
+              items: Array.isArray(payload.items) ? (payload.items as WorkspaceMember[]) : [],
+              invites: Array.isArray(payload.invites) ? (payload.invites as WorkspaceInvite[]) : [],
             }
-          : item
-      ),
-    }));
+          : prev
+      );
+    } catch (caught) {
+      setMembersView((prev) =>
+        prev
+          ? {
+              ...prev,
+              loading: false,
+              error: caught instanceof Error ? caught.message : "Unable to load members.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleInviteMember = async () => {
+    if (!membersView) return;
+    const email = membersView.email.trim();
+    if (!email) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
 
+    const workspaceId = membersView.workspace.id;
+    setMembersView((prev) => (prev ? { ...prev, saving: true, error: null } : prev));
     try {
-      const response = await fetch(`/api/presets/${id}`, {
-        method: "PATCH",
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`, {
+        method: "POST",
         headers,
-        body: JSON.stringify({ tags }),
+        body: JSON.stringify({ email, role: membersView.role }),
       });
       const payload = await response.json().catch(() => null);
-      if (!response.ok) {
+      if (!response.ok || !payload || typeof payload.id !== "string") {
         throw new Error(
           (payload && typeof payload.error === "string"
             ? payload.error
-            : null) ?? "Unable to update tags."
+            : null) ?? "Unable to send invite."
         );
       }
-      setToast("Tags updated.");
+      const invite = payload as WorkspaceInvite;
+      setMembersView((prev) =>
+        prev && prev.workspace.id === workspaceId
+          ? {
+              ...prev,
+              saving: false,
+              email: "",
+              invites: [...prev.invites.filter((item) => item.id !== invite.id), invite],
+            }
+          : prev
+      );
+      setToast(`Invite sent to ${invite.email}.`);
     } catch (caught) {
-      setPresets((prev) => ({
-        ...prev,
-        items: previousItems,
-      }));
-      setToast(
-        caught instanceof Error ? caught.message : "Unable to update tags."
+      setMembersView((prev) =>
+        prev
+          ? {
+              ...prev,
+              saving: false,
+              error: caught instanceof Error ? caught.message : "Unable to send invite.",
+            }
+          : prev
       );
     }
   };
 
-  const handleNotes = (preset: PresetRecord) => {
-    const features = ensureFeatures(preset.features);
-    const existingNotes = extractNotes(features);
-    setNotesEditor({
-      id: preset.id,
-      daw: preset.daw,
-      value: existingNotes,
-      initialValue: existingNotes,
-      saving: false,
-      error: null,
-    });
-  };
+  const handleRevokeInvite = async (invite: WorkspaceInvite) => {
+    if (!membersView) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
 
-  const handleNotesChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
-    const { value } = event.target;
-    setNotesEditor((prev) => (prev ? { ...prev, value } : prev));
+    const workspaceId = membersView.workspace.id;
+    setMembersView((prev) => (prev ? { ...prev, saving: true, error: null } : prev));
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/invites/${invite.id}`, {
+        method: "DELETE",
+        headers,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to revoke invite."
+        );
+      }
+      setMembersView((prev) =>
+        prev && prev.workspace.id === workspaceId
+          ? { ...prev, saving: false, invites: prev.invites.filter((item) => item.id !== invite.id) }
+          : prev
+      );
+    } catch (caught) {
+      setMembersView((prev) =>
+        prev
+          ? {
+              ...prev,
+              saving: false,
+              error: caught instanceof Error ? caught.message : "Unable to revoke invite.",
+            }
+          : prev
+      );
+    }
   };
 
-  const handleNotesSave = async () => {
-    if (!notesEditor) return;
+  const handleChangeMemberRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (!membersView) return;
     const headers = await withSessionHeaders();
     if (!headers) return;
 
-    setNotesEditor((prev) =>
-      prev ? { ...prev, saving: true, error: null } : prev
-    );
-
+    const workspaceId = membersView.workspace.id;
+    setMembersView((prev) => (prev ? { ...prev, saving: true, error: null } : prev));
     try {
-      const response = await fetch(`/api/presets/${notesEditor.id}`, {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${member.user_id}`, {
         method: "PATCH",
         headers,
-        body: JSON.stringify({ notes: notesEditor.value }),
+        body: JSON.stringify({ role }),
       });
       const payload = await response.json().catch(() => null);
-      if (!response.ok) {
+      if (!response.ok || !payload || typeof payload.user_id !== "string") {
         throw new Error(
           (payload && typeof payload.error === "string"
             ? payload.error
-            : null) ?? "Unable to save notes."
+            : null) ?? "Unable to change role."
         );
       }
-
+      const updated = payload as WorkspaceMember;
+      setMembersView((prev) =>
+        prev && prev.workspace.id === workspaceId
+          ? {
+              ...prev,
+              saving: false,
+              items: prev.items.map((item) => (item.user_id === updated.user_id ? updated : item)),
+            }
+          : prev
+      );
+    } catch (caught) {
+      setMembersView((prev) =>
+        prev
+          ? {
+              ...prev,
+              saving: false,
+              error: caught instanceof Error ? caught.message : "Unable to change role.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!membersView) return;
+    const leaving = member.user_id === user?.id;
+    const confirmed = window.confirm(
+      leaving
+        ? `Leave "${membersView.workspace.name}"?`
+        : `Remove ${member.email ?? "this member"} from the workspace?`
+    );
+    if (!confirmed) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const workspaceId = membersView.workspace.id;
+    setMembersView((prev) => (prev ? { ...prev, saving: true, error: null } : prev));
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${member.user_id}`, {
+        method: "DELETE",
+        headers,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to remove member."
+        );
+      }
+      if (leaving) {
+        setMembersView(null);
+        setWorkspaces((prev) => prev.filter((item) => item.id !== workspaceId));
+        setFolders((prev) => prev.filter((folder) => folder.workspace_id !== workspaceId));
+        changeScope(PERSONAL_SCOPE);
+        setToast("You left the workspace.");
+        return;
+      }
+      setMembersView((prev) =>
+        prev && prev.workspace.id === workspaceId
+          ? {
+              ...prev,
+              saving: false,
+              items: prev.items.filter((item) => item.user_id !== member.user_id),
+            }
+          : prev
+      );
+    } catch (caught) {
+      setMembersView((prev) =>
+        prev
+          ? {
+              ...prev,
+              saving: false,
+              error: caught instanceof Error ? caught.message : "Unable to remove member.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    event.target.value = "";
+    if (!file) return;
+
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    if (selectedFolder !== "all" && selectedFolder !== "none") {
+      formData.append("folderId", selectedFolder);
+    } else if (scope !== PERSONAL_SCOPE) {
+      formData.append("workspaceId", scope);
+    }
+
+    setImporting(true);
+    try {
+      const response = await fetch("/api/import-preset", {
+        method: "POST",
+        headers: { Authorization: headers.Authorization },
+        body: formData,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !isRecord(payload.item)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to import preset."
+        );
+      }
+
+      const item = payload.item as PresetRecord;
+      const features = ensureFeatures(item.features);
+      setPresets((prev) => ({
+        ...prev,
+        items: [
+          {
+            ...item,
+            features,
+            summary: extractSummary({ summary: item.summary, features }),
+            tags: Array.isArray(item.tags) ? item.tags : [],
+            favorite: typeof item.favorite === "boolean" ? item.favorite : false,
+          },
+          ...prev.items,
+        ],
+      }));
+      setToast(`Imported ${file.name}.`);
+    } catch (caught) {
+      setToast(
+        caught instanceof Error ? caught.message : "Unable to import preset."
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleView = (preset: PresetRecord) => {
+    const features = ensureFeatures(preset.features);
+    setSelected({
+      title: preset.daw,
+      subtitle: `Saved preset • ${new Date(preset.created_at).toLocaleString()}`,
+      plugins: preset.plugins,
+      summary: extractSummary({ summary: preset.summary ?? null, features }),
+      features,
+    });
+  };
+
+  const handleRestyle = async (preset: PresetRecord) => {
+    const input = window.prompt(
+      "How should this chain be re-styled? (e.g. 'brighter pop sheen with tighter compression')"
+    );
+    if (input === null) return;
+    const stylePrompt = input.trim();
+    if (!stylePrompt) {
+      setToast("Enter a direction to re-style the chain.");
+      return;
+    }
+
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    try {
+      const response = await fetch("/api/restyle", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          presetId: preset.id,
+          stylePrompt,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !Array.isArray(payload.plugins)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to re-style chain."
+        );
+      }
+
+      const plugins = payload.plugins as PluginPreset[];
+      const summary = typeof payload.summary === "string" ? payload.summary : preset.summary ?? null;
+      setPresets((prev) => ({
+        ...prev,
+        items: prev.items.map((item) =>
+          item.id === preset.id ? { ...item, plugins, summary } : item
+        ),
+      }));
+      setSelected({
+        title: `${preset.daw} (Re-styled)`,
+        subtitle: `Re-styled • ${new Date().toLocaleString()}`,
+        plugins,
+        summary,
+        features: null,
+      });
+      setToast("Re-style saved. Earlier versions are under History.");
+    } catch (caught) {
+      setToast(
+        caught instanceof Error
+          ? caught.message
+          : "Unable to re-style chain."
+      );
+    }
+  };
+
+  const loadHistory = async (preset: PresetRecord) => {
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    setHistoryView({ preset, loading: true, error: null, items: [], diff: null, restoring: null });
+    try {
+      const response = await fetch(`/api/presets/${preset.id}/revisions`, { headers });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to load preset history."
+        );
+      }
+      setHistoryView((prev) =>
+        prev && prev.preset.id === preset.id
+          ? {
+              ...prev,
+              loading: false,
+              items: Array.isArray(payload.items) ? (payload.items as PresetRevisionEntry[]) : [],
+            }
+          : prev
+      );
+    } catch (caught) {
+      setHistoryView((prev) =>
+        prev
+          ? {
+              ...prev,
+              loading: false,
+              error: caught instanceof Error ? caught.message : "Unable to load preset history.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleShowDiff = async (revision: PresetRevisionEntry) => {
+    if (!historyView) return;
+    if (historyView.diff?.revisionId === revision.id) {
+      setHistoryView((prev) => (prev ? { ...prev, diff: null } : prev));
+      return;
+    }
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const presetId = historyView.preset.id;
+    setHistoryView((prev) =>
+      prev ? { ...prev, diff: { revisionId: revision.id, loading: true, data: null, error: null } } : prev
+    );
+    try {
+      const response = await fetch(
+        `/api/presets/${presetId}/revisions/diff?to=${encodeURIComponent(revision.id)}`,
+        { headers }
+      );
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !isRecord(payload.diff)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to compare versions."
+        );
+      }
+      setHistoryView((prev) =>
+        prev?.diff?.revisionId === revision.id
+          ? { ...prev, diff: { ...prev.diff, loading: false, data: payload.diff as ChainDiff } }
+          : prev
+      );
+    } catch (caught) {
+      setHistoryView((prev) =>
+        prev?.diff?.revisionId === revision.id
+          ? {
+              ...prev,
+              diff: {
+                ...prev.diff,
+                loading: false,
+                error: caught instanceof Error ? caught.message : "Unable to compare versions.",
+              },
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleRestoreRevision = async (revision: PresetRevisionEntry) => {
+    if (!historyView) return;
+    const confirmed = window.confirm(
+      `Restore version ${revision.version}? The current chain stays in the history.`
+    );
+    if (!confirmed) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const preset = historyView.preset;
+    setHistoryView((prev) => (prev ? { ...prev, restoring: revision.id } : prev));
+    try {
+      const response = await fetch(
+        `/api/presets/${preset.id}/revisions/${revision.id}/restore`,
+        { method: "POST", headers }
+      );
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !isRecord(payload.revision)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to restore version."
+        );
+      }
+      const restored = payload.revision as PresetRevisionEntry;
+      const nextPreset = {
+        ...preset,
+        plugins: restored.plugins,
+        summary: restored.summary ?? preset.summary ?? null,
+      };
+      setPresets((prev) => ({
+        ...prev,
+        items: prev.items.map((item) => (item.id === preset.id ? nextPreset : item)),
+      }));
+      setToast(`Restored version ${revision.version}.`);
+      await loadHistory(nextPreset);
+    } catch (caught) {
+      setHistoryView((prev) => (prev ? { ...prev, restoring: null } : prev));
+      setToast(
+        caught instanceof Error ? caught.message : "Unable to restore version."
+      );
+    }
+  };
+
+  const handleSaveChain = async (plugins: PluginPreset[]) => {
+    if (!chainEditor) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const preset = chainEditor.preset;
+    setChainEditor((prev) => (prev ? { ...prev, saving: true, error: null } : prev));
+    try {
+      const response = await fetch(`/api/presets/${preset.id}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ plugins }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !Array.isArray(payload.plugins)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to save chain."
+        );
+      }
+      const saved = payload.plugins as PluginPreset[];
+      setPresets((prev) => ({
+        ...prev,
+        items: prev.items.map((item) =>
+          item.id === preset.id ? { ...item, plugins: saved } : item
+        ),
+      }));
+      setChainEditor(null);
+      setToast("Chain saved. Earlier versions are under History.");
+    } catch (caught) {
+      setChainEditor((prev) =>
+        prev
+          ? {
+              ...prev,
+              saving: false,
+              error: caught instanceof Error ? caught.message : "Unable to save chain.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const loadShares = async (preset: PresetRecord) => {
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    setShareView({
+      preset,
+      loading: true,
+      error: null,
+      items: [],
+      expiresInDays: 7,
+      creating: false,
+      revoking: null,
+    });
+    try {
+      const response = await fetch(`/api/presets/${preset.id}/shares`, { headers });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to load share links."
+        );
+      }
+      setShareView((prev) =>
+        prev && prev.preset.id === preset.id
+          ? {
+              ...prev,
+              loading: false,
+              items: Array.isArray(payload.items) ? (payload.items as ShareLinkEntry[]) : [],
+            }
+          : prev
+      );
+    } catch (caught) {
+      setShareView((prev) =>
+        prev
+          ? {
+              ...prev,
+              loading: false,
+              error: caught instanceof Error ? caught.message : "Unable to load share links.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleCopyShare = async (share: ShareLinkEntry) => {
+    try {
+      await navigator.clipboard.writeText(shareUrlFor(share.token));
+      setToast("Share link copied.");
+    } catch {
+      window.prompt("Copy this share link", shareUrlFor(share.token));
+    }
+  };
+
+  const handleCreateShare = async () => {
+    if (!shareView) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const presetId = shareView.preset.id;
+    setShareView((prev) => (prev ? { ...prev, creating: true, error: null } : prev));
+    try {
+      const response = await fetch(`/api/presets/${presetId}/shares`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ expiresInDays: shareView.expiresInDays }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !isRecord(payload.share)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to create share link."
+        );
+      }
+      const share = payload.share as ShareLinkEntry;
+      setShareView((prev) =>
+        prev && prev.preset.id === presetId
+          ? { ...prev, creating: false, items: [share, ...prev.items] }
+          : prev
+      );
+      await handleCopyShare(share);
+    } catch (caught) {
+      setShareView((prev) =>
+        prev
+          ? {
+              ...prev,
+              creating: false,
+              error: caught instanceof Error ? caught.message : "Unable to create share link.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleRevokeShare = async (share: ShareLinkEntry) => {
+    if (!shareView) return;
+    const confirmed = window.confirm("Revoke this link? Anyone who has it will lose access.");
+    if (!confirmed) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const presetId = shareView.preset.id;
+    setShareView((prev) => (prev ? { ...prev, revoking: share.id, error: null } : prev));
+    try {
+      const response = await fetch(`/api/presets/${presetId}/shares/${share.id}`, {
+        method: "DELETE",
+        headers,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload || !isRecord(payload.share)) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to revoke share link."
+        );
+      }
+      const revoked = payload.share as ShareLinkEntry;
+      setShareView((prev) =>
+        prev && prev.preset.id === presetId
+          ? {
+              ...prev,
+              revoking: null,
+              items: prev.items.map((item) => (item.id === revoked.id ? revoked : item)),
+            }
+          : prev
+      );
+      setToast("Share link revoked.");
+    } catch (caught) {
+      setShareView((prev) =>
+        prev
+          ? {
+              ...prev,
+              revoking: null,
+              error: caught instanceof Error ? caught.message : "Unable to revoke share link.",
+            }
+          : prev
+      );
+    }
+  };
+
+  const handleTag = async (id: string) => {
+    const value = window.prompt("Add tags (comma separated)");
+    if (value === null) return;
+    const tags = value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    const previousItems = presets.items.map((item) => ({ ...item }));
+    setPresets((prev) => ({
+      ...prev,
+      items: prev.items.map((item) =>
+        item.id === id
+          ? {
+              ...item,
+              tags,
+            }
+          : item
+      ),
+    }));
+
+    try {
+      const response = await fetch(`/api/presets/${id}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ tags }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to update tags."
+        );
+      }
+      setToast("Tags updated.");
+    } catch (caught) {
+      setPresets((prev) => ({
+        ...prev,
+        items: previousItems,
+      }));
+      setToast(
+        caught instanceof Error ? caught.message : "Unable to update tags."
+      );
+    }
+  };
+
+  const handleNotes = (preset: PresetRecord) => {
+    const features = ensureFeatures(preset.features);
+    const existingNotes = extractNotes(features);
+    setNotesEditor({
+      id: preset.id,
+      daw: preset.daw,
+      value: existingNotes,
+      initialValue: existingNotes,
+      saving: false,
+      error: null,
+    });
+  };
+
+  const handleNotesChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    const { value } = event.target;
+    setNotesEditor((prev) => (prev ? { ...prev, value } : prev));
+  };
+
+  const handleNotesSave = async () => {
+    if (!notesEditor) return;
+    const headers = await withSessionHeaders();
+    if (!headers) return;
+
+    setNotesEditor((prev) =>
+      prev ? { ...prev, saving: true, error: null } : prev
+    );
+
+    try {
+      const response = await fetch(`/api/presets/${notesEditor.id}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ notes: notesEditor.value }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to save notes."
+        );
+      }
+
       const updatedFeatures = ensureFeatures(payload?.features ?? null);
 
       setPresets((prev) => ({
@@ -852,6 +1749,33 @@ export default function LibraryPage() {
     [viewMode]
   );
 
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === scope) ?? null;
+  // The personal library behaves like a workspace where the caller is admin.
+  const scopeRole: WorkspaceRole = scope === PERSONAL_SCOPE ? "admin" : activeWorkspace?.role ?? "viewer";
+  const canEditScope = scopeRole !== "viewer";
+  const canAdminScope = scopeRole === "admin";
+  const isOwnPreset = (preset: PresetRecord) => !preset.user_id || preset.user_id === user?.id;
+
+  const scopedFolders = useMemo(
+    () => folders.filter((folder) => (folder.workspace_id ?? PERSONAL_SCOPE) === scope),
+    [folders, scope]
+  );
+
+  // Folders a preset can be moved into: personal ones plus those of workspaces the caller edits.
+  const moveTargets = useMemo(
+    () =>
+      [
+        { id: PERSONAL_SCOPE, name: "Personal" },
+        ...workspaces.filter((workspace) => workspace.role !== "viewer"),
+      ]
+        .map((group) => ({
+          ...group,
+          folders: folders.filter((folder) => (folder.workspace_id ?? PERSONAL_SCOPE) === group.id),
+        }))
+        .filter((group) => group.folders.length > 0),
+    [folders, workspaces]
+  );
+
   const folderChipClass = useCallback(
     (active: boolean) =>
       `rounded-full border px-3 py-1 text-[10px] uppercase tracking-[0.35em] transition ${
@@ -997,6 +1921,399 @@ export default function LibraryPage() {
           </div>
         </div>
       )}
+      {membersView && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 px-4 py-6">
+          <div className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-white/15 bg-black/70 shadow-lg shadow-black/60">
+            <div className="flex items-center justify-between gap-4 border-b border-white/10 px-6 py-4">
+              <div>
+                <h2 className="text-xl font-semibold text-white">{membersView.workspace.name} Members</h2>
+                <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                  Viewers browse · Editors change chains · Admins manage members
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setMembersView(null)}
+                className="rounded-full border border-white/30 px-4 py-2 text-xs uppercase tracking-[0.3em] text-white transition hover:border-white/60 hover:bg-white/5"
+              >
+                Close
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-5">
+              {membersView.workspace.role === "admin" && (
+                <div className="mb-5 flex flex-wrap items-center gap-3">
+                  <input
+                    type="email"
+                    value={membersView.email}
+                    onChange={(event) => {
+                      const email = event.target.value;
+                      setMembersView((prev) => (prev ? { ...prev, email } : prev));
+                    }}
+                    placeholder="Teammate email"
+                    className="min-w-[220px] flex-1 rounded-full border border-white/20 bg-black/40 px-4 py-1 text-xs text-white outline-none transition focus:border-sky-400/70"
+                  />
+                  <select
+                    value={membersView.role}
+                    onChange={(event) => {
+                      const role = event.target.value as WorkspaceRole;
+                      setMembersView((prev) => (prev ? { ...prev, role } : prev));
+                    }}
+                    className="rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs text-white outline-none transition focus:border-sky-400/70"
+                  >
+                    {WORKSPACE_ROLE_OPTIONS.map((role) => (
+                      <option key={role} value={role} className="bg-black text-white">
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => void handleInviteMember()}
+                    className={`${ACTION_BUTTON_CLASS} ${membersView.saving ? "pointer-events-none opacity-60" : ""}`}
+                    disabled={membersView.saving || !membersView.email.trim()}
+                  >
+                    Send Invite
+                  </button>
+                </div>
+              )}
+              {membersView.error && <p className="mb-3 text-sm text-red-300">{membersView.error}</p>}
+              {membersView.loading ? (
+                <p className="text-sm text-slate-400">Loading members…</p>
+              ) : (
+                <ul className="space-y-3">
+                  {membersView.items.map((member) => {
+                    const isOwner = member.user_id === membersView.workspace.owner_id;
+                    const isSelf = member.user_id === user?.id;
+                    const canManage = membersView.workspace.role === "admin" && !isOwner;
+                    return (
+                      <li key={member.user_id} className="surface-card rounded-xl p-4 text-sm text-slate-300">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <div>
+                            <p className="font-semibold text-white">
+                              {member.email ?? "Unknown member"}
+                              {isSelf ? " (you)" : ""}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {isOwner ? "Owner" : `Joined ${new Date(member.created_at).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {canManage ? (
+                              <select
+                                value={member.role}
+                                onChange={(event) =>
+                                  void handleChangeMemberRole(member, event.target.value as WorkspaceRole)
+                                }
+                                disabled={membersView.saving}
+                                className="rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs text-white outline-none transition focus:border-sky-400/70"
+                              >
+                                {WORKSPACE_ROLE_OPTIONS.map((role) => (
+                                  <option key={role} value={role} className="bg-black text-white">
+                                    {role}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-[10px] uppercase tracking-[0.35em] text-slate-400">
+                                {member.role}
+                              </span>
+                            )}
+                            {!isOwner && (canManage || isSelf) && (
+                              <button
+                                type="button"
+                                onClick={() => void handleRemoveMember(member)}
+                                className={`${ACTION_BUTTON_CLASS} ${membersView.saving ? "pointer-events-none opacity-60" : ""}`}
+                                disabled={membersView.saving}
+                              >
+                                {isSelf ? "Leave" : "Remove"}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {membersView.invites.length > 0 && (
+                <div className="mt-5">
+                  <p className="mb-2 text-[10px] uppercase tracking-[0.35em] text-slate-500">Pending invites</p>
+                  <ul className="space-y-2">
+                    {membersView.invites.map((invite) => (
+                      <li
+                        key={invite.id}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 px-4 py-2 text-sm text-slate-300"
+                      >
+                        <span>
+                          {invite.email} · {invite.role}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => void handleRevokeInvite(invite)}
+                          className={`${ACTION_BUTTON_CLASS} ${membersView.saving ? "pointer-events-none opacity-60" : ""}`}
+                          disabled={membersView.saving}
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {shareView && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 px-4 py-6">
+          <div className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-white/15 bg-black/70 shadow-lg shadow-black/60">
+            <div className="flex items-center justify-between gap-4 border-b border-white/10 px-6 py-4">
+              <div>
+                <h2 className="text-xl font-semibold text-white">Share {shareView.preset.daw} Chain</h2>
+                <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                  Read-only links anyone can open
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShareView(null)}
+                className="rounded-full border border-white/30 px-4 py-2 text-xs uppercase tracking-[0.3em] text-white transition hover:border-white/60 hover:bg-white/5"
+              >
+                Close
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-5">
+              <div className="mb-5 flex flex-wrap items-center gap-3">
+                <select
+                  value={shareView.expiresInDays === null ? "never" : String(shareView.expiresInDays)}
+                  onChange={(event) => {
+                    const value = event.target.value === "never" ? null : Number(event.target.value);
+                    setShareView((prev) => (prev ? { ...prev, expiresInDays: value } : prev));
+                  }}
+                  className="rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs text-white outline-none transition focus:border-sky-400/70"
+                >
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <option
+                      key={option.label}
+                      value={option.value === null ? "never" : String(option.value)}
+                      className="bg-black text-white"
+                    >
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => void handleCreateShare()}
+                  className={`${ACTION_BUTTON_CLASS} ${shareView.creating ? "pointer-events-none opacity-60" : ""}`}
+                  disabled={shareView.creating}
+                >
+                  {shareView.creating ? "Creating…" : "Create Link"}
+                </button>
+              </div>
+              {shareView.error && <p className="mb-3 text-sm text-red-300">{shareView.error}</p>}
+              {shareView.loading ? (
+                <p className="text-sm text-slate-400">Loading share links…</p>
+              ) : shareView.items.length === 0 ? (
+                <p className="text-sm text-slate-400">No share links yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {shareView.items.map((share) => {
+                    const status = shareStatus(share);
+                    const active = status !== "Revoked" && status !== "Expired";
+                    return (
+                      <li key={share.id} className="surface-card rounded-xl p-4 text-sm text-slate-300">
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className={`truncate font-mono text-xs ${active ? "text-white" : "text-slate-500 line-through"}`}>
+                              {shareUrlFor(share.token)}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              Created {new Date(share.created_at).toLocaleString()} · {status}
+                            </p>
+                          </div>
+                          {active && (
+                            <div className="flex gap-2">
+                              <button
+                                type="button"
+                                onClick={() => void handleCopyShare(share)}
+                                className={ACTION_BUTTON_CLASS}
+                              >
+                                Copy
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => void handleRevokeShare(share)}
+                                className={`${ACTION_BUTTON_CLASS} ${
+                                  shareView.revoking ? "pointer-events-none opacity-60" : ""
+                                }`}
+                                disabled={Boolean(shareView.revoking)}
+                              >
+                                {shareView.revoking === share.id ? "Revoking…" : "Revoke"}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {chainEditor && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 px-4 py-6">
+          <div className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl border border-white/15 bg-black/70 shadow-lg shadow-black/60">
+            <div className="border-b border-white/10 px-6 py-4">
+              <h2 className="text-xl font-semibold text-white">Edit {chainEditor.preset.daw} Chain</h2>
+              <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                Drag to reorder, bypass or tweak settings before export
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-5">
+              <ChainEditor
+                daw={chainEditor.preset.daw}
+                plugins={chainEditor.preset.plugins}
+                saving={chainEditor.saving}
+                error={chainEditor.error}
+                onSave={(plugins) => void handleSaveChain(plugins)}
+                onCancel={() => setChainEditor(null)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+      {historyView && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 px-4 py-6">
+          <div className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl border border-white/15 bg-black/70 shadow-lg shadow-black/60">
+            <div className="flex items-center justify-between gap-4 border-b border-white/10 px-6 py-4">
+              <div>
+                <h2 className="text-xl font-semibold text-white">
+                  {historyView.preset.daw} History
+                </h2>
+                <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                  Every re-style, edit and import of this chain
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setHistoryView(null)}
+                className="rounded-full border border-white/30 px-4 py-2 text-xs uppercase tracking-[0.3em] text-white transition hover:border-white/60 hover:bg-white/5"
+              >
+                Close
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-5">
+              {historyView.loading ? (
+                <p className="text-sm text-slate-400">Loading history…</p>
+              ) : historyView.error ? (
+                <p className="text-sm text-red-300">{historyView.error}</p>
+              ) : historyView.items.length === 0 ? (
+                <p className="text-sm text-slate-400">
+                  No earlier versions yet. Re-styling this chain starts its history.
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {historyView.items.map((revision, index) => {
+                    const diff =
+                      historyView.diff?.revisionId === revision.id ? historyView.diff : null;
+                    const restoredFrom = revision.restored_from
+                      ? historyView.items.find((item) => item.id === revision.restored_from)
+                      : null;
+                    return (
+                      <li key={revision.id} className="surface-card rounded-xl p-4 text-sm text-slate-300">
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                          <div>
+                            <p className="font-semibold text-white">
+                              v{revision.version} · {REVISION_ACTION_LABELS[revision.action] ?? revision.action}
+                              {restoredFrom ? ` v${restoredFrom.version}` : ""}
+                              {index === 0 ? " · Current" : ""}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {new Date(revision.created_at).toLocaleString()} · {revision.plugins.length} plugins
+                              {revision.edited_by ? ` · by ${revision.edited_by_email ?? "a teammate"}` : ""}
+                            </p>
+                            {revision.prompt && (
+                              <p className="mt-1 text-xs italic text-slate-400">“{revision.prompt}”</p>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() => void handleShowDiff(revision)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              {diff ? "Hide Changes" : "Changes"}
+                            </button>
+                            {index > 0 && canEditScope && (
+                              <button
+                                type="button"
+                                onClick={() => void handleRestoreRevision(revision)}
+                                className={`${ACTION_BUTTON_CLASS} ${
+                                  historyView.restoring ? "pointer-events-none opacity-60" : ""
+                                }`}
+                                disabled={Boolean(historyView.restoring)}
+                              >
+                                {historyView.restoring === revision.id ? "Restoring…" : "Restore"}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        {diff && (
+                          <div className="mt-3 space-y-1 border-t border-white/10 pt-3 text-xs">
+                            {diff.loading ? (
+                              <p className="text-slate-400">Comparing…</p>
+                            ) : diff.error ? (
+                              <p className="text-red-300">{diff.error}</p>
+                            ) : diff.data?.identical ? (
+                              <p className="text-slate-400">No changes from the previous version.</p>
+                            ) : diff.data ? (
+                              <>
+                                {diff.data.added.map((entry) => (
+                                  <p key={`added-${entry.index}`} className="text-emerald-300">
+                                    + {entry.name} (slot {entry.index + 1})
+                                  </p>
+                                ))}
+                                {diff.data.removed.map((entry) => (
+                                  <p key={`removed-${entry.index}`} className="text-red-300">
+                                    − {entry.name} (was slot {entry.index + 1})
+                                  </p>
+                                ))}
+                                {diff.data.reordered.map((entry) => (
+                                  <p key={`moved-${entry.from}-${entry.to}`} className="text-sky-300">
+                                    ↕ {entry.name}: slot {entry.from + 1} → {entry.to + 1}
+                                  </p>
+                                ))}
+                                {diff.data.changed.map((change) => (
+                                  <div key={`changed-${change.to}`} className="text-amber-200">
+                                    <p>~ {change.name}</p>
+                                    {change.bypassed && (
+                                      <p className="pl-4 text-slate-300">
+                                        {change.bypassed.to ? "Bypassed" : "Enabled"}
+                                      </p>
+                                    )}
+                                    {change.settings.map((setting) => (
+                                      <p key={setting.key} className="pl-4 text-slate-300">
+                                        {setting.key}: {setting.from ?? "—"} → {setting.to ?? "—"}
+                                      </p>
+                                    ))}
+                                  </div>
+                                ))}
+                              </>
+                            ) : null}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
       <div className="relative z-10 flex min-h-screen flex-col px-6 py-10 sm:px-10 lg:px-16">
         <HeaderNav />
 
@@ -1021,10 +2338,26 @@ export default function LibraryPage() {
             <button
               type="button"
               onClick={() => void handleCreateFolder()}
-              className={ACTION_BUTTON_CLASS}
+              className={`${ACTION_BUTTON_CLASS} ${canEditScope ? "" : "pointer-events-none opacity-60"}`}
+              disabled={!canEditScope}
             >
               Add Folder
             </button>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className={`${ACTION_BUTTON_CLASS} ${importing ? "pointer-events-none opacity-60" : ""}`}
+              disabled={importing || !canAccessLibrary || !canEditScope}
+            >
+              {importing ? "Importing…" : "Import Preset"}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".rfxchain,.fst,.adg,.patch,.preset,.zip"
+              className="hidden"
+              onChange={(event) => void handleImport(event)}
+            />
             <Link href="/account#history" className={ACTION_BUTTON_CLASS}>
               Browse History
             </Link>
@@ -1049,6 +2382,81 @@ export default function LibraryPage() {
               </button>
             </div>
           </div>
+          {pendingInvites.map((invite) => (
+            <div
+              key={invite.id}
+              className="mt-3 flex flex-wrap items-center gap-3 rounded-xl border border-sky-400/30 bg-sky-500/10 px-4 py-2 text-xs text-slate-200"
+            >
+              <span>
+                You are invited to join {invite.workspace_name ?? "a workspace"} as {invite.role}.
+              </span>
+              <button
+                type="button"
+                onClick={() => void handleRespondToInvite(invite, true)}
+                className={ACTION_BUTTON_CLASS}
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleRespondToInvite(invite, false)}
+                className={ACTION_BUTTON_CLASS}
+              >
+                Decline
+              </button>
+            </div>
+          ))}
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-[10px] uppercase tracking-[0.35em] text-slate-500">Library</span>
+            <button
+              type="button"
+              onClick={() => changeScope(PERSONAL_SCOPE)}
+              className={folderChipClass(scope === PERSONAL_SCOPE)}
+            >
+              Personal
+            </button>
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace.id}
+                type="button"
+                onClick={() => changeScope(workspace.id)}
+                className={folderChipClass(scope === workspace.id)}
+              >
+                {workspace.name}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => void handleCreateWorkspace()}
+              className={`${ACTION_BUTTON_CLASS} ${canAccessLibrary ? "" : "pointer-events-none opacity-60"}`}
+              disabled={!canAccessLibrary}
+            >
+              New Workspace
+            </button>
+            {activeWorkspace && (
+              <>
+                <span className="text-[10px] uppercase tracking-[0.35em] text-slate-500">
+                  Your role: {activeWorkspace.role}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void loadMembers(activeWorkspace)}
+                  className={ACTION_BUTTON_CLASS}
+                >
+                  Members
+                </button>
+                {activeWorkspace.owner_id === user?.id && (
+                  <button
+                    type="button"
+                    onClick={() => void handleDeleteWorkspace(activeWorkspace)}
+                    className={`${ACTION_BUTTON_CLASS} border-red-400/40 text-red-200 hover:border-red-400/70 hover:bg-red-500/10`}
+                  >
+                    Delete Workspace
+                  </button>
+                )}
+              </>
+            )}
+          </div>
           <div className="mt-3 flex flex-wrap items-center gap-2">
             <button
               type="button"
@@ -1064,7 +2472,7 @@ export default function LibraryPage() {
             >
               No Folder
             </button>
-            {folders.map((folder) => (
+            {scopedFolders.map((folder) => (
               <button
                 key={folder.id}
                 type="button"
@@ -1083,7 +2491,7 @@ export default function LibraryPage() {
           {folderError && (
             <p className="mt-2 text-xs text-red-300">{folderError}</p>
           )}
-          {selectedFolder !== "all" && selectedFolder !== "none" && (
+          {selectedFolder !== "all" && selectedFolder !== "none" && canEditScope && (
             <div className="mt-2 flex flex-wrap items-center gap-2">
               <button
                 type="button"
@@ -1092,13 +2500,15 @@ export default function LibraryPage() {
               >
                 Rename Folder
               </button>
-              <button
-                type="button"
-                onClick={() => void handleDeleteFolder(selectedFolder)}
-                className={`${ACTION_BUTTON_CLASS} border-red-400/40 text-red-200 hover:border-red-400/70 hover:bg-red-500/10`}
-              >
-                Delete Folder
-              </button>
+              {canAdminScope && (
+                <button
+                  type="button"
+                  onClick={() => void handleDeleteFolder(selectedFolder)}
+                  className={`${ACTION_BUTTON_CLASS} border-red-400/40 text-red-200 hover:border-red-400/70 hover:bg-red-500/10`}
+                >
+                  Delete Folder
+                </button>
+              )}
             </div>
           )}
           <p className="mt-2 text-xs uppercase tracking-[0.3em] text-amber-300">
@@ -1162,6 +2572,7 @@ export default function LibraryPage() {
                         <button
                           type="button"
                           onClick={() => void toggleFavorite(preset.id)}
+                          disabled={!canEditScope}
                           className={`text-lg transition ${
                             preset.favorite ? "text-yellow-300" : "text-slate-400"
                           } hover:text-yellow-300`}
@@ -1209,19 +2620,51 @@ export default function LibraryPage() {
                               event.target.value ? event.target.value : null
                             )
                           }
-                          disabled={foldersLoading}
+                          disabled={foldersLoading || !canEditScope}
                           className="min-w-[150px] rounded-md border border-white/20 bg-black/60 px-3 py-1 text-xs text-white outline-none transition hover:border-white/40 focus:border-white"
                         >
                           <option value="" className="bg-black text-white">
                             No folder
                           </option>
-                          {folders.map((folder) => (
-                            <option key={folder.id} value={folder.id} className="bg-black text-white">
-                              {folder.name}
-                            </option>
-                          ))}
+                          {moveTargets
+                            .filter((group) => isOwnPreset(preset) || group.id === scope)
+                            .map((group) => (
+                              <optgroup key={group.id} label={group.name} className="bg-black text-white">
+                                {group.folders.map((folder) => (
+                                  <option key={folder.id} value={folder.id} className="bg-black text-white">
+                                    {folder.name}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
                         </select>
                       </div>
+                      {canExportPreset && availableDaws.length > 1 && (
+                        <div className="flex flex-col items-end gap-1 text-xs">
+                          <span className="text-[10px] uppercase tracking-[0.35em] text-slate-500">
+                            Export for
+                          </span>
+                          <select
+                            value={exportTargets[preset.id] ?? preset.daw}
+                            onChange={(event) =>
+                              setExportTargets((prev) => ({
+                                ...prev,
+                                [preset.id]: event.target.value,
+                              }))
+                            }
+                            className="min-w-[150px] rounded-md border border-white/20 bg-black/60 px-3 py-1 text-xs text-white outline-none transition hover:border-white/40 focus:border-white"
+                          >
+                            {(availableDaws.includes(preset.daw)
+                              ? availableDaws
+                              : [preset.daw, ...availableDaws]
+                            ).map((daw) => (
+                              <option key={daw} value={daw} className="bg-black text-white">
+                                {daw === preset.daw ? daw : `${daw} (translate)`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                       <div className="flex flex-wrap gap-2">
                         <button
                           type="button"
@@ -1242,32 +2685,73 @@ export default function LibraryPage() {
                         </button>
                         <button
                           type="button"
-                          onClick={() => void handleRestyle(preset)}
-                          className={ACTION_BUTTON_CLASS}
-                        >
-                          Re-Style
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => handleNotes(preset)}
-                          className={ACTION_BUTTON_CLASS}
-                        >
-                          Notes
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => void handleTag(preset.id)}
-                          className={ACTION_BUTTON_CLASS}
+                          onClick={() => void handleExport(preset, { bundle: true })}
+                          className={`${ACTION_BUTTON_CLASS} ${
+                            canExportPreset ? "" : "cursor-not-allowed opacity-60"
+                          }`}
+                          disabled={!canExportPreset}
                         >
-                          Tag
+                          Export All
                         </button>
+                        {canEditScope && (
+                          <button
+                            type="button"
+                            onClick={() => setChainEditor({ preset, saving: false, error: null })}
+                            className={ACTION_BUTTON_CLASS}
+                          >
+                            Edit
+                          </button>
+                        )}
                         <button
                           type="button"
-                          onClick={() => void handleDelete(preset.id)}
+                          onClick={() => void loadHistory(preset)}
                           className={ACTION_BUTTON_CLASS}
                         >
-                          Delete
+                          History
                         </button>
+                        {isOwnPreset(preset) && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => void handleRestyle(preset)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              Re-Style
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void loadShares(preset)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              Share
+                            </button>
+                          </>
+                        )}
+                        {canEditScope && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => handleNotes(preset)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              Notes
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void handleTag(preset.id)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              Tag
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void handleDelete(preset.id)}
+                              className={ACTION_BUTTON_CLASS}
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -8,13 +8,16 @@ import ParticlesBackground from "@/components/ParticlesBackground";
 import PluginCard from "@/components/PluginCard";
 import HeaderNav from "@/components/HeaderNav";
 import type { PluginPreset } from "@/types/plugins";
+import type { ChainValidationReport } from "@/lib/chainValidation";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabaseClient";
+import { readEventStream } from "@/lib/sse";
 import { getPlan, getNormalizedTier } from "@/lib/plan";
 import { dawIdToLabel, listDaws, labelToDawId } from "@/lib/daws";
 import { pluginsForDAW } from "@/lib/pluginInventory";
 import type { DawId } from "@/data/daws";
 import { NATIVE_EXPORTER_INFO } from "@/data/nativeExporters";
+import { TONAL_REFERENCES } from "@/data/tonalReferences";
 import WaveSurfer from "wavesurfer.js";
 import RegionsPlugin, {
   type Region,
@@ -42,6 +45,85 @@ type DetectedSong = {
   lyrics: string | null;
 };
 
+type SectionMode = "manual" | "best" | "compare";
+
+type SectionCandidate = {
+  start: number;
+  end: number;
+  score: number;
+  vocalPresence: number;
+  integratedLufs: number | null;
+};
+
+type TonalBalance = {
+  label: string;
+  deviationDb: number;
+  deltas: Array<{ centerHz: number; deltaDb: number }>;
+};
+
+const TONAL_DELTA_RANGE_DB = 12;
+
+const parseTonalBalance = (features: Record<string, unknown> | null): TonalBalance | null => {
+  const raw = features?.tonal_balance;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const record = raw as Record<string, unknown>;
+  if (!Array.isArray(record.deltas)) return null;
+  const deltas = record.deltas
+    .filter(
+      (entry): entry is { center_hz: number; delta_db: number } =>
+        Boolean(entry) &&
+        typeof (entry as Record<string, unknown>).center_hz === "number" &&
+        typeof (entry as Record<string, unknown>).delta_db === "number"
+    )
+    .map((entry) => ({ centerHz: entry.center_hz, deltaDb: entry.delta_db }));
+  if (!deltas.length) return null;
+  return {
+    label: typeof record.label === "string" ? record.label : "Reference",
+    deviationDb: typeof record.deviation_db === "number" ? record.deviation_db : 0,
+    deltas,
+  };
+};
+
+type MatchDeltas = {
+  integratedLufs: number;
+  loudnessRangeLu: number;
+  pitchDevCents: number;
+  transientDensity: { reference: string; user: string } | null;
+  tonal: Array<{ centerHz: number; deltaDb: number }>;
+};
+
+const parseMatchDeltas = (features: Record<string, unknown> | null): MatchDeltas | null => {
+  const raw = features?.metric_deltas;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const record = raw as Record<string, unknown>;
+  const numberOf = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+  const density = record.transient_density as Record<string, unknown> | undefined;
+  return {
+    integratedLufs: numberOf(record.integrated_lufs),
+    loudnessRangeLu: numberOf(record.loudness_range_lu),
+    pitchDevCents: numberOf(record.pitch_dev_cents),
+    transientDensity:
+      density && typeof density.reference === "string" && typeof density.user === "string"
+        ? { reference: density.reference, user: density.user }
+        : null,
+    tonal: Array.isArray(record.tonal_deltas)
+      ? record.tonal_deltas
+          .filter(
+            (entry): entry is { center_hz: number; delta_db: number } =>
+              Boolean(entry) &&
+              typeof (entry as Record<string, unknown>).center_hz === "number" &&
+              typeof (entry as Record<string, unknown>).delta_db === "number"
+          )
+          .map((entry) => ({ centerHz: entry.center_hz, deltaDb: entry.delta_db }))
+      : [],
+  };
+};
+
+const formatSigned = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const formatBandHz = (value: number) =>
+  value >= 1000 ? `${Number((value / 1000).toFixed(1))}k` : `${value}`;
+
 type SampleTrack = {
   id: string;
   title: string;
@@ -223,18 +305,128 @@ const buildClipWindowLabel = (start: number, end: number, maxSeconds: number) =>
   )} of max ${formatSeconds(maxSeconds)})`;
 };
 
+const parseDetectedSong = (raw: unknown): DetectedSong | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const song = raw as Record<string, unknown>;
+  return {
+    title:
+      typeof song.title === "string"
+        ? song.title
+        : "Unknown title",
+    artist:
+      typeof song.artist === "string"
+        ? song.artist
+        : "Unknown artist",
+    album:
+      typeof song.album === "string"
+        ? song.album
+        : null,
+    releaseDate:
+      typeof song.releaseDate === "string"
+        ? song.releaseDate
+        : null,
+    label:
+      typeof song.label === "string"
+        ? song.label
+        : null,
+    timecode:
+      typeof song.timecode === "string"
+        ? song.timecode
+        : null,
+    songId:
+      typeof song.songId === "string"
+        ? song.songId
+        : null,
+    score:
+      typeof song.score === "number"
+        ? song.score
+        : null,
+    appleMusicUrl:
+      typeof song.appleMusicUrl === "string"
+        ? song.appleMusicUrl
+        : null,
+    spotifyUrl:
+      typeof song.spotifyUrl === "string"
+        ? song.spotifyUrl
+        : null,
+    genres: Array.isArray(song.genres)
+      ? song.genres.filter(
+          (item: unknown): item is string => typeof item === "string"
+        )
+      : [],
+    lyrics:
+      typeof song.lyrics === "string"
+        ? song.lyrics
+        : null,
+  };
+};
+
+const ANALYSIS_STAGE_LABELS: Record<string, string> = {
+  queued: "Waiting in the analysis queue…",
+  scanning_sections: "Scanning sections…",
+  detecting_song: "Detecting song…",
+  extracting_metrics: "Extracting metrics…",
+  transcribing: "Transcribing…",
+  generating: "Generating chain…",
+  saving: "Saving…",
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+// The job ran and failed, so retrying needs a new submission.
+class AnalysisJobFailedError extends Error {}
+
+// Waits for a queued or interrupted analysis job and returns its result payload.
+const pollAnalysisJob = async (
+  jobId: string,
+  headers: Record<string, string>
+): Promise<Record<string, unknown>> => {
+  const deadline = Date.now() + JOB_POLL_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const response = await fetch(`/api/analyze/${jobId}`, { headers });
+    const job = await response.json().catch(() => null);
+    if (!response.ok || !job) {
+      throw new Error(
+        (job && typeof job.error === "string" ? job.error : null) ??
+          "Unable to check the analysis status."
+      );
+    }
+    if (job.status === "succeeded" && job.result) {
+      return job.result as Record<string, unknown>;
+    }
+    if (job.status === "failed") {
+      throw new AnalysisJobFailedError(
+        typeof job.error === "string" ? job.error : "Unable to analyze the segment right now."
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+  throw new Error("The analysis is taking longer than expected. Check your history shortly.");
+};
+
 export default function Home() {
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
   const waveformRef = useRef<HTMLDivElement | null>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const regionRef = useRef<Region | null>(null);
+  const regionsRef = useRef<RegionsPluginInstance | null>(null);
+  const submissionKeyRef = useRef<{ signature: string; key: string } | null>(null);
 
   const [file, setFile] = useState<File | null>(null);
   const [clipRange, setClipRange] = useState<{ start: number; end: number }>();
   const [selectedDAW, setSelectedDAW] = useState<string>(DEFAULT_DAW_LABEL);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisStage, setAnalysisStage] = useState<string | null>(null);
+  const [sectionMode, setSectionMode] = useState<SectionMode>("manual");
+  const [sectionCandidates, setSectionCandidates] = useState<SectionCandidate[]>([]);
+  const [tonalReference, setTonalReference] = useState<string>("auto");
+  const [userVocal, setUserVocal] = useState<File | null>(null);
+  const [separateVocals, setSeparateVocals] = useState(false);
   const [analysis, setAnalysis] = useState<{
     daw: string;
     plugins: PluginPreset[];
@@ -243,6 +435,7 @@ export default function Home() {
     usedAudio: boolean;
     features: Record<string, unknown> | null;
     song: DetectedSong | null;
+    validation: ChainValidationReport | null;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
@@ -254,6 +447,7 @@ export default function Home() {
   const [profileLoading, setProfileLoading] = useState(false);
   const [profileError, setProfileError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [exportTarget, setExportTarget] = useState<string | null>(null);
   const [ignoreSongNextRun, setIgnoreSongNextRun] = useState(false);
 
   type ExportFormatInfo =
@@ -264,7 +458,7 @@ export default function Home() {
     if (!analysis) {
       return null;
     }
-    const normalized = labelToDawId(analysis.daw);
+    const normalized = labelToDawId(exportTarget ?? analysis.daw);
     if (normalized && normalized in NATIVE_EXPORTER_INFO) {
       const meta = NATIVE_EXPORTER_INFO[normalized as keyof typeof NATIVE_EXPORTER_INFO];
       return {
@@ -275,13 +469,14 @@ export default function Home() {
       };
     }
     return { native: false };
-  }, [analysis]);
+  }, [analysis, exportTarget]);
 
   const onDrop = useCallback((accepted: File[]) => {
     if (!accepted.length) return;
     const pickedFile = accepted[0];
     setFile(pickedFile);
     setClipRange(undefined);
+    setSectionCandidates([]);
     setAnalysis(null);
     setError(null);
     setInfo(null);
@@ -446,6 +641,9 @@ const selectedPremiumDetails = useMemo(
   [premiumOptions, selectedPremium]
 );
 
+  const tonalBalance = useMemo(() => parseTonalBalance(analysis?.features ?? null), [analysis]);
+  const matchDeltas = useMemo(() => parseMatchDeltas(analysis?.features ?? null), [analysis]);
+
   useEffect(() => {
     if (availableDaws.length === 0) {
       setSelectedDAW(DEFAULT_DAW_LABEL);
@@ -597,6 +795,7 @@ const selectedPremiumDetails = useMemo(
 
     if (typeof regions.on === "function") {
       regions.on("region-updated", (region: Region) => {
+        if (region.id !== "selection") return;
         const duration = ws.getDuration();
         const length = region.end - region.start;
         if (length > MAX_CLIP_SECONDS) {
@@ -623,15 +822,40 @@ const selectedPremiumDetails = useMemo(
       );
     });
     wavesurferRef.current = ws;
+    regionsRef.current = regions;
 
     return () => {
       regions.clearRegions();
       ws.destroy();
       wavesurferRef.current = null;
       regionRef.current = null;
+      regionsRef.current = null;
     };
   }, [file]);
 
+  useEffect(() => {
+    const regions = regionsRef.current;
+    if (!regions) return;
+    const added = sectionCandidates.map((candidate, index) =>
+      regions.addRegion({
+        id: `candidate-${index}`,
+        start: candidate.start,
+        end: candidate.end,
+        drag: false,
+        resize: false,
+        color: index === 0 ? "rgba(52,211,153,0.18)" : "rgba(251,191,36,0.12)",
+      })
+    );
+    return () => {
+      added.forEach((region) => region.remove());
+    };
+  }, [sectionCandidates]);
+
+  const selectSection = useCallback((start: number, end: number) => {
+    regionRef.current?.setOptions({ start, end });
+    setClipRange({ start, end });
+  }, []);
+
   const clipDuration = useMemo(() => {
     if (!clipRange) return 0;
     return clipRange.end - clipRange.start;
@@ -662,6 +886,7 @@ const selectedPremiumDetails = useMemo(
     const skipSongDetection = options?.skipSongDetection ?? ignoreSongNextRun;
 
     setIsAnalyzing(true);
+    setAnalysisStage(null);
     setError(null);
     setInfo(null);
     setAnalysis(null);
@@ -690,7 +915,11 @@ const selectedPremiumDetails = useMemo(
 
       let clipFile: File;
       try {
-        clipFile = await prepareClipFile(file, clipRange.start, clipRange.end);
+        // Automatic section modes upload the whole track so the worker can scan it.
+        clipFile =
+          sectionMode === "manual"
+            ? await prepareClipFile(file, clipRange.start, clipRange.end)
+            : file;
       } catch (clipError) {
         console.error("clip preparation failed", clipError);
         throw new Error(
@@ -737,19 +966,122 @@ const selectedPremiumDetails = useMemo(
       formData.append("start", clipRange.start.toString());
       formData.append("end", clipRange.end.toString());
       formData.append("skipSongDetection", skipSongDetection ? "true" : "false");
+      if (sectionMode !== "manual") {
+        formData.append("sectionMode", sectionMode);
+      }
+      if (tonalReference !== "auto") {
+        formData.append("tonalReference", tonalReference);
+      }
+      if (userVocal) {
+        formData.append("userVocal", userVocal, userVocal.name);
+      }
+      if (separateVocals) {
+        formData.append("separateVocals", "true");
+      }
       if (premiumEnabled && !usingSavedProfile && selectedPremium.length > 0) {
         formData.append("premiumPlugins", JSON.stringify(selectedPremium));
       }
 
+      // A retry of the same upload and settings that never got an answer reuses its key, so the
+      // server returns the original job instead of charging again.
+      const signature = JSON.stringify([
+        file.name,
+        file.size,
+        file.lastModified,
+        clipRange.start,
+        clipRange.end,
+        selectedDAW,
+        sectionMode,
+        tonalReference,
+        userVocal ? [userVocal.name, userVocal.size, userVocal.lastModified] : null,
+        separateVocals,
+        skipSongDetection,
+        usingSavedProfile ? null : selectedPremium,
+      ]);
+      if (submissionKeyRef.current?.signature !== signature) {
+        submissionKeyRef.current = { signature, key: crypto.randomUUID() };
+      }
+
       const response = await fetch("/api/analyze", {
         method: "POST",
         body: formData,
-        headers: authHeaders,
+        headers: {
+          ...authHeaders,
+          Accept: "text/event-stream",
+          "Idempotency-Key": submissionKeyRef.current.key,
+        },
       });
 
-      const payload = await response.json().catch(() => null);
+      // Partial results render as they stream in; the "complete" event carries the full payload.
+      const streamed = response.headers.get("content-type")?.includes("text/event-stream") ?? false;
+      let streamPayload: unknown = null;
+      let streamFailed = false;
+      let streamJobId: string | null = null;
+      if (streamed) {
+        const emptyAnalysis = {
+          daw: selectedDAW,
+          plugins: [],
+          summary: null,
+          remainingCredits: null,
+          usedAudio: true,
+          features: null,
+          song: null,
+          validation: null,
+        };
+        await readEventStream(response, (event, data) => {
+          const record = (data ?? {}) as Record<string, unknown>;
+          if (event === "job") {
+            streamJobId = typeof record.jobId === "string" ? record.jobId : null;
+          } else if (event === "stage") {
+            setAnalysisStage(typeof record.stage === "string" ? record.stage : null);
+            if (record.stage === "generating") {
+              setAnalysis((prev) => (prev ? { ...prev, plugins: [] } : prev));
+            }
+          } else if (event === "song") {
+            setAnalysis((prev) => ({ ...(prev ?? emptyAnalysis), song: parseDetectedSong(record.song) }));
+          } else if (event === "metrics") {
+            setAnalysis((prev) => ({
+              ...(prev ?? emptyAnalysis),
+              features: (record.features ?? null) as Record<string, unknown> | null,
+            }));
+          } else if (event === "plugin" && record.plugin) {
+            const plugin = record.plugin as PluginPreset;
+            setAnalysis((prev) => {
+              const base = prev ?? emptyAnalysis;
+              return { ...base, plugins: [...base.plugins, plugin] };
+            });
+          } else if (event === "complete" || event === "error") {
+            streamPayload = data;
+            streamFailed = event === "error";
+          }
+        });
+      }
+
+      let payload = streamed ? streamPayload : await response.json().catch(() => null);
+
+      // Queued jobs, replayed submissions and dropped streams finish by polling the job.
+      const pendingJobId =
+        payload && typeof payload.jobId === "string" && !Array.isArray(payload.plugins)
+          ? payload.jobId
+          : !payload && streamJobId
+          ? streamJobId
+          : null;
+      if (response.ok && !streamFailed && pendingJobId) {
+        setAnalysisStage("queued");
+        try {
+          payload = await pollAnalysisJob(pendingJobId, authHeaders);
+        } catch (pollError) {
+          if (pollError instanceof AnalysisJobFailedError) {
+            submissionKeyRef.current = null;
+          }
+          throw pollError;
+        }
+      }
+      if (payload) {
+        submissionKeyRef.current = null;
+      }
 
-      if (!response.ok || !payload) {
+      if (!response.ok || !payload || streamFailed) {
         const message =
           (payload && typeof payload.error === "string"
             ? payload.error
@@ -807,60 +1139,40 @@ const selectedPremiumDetails = useMemo(
         }
       }
 
-      const songData: DetectedSong | null =
-        payload.song && typeof payload.song === "object"
-          ? {
-              title:
-                typeof payload.song.title === "string"
-                  ? payload.song.title
-                  : "Unknown title",
-              artist:
-                typeof payload.song.artist === "string"
-                  ? payload.song.artist
-                  : "Unknown artist",
-              album:
-                typeof payload.song.album === "string"
-                  ? payload.song.album
-                  : null,
-              releaseDate:
-                typeof payload.song.releaseDate === "string"
-                  ? payload.song.releaseDate
-                  : null,
-              label:
-                typeof payload.song.label === "string"
-                  ? payload.song.label
-                  : null,
-              timecode:
-                typeof payload.song.timecode === "string"
-                  ? payload.song.timecode
-                  : null,
-              songId:
-                typeof payload.song.songId === "string"
-                  ? payload.song.songId
-                  : null,
-              score:
-                typeof payload.song.score === "number"
-                  ? payload.song.score
-                  : null,
-              appleMusicUrl:
-                typeof payload.song.appleMusicUrl === "string"
-                  ? payload.song.appleMusicUrl
+      const songData = parseDetectedSong(payload.song);
+
+      const sections =
+        payload.sections && typeof payload.sections === "object" ? payload.sections : null;
+      if (sections && Array.isArray(sections.candidates)) {
+        const candidates: SectionCandidate[] = sections.candidates
+          .filter(
+            (entry: unknown): entry is Record<string, unknown> =>
+              Boolean(entry) &&
+              typeof (entry as { start?: unknown }).start === "number" &&
+              typeof (entry as { end?: unknown }).end === "number"
+          )
+          .map((entry: Record<string, unknown>) => {
+            const candidateMetrics =
+              entry.metrics && typeof entry.metrics === "object"
+                ? (entry.metrics as Record<string, unknown>)
+                : null;
+            return {
+              start: entry.start as number,
+              end: entry.end as number,
+              score: typeof entry.score === "number" ? entry.score : 0,
+              vocalPresence:
+                typeof entry.vocal_presence === "number" ? entry.vocal_presence : 0,
+              integratedLufs:
+                candidateMetrics && typeof candidateMetrics.integrated_lufs === "number"
+                  ? candidateMetrics.integrated_lufs
                   : null,
-              spotifyUrl:
-                typeof payload.song.spotifyUrl === "string"
-                  ? payload.song.spotifyUrl
-                  : null,
-              genres: Array.isArray(payload.song.genres)
-                ? payload.song.genres.filter(
-                    (item: unknown): item is string => typeof item === "string"
-                  )
-                : [],
-              lyrics:
-                typeof payload.song.lyrics === "string"
-                  ? payload.song.lyrics
-                  : null,
-            }
-          : null;
+            };
+          });
+        setSectionCandidates(candidates);
+        if (candidates[0]) {
+          selectSection(candidates[0].start, candidates[0].end);
+        }
+      }
 
       setAnalysis({
         daw: dawName,
@@ -870,7 +1182,9 @@ const selectedPremiumDetails = useMemo(
         usedAudio: payload.usedAudio === true,
         features: (payload.features ?? null) as Record<string, unknown> | null,
         song: songData,
+        validation: (payload.validation ?? null) as ChainValidationReport | null,
       });
+      setExportTarget(null);
       if (typeof remainingCredits === "number") {
         window.dispatchEvent(
           new CustomEvent("credits-updated", {
@@ -886,9 +1200,11 @@ const selectedPremiumDetails = useMemo(
         caught instanceof Error
           ? caught.message
           : "Unexpected error while analyzing audio.";
+      setAnalysis(null);
       setError(message);
     } finally {
       setIsAnalyzing(false);
+      setAnalysisStage(null);
     }
   };
 
@@ -933,6 +1249,9 @@ const selectedPremiumDetails = useMemo(
         ? buildClipWindowLabel(clipRange.start, clipRange.end, MAX_CLIP_SECONDS)
         : null;
 
+      const targetDaw =
+        exportTarget && exportTarget !== analysis.daw ? exportTarget : null;
+
       const response = await fetch("/api/export-preset", {
         method: "POST",
         headers: authHeaders,
@@ -942,6 +1261,7 @@ const selectedPremiumDetails = useMemo(
           clipWindow: clipLabel,
           song: analysis.song,
           plugins: analysis.plugins,
+          targetDaw,
         }),
       });
 
@@ -968,15 +1288,21 @@ const selectedPremiumDetails = useMemo(
       window.URL.revokeObjectURL(url);
       const nativeHeader = response.headers.get("X-ToneTerminal-Native");
       const targetHeader = response.headers.get("X-ToneTerminal-Target");
+      const translatedCount = Number(response.headers.get("X-ToneTerminal-Translated") ?? "0");
+      const translationNote =
+        targetDaw && translatedCount > 0
+          ? ` ${translatedCount} stock plugin${translatedCount === 1 ? "" : "s"} swapped for ${targetDaw} equivalents.`
+          : "";
       if (nativeHeader === "true") {
         setInfo(
-          targetHeader && targetHeader !== "manual"
+          (targetHeader && targetHeader !== "manual"
             ? `Native preset downloaded (${targetHeader}).`
-            : "Native preset downloaded."
+            : "Native preset downloaded.") + translationNote
         );
       } else {
         setInfo(
-          "Manual setup ZIP downloaded (README included). Native preset coming soon—Pro members get early access."
+          "Manual setup ZIP downloaded (README included). Native preset coming soon—Pro members get early access." +
+            translationNote
         );
       }
     } catch (caught) {
@@ -1070,11 +1396,13 @@ const selectedPremiumDetails = useMemo(
 
   return (
     <div className="relative min-h-screen overflow-hidden">
-      {isAnalyzing && (
+      {isAnalyzing && !analysis && (
         <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/70 backdrop-blur-sm">
           <div className="flex flex-col items-center gap-4 text-white">
             <span className="h-10 w-10 animate-spin rounded-full border-2 border-white/30 border-t-white" />
-            <p className="text-sm uppercase tracking-[0.3em]">Analyzing segment…</p>
+            <p className="text-sm uppercase tracking-[0.3em]">
+              {(analysisStage && ANALYSIS_STAGE_LABELS[analysisStage]) ?? "Analyzing segment…"}
+            </p>
           </div>
         </div>
       )}
@@ -1199,6 +1527,102 @@ const selectedPremiumDetails = useMemo(
                       Drag the selection handles to choose up to 30 seconds
                     </p>
                   )}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label
+                      htmlFor="section-mode"
+                      className="text-xs uppercase tracking-[0.3em] text-slate-500"
+                    >
+                      Clip selection
+                    </label>
+                    <select
+                      id="section-mode"
+                      value={sectionMode}
+                      onChange={(event) => setSectionMode(event.target.value as SectionMode)}
+                      className="rounded-md border border-white/20 bg-black/60 px-3 py-2 text-xs text-white outline-none transition hover:border-white/40 focus:border-white"
+                    >
+                      <option value="manual" className="bg-black text-white">
+                        Manual window
+                      </option>
+                      <option value="best" className="bg-black text-white">
+                        Full song · best section
+                      </option>
+                      <option value="compare" className="bg-black text-white">
+                        Full song · compare top sections
+                      </option>
+                    </select>
+                    {sectionMode !== "manual" && (
+                      <p className="text-[10px] uppercase tracking-[0.35em] text-slate-500">
+                        The whole track is uploaded and scanned for vocal presence and energy.
+                      </p>
+                    )}
+                  </div>
+                  {sectionCandidates.length > 0 && (
+                    <ul className="flex flex-col gap-2">
+                      {sectionCandidates.map((candidate, index) => (
+                        <li
+                          key={`${candidate.start}-${candidate.end}`}
+                          className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-white/10 bg-black/40 px-3 py-2 text-xs text-slate-300"
+                        >
+                          <span>
+                            #{index + 1} · {formatSeconds(candidate.start)} → {formatSeconds(candidate.end)} · score{" "}
+                            {candidate.score.toFixed(2)} · vocals {Math.round(candidate.vocalPresence * 100)}%
+                            {candidate.integratedLufs !== null
+                              ? ` · ${candidate.integratedLufs.toFixed(1)} LUFS`
+                              : ""}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setSectionMode("manual");
+                              selectSection(candidate.start, candidate.end);
+                            }}
+                            className="rounded-full border border-white/20 px-3 py-1 text-[10px] uppercase tracking-[0.35em] text-white transition hover:border-white/60 hover:bg-white/5"
+                          >
+                            Use window
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <label className="flex items-center gap-3 text-xs uppercase tracking-[0.3em] text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={separateVocals}
+                      onChange={(event) => setSeparateVocals(event.target.checked)}
+                      className="h-3.5 w-3.5 rounded border-white/30 bg-black/60"
+                    />
+                    Isolate the vocal from a full mix before measuring
+                  </label>
+                  <div className="flex flex-col gap-2 border-t border-white/10 pt-4">
+                    <label
+                      htmlFor="user-vocal"
+                      className="text-xs uppercase tracking-[0.3em] text-slate-500"
+                    >
+                      Match my vocal (optional)
+                    </label>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <input
+                        key={userVocal ? "user-vocal-set" : "user-vocal-empty"}
+                        id="user-vocal"
+                        type="file"
+                        accept="audio/*"
+                        onChange={(event) => setUserVocal(event.target.files?.[0] ?? null)}
+                        className="text-xs text-slate-300 file:mr-3 file:rounded-full file:border file:border-white/20 file:bg-transparent file:px-3 file:py-1 file:text-[10px] file:uppercase file:tracking-[0.35em] file:text-white"
+                      />
+                      {userVocal && (
+                        <button
+                          type="button"
+                          onClick={() => setUserVocal(null)}
+                          className="rounded-full border border-white/20 px-3 py-1 text-[10px] uppercase tracking-[0.35em] text-white transition hover:border-white/60 hover:bg-white/5"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-[10px] uppercase tracking-[0.35em] text-slate-500">
+                      Upload your raw vocal to get a chain that turns it into the clip above.
+                    </p>
+                  </div>
                 </div>
               </section>
 
@@ -1224,6 +1648,30 @@ const selectedPremiumDetails = useMemo(
                   </select>
                 </div>
 
+                <div className="flex flex-col gap-2">
+                  <label
+                    htmlFor="tonal-reference"
+                    className="text-xs uppercase tracking-[0.3em] text-slate-500"
+                  >
+                    Tonal reference
+                  </label>
+                  <select
+                    id="tonal-reference"
+                    value={tonalReference}
+                    onChange={(event) => setTonalReference(event.target.value)}
+                    className="w-full rounded-md border border-white/20 bg-black/60 px-4 py-3 text-sm text-white outline-none transition hover:border-white/40 focus:border-white"
+                  >
+                    <option value="auto" className="bg-black text-white">
+                      Closest match
+                    </option>
+                    {TONAL_REFERENCES.map((reference) => (
+                      <option key={reference.id} value={reference.id} className="bg-black text-white">
+                        {reference.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 {premiumEnabled ? (
                   usingSavedProfile ? (
                     <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-4">
@@ -1339,6 +1787,18 @@ const selectedPremiumDetails = useMemo(
                 <p className="text-sm text-slate-300">
                   Detailed parameters returned from the analysis service.
                 </p>
+                {isAnalyzing && (
+                  <p className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-400">
+                    <span className="h-3 w-3 animate-spin rounded-full border border-white/30 border-t-white" />
+                    {(analysisStage && ANALYSIS_STAGE_LABELS[analysisStage]) ?? "Analyzing segment…"}
+                  </p>
+                )}
+                {(analysis.features?.separation as { applied?: unknown } | null | undefined)?.applied ===
+                  true && (
+                  <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                    Vocal isolated from the mix before analysis
+                  </p>
+                )}
                 {typeof analysis.remainingCredits === "number" && (
                   <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
                     Remaining credits: {analysis.remainingCredits}
@@ -1346,6 +1806,28 @@ const selectedPremiumDetails = useMemo(
                 )}
               </div>
 
+              {analysis.validation &&
+                analysis.validation.plugins.some(
+                  (entry) => entry.status !== "valid" || entry.warnings.length > 0
+                ) && (
+                  <div className="rounded-xl border border-amber-400/30 bg-amber-500/10 p-4">
+                    <p className="text-xs uppercase tracking-[0.3em] text-amber-200">
+                      Chain Validation
+                    </p>
+                    <ul className="mt-2 space-y-1 text-sm text-amber-100">
+                      {analysis.validation.plugins
+                        .filter((entry) => entry.status !== "valid" || entry.warnings.length > 0)
+                        .map((entry) => (
+                          <li key={`${entry.index}-${entry.name}`}>
+                            <span className="font-semibold">{entry.name || "Unnamed plugin"}</span>
+                            {entry.status === "rejected" ? " (removed)" : ""}:{" "}
+                            {[...entry.errors, ...entry.warnings].join(" ")}
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
               {analysis.song && (
                 <div className="rounded-xl border border-white/10 bg-black/40 p-4">
                   <div className="flex flex-wrap items-start justify-between gap-4">
@@ -1431,7 +1913,85 @@ const selectedPremiumDetails = useMemo(
                 </div>
               )}
 
-              {analysis.plugins.length === 0 ? (
+              {matchDeltas && (
+                <div className="rounded-xl border border-white/10 bg-black/40 p-4">
+                  <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                    Reference vs Your Vocal
+                  </p>
+                  <ul className="mt-2 grid gap-1 text-sm text-slate-300 sm:grid-cols-2">
+                    <li>Loudness: {formatSigned(matchDeltas.integratedLufs)} LU</li>
+                    <li>Loudness range: {formatSigned(matchDeltas.loudnessRangeLu)} LU</li>
+                    <li>Pitch deviation: {formatSigned(matchDeltas.pitchDevCents)} cents</li>
+                    {matchDeltas.transientDensity && (
+                      <li>
+                        Transients: {matchDeltas.transientDensity.user} → {matchDeltas.transientDensity.reference}
+                      </li>
+                    )}
+                  </ul>
+                  {matchDeltas.tonal.length > 0 && (
+                    <p className="mt-2 text-xs text-slate-400">
+                      Largest tonal gaps:{" "}
+                      {[...matchDeltas.tonal]
+                        .sort((a, b) => Math.abs(b.deltaDb) - Math.abs(a.deltaDb))
+                        .slice(0, 4)
+                        .map((band) => `${formatBandHz(band.centerHz)}Hz ${formatSigned(band.deltaDb)} dB`)
+                        .join(" · ")}
+                    </p>
+                  )}
+                  <p className="mt-2 text-xs text-slate-400">
+                    Positive values mean your vocal needs more of it to match the reference.
+                  </p>
+                </div>
+              )}
+
+              {tonalBalance && (
+                <div className="rounded-xl border border-white/10 bg-black/40 p-4">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+                      Tonal Balance vs {tonalBalance.label}
+                    </p>
+                    <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">
+                      Deviation {tonalBalance.deviationDb.toFixed(1)} dB RMS
+                    </p>
+                  </div>
+                  <div className="mt-4 flex h-32 items-stretch gap-[2px]">
+                    {tonalBalance.deltas.map((band) => {
+                      const share =
+                        Math.min(Math.abs(band.deltaDb), TONAL_DELTA_RANGE_DB) / TONAL_DELTA_RANGE_DB;
+                      return (
+                        <div
+                          key={band.centerHz}
+                          title={`${band.centerHz} Hz: ${band.deltaDb > 0 ? "+" : ""}${band.deltaDb.toFixed(1)} dB`}
+                          className="relative flex-1"
+                        >
+                          <div className="absolute inset-x-0 top-1/2 h-px bg-white/20" />
+                          <div
+                            className={`absolute inset-x-0 ${
+                              band.deltaDb >= 0 ? "bottom-1/2 bg-amber-400/70" : "top-1/2 bg-sky-400/70"
+                            }`}
+                            style={{ height: `${share * 50}%` }}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="mt-1 flex gap-[2px] text-[9px] text-slate-500">
+                    {tonalBalance.deltas.map((band, index) => (
+                      <span key={band.centerHz} className="flex-1 text-center">
+                        {index % 3 === 0 ? formatBandHz(band.centerHz) : ""}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-400">
+                    Bars above the line read louder than the reference, bars below read quieter. EQ moves in
+                    the chain reference these bands.
+                  </p>
+                </div>
+              )}
+
+              {analysis.plugins.length === 0 && isAnalyzing ? (
+                <p className="text-sm text-slate-400">Waiting for the plugin chain…</p>
+              ) : analysis.plugins.length === 0 ? (
                 <p className="text-sm text-slate-400">
                   No plugins were suggested for this snippet. Try a different
                   section or upload a new file.
@@ -1447,7 +2007,7 @@ const selectedPremiumDetails = useMemo(
                 <button
                   type="button"
                   onClick={handleSaveAnalysis}
-                  disabled={!user || saving || !canAccessLibrary}
+                  disabled={!user || saving || isAnalyzing || !canAccessLibrary}
                   className="terminal-button rounded-full border border-white/30 px-5 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/60 hover:bg-white/5 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-white/40"
                 >
                   {saving ? "Saving…" : "Save Preset"}
@@ -1455,11 +2015,28 @@ const selectedPremiumDetails = useMemo(
                 <button
                   type="button"
                   onClick={handleExport}
-                  disabled={!user || exporting || !canExportPreset}
+                  disabled={!user || exporting || isAnalyzing || !canExportPreset}
                   className="terminal-button rounded-full border border-white/30 px-5 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-white/60 hover:bg-white/5 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-white/40"
                 >
                   {exporting ? "Exporting…" : "Export Preset"}
                 </button>
+                {canExportPreset && availableDaws.length > 1 && (
+                  <select
+                    aria-label="Export for DAW"
+                    value={exportTarget ?? analysis.daw}
+                    onChange={(event) => setExportTarget(event.target.value)}
+                    className="rounded-full border border-white/20 bg-black/60 px-4 py-2 text-xs text-white outline-none transition hover:border-white/40 focus:border-white"
+                  >
+                    {(availableDaws.includes(analysis.daw)
+                      ? availableDaws
+                      : [analysis.daw, ...availableDaws]
+                    ).map((daw) => (
+                      <option key={daw} value={daw} className="bg-black text-white">
+                        {daw === analysis.daw ? `Export for ${daw}` : `Translate to ${daw}`}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 {exportFormatInfo && (
                   <div className="basis-full">
                     <p className="text-[10px] uppercase tracking-[0.35em] text-slate-500">
@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import HeaderNav from "@/components/HeaderNav";
+import ParticlesBackground from "@/components/ParticlesBackground";
+import PluginCard from "@/components/PluginCard";
+import { useAuth } from "@/context/AuthContext";
+import { supabase } from "@/lib/supabaseClient";
+import type { SharedChain, SharedChainMetrics } from "@/lib/presetShares";
+
+const ACTION_BUTTON_CLASS =
+  "terminal-button rounded-full border border-white/30 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-white transition hover:border-sky-400/70 hover:bg-white/5 active:shadow-inner active:bg-white/10 disabled:pointer-events-none disabled:opacity-60";
+
+const METRIC_LABELS: Array<{ key: keyof SharedChainMetrics; label: string; unit: string }> = [
+  { key: "tempo_bpm", label: "Tempo", unit: "BPM" },
+  { key: "integrated_lufs", label: "Integrated", unit: "LUFS" },
+  { key: "loudness_range_lu", label: "Loudness Range", unit: "LU" },
+  { key: "true_peak_dbtp", label: "True Peak", unit: "dBTP" },
+  { key: "centroid_hz", label: "Spectral Centroid", unit: "Hz" },
+  { key: "spectral_rolloff_hz", label: "Rolloff", unit: "Hz" },
+  { key: "pitch_dev_cents", label: "Pitch Deviation", unit: "cents" },
+  { key: "transient_density", label: "Transients", unit: "" },
+];
+
+const formatMetric = (value: number | string, unit: string) => {
+  const text = typeof value === "number" ? `${Math.round(value * 10) / 10}` : value;
+  return unit ? `${text} ${unit}` : text;
+};
+
+type ShareState = {
+  loading: boolean;
+  chain: SharedChain | null;
+  error: string | null;
+};
+
+export default function SharedChainPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const [state, setState] = useState<ShareState>({ loading: true, chain: null, error: null });
+  const [forking, setForking] = useState(false);
+  const [forked, setForked] = useState(false);
+  const [forkError, setForkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+        const payload = await response.json().catch(() => null);
+        if (!response.ok || !payload?.chain) {
+          throw new Error(
+            (payload && typeof payload.error === "string"
+              ? payload.error
+              : null) ?? "Unable to load this shared chain."
+          );
+        }
+        if (!cancelled) {
+          setState({ loading: false, chain: payload.chain as SharedChain, error: null });
+        }
+      } catch (caught) {
+        if (!cancelled) {
+          setState({
+            loading: false,
+            chain: null,
+            error: caught instanceof Error ? caught.message : "Unable to load this shared chain.",
+          });
+        }
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleFork = async () => {
+    if (!supabase) return;
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setForkError("Session expired. Please sign in again.");
+      return;
+    }
+
+    setForking(true);
+    setForkError(null);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/fork`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(
+          (payload && typeof payload.error === "string"
+            ? payload.error
+            : null) ?? "Unable to fork this chain."
+        );
+      }
+      setForked(true);
+    } catch (caught) {
+      setForkError(caught instanceof Error ? caught.message : "Unable to fork this chain.");
+    } finally {
+      setForking(false);
+    }
+  };
+
+  const { chain } = state;
+  const metrics = chain?.metrics
+    ? METRIC_LABELS.filter(({ key }) => chain.metrics?.[key] !== undefined)
+    : [];
+
+  return (
+    <div className="relative min-h-screen overflow-hidden">
+      <ParticlesBackground variant="subtle" />
+      <div className="relative z-10 flex min-h-screen flex-col px-6 py-10 sm:px-10 lg:px-16">
+        <HeaderNav />
+
+        {state.loading ? (
+          <p className="text-sm text-slate-400">Loading shared chain…</p>
+        ) : !chain ? (
+          <section className="surface-card mx-auto mt-10 max-w-xl rounded-2xl p-8 text-center">
+            <h1 className="text-2xl font-semibold text-white">Chain unavailable</h1>
+            <p className="mt-3 text-sm text-slate-400">{state.error}</p>
+            <Link href="/" className={`${ACTION_BUTTON_CLASS} mt-6 inline-block`}>
+              Analyze Your Own Vocal
+            </Link>
+          </section>
+        ) : (
+          <>
+            <section className="mb-8 flex flex-col gap-3">
+              <p className="text-xs uppercase tracking-[0.35em] text-slate-500">Shared Chain</p>
+              <h1 className="text-3xl font-semibold text-white sm:text-4xl">{chain.daw}</h1>
+              <p className="text-sm text-slate-400">
+                {chain.plugins.length} plugins
+                {chain.createdAt ? ` • Saved ${new Date(chain.createdAt).toLocaleDateString()}` : ""}
+                {chain.expiresAt ? ` • Link expires ${new Date(chain.expiresAt).toLocaleDateString()}` : ""}
+              </p>
+              {chain.song && (
+                <p className="text-sm text-slate-300">
+                  Reference: {[chain.song.title, chain.song.artist].filter(Boolean).join(" — ")}
+                  {chain.song.timecode ? ` @ ${chain.song.timecode}` : ""}
+                </p>
+              )}
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                {!user ? (
+                  <Link href="/auth" className={ACTION_BUTTON_CLASS}>
+                    Sign In to Fork
+                  </Link>
+                ) : forked ? (
+                  <Link href="/library" className={ACTION_BUTTON_CLASS}>
+                    Open in Library
+                  </Link>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => void handleFork()}
+                    className={ACTION_BUTTON_CLASS}
+                    disabled={forking}
+                  >
+                    {forking ? "Forking…" : "Fork to Library"}
+                  </button>
+                )}
+                {forked && <p className="text-xs text-emerald-300">Saved to your library.</p>}
+                {forkError && <p className="text-xs text-red-300">{forkError}</p>}
+              </div>
+            </section>
+
+            {chain.summary && (
+              <div className="surface-card mb-6 rounded-xl p-4">
+                <p className="text-xs uppercase tracking-[0.3em] text-slate-500">AI Summary</p>
+                <p className="mt-2 text-sm italic text-slate-200">{chain.summary}</p>
+              </div>
+            )}
+
+            {metrics.length > 0 && (
+              <dl className="surface-card mb-6 grid grid-cols-2 gap-4 rounded-xl p-4 sm:grid-cols-4">
+                {metrics.map(({ key, label, unit }) => (
+                  <div key={key} className="flex flex-col gap-1">
+                    <dt className="text-xs uppercase tracking-[0.25em] text-slate-500">{label}</dt>
+                    <dd className="text-sm text-white">{formatMetric(chain.metrics![key]!, unit)}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {chain.plugins.map((plugin, index) => (
+                <PluginCard key={`${plugin.name}-${index}`} plugin={plugin} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import pluginCatalog from "@/data/dawPlugins.json";
+import {
+  clampSettingValue,
+  createCatalogPlugin,
+  findSettingSpec,
+  formatSettingValue,
+  readSettingValue,
+} from "@/lib/chainEditor";
+import type { CatalogPlugin } from "@/lib/ruleBasedChain";
+import type { PluginPreset } from "@/types/plugins";
+
+const catalog = pluginCatalog as Record<string, CatalogPlugin[]>;
+
+const BUTTON_CLASS =
+  "rounded-full border border-white/30 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.35em] text-white transition hover:border-sky-400/70 hover:bg-white/5 disabled:pointer-events-none disabled:opacity-50";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-white/15 bg-black/50 px-2 py-1 text-sm text-white outline-none transition focus:border-sky-400/70";
+
+type ChainEditorProps = {
+  daw: string;
+  plugins: PluginPreset[];
+  saving?: boolean;
+  error?: string | null;
+  onSave: (plugins: PluginPreset[]) => void;
+  onCancel: () => void;
+};
+
+type EditorItem = {
+  key: number;
+  plugin: PluginPreset;
+};
+
+export default function ChainEditor({
+  daw,
+  plugins,
+  saving = false,
+  error = null,
+  onSave,
+  onCancel,
+}: ChainEditorProps) {
+  const [items, setItems] = useState<EditorItem[]>(() =>
+    plugins.map((plugin, index) => ({ key: index, plugin }))
+  );
+  const [nextKey, setNextKey] = useState(plugins.length);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [addName, setAddName] = useState("");
+
+  const available = useMemo(() => catalog[daw] ?? [], [daw]);
+  const edited = useMemo(
+    () => items.map((item, index) => ({ ...item.plugin, slotIndex: index })),
+    [items]
+  );
+  const dirty = JSON.stringify(edited) !== JSON.stringify(plugins.map((plugin, index) => ({ ...plugin, slotIndex: index })));
+
+  const updatePlugin = (key: number, update: (plugin: PluginPreset) => PluginPreset) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, plugin: update(item.plugin) } : item)));
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= items.length) return;
+    setItems((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const setSetting = (key: number, setting: string, value: string) => {
+    updatePlugin(key, (plugin) => ({
+      ...plugin,
+      settings: { ...plugin.settings, [setting]: value },
+      // Stored typed parameters would override the edited settings on export.
+      parameters: null,
+    }));
+  };
+
+  const handleAdd = () => {
+    const entry = available.find((plugin) => plugin.name === addName);
+    if (!entry) return;
+    setItems((prev) => [...prev, { key: nextKey, plugin: createCatalogPlugin(entry) }]);
+    setNextKey((prev) => prev + 1);
+    setAddName("");
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <ol className="flex flex-col gap-3">
+        {items.map((item, index) => {
+          const { plugin } = item;
+          return (
+            <li
+              key={item.key}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveItem(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`rounded-xl border bg-black/40 p-4 transition ${
+                dragIndex === index ? "border-sky-400/70" : "border-white/15"
+              } ${plugin.bypassed ? "opacity-60" : ""}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <span className="cursor-grab select-none text-slate-500" aria-hidden>
+                    ⠿
+                  </span>
+                  <div>
+                    <p className="font-semibold text-white">
+                      {index + 1}. {plugin.name}
+                    </p>
+                    <p className="text-xs uppercase tracking-[0.3em] text-slate-500">{plugin.type}</p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, index - 1)}
+                    className={BUTTON_CLASS}
+                    disabled={index === 0}
+                    aria-label={`Move ${plugin.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, index + 1)}
+                    className={BUTTON_CLASS}
+                    disabled={index === items.length - 1}
+                    aria-label={`Move ${plugin.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updatePlugin(item.key, (current) => ({ ...current, bypassed: !current.bypassed }))}
+                    className={BUTTON_CLASS}
+                  >
+                    {plugin.bypassed ? "Enable" : "Bypass"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setItems((prev) => prev.filter((entry) => entry.key !== item.key))}
+                    className={BUTTON_CLASS}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {Object.entries(plugin.settings).map(([setting, value]) => {
+                  const spec = findSettingSpec(plugin, setting);
+                  const numeric = spec ? readSettingValue(value, spec) : null;
+                  return (
+                    <label key={setting} className="flex flex-col gap-1">
+                      <span className="text-xs uppercase tracking-[0.25em] text-slate-500">
+                        {setting}
+                        {spec?.unit ? ` (${spec.unit === "ratio" ? ":1" : spec.unit})` : ""}
+                      </span>
+                      {spec && (numeric !== null || value === "") ? (
+                        <input
+                          type="number"
+                          min={spec.min}
+                          max={spec.max}
+                          step={spec.step ?? "any"}
+                          value={numeric ?? ""}
+                          onChange={(event) =>
+                            setSetting(
+                              item.key,
+                              setting,
+                              event.target.value === ""
+                                ? ""
+                                : formatSettingValue(Number(event.target.value), spec.unit)
+                            )
+                          }
+                          onBlur={() => {
+                            if (numeric !== null) {
+                              setSetting(item.key, setting, formatSettingValue(clampSettingValue(numeric, spec), spec.unit));
+                            }
+                          }}
+                          className={INPUT_CLASS}
+                        />
+                      ) : (
+                        <input
+                          type="text"
+                          value={value}
+                          onChange={(event) => setSetting(item.key, setting, event.target.value)}
+                          className={INPUT_CLASS}
+                        />
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={addName}
+          onChange={(event) => setAddName(event.target.value)}
+          className="rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs text-white outline-none transition focus:border-sky-400/70"
+        >
+          <option value="" className="bg-black text-white">
+            Add a {daw} plugin…
+          </option>
+          {available.map((plugin) => (
+            <option key={plugin.name} value={plugin.name} className="bg-black text-white">
+              {plugin.name} ({plugin.type})
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleAdd} className={BUTTON_CLASS} disabled={!addName}>
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className={BUTTON_CLASS} disabled={saving}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(edited)}
+          className={BUTTON_CLASS}
+          disabled={saving || !dirty || items.length === 0}
+        >
+          {saving ? "Saving…" : "Save Chain"}
+        </button>
+      </div>
+    </div>
+  );
+}
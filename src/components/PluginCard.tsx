@@ -18,6 +18,11 @@ export default function PluginCard({ plugin }: PluginCardProps) {
             {plugin.type}
           </p>
         </div>
+        {plugin.bypassed ? (
+          <span className="rounded-full border border-amber-400/40 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.35em] text-amber-200">
+            Bypassed
+          </span>
+        ) : null}
       </div>
 
       <dl className="grid grid-cols-1 gap-3 text-sm text-slate-200 sm:grid-cols-2">
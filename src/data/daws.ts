@@ -32,7 +32,7 @@ export const DAWS = {
   cubase: {
     label: "Cubase",
     formats: ["VST3"],
-    exportFormats: ["vstpreset_stub"],
+    exportFormats: ["vstpreset"],
     os: ["mac", "win"],
   },
   studio_one: {
@@ -44,7 +44,7 @@ export const DAWS = {
   bitwig: {
     label: "Bitwig",
     formats: ["VST3", "CLAP"],
-    exportFormats: ["bwdevice_stub"],
+    exportFormats: ["bwchain"],
     os: ["mac", "win"],
   },
   reason: {
@@ -56,7 +56,7 @@ export const DAWS = {
   nuendo: {
     label: "Nuendo",
     formats: ["VST3"],
-    exportFormats: ["vstpreset_stub"],
+    exportFormats: ["vstpreset"],
     os: ["mac", "win"],
   },
   garageband: {
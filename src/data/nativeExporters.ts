@@ -4,7 +4,10 @@ export type NativeExporterKey =
   | "ableton_live"
   | "logic_pro"
   | "pro_tools"
-  | "studio_one";
+  | "studio_one"
+  | "cubase"
+  | "nuendo"
+  | "bitwig";
 
 export type NativeExporterMetadata = {
   id: NativeExporterKey;
@@ -21,6 +24,9 @@ export const NATIVE_EXPORTER_ORDER: NativeExporterKey[] = [
   "logic_pro",
   "pro_tools",
   "studio_one",
+  "cubase",
+  "nuendo",
+  "bitwig",
 ];
 
 export const NATIVE_EXPORTER_INFO: Record<NativeExporterKey, NativeExporterMetadata> = {
@@ -66,4 +72,25 @@ export const NATIVE_EXPORTER_INFO: Record<NativeExporterKey, NativeExporterMetad
     fileExtension: ".preset",
     serializerId: "studio-one-preset",
   },
+  cubase: {
+    id: "cubase",
+    label: "Cubase",
+    formatLabel: "VST3 Presets + Track Preset (.vstpreset)",
+    fileExtension: ".vstpreset",
+    serializerId: "cubase-vstpreset",
+  },
+  nuendo: {
+    id: "nuendo",
+    label: "Nuendo",
+    formatLabel: "VST3 Presets + Track Preset (.vstpreset)",
+    fileExtension: ".vstpreset",
+    serializerId: "cubase-vstpreset",
+  },
+  bitwig: {
+    id: "bitwig",
+    label: "Bitwig",
+    formatLabel: "Bitwig Device Chain (CLAP/VST3)",
+    fileExtension: ".bwchain.xml",
+    serializerId: "bitwig-chain",
+  },
 } as const;
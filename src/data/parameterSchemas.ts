@@ -0,0 +1,272 @@
+export type ParameterUnit = "dB" | "Hz" | "ms" | "s" | "%" | "ratio" | "st" | "";
+
+export type ParameterSpec = {
+  id: string;
+  label: string;
+  unit: ParameterUnit;
+  min: number;
+  max: number;
+  step?: number;
+  scale?: "linear" | "log";
+  aliases: string[];
+};
+
+type SpecOverrides = Partial<Omit<ParameterSpec, "id" | "aliases">>;
+
+const spec = (base: ParameterSpec, overrides: SpecOverrides = {}): ParameterSpec => ({
+  ...base,
+  ...overrides,
+});
+
+const THRESHOLD: ParameterSpec = {
+  id: "threshold",
+  label: "Threshold",
+  unit: "dB",
+  min: -60,
+  max: 0,
+  step: 0.1,
+  aliases: ["threshold", "thresh", "thr"],
+};
+const RATIO: ParameterSpec = {
+  id: "ratio",
+  label: "Ratio",
+  unit: "ratio",
+  min: 1,
+  max: 20,
+  step: 0.1,
+  scale: "log",
+  aliases: ["ratio"],
+};
+const ATTACK: ParameterSpec = {
+  id: "attack",
+  label: "Attack",
+  unit: "ms",
+  min: 0.1,
+  max: 300,
+  scale: "log",
+  aliases: ["attack", "atk", "attacktime"],
+};
+const RELEASE: ParameterSpec = {
+  id: "release",
+  label: "Release",
+  unit: "ms",
+  min: 5,
+  max: 3000,
+  scale: "log",
+  aliases: ["release", "rel", "releasetime"],
+};
+const MAKEUP: ParameterSpec = {
+  id: "makeup",
+  label: "Makeup Gain",
+  unit: "dB",
+  min: 0,
+  max: 24,
+  step: 0.1,
+  aliases: ["makeup", "makeupgain", "outputgain", "output"],
+};
+const GAIN: ParameterSpec = {
+  id: "gain",
+  label: "Gain",
+  unit: "dB",
+  min: -24,
+  max: 24,
+  step: 0.1,
+  aliases: ["gain", "boost", "cut", "level"],
+};
+const FREQUENCY: ParameterSpec = {
+  id: "frequency",
+  label: "Frequency",
+  unit: "Hz",
+  min: 20,
+  max: 20000,
+  scale: "log",
+  aliases: ["frequency", "freq", "cutoff", "f"],
+};
+const Q: ParameterSpec = {
+  id: "q",
+  label: "Q",
+  unit: "",
+  min: 0.1,
+  max: 18,
+  step: 0.01,
+  scale: "log",
+  aliases: ["q", "bandwidth", "bw", "resonance", "res"],
+};
+const CEILING: ParameterSpec = {
+  id: "ceiling",
+  label: "Ceiling",
+  unit: "dB",
+  min: -12,
+  max: 0,
+  step: 0.1,
+  aliases: ["ceiling", "ceil", "outputceiling", "outputlevel"],
+};
+const INPUT_GAIN: ParameterSpec = {
+  id: "input",
+  label: "Input Gain",
+  unit: "dB",
+  min: 0,
+  max: 24,
+  step: 0.1,
+  aliases: ["input", "inputgain", "gain", "drivegain"],
+};
+const MIX: ParameterSpec = {
+  id: "mix",
+  label: "Mix",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 1,
+  aliases: ["mix", "drywet", "wet", "blend", "amount"],
+};
+const DECAY: ParameterSpec = {
+  id: "decay",
+  label: "Decay",
+  unit: "s",
+  min: 0.1,
+  max: 20,
+  step: 0.01,
+  scale: "log",
+  aliases: ["decay", "decaytime", "reverbtime", "rt60", "length"],
+};
+const PREDELAY: ParameterSpec = {
+  id: "predelay",
+  label: "Pre-Delay",
+  unit: "ms",
+  min: 0,
+  max: 250,
+  step: 1,
+  aliases: ["predelay"],
+};
+const SIZE: ParameterSpec = {
+  id: "size",
+  label: "Size",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 1,
+  aliases: ["size", "roomsize"],
+};
+const TIME: ParameterSpec = {
+  id: "time",
+  label: "Time",
+  unit: "ms",
+  min: 1,
+  max: 2000,
+  scale: "log",
+  aliases: ["time", "delaytime", "delay"],
+};
+const FEEDBACK: ParameterSpec = {
+  id: "feedback",
+  label: "Feedback",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 1,
+  aliases: ["feedback", "fb", "repeats"],
+};
+const DRIVE: ParameterSpec = {
+  id: "drive",
+  label: "Drive",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 1,
+  aliases: ["drive", "saturation", "distortion"],
+};
+const RATE: ParameterSpec = {
+  id: "rate",
+  label: "Rate",
+  unit: "Hz",
+  min: 0.01,
+  max: 20,
+  scale: "log",
+  aliases: ["rate", "speed", "lforate"],
+};
+const DEPTH: ParameterSpec = {
+  id: "depth",
+  label: "Depth",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 1,
+  aliases: ["depth", "intensity", "width"],
+};
+const RETUNE_SPEED: ParameterSpec = {
+  id: "retune",
+  label: "Retune Speed",
+  unit: "ms",
+  min: 0,
+  max: 400,
+  step: 1,
+  aliases: ["retunespeed", "retune", "speed", "response"],
+};
+const PITCH: ParameterSpec = {
+  id: "pitch",
+  label: "Pitch",
+  unit: "st",
+  min: -24,
+  max: 24,
+  step: 1,
+  aliases: ["pitch", "semitones", "transpose", "shift"],
+};
+
+// Generic ranges per dawPlugins.json catalog type.
+export const TYPE_PARAMETER_SCHEMAS: Record<string, ParameterSpec[]> = {
+  Equalizer: [FREQUENCY, GAIN, Q],
+  Filter: [FREQUENCY, Q, MIX],
+  Compressor: [THRESHOLD, RATIO, ATTACK, RELEASE, MAKEUP, MIX],
+  Limiter: [CEILING, INPUT_GAIN, RELEASE, THRESHOLD],
+  Dynamics: [CEILING, THRESHOLD, RATIO, ATTACK, RELEASE, MAKEUP, MIX],
+  Saturation: [DRIVE, MIX, MAKEUP],
+  Reverb: [DECAY, PREDELAY, SIZE, MIX],
+  Delay: [TIME, FEEDBACK, MIX],
+  Modulation: [RATE, DEPTH, MIX],
+  "Pitch Correction": [RETUNE_SPEED, MIX],
+  "Pitch Shifter": [PITCH, MIX],
+};
+
+// Keyed by stock catalog name or premium plugin slug; ranges follow each plugin's UI.
+export const PLUGIN_PARAMETER_SCHEMAS: Record<string, ParameterSpec[]> = {
+  "Fruity Parametric EQ 2": [FREQUENCY, spec(GAIN, { min: -18, max: 18 }), Q],
+  Maximus: [spec(CEILING, { min: -30 }), THRESHOLD, RATIO, ATTACK, RELEASE],
+  "Fruity Limiter": [spec(CEILING, { min: -30 }), spec(INPUT_GAIN, { min: -12, max: 36 }), RELEASE],
+  "EQ Eight": [spec(FREQUENCY, { min: 10, max: 22000 }), spec(GAIN, { min: -15, max: 15 }), Q],
+  "Glue Compressor": [
+    spec(THRESHOLD, { min: -40 }),
+    spec(RATIO, { min: 2, max: 10 }),
+    spec(ATTACK, { min: 0.01, max: 30 }),
+    spec(RELEASE, { min: 100, max: 1200 }),
+    spec(MAKEUP, { max: 20 }),
+    MIX,
+  ],
+  Saturator: [spec(DRIVE, { unit: "dB", min: -36, max: 36, step: 0.1 }), MIX, spec(MAKEUP, { min: -36, max: 0 })],
+  "Channel EQ": [FREQUENCY, spec(GAIN, { min: -30, max: 30 }), spec(Q, { max: 100 })],
+  Limiter: [CEILING, spec(INPUT_GAIN, { max: 20 }), spec(RELEASE, { min: 0.01, max: 1000 })],
+  ReaEQ: [FREQUENCY, GAIN, spec(Q, { min: 0.01, max: 4 })],
+  ReaComp: [THRESHOLD, spec(RATIO, { max: 100 }), spec(ATTACK, { min: 0, max: 500, scale: "linear" }), RELEASE, MAKEUP, MIX],
+  "Pitch Correction": [spec(RETUNE_SPEED, { max: 200 }), MIX],
+  fabfilter_pro_q_3: [
+    spec(FREQUENCY, { min: 10, max: 30000 }),
+    spec(GAIN, { min: -30, max: 30 }),
+    spec(Q, { min: 0.025, max: 40 }),
+  ],
+  fabfilter_pro_c_2: [
+    THRESHOLD,
+    spec(RATIO, { max: 100 }),
+    spec(ATTACK, { min: 0.005, max: 250 }),
+    spec(RELEASE, { min: 10, max: 2500 }),
+    spec(MAKEUP, { min: -36, max: 36 }),
+    MIX,
+  ],
+  fabfilter_pro_l_2: [spec(CEILING, { min: -30 }), spec(INPUT_GAIN, { max: 30 }), spec(RELEASE, { min: 0.1, max: 10000 })],
+  uad_1176_classic: [
+    spec(INPUT_GAIN, { unit: "", min: 0, max: 10, step: 0.1 }),
+    spec(RATIO, { min: 4, max: 20 }),
+    spec(ATTACK, { min: 0.02, max: 0.8 }),
+    spec(RELEASE, { min: 50, max: 1100 }),
+  ],
+  valhalla_vintageverb: [spec(DECAY, { min: 0.2, max: 70 }), spec(PREDELAY, { max: 500 }), SIZE, MIX],
+  soundtoys_echoboy: [spec(TIME, { max: 5000 }), FEEDBACK, MIX],
+  antares_autotune_pro: [RETUNE_SPEED, MIX],
+};
@@ -0,0 +1,44 @@
+// ISO 1/3-octave center frequencies covered by the tonal-balance profile.
+export const TONAL_BAND_CENTERS_HZ = [
+  63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250, 1600, 2000, 2500, 3150, 4000,
+  5000, 6300, 8000, 10000, 12500, 16000,
+] as const;
+
+export type TonalReference = {
+  id: string;
+  label: string;
+  description: string;
+  // Relative level in dB per TONAL_BAND_CENTERS_HZ entry; only the shape matters.
+  curve: number[];
+};
+
+export const TONAL_REFERENCES: TonalReference[] = [
+  {
+    id: "bright_pop_vocal",
+    label: "Bright pop vocal",
+    description: "Tight low end, forward presence and an open air band.",
+    curve: [-18, -14, -9, -5, -2, 0, 1, 1, 1, 0, -1, -2, -2, -3, -3, -3, -3, -3, -3, -4, -5, -6, -7, -9, -13],
+  },
+  {
+    id: "dark_rnb_vocal",
+    label: "Dark R&B vocal",
+    description: "Warm low mids with a rolled-off, smooth top end.",
+    curve: [-14, -10, -6, -3, -1, 1, 2, 2, 2, 1, 0, -1, -2, -3, -4, -5, -6, -7, -8, -9, -11, -13, -15, -18, -22],
+  },
+  {
+    id: "upfront_rap_vocal",
+    label: "Upfront rap vocal",
+    description: "Dense low mids and a flat, aggressive 1-4 kHz region.",
+    curve: [-15, -11, -7, -3, 0, 1, 2, 2, 1, 0, -1, -2, -2, -2, -2, -2, -2, -3, -4, -5, -7, -8, -10, -13, -17],
+  },
+  {
+    id: "natural_vocal",
+    label: "Natural vocal",
+    description: "Even, uncolored balance close to an untreated close-mic take.",
+    curve: [-16, -12, -8, -4, -2, 0, 1, 1, 1, 0, -1, -2, -3, -4, -4, -5, -5, -6, -7, -8, -9, -11, -13, -16, -20],
+  },
+];
+
+export function getTonalReference(id: string): TonalReference | undefined {
+  return TONAL_REFERENCES.find((reference) => reference.id === id);
+}
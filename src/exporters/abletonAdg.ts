@@ -1,5 +1,6 @@
 import { gzipSync } from "zlib";
 import { sanitizeFilename, sortChainPlugins, prettyXml } from "./utils";
+import { typedSettings } from "./parameters";
 import type { PresetSerializer, PluginChain, PluginChainPlugin, SerializedPreset } from "./types";
 
 function xmlEscape(value: string): string {
@@ -18,10 +19,21 @@ function serializeDevice(plugin: PluginChainPlugin, index: number): string {
     plugin.identifiers?.generic ??
     plugin.name;
 
-  const parameters = Object.entries(plugin.settings).map(([name, value]) => {
+  const parameters = typedSettings(plugin).map(({ name, value, parameter }) => {
+    const automation =
+      parameter && typeof parameter.normalized === "number"
+        ? `
+        <ParameterValue>
+          <Manual Value="${parameter.normalized}"/>
+          <MidiControllerRange>
+            <Min Value="${parameter.min ?? 0}"/>
+            <Max Value="${parameter.max ?? 1}"/>
+          </MidiControllerRange>
+        </ParameterValue>`
+        : "";
     return `<PlugInParameter>
         <Id Value="${xmlEscape(name)}"/>
-        <Value Value="${xmlEscape(String(value))}"/>
+        <Value Value="${xmlEscape(value)}"/>${automation}
       </PlugInParameter>`;
   });
 
@@ -0,0 +1,94 @@
+import { sanitizeFilename, sortChainPlugins, prettyXml } from "./utils";
+import type { PresetSerializer, PluginChain, PluginChainPlugin, SerializedPreset } from "./types";
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function resolvePluginReference(plugin: PluginChainPlugin): { format: "CLAP" | "VST3"; id: string } {
+  if (plugin.identifiers?.clap) {
+    return { format: "CLAP", id: plugin.identifiers.clap };
+  }
+  return {
+    format: "VST3",
+    id: plugin.identifiers?.vst3 ?? plugin.identifiers?.generic ?? plugin.name,
+  };
+}
+
+function serializeDevice(plugin: PluginChainPlugin, index: number): string {
+  const reference = resolvePluginReference(plugin);
+
+  const parameters = plugin.parameters?.length
+    ? plugin.parameters
+        .map(
+          (param) =>
+            `<Parameter id="${xmlEscape(param.id)}" name="${xmlEscape(param.label ?? param.id)}" value="${xmlEscape(
+              param.value
+            )}"${typeof param.normalized === "number" ? ` normalized="${param.normalized}"` : ""}/>`
+        )
+        .join("")
+    : Object.entries(plugin.settings)
+        .map(
+          ([name, value]) =>
+            `<Parameter id="${xmlEscape(name)}" name="${xmlEscape(name)}" value="${xmlEscape(String(value))}"/>`
+        )
+        .join("");
+
+  return `<Device index="${index}" format="${reference.format}" id="${xmlEscape(reference.id)}" enabled="${
+    plugin.bypassed ? "false" : "true"
+  }">
+      <Name>${xmlEscape(plugin.name)}</Name>
+      <Category>${xmlEscape(plugin.type)}</Category>
+      <Parameters>${parameters}</Parameters>
+      <Remark>${plugin.comment ? xmlEscape(plugin.comment) : ""}</Remark>
+    </Device>`;
+}
+
+function buildChain(chain: PluginChain): string {
+  const devices = sortChainPlugins(chain)
+    .map((plugin, index) => serializeDevice(plugin, index))
+    .join("");
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<BitwigDeviceChain version="1" creator="ToneTerminal">
+  <Meta>
+    <Title>${xmlEscape(chain.song?.title ?? chain.summary ?? "ToneTerminal Chain")}</Title>
+    ${chain.summary ? `<Remark>${xmlEscape(chain.summary)}</Remark>` : ""}
+    ${chain.clipWindow ? `<ClipWindow>${xmlEscape(chain.clipWindow)}</ClipWindow>` : ""}
+  </Meta>
+  <Chain>
+    ${devices}
+  </Chain>
+</BitwigDeviceChain>`;
+
+  return prettyXml(xml);
+}
+
+const BitwigChainSerializer: PresetSerializer = {
+  id: "bitwig-chain",
+  label: "Bitwig Device Chain",
+  canHandle(daw: string) {
+    return daw === "bitwig" || daw === "bitwig_studio";
+  },
+  async serialize(chain: PluginChain): Promise<SerializedPreset> {
+    const xml = buildChain(chain);
+    const safeBase =
+      chain.song?.title ?? chain.summary ?? `${chain.daw.replace(/\s+/g, "_")}_chain`;
+    const filename = `${sanitizeFilename(safeBase)}.bwchain.xml`;
+    return {
+      filename,
+      mime: "application/xml",
+      data: Buffer.from(xml, "utf-8"),
+      serializerId: BitwigChainSerializer.id,
+      label: BitwigChainSerializer.label,
+      isNative: true,
+    };
+  },
+};
+
+export default BitwigChainSerializer;
@@ -0,0 +1,188 @@
+import { createHash } from "crypto";
+import { sanitizeFilename, sortChainPlugins, buildZipArchive, encodeUtf8, prettyXml } from "./utils";
+import type { PresetSerializer, PluginChain, PluginChainPlugin, SerializedPreset } from "./types";
+
+const HEADER_SIZE = 48;
+const CHUNK_ENTRY_SIZE = 20;
+const FORMAT_VERSION = 1;
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Falls back to a stable hash so repeated exports of the same chain are identical.
+export function resolveVst3ClassId(plugin: PluginChainPlugin): string {
+  const raw = plugin.identifiers?.vst3 ?? "";
+  const hex = raw.replace(/[^0-9a-f]/gi, "").toUpperCase();
+  if (hex.length === 32) {
+    return hex;
+  }
+  const seed = raw.trim() || plugin.identifiers?.generic || plugin.name;
+  return createHash("md5").update(seed).digest("hex").toUpperCase();
+}
+
+function buildComponentState(plugin: PluginChainPlugin): string {
+  const parameters = plugin.parameters?.length
+    ? plugin.parameters.map(
+        (param) =>
+          `<Parameter id="${xmlEscape(param.id)}" value="${xmlEscape(param.value)}"${
+            typeof param.normalized === "number" ? ` normalized="${param.normalized}"` : ""
+          }/>`
+      )
+    : Object.entries(plugin.settings).map(
+        ([name, value]) => `<Parameter id="${xmlEscape(name)}" value="${xmlEscape(String(value))}"/>`
+      );
+
+  return prettyXml(`<?xml version="1.0" encoding="UTF-8"?>
+<ToneTerminalState name="${xmlEscape(plugin.name)}" type="${xmlEscape(plugin.type)}" bypassed="${
+    plugin.bypassed ? "true" : "false"
+  }">
+  <Parameters>${parameters.join("")}</Parameters>
+  <Comment>${plugin.comment ? xmlEscape(plugin.comment) : ""}</Comment>
+</ToneTerminalState>`);
+}
+
+function buildControllerState(plugin: PluginChainPlugin): string {
+  return prettyXml(`<?xml version="1.0" encoding="UTF-8"?>
+<ToneTerminalController name="${xmlEscape(plugin.name)}"/>`);
+}
+
+function buildMetaInfo(plugin: PluginChainPlugin): string {
+  const attributes: Array<[string, string]> = [
+    ["MediaType", "VstPreset"],
+    ["PlugInName", plugin.name],
+    ["PlugInCategory", "Fx"],
+    ["MediaComment", plugin.comment ?? ""],
+  ];
+  if (plugin.vendor) {
+    attributes.push(["PlugInVendor", plugin.vendor]);
+  }
+
+  const lines = attributes.map(
+    ([id, value]) =>
+      `  <Attribute id="${id}" value="${xmlEscape(value)}" type="string" flags="writeProtected"/>`
+  );
+  return prettyXml(`<?xml version="1.0" encoding="utf-8"?>
+<MetaInfo>
+${lines.join("\n")}
+</MetaInfo>`);
+}
+
+// Header (magic, version, class ID, list offset), chunk data, then the "List" table.
+export function buildVstPreset(plugin: PluginChainPlugin): Buffer {
+  const chunks: Array<{ id: string; data: Buffer }> = [
+    { id: "Comp", data: encodeUtf8(buildComponentState(plugin)) },
+    { id: "Cont", data: encodeUtf8(buildControllerState(plugin)) },
+    { id: "Info", data: encodeUtf8(buildMetaInfo(plugin)) },
+  ];
+
+  const dataSize = chunks.reduce((total, chunk) => total + chunk.data.length, 0);
+  const listOffset = HEADER_SIZE + dataSize;
+  const listSize = 8 + chunks.length * CHUNK_ENTRY_SIZE;
+  const output = Buffer.alloc(listOffset + listSize);
+
+  output.write("VST3", 0, "ascii");
+  output.writeInt32LE(FORMAT_VERSION, 4);
+  output.write(resolveVst3ClassId(plugin), 8, 32, "ascii");
+  output.writeBigInt64LE(BigInt(listOffset), 40);
+
+  let cursor = HEADER_SIZE;
+  const entries = chunks.map((chunk) => {
+    chunk.data.copy(output, cursor);
+    const entry = { id: chunk.id, offset: cursor, size: chunk.data.length };
+    cursor += chunk.data.length;
+    return entry;
+  });
+
+  output.write("List", cursor, "ascii");
+  output.writeInt32LE(entries.length, cursor + 4);
+  cursor += 8;
+  for (const entry of entries) {
+    output.write(entry.id, cursor, "ascii");
+    output.writeBigInt64LE(BigInt(entry.offset), cursor + 4);
+    output.writeBigInt64LE(BigInt(entry.size), cursor + 12);
+    cursor += CHUNK_ENTRY_SIZE;
+  }
+
+  return output;
+}
+
+function presetPath(plugin: PluginChainPlugin, index: number): string {
+  const slot = String(index + 1).padStart(2, "0");
+  return `VST3 Presets/${slot}_${sanitizeFilename(plugin.name, "plugin")}.vstpreset`;
+}
+
+function buildTrackPreset(chain: PluginChain, ordered: PluginChainPlugin[]): string {
+  const inserts = ordered
+    .map(
+      (plugin, index) => `<Insert slot="${index}" active="${plugin.bypassed ? "false" : "true"}">
+      <Name>${xmlEscape(plugin.name)}</Name>
+      <ClassID>${resolveVst3ClassId(plugin)}</ClassID>
+      <Type>${xmlEscape(plugin.type)}</Type>
+      <Preset>${xmlEscape(presetPath(plugin, index))}</Preset>
+    </Insert>`
+    )
+    .join("");
+
+  return prettyXml(`<?xml version="1.0" encoding="UTF-8"?>
+<TrackPreset creator="ToneTerminal" type="Audio">
+  <Meta>
+    <Name>${xmlEscape(chain.song?.title ?? chain.summary ?? "ToneTerminal Chain")}</Name>
+    <DAW>${xmlEscape(chain.daw)}</DAW>
+    ${chain.summary ? `<Summary>${xmlEscape(chain.summary)}</Summary>` : ""}
+    ${chain.clipWindow ? `<ClipWindow>${xmlEscape(chain.clipWindow)}</ClipWindow>` : ""}
+  </Meta>
+  <Inserts>${inserts}</Inserts>
+</TrackPreset>`);
+}
+
+async function buildBundle(chain: PluginChain, baseName: string): Promise<Buffer> {
+  const ordered = sortChainPlugins(chain);
+
+  return buildZipArchive([
+    {
+      path: `Track Presets/${baseName}.trackpreset.xml`,
+      data: encodeUtf8(buildTrackPreset(chain, ordered)),
+    },
+    ...ordered.map((plugin, index) => ({
+      path: presetPath(plugin, index),
+      data: buildVstPreset(plugin),
+      binary: true,
+    })),
+    {
+      path: "README.txt",
+      data: encodeUtf8(
+        "Generated by ToneTerminal. Load each .vstpreset from the plugin's preset browser in insert order, or import the track preset to rebuild the full chain."
+      ),
+    },
+  ]);
+}
+
+const CubaseVstPresetSerializer: PresetSerializer = {
+  id: "cubase-vstpreset",
+  label: "Cubase/Nuendo VST3 Presets",
+  canHandle(daw: string) {
+    return daw === "cubase" || daw === "nuendo";
+  },
+  async serialize(chain: PluginChain): Promise<SerializedPreset> {
+    const safeBase =
+      chain.song?.title ?? chain.summary ?? `${chain.daw.replace(/\s+/g, "_")}_chain`;
+    const baseName = sanitizeFilename(safeBase);
+    const archive = await buildBundle(chain, baseName);
+    return {
+      filename: `${baseName}_vstpresets.zip`,
+      mime: "application/zip",
+      data: archive,
+      serializerId: CubaseVstPresetSerializer.id,
+      label: CubaseVstPresetSerializer.label,
+      isNative: true,
+    };
+  },
+};
+
+export default CubaseVstPresetSerializer;
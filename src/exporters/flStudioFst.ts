@@ -68,7 +68,7 @@ function buildFst(chain: PluginChain): string {
     .join("\n");
 
   const slots = ordered.map((plugin, index) => formatSlot(index, plugin)).join("\n\n");
-  return `${header}${slots}\n`;
+  return `${header}\n\n${slots}\n`;
 }
 
 const FlStudioFstSerializer: PresetSerializer = {
@@ -13,13 +13,23 @@ import AbletonAdgSerializer from "./abletonAdg";
 import LogicPatchSerializer from "./logicPatch";
 import ProToolsPresetSerializer from "./proToolsPreset";
 import StudioOnePresetSerializer from "./studioOnePreset";
-import StubZipSerializer from "./stubZip";
+import CubaseVstPresetSerializer from "./cubaseVstPreset";
+import BitwigChainSerializer from "./bitwigChain";
+import StubZipSerializer, { buildChainJson } from "./stubZip";
+import { buildZipArchive, encodeUtf8, sanitizeFilename } from "./utils";
 export {
   NATIVE_EXPORTERS,
   resolveNativeExporterKey,
   hasNativeExporter,
   getExporterCoverage,
 } from "./nativeSupport";
+export {
+  buildPluginParameters,
+  resolvePluginParameters,
+  resolveParameterSchema,
+  parseParameterValue,
+  normalizeParameterValue,
+} from "./parameters";
 export type {
   NativeExporterKey,
   NativeExporterMetadata,
@@ -33,13 +43,96 @@ const SERIALIZERS: PresetSerializer[] = [
   LogicPatchSerializer,
   ProToolsPresetSerializer,
   StudioOnePresetSerializer,
+  CubaseVstPresetSerializer,
+  BitwigChainSerializer,
 ];
 
-export async function serializePreset(chain: PluginChain): Promise<SerializedPreset> {
-  const dawId =
+export const BUNDLE_SERIALIZER_ID = "bundle-zip";
+
+export type BundleManifestEntry = {
+  serializerId: string;
+  label: string;
+  isNative: boolean;
+  filename: string;
+};
+
+function resolveChainDawId(chain: PluginChain): string {
+  return (
     chain.dawId ??
     labelToDawId(chain.daw) ??
-    chain.daw.toLowerCase().replace(/\s+/g, "_");
+    chain.daw.toLowerCase().replace(/\s+/g, "_")
+  );
+}
+
+export function listSerializers(): PresetSerializer[] {
+  return [...SERIALIZERS];
+}
+
+export function resolveBundleSerializers(selection?: string[] | null): PresetSerializer[] {
+  if (!selection || selection.length === 0) {
+    return listSerializers();
+  }
+  const wanted = selection.map((entry) => entry.trim()).filter(Boolean);
+  return SERIALIZERS.filter((serializer) =>
+    wanted.some((entry) => {
+      const dawId = labelToDawId(entry) ?? entry.toLowerCase().replace(/\s+/g, "_");
+      return entry === serializer.id || serializer.canHandle(dawId);
+    })
+  );
+}
+
+export async function serializeBundle(
+  chain: PluginChain,
+  serializers: PresetSerializer[] = SERIALIZERS
+): Promise<SerializedPreset> {
+  const dawId = resolveChainDawId(chain);
+  const presets = await Promise.all(
+    serializers.map((serializer) => serializer.serialize({ ...chain, dawId }))
+  );
+
+  const manifest: BundleManifestEntry[] = presets.map((preset) => ({
+    serializerId: preset.serializerId,
+    label: preset.label,
+    isNative: preset.isNative,
+    filename: `${preset.serializerId}/${preset.filename}`,
+  }));
+
+  const data = await buildZipArchive([
+    ...presets.map((preset, index) => ({
+      path: manifest[index].filename,
+      data: preset.data,
+      binary: true,
+    })),
+    { path: "chain.json", data: encodeUtf8(buildChainJson(chain)) },
+    {
+      path: "manifest.json",
+      data: encodeUtf8(
+        JSON.stringify(
+          {
+            daw: chain.daw,
+            createdBy: "ToneTerminal",
+            exports: manifest,
+          },
+          null,
+          2
+        )
+      ),
+    },
+  ]);
+
+  const safeBase = chain.song?.title ?? chain.summary ?? `${chain.daw.replace(/\s+/g, "_")}_chain`;
+  return {
+    filename: `${sanitizeFilename(safeBase)}_bundle.zip`,
+    mime: "application/zip",
+    data,
+    serializerId: BUNDLE_SERIALIZER_ID,
+    label: "Multi-format Export Bundle",
+    isNative: presets.length > 0 && presets.every((preset) => preset.isNative),
+  };
+}
+
+export async function serializePreset(chain: PluginChain): Promise<SerializedPreset> {
+  const dawId = resolveChainDawId(chain);
   const serializer = SERIALIZERS.find((item) => item.canHandle(dawId));
   if (serializer) {
     return serializer.serialize({ ...chain, dawId });
@@ -54,6 +147,8 @@ export {
   LogicPatchSerializer,
   ProToolsPresetSerializer,
   StudioOnePresetSerializer,
+  CubaseVstPresetSerializer,
+  BitwigChainSerializer,
   StubZipSerializer,
 };
 export type {
@@ -0,0 +1,153 @@
+import premiumCatalog from "@/data/premiumPlugins.json";
+import {
+  PLUGIN_PARAMETER_SCHEMAS,
+  TYPE_PARAMETER_SCHEMAS,
+  type ParameterSpec,
+  type ParameterUnit,
+} from "@/data/parameterSchemas";
+import { normalizePluginType } from "@/lib/chainTranslation";
+import type { PluginChainPlugin, PluginParameter } from "./types";
+
+const VALUE_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+))\s*(k)?\s*(hz|db|ms|s|%|st|semitones?|x)?/i;
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function roundTo(value: number, step?: number): number {
+  if (step && step > 0) {
+    const precision = Math.max(0, -Math.floor(Math.log10(step)));
+    return Number((Math.round(value / step) * step).toFixed(precision));
+  }
+  return Number(value.toPrecision(6));
+}
+
+function findPremiumSlug(plugin: PluginChainPlugin): string | null {
+  const generic = plugin.identifiers?.generic;
+  if (generic && PLUGIN_PARAMETER_SCHEMAS[generic]) {
+    return generic;
+  }
+  const name = plugin.name.trim().toLowerCase();
+  const vendor = plugin.vendor?.trim().toLowerCase();
+  const match = premiumCatalog.find(
+    (entry) => entry.name.toLowerCase() === name && (!vendor || entry.vendor.toLowerCase() === vendor)
+  );
+  return match?.slug ?? null;
+}
+
+export function resolveParameterSchema(plugin: PluginChainPlugin): ParameterSpec[] | null {
+  const byName = Object.keys(PLUGIN_PARAMETER_SCHEMAS).find(
+    (key) => key.toLowerCase() === plugin.name.trim().toLowerCase()
+  );
+  if (byName) {
+    return PLUGIN_PARAMETER_SCHEMAS[byName];
+  }
+
+  const slug = findPremiumSlug(plugin);
+  if (slug && PLUGIN_PARAMETER_SCHEMAS[slug]) {
+    return PLUGIN_PARAMETER_SCHEMAS[slug];
+  }
+
+  const categories = premiumCatalog.find((entry) => entry.slug === slug)?.categories ?? [];
+  for (const candidate of [plugin.type, plugin.category ?? "", ...categories]) {
+    const type = normalizePluginType(candidate);
+    if (type && TYPE_PARAMETER_SCHEMAS[type]) {
+      return TYPE_PARAMETER_SCHEMAS[type];
+    }
+  }
+  return null;
+}
+
+// Reads LLM-style strings ("+3dB", "5kHz", "4:1", "120 ms") into the spec's unit.
+export function parseParameterValue(raw: string, unit: ParameterUnit): number | null {
+  const text = raw.trim().toLowerCase();
+  if (!text) return null;
+  if (/^[+-]?inf/.test(text)) {
+    return text.startsWith("-") ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY;
+  }
+
+  const ratio = text.match(/^(\d+\.?\d*|inf)\s*:\s*1$/);
+  if (ratio) {
+    return ratio[1] === "inf" ? Number.POSITIVE_INFINITY : Number(ratio[1]);
+  }
+
+  const match = text.match(VALUE_PATTERN);
+  if (!match) return null;
+  let value = Number(match[1]);
+  if (!Number.isFinite(value)) return null;
+
+  const kilo = Boolean(match[2]);
+  const suffix = match[3] ?? "";
+  if (kilo) {
+    value *= 1000;
+  }
+  if (unit === "ms" && suffix === "s") {
+    value *= 1000;
+  } else if (unit === "s" && suffix === "ms") {
+    value /= 1000;
+  } else if (unit === "%" && suffix === "" && value > 0 && value <= 1 && text.includes(".")) {
+    value *= 100;
+  }
+  return value;
+}
+
+export function normalizeParameterValue(value: number, spec: ParameterSpec): number {
+  const clamped = Math.min(spec.max, Math.max(spec.min, value));
+  if (spec.max === spec.min) return 0;
+  const normalized =
+    spec.scale === "log" && spec.min > 0
+      ? Math.log(clamped / spec.min) / Math.log(spec.max / spec.min)
+      : (clamped - spec.min) / (spec.max - spec.min);
+  return Number(normalized.toFixed(4));
+}
+
+export function buildPluginParameters(plugin: PluginChainPlugin): PluginParameter[] | null {
+  const schema = resolveParameterSchema(plugin);
+  if (!schema) return null;
+
+  const used = new Set<string>();
+  const parameters = Object.entries(plugin.settings).reduce<PluginParameter[]>((acc, [key, raw]) => {
+    const normalizedKey = normalizeKey(key);
+    const spec = schema.find(
+      (candidate) => !used.has(candidate.id) && candidate.aliases.includes(normalizedKey)
+    );
+    if (!spec) return acc;
+    const parsed = parseParameterValue(String(raw), spec.unit);
+    if (parsed === null) return acc;
+
+    used.add(spec.id);
+    const value = roundTo(Math.min(spec.max, Math.max(spec.min, parsed)), spec.step);
+    acc.push({
+      id: spec.id,
+      label: key,
+      value: String(value),
+      normalized: normalizeParameterValue(value, spec),
+      min: spec.min,
+      max: spec.max,
+      step: spec.step,
+      unit: spec.unit || undefined,
+    });
+    return acc;
+  }, []);
+
+  return parameters.length ? parameters : null;
+}
+
+export function resolvePluginParameters(plugin: PluginChainPlugin): PluginParameter[] {
+  return plugin.parameters?.length ? plugin.parameters : buildPluginParameters(plugin) ?? [];
+}
+
+// Pairs each settings entry with its typed parameter, matching on the original key.
+export function typedSettings(
+  plugin: PluginChainPlugin
+): Array<{ name: string; value: string; parameter: PluginParameter | null }> {
+  const parameters = resolvePluginParameters(plugin);
+  return Object.entries(plugin.settings).map(([name, value]) => ({
+    name,
+    value: String(value),
+    parameter:
+      parameters.find((param) => (param.label ?? param.id).toLowerCase() === name.toLowerCase()) ??
+      parameters.find((param) => param.id.toLowerCase() === normalizeKey(name)) ??
+      null,
+  }));
+}
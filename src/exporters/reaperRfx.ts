@@ -1,4 +1,5 @@
-import { PresetSerializer, PluginChain, SerializedPreset } from "./types";
+import { PresetSerializer, PluginChain, SerializedPreset, PluginParameter } from "./types";
+import { typedSettings } from "./parameters";
 
 function escapeXml(value: string): string {
   return value
@@ -9,6 +10,19 @@ function escapeXml(value: string): string {
     .replace(/'/g, "&apos;");
 }
 
+function parameterAttributes(parameter: PluginParameter | null): string {
+  if (!parameter || typeof parameter.normalized !== "number") {
+    return "";
+  }
+  const range =
+    typeof parameter.min === "number" && typeof parameter.max === "number"
+      ? ` min="${parameter.min}" max="${parameter.max}"`
+      : "";
+  return ` id="${escapeXml(parameter.id)}" normalized="${parameter.normalized}"${range}${
+    parameter.unit ? ` unit="${escapeXml(parameter.unit)}"` : ""
+  }`;
+}
+
 const ReaperRfxSerializer: PresetSerializer = {
   id: "reaper-rfx",
   label: "Reaper RFX Chain",
@@ -42,8 +56,13 @@ const ReaperRfxSerializer: PresetSerializer = {
         const name = escapeXml(plugin.name);
         const type = escapeXml(plugin.type);
         const settings = Object.keys(plugin.settings).length
-          ? Object.entries(plugin.settings)
-              .map(([key, value]) => `      <PRESET_PARAM name="${escapeXml(key)}" value="${escapeXml(value)}"/>`)
+          ? typedSettings(plugin)
+              .map(
+                ({ name: key, value, parameter }) =>
+                  `      <PRESET_PARAM name="${escapeXml(key)}" value="${escapeXml(value)}"${parameterAttributes(
+                    parameter
+                  )}/>`
+              )
               .join("\n")
           : "";
         const comment = plugin.comment
@@ -1,6 +1,20 @@
 import JSZip from "jszip";
 import { PresetSerializer, PluginChain, SerializedPreset } from "./types";
 
+export function buildChainJson(chain: PluginChain): string {
+  return JSON.stringify(
+    {
+      daw: chain.daw,
+      summary: chain.summary ?? null,
+      clipWindow: chain.clipWindow ?? null,
+      song: chain.song ?? null,
+      plugins: chain.plugins,
+    },
+    null,
+    2
+  );
+}
+
 const StubZipSerializer: PresetSerializer = {
   id: "stub-zip",
   label: "Stub ZIP Export",
@@ -53,20 +67,7 @@ const StubZipSerializer: PresetSerializer = {
     const readmeText = `${instructions}\n\n${chainLines}\n`;
 
     zip.file("README.txt", readmeText);
-    zip.file(
-      "chain.json",
-      JSON.stringify(
-        {
-          daw: chain.daw,
-          summary: chain.summary ?? null,
-          clipWindow: chain.clipWindow ?? null,
-          song: chain.song ?? null,
-          plugins: chain.plugins,
-        },
-        null,
-        2
-      )
-    );
+    zip.file("chain.json", buildChainJson(chain));
 
     const clipboardText = chain.plugins
       .map((plugin, index) => {
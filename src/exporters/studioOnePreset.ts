@@ -1,4 +1,5 @@
 import { sanitizeFilename, sortChainPlugins, buildZipArchive, encodeUtf8, prettyXml } from "./utils";
+import { typedSettings } from "./parameters";
 import type { PresetSerializer, PluginChain, PluginChainPlugin, SerializedPreset } from "./types";
 
 function xmlEscape(value: string): string {
@@ -17,13 +18,16 @@ function serializeDevice(plugin: PluginChainPlugin, index: number): string {
     plugin.identifiers?.generic ??
     plugin.name;
 
-  const parameters = Object.entries(plugin.settings)
-    .map(
-      ([name, value], paramIndex) =>
-        `<Parameter index="${paramIndex}" name="${xmlEscape(name)}" value="${xmlEscape(
-          String(value)
-        )}"/>`
-    )
+  const parameters = typedSettings(plugin)
+    .map(({ name, value, parameter }, paramIndex) => {
+      const typed =
+        parameter && typeof parameter.normalized === "number"
+          ? ` id="${xmlEscape(parameter.id)}" normalized="${parameter.normalized}"${
+              parameter.unit ? ` unit="${xmlEscape(parameter.unit)}"` : ""
+            }`
+          : "";
+      return `<Parameter index="${paramIndex}" name="${xmlEscape(name)}" value="${xmlEscape(value)}"${typed}/>`;
+    })
     .join("");
 
   return `<Device index="${index}">
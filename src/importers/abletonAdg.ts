@@ -0,0 +1,109 @@
+import { gunzipSync } from "zlib";
+import pluginCatalog from "@/data/dawPlugins.json";
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { childNode, findNode, findNodes, nodeText, parseXml, type XmlNode } from "./xml";
+import { emptyToNull, hasExtension, isGzipBuffer } from "./utils";
+import type { PresetParser } from "./types";
+
+const DAW_LABEL = "Ableton Live";
+
+const NATIVE_DEVICES: Record<string, string> = {
+  AutoFilter: "Auto Filter",
+  Eq8: "EQ Eight",
+  GlueCompressor: "Glue Compressor",
+  Compressor2: "Compressor",
+  Saturator: "Saturator",
+  HybridReverb: "Hybrid Reverb",
+  Delay: "Delay",
+  Limiter: "Limiter",
+};
+
+const abletonCatalog =
+  (pluginCatalog as Record<string, Array<{ name: string; type: string }>>)[DAW_LABEL] ?? [];
+
+function catalogType(name: string): string {
+  const match = abletonCatalog.find((plugin) => plugin.name.toLowerCase() === name.toLowerCase());
+  return match?.type ?? "Plugin";
+}
+
+function valueOf(node: XmlNode | null): string {
+  return node?.attributes.Value ?? "";
+}
+
+function parsePluginDevice(device: XmlNode): PluginChainPlugin {
+  const desc = childNode(device, "PluginDesc");
+  const name =
+    valueOf(childNode(device, "UserName")) ||
+    valueOf(childNode(device, "PresetName")) ||
+    valueOf(findNode(desc, "PlugName")) ||
+    valueOf(findNode(desc, "Name")) ||
+    "Unnamed Plugin";
+  const identifier = valueOf(findNode(desc, "PluginIdentifier"));
+
+  const settings = findNodes(device, "PlugInParameter").reduce<Record<string, string>>(
+    (acc, param) => {
+      const id = valueOf(childNode(param, "Id"));
+      if (id) {
+        acc[id] = valueOf(childNode(param, "Value"));
+      }
+      return acc;
+    },
+    {}
+  );
+
+  const enabled = valueOf(childNode(device, "IsEnabled"));
+  return {
+    name,
+    type: catalogType(name),
+    settings,
+    comment: emptyToNull(valueOf(childNode(device, "UserComment"))),
+    identifiers: identifier && identifier !== name ? { ableton: identifier } : null,
+    bypassed: enabled === "false",
+  };
+}
+
+function parseNativeDevice(device: XmlNode): PluginChainPlugin {
+  const name = NATIVE_DEVICES[device.name];
+  const manual = valueOf(findNode(childNode(device, "On"), "Manual"));
+  return {
+    name,
+    type: catalogType(name),
+    settings: {},
+    bypassed: manual === "false",
+  };
+}
+
+function collectDevices(node: XmlNode, plugins: PluginChainPlugin[]) {
+  for (const child of node.children) {
+    if (child.name === "PluginDevice") {
+      plugins.push(parsePluginDevice(child));
+    } else if (child.name in NATIVE_DEVICES) {
+      plugins.push(parseNativeDevice(child));
+    } else {
+      collectDevices(child, plugins);
+    }
+  }
+}
+
+const AbletonAdgParser: PresetParser = {
+  id: "ableton-adg",
+  label: "Ableton Device Rack",
+  canParse(buffer: Buffer, filename: string) {
+    return hasExtension(filename, ".adg") && isGzipBuffer(buffer);
+  },
+  async parse(buffer: Buffer): Promise<PluginChain> {
+    const document = parseXml(gunzipSync(buffer).toString("utf-8"));
+    const annotation = findNode(document, "Annotation");
+    const plugins: PluginChainPlugin[] = [];
+    collectDevices(document, plugins);
+
+    return {
+      daw: DAW_LABEL,
+      dawId: "ableton_live",
+      summary: emptyToNull(nodeText(annotation)),
+      plugins: plugins.map((plugin, index) => ({ ...plugin, slotIndex: index })),
+    };
+  },
+};
+
+export default AbletonAdgParser;
@@ -0,0 +1,92 @@
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { emptyToNull } from "./utils";
+import type { PresetParser } from "./types";
+
+const HEADER = "[ToneTerminalFST]";
+
+type Section = {
+  name: string;
+  entries: Array<[string, string]>;
+};
+
+function parseSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const pieces = text.split(/(\[[A-Za-z0-9]+\])/);
+  let current: Section | null = null;
+
+  for (const piece of pieces) {
+    const heading = piece.match(/^\[([A-Za-z0-9]+)\]$/);
+    if (heading) {
+      current = { name: heading[1], entries: [] };
+      sections.push(current);
+      continue;
+    }
+    if (!current) continue;
+    for (const line of piece.split(/\r?\n/)) {
+      const index = line.indexOf("=");
+      if (index <= 0) continue;
+      current.entries.push([line.slice(0, index).trim(), line.slice(index + 1).trim()]);
+    }
+  }
+
+  return sections;
+}
+
+function readEntry(section: Section | undefined, key: string): string | null {
+  const entry = section?.entries.find(([name]) => name === key);
+  return entry ? entry[1] : null;
+}
+
+function parseSlot(section: Section, index: number): PluginChainPlugin {
+  const identifier = readEntry(section, "Name");
+  const name = readEntry(section, "DisplayName") ?? identifier ?? "Unnamed Plugin";
+
+  const params = section.entries.filter(([key]) => /^Param\d+$/.test(key));
+  const settings = params.reduce<Record<string, string>>((acc, [, value]) => {
+    const separator = value.indexOf("=");
+    if (separator > 0) {
+      acc[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+    return acc;
+  }, {});
+  const isPlaceholder =
+    params.length === 1 && Object.keys(settings).length === 1 && settings.Default === "0";
+
+  return {
+    name,
+    type: readEntry(section, "Type") ?? "Plugin",
+    settings: isPlaceholder ? {} : settings,
+    comment: emptyToNull(readEntry(section, "Comment")),
+    identifiers: identifier && identifier !== name ? { flStudio: identifier } : null,
+    bypassed: readEntry(section, "State") === "Bypassed",
+    slotIndex: index,
+  };
+}
+
+const FlStudioFstParser: PresetParser = {
+  id: "fl-studio-fst",
+  label: "FL Studio Mixer State",
+  canParse(buffer: Buffer) {
+    return buffer.subarray(0, HEADER.length).toString("utf-8") === HEADER;
+  },
+  async parse(buffer: Buffer, filename: string): Promise<PluginChain> {
+    const sections = parseSections(buffer.toString("utf-8"));
+    const header = sections.find((section) => section.name === "ToneTerminalFST");
+    if (!header) {
+      throw new Error(`${filename} is not a ToneTerminal FST export.`);
+    }
+    const slots = sections.filter((section) => /^Slot\d+$/.test(section.name));
+    const songTitle = readEntry(header, "Song");
+
+    return {
+      daw: readEntry(header, "DAW") ?? "FL Studio",
+      dawId: "fl_studio",
+      summary: emptyToNull(readEntry(header, "Summary")),
+      clipWindow: emptyToNull(readEntry(header, "ClipWindow")),
+      song: songTitle ? { title: songTitle, album: null, timecode: null } : null,
+      plugins: slots.map((section, index) => parseSlot(section, index)),
+    };
+  },
+};
+
+export default FlStudioFstParser;
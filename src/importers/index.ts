@@ -0,0 +1,63 @@
+import type { PluginChain } from "@/exporters/types";
+import { RequestError } from "@/lib/requestError";
+import type { PresetParser, ParsedPreset } from "./types";
+import ReaperRfxParser from "./reaperRfx";
+import FlStudioFstParser from "./flStudioFst";
+import AbletonAdgParser from "./abletonAdg";
+import LogicPatchParser from "./logicPatch";
+import StudioOnePresetParser from "./studioOnePreset";
+
+const PARSERS: PresetParser[] = [
+  ReaperRfxParser,
+  FlStudioFstParser,
+  AbletonAdgParser,
+  LogicPatchParser,
+  StudioOnePresetParser,
+];
+
+export const SUPPORTED_IMPORT_EXTENSIONS = [".rfxchain", ".fst", ".adg", ".patch", ".preset"];
+
+export class PresetImportError extends RequestError {}
+
+export function isPresetImportError(error: unknown): error is PresetImportError {
+  return error instanceof PresetImportError;
+}
+
+export function findPresetParser(buffer: Buffer, filename: string): PresetParser | null {
+  return PARSERS.find((parser) => parser.canParse(buffer, filename)) ?? null;
+}
+
+export async function parsePresetFile(buffer: Buffer, filename: string): Promise<ParsedPreset> {
+  if (!buffer.length) {
+    throw new PresetImportError("Uploaded preset is empty.");
+  }
+  const parser = findPresetParser(buffer, filename);
+  if (!parser) {
+    throw new PresetImportError(
+      `Unsupported preset format. Supported files: ${SUPPORTED_IMPORT_EXTENSIONS.join(", ")}.`
+    );
+  }
+
+  let chain: PluginChain;
+  try {
+    chain = await parser.parse(buffer, filename);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    throw new PresetImportError(`Unable to read ${filename}: ${reason}`);
+  }
+
+  if (!chain.plugins.length) {
+    throw new PresetImportError(`${filename} does not contain any plugins.`);
+  }
+
+  return { chain, parserId: parser.id, label: parser.label };
+}
+
+export {
+  ReaperRfxParser,
+  FlStudioFstParser,
+  AbletonAdgParser,
+  LogicPatchParser,
+  StudioOnePresetParser,
+};
+export type { PresetParser, ParsedPreset };
@@ -0,0 +1,107 @@
+import JSZip from "jszip";
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { findNode, nodeText, parseXml, type XmlNode } from "./xml";
+import { emptyToNull, hasExtension, isZipBuffer, readZipText } from "./utils";
+import type { PresetParser } from "./types";
+
+const DEFAULT_PATCH_NAME = "ToneTerminal Chain";
+
+type PlistValue = string | number | boolean | null | PlistValue[] | { [key: string]: PlistValue };
+
+function plistValue(node: XmlNode): PlistValue {
+  switch (node.name) {
+    case "dict": {
+      const result: Record<string, PlistValue> = {};
+      for (let i = 0; i < node.children.length - 1; i += 2) {
+        const key = node.children[i];
+        if (key.name === "key") {
+          result[nodeText(key)] = plistValue(node.children[i + 1]);
+        }
+      }
+      return result;
+    }
+    case "array":
+      return node.children.map(plistValue);
+    case "integer":
+    case "real":
+      return Number(nodeText(node));
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "string":
+      return node.text;
+    default:
+      return null;
+  }
+}
+
+function readPlist(text: string | null): PlistValue {
+  if (!text) return null;
+  const root = findNode(parseXml(text), "plist");
+  const value = root?.children[0];
+  return value ? plistValue(value) : null;
+}
+
+function asRecord(value: PlistValue): Record<string, PlistValue> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+}
+
+function asString(value: PlistValue | undefined): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function parsePlugin(entry: PlistValue, index: number): PluginChainPlugin {
+  const record = asRecord(entry);
+  const name = asString(record.Name) ?? "Unnamed Plugin";
+  const identifier = asString(record.Identifier);
+  const parameters = Array.isArray(record.Parameters) ? record.Parameters : [];
+  const settings = parameters.reduce<Record<string, string>>((acc, param) => {
+    const paramRecord = asRecord(param);
+    const key = asString(paramRecord.Name);
+    if (key) {
+      acc[key] = asString(paramRecord.Value) ?? "";
+    }
+    return acc;
+  }, {});
+
+  return {
+    name,
+    type: asString(record.Type) ?? "Plugin",
+    settings,
+    comment: emptyToNull(asString(record.Comment)),
+    identifiers: identifier && identifier !== name ? { logic: identifier } : null,
+    bypassed: record.Bypassed === true,
+    slotIndex: typeof record.Index === "number" ? record.Index : index,
+  };
+}
+
+const LogicPatchParser: PresetParser = {
+  id: "logic-patch",
+  label: "Logic Channel Strip Patch",
+  canParse(buffer: Buffer, filename: string) {
+    return hasExtension(filename, ".patch", ".patch.zip") && isZipBuffer(buffer);
+  },
+  async parse(buffer: Buffer, filename: string): Promise<PluginChain> {
+    const zip = await JSZip.loadAsync(buffer);
+    const pluginPath = Object.keys(zip.files).find((path) => path.endsWith("PlugInData.plist"));
+    if (!pluginPath) {
+      throw new Error(`${filename} does not contain PlugInData.plist.`);
+    }
+    const infoPath = Object.keys(zip.files).find((path) => path.endsWith("Info.plist"));
+    const info = asRecord(readPlist(infoPath ? await readZipText(zip, infoPath) : null));
+    const plugins = readPlist(await readZipText(zip, pluginPath));
+
+    const patchName = asString(info.name);
+
+    return {
+      daw: asString(info.daw) ?? "Logic Pro",
+      dawId: "logic_pro",
+      summary: patchName && patchName !== DEFAULT_PATCH_NAME ? patchName : null,
+      clipWindow: asString(info.clipWindow),
+      plugins: Array.isArray(plugins) ? plugins.map(parsePlugin) : [],
+    };
+  },
+};
+
+export default LogicPatchParser;
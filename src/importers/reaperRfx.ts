@@ -0,0 +1,140 @@
+import pluginCatalog from "@/data/dawPlugins.json";
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { childNode, childNodes, findNode, nodeText, parseXml } from "./xml";
+import { emptyToNull, hasExtension, parseReferenceLine } from "./utils";
+import type { PresetParser } from "./types";
+
+const DAW_LABEL = "Reaper";
+const GENERATED_TEXT = /preset generated by ToneTerminal$/;
+const NATIVE_BLOCK = /^<(VST|AU|CLAP|JS|DX|LV2)\b\s*(.*)$/;
+
+const reaperCatalog =
+  (pluginCatalog as Record<string, Array<{ name: string; type: string }>>)[DAW_LABEL] ?? [];
+
+function catalogType(name: string): string {
+  const match = reaperCatalog.find((plugin) => plugin.name.toLowerCase() === name.toLowerCase());
+  return match?.type ?? "Plugin";
+}
+
+function parseToneTerminalChain(text: string): PluginChain {
+  const root = findNode(parseXml(text), "FXCHAIN");
+  const chain: PluginChain = { daw: DAW_LABEL, dawId: "reaper", summary: null, plugins: [] };
+
+  for (const comment of childNodes(root, "COMMENT")) {
+    const value = nodeText(childNode(comment, "TEXT"));
+    if (value.startsWith("Reference:")) {
+      chain.song = parseReferenceLine(value);
+    } else if (value.startsWith("Clip window analyzed:")) {
+      chain.clipWindow = value.replace("Clip window analyzed:", "").trim();
+    } else if (value) {
+      chain.summary = value;
+    }
+  }
+
+  chain.plugins = childNodes(root, "FX").map((fx, index) => {
+    const presetNode = findNode(fx, "PRESET");
+    const settings = childNodes(presetNode, "PRESET_PARAM").reduce<Record<string, string>>(
+      (acc, param) => {
+        if (param.attributes.name) {
+          acc[param.attributes.name] = param.attributes.value ?? "";
+        }
+        return acc;
+      },
+      {}
+    );
+    const notes = childNodes(presetNode, "TEXT")
+      .map((node) => nodeText(node))
+      .filter((value) => value && !GENERATED_TEXT.test(value));
+    const name = nodeText(childNode(fx, "NAME")) || fx.attributes.id || "Unnamed Plugin";
+
+    const plugin: PluginChainPlugin = {
+      name,
+      type: nodeText(childNode(fx, "TYPE")) || catalogType(name),
+      settings,
+      comment: emptyToNull(notes.join(" ")),
+      slotIndex: index,
+    };
+    return plugin;
+  });
+
+  return chain;
+}
+
+function parseNativeHeader(tag: string, rest: string): Pick<PluginChainPlugin, "name" | "vendor" | "identifiers"> {
+  const quoted = rest.match(/^"([^"]*)"/);
+  const raw = quoted ? quoted[1] : rest.split(/\s+/)[0] ?? "";
+
+  if (tag === "JS") {
+    const segment = raw.split("/").pop() ?? raw;
+    const label = segment.length ? segment[0].toUpperCase() + segment.slice(1) : "Effect";
+    return { name: `JS: ${label}`, vendor: null, identifiers: { reaper: raw } };
+  }
+
+  const withoutPrefix = raw.replace(/^[A-Z0-9]+i?:\s*/, "");
+  const vendorMatch = withoutPrefix.match(/^(.*?)\s*\(([^)]*)\)$/);
+  return {
+    name: vendorMatch ? vendorMatch[1] : withoutPrefix || "Unnamed Plugin",
+    vendor: vendorMatch ? vendorMatch[2] : null,
+    identifiers: { reaper: raw },
+  };
+}
+
+// Reaper's own chain files are a plain-text block format; plugin state is an
+// opaque base64 blob, so only names, order and bypass state can be recovered.
+function parseNativeChain(text: string): PluginChain {
+  const plugins: PluginChainPlugin[] = [];
+  let pendingBypass = false;
+  let depth = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (depth > 0) {
+      if (line.startsWith("<")) depth += 1;
+      if (line === ">") depth -= 1;
+      continue;
+    }
+
+    if (line.startsWith("BYPASS")) {
+      pendingBypass = line.split(/\s+/)[1] === "1";
+      continue;
+    }
+
+    const block = line.match(NATIVE_BLOCK);
+    if (block) {
+      const header = parseNativeHeader(block[1], block[2]);
+      plugins.push({
+        ...header,
+        type: catalogType(header.name),
+        settings: {},
+        bypassed: pendingBypass,
+        slotIndex: plugins.length,
+      });
+      pendingBypass = false;
+      depth = 1;
+    } else if (line.startsWith("<")) {
+      depth = 1;
+    }
+  }
+
+  return { daw: DAW_LABEL, dawId: "reaper", summary: null, plugins };
+}
+
+const ReaperRfxParser: PresetParser = {
+  id: "reaper-rfx",
+  label: "Reaper RFX Chain",
+  canParse(buffer: Buffer, filename: string) {
+    if (hasExtension(filename, ".rfxchain")) {
+      return true;
+    }
+    const head = buffer.subarray(0, 256).toString("utf-8");
+    return head.includes("<FXCHAIN>");
+  },
+  async parse(buffer: Buffer): Promise<PluginChain> {
+    const text = buffer.toString("utf-8");
+    return text.includes("<FXCHAIN>") ? parseToneTerminalChain(text) : parseNativeChain(text);
+  },
+};
+
+export default ReaperRfxParser;
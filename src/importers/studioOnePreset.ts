@@ -0,0 +1,68 @@
+import JSZip from "jszip";
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { childNode, childNodes, findNode, nodeText, parseXml, type XmlNode } from "./xml";
+import { emptyToNull, hasExtension, isZipBuffer, readZipText } from "./utils";
+import type { PresetParser } from "./types";
+
+function parseDevice(device: XmlNode, index: number): PluginChainPlugin {
+  const name = nodeText(childNode(device, "Name")) || "Unnamed Plugin";
+  const identifier = nodeText(childNode(device, "Identifier"));
+  const settings = findNode(device, "Parameters")?.children.reduce<Record<string, string>>(
+    (acc, param) => {
+      if (param.name === "Parameter" && param.attributes.name) {
+        acc[param.attributes.name] = param.attributes.value ?? "";
+      }
+      return acc;
+    },
+    {}
+  );
+  const declaredIndex = Number.parseInt(device.attributes.index ?? "", 10);
+
+  return {
+    name,
+    type: nodeText(childNode(device, "Type")) || "Plugin",
+    settings: settings ?? {},
+    comment: emptyToNull(nodeText(childNode(device, "Notes"))),
+    identifiers: identifier && identifier !== name ? { studioOne: identifier } : null,
+    bypassed: nodeText(childNode(device, "Bypassed")) === "true",
+    slotIndex: Number.isFinite(declaredIndex) ? declaredIndex : index,
+  };
+}
+
+const StudioOnePresetParser: PresetParser = {
+  id: "studio-one-preset",
+  label: "Studio One Native Preset",
+  canParse(buffer: Buffer, filename: string) {
+    return hasExtension(filename, ".preset") && isZipBuffer(buffer);
+  },
+  async parse(buffer: Buffer, filename: string): Promise<PluginChain> {
+    const zip = await JSZip.loadAsync(buffer);
+    const presetInfo = await readZipText(zip, "PresetInfo.xml");
+    if (!presetInfo) {
+      throw new Error(`${filename} does not contain PresetInfo.xml.`);
+    }
+    const preset = findNode(parseXml(presetInfo), "Preset");
+    const header = childNode(preset, "Header");
+    const userDataText = await readZipText(zip, "UserData/ToneTerminal.xml");
+    const userData = userDataText ? findNode(parseXml(userDataText), "ToneTerminal") : null;
+
+    const songTitle = emptyToNull(nodeText(childNode(userData, "SongTitle")));
+    const songArtist = emptyToNull(nodeText(childNode(userData, "SongArtist")));
+
+    return {
+      daw: nodeText(childNode(header, "Category")) || "Studio One",
+      dawId: "studio_one",
+      summary: emptyToNull(nodeText(childNode(userData, "Summary"))),
+      clipWindow:
+        emptyToNull(nodeText(childNode(userData, "ClipWindow"))) ??
+        emptyToNull(nodeText(childNode(header, "Comment"))),
+      song:
+        songTitle || songArtist
+          ? { title: songTitle ?? undefined, artist: songArtist ?? undefined, album: null, timecode: null }
+          : null,
+      plugins: childNodes(childNode(preset, "Devices"), "Device").map(parseDevice),
+    };
+  },
+};
+
+export default StudioOnePresetParser;
@@ -0,0 +1,14 @@
+import type { PluginChain } from "@/exporters/types";
+
+export type ParsedPreset = {
+  chain: PluginChain;
+  parserId: string;
+  label: string;
+};
+
+export interface PresetParser {
+  id: string;
+  label: string;
+  canParse: (buffer: Buffer, filename: string) => boolean;
+  parse: (buffer: Buffer, filename: string) => Promise<PluginChain>;
+}
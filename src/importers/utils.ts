@@ -0,0 +1,43 @@
+import JSZip from "jszip";
+import type { PluginChain } from "@/exporters/types";
+
+export function hasExtension(filename: string, ...extensions: string[]): boolean {
+  const lower = filename.trim().toLowerCase();
+  return extensions.some((extension) => lower.endsWith(extension));
+}
+
+export function startsWithAscii(buffer: Buffer, prefix: string): boolean {
+  return buffer.subarray(0, prefix.length).toString("latin1") === prefix;
+}
+
+export function isZipBuffer(buffer: Buffer): boolean {
+  return startsWithAscii(buffer, "PK");
+}
+
+export function isGzipBuffer(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+export async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path);
+  return entry ? entry.async("string") : null;
+}
+
+export function parseReferenceLine(value: string): PluginChain["song"] {
+  const match = value.match(/^Reference:\s*(.*?)\s+-\s+(.*?)(?:\s+\(([^)]*)\))?$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    title: match[1] || undefined,
+    artist: match[2] || undefined,
+    album: null,
+    timecode: match[3] ?? null,
+  };
+}
+
+export function emptyToNull(value: string | null | undefined): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
@@ -0,0 +1,100 @@
+export type XmlNode = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+};
+
+const ENTITY_MAP: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITY_MAP[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Za-z_:][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+// Small, non-validating reader for the preset documents we import; it ignores
+// processing instructions, comments and DOCTYPE declarations.
+export function parseXml(source: string): XmlNode {
+  const root: XmlNode = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const current = stack[stack.length - 1];
+    if (match[1] !== undefined) {
+      current.text += match[1];
+    } else if (match[2] !== undefined) {
+      if (stack.length > 1 && current.name === match[2]) {
+        stack.pop();
+      }
+    } else if (match[3] !== undefined) {
+      const node: XmlNode = {
+        name: match[3],
+        attributes: parseAttributes(match[4] ?? ""),
+        children: [],
+        text: "",
+      };
+      current.children.push(node);
+      if (match[5] !== "/") {
+        stack.push(node);
+      }
+    } else if (match[6] !== undefined) {
+      current.text += decodeXmlEntities(match[6]);
+    }
+  }
+
+  return root;
+}
+
+export function childNode(node: XmlNode | null | undefined, name: string): XmlNode | null {
+  return node?.children.find((child) => child.name === name) ?? null;
+}
+
+export function childNodes(node: XmlNode | null | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter((child) => child.name === name) : [];
+}
+
+export function findNodes(node: XmlNode | null | undefined, name: string): XmlNode[] {
+  if (!node) return [];
+  const results: XmlNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) {
+      results.push(child);
+    }
+    results.push(...findNodes(child, name));
+  }
+  return results;
+}
+
+export function findNode(node: XmlNode | null | undefined, name: string): XmlNode | null {
+  return findNodes(node, name)[0] ?? null;
+}
+
+export function nodeText(node: XmlNode | null | undefined): string {
+  return node ? node.text.trim() : "";
+}
@@ -0,0 +1,17 @@
+import type { User } from "@supabase/supabase-js";
+
+const parseList = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+// Support staff are listed by Supabase user ID or email in ADMIN_USER_IDS / ADMIN_EMAILS.
+export function isAdminUser(user: Pick<User, "id" | "email">): boolean {
+  const ids = parseList(process.env.ADMIN_USER_IDS);
+  const emails = parseList(process.env.ADMIN_EMAILS);
+  return (
+    ids.includes(user.id.toLowerCase()) ||
+    Boolean(user.email && emails.includes(user.email.toLowerCase()))
+  );
+}
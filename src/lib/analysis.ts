@@ -11,6 +11,8 @@ export type AnalysisRecord = {
   plugins: PluginPreset[];
   summary?: string | null;
   features?: Record<string, unknown> | null;
+  user_features?: Record<string, unknown> | null;
+  parent_analysis_id?: string | null;
   created_at: string;
 };
 
@@ -23,13 +25,26 @@ export async function saveAnalysis(params: {
   plugins: PluginPreset[];
   summary?: string | null;
   features?: Record<string, unknown> | null;
-}) {
+  userFeatures?: Record<string, unknown> | null;
+  parentAnalysisId?: string | null;
+}): Promise<string | null> {
   if (!supabaseAdmin) {
-    return;
+    return null;
   }
+  const client = supabaseAdmin;
 
-  const { userId, daw, start, end, duration, plugins, summary, features } =
-    params;
+  const {
+    userId,
+    daw,
+    start,
+    end,
+    duration,
+    plugins,
+    summary,
+    features,
+    userFeatures,
+    parentAnalysisId,
+  } = params;
 
   const payload: Record<string, unknown> = {
     user_id: userId,
@@ -50,9 +65,39 @@ export async function saveAnalysis(params: {
     payload.features = features;
   }
 
-  let { error } = await supabaseAdmin
-    .from("analyses")
-    .insert(payload);
+  if (userFeatures) {
+    payload.user_features = userFeatures;
+  }
+
+  if (parentAnalysisId) {
+    payload.parent_analysis_id = parentAnalysisId;
+  }
+
+  const insert = (values: Record<string, unknown>) =>
+    client.from("analyses").insert(values).select("id").single<{ id: string }>();
+
+  let { data, error } = await insert(payload);
+
+  if (error?.message && error.message.toLowerCase().includes("parent_analysis_id")) {
+    delete payload.parent_analysis_id;
+    payload.features = {
+      ...((payload.features as Record<string, unknown> | null | undefined) ?? {}),
+      parent_analysis_id: parentAnalysisId,
+    };
+    ({ data, error } = await insert(payload));
+  }
+
+  if (error?.message && error.message.toLowerCase().includes("user_features")) {
+    const fallbackPayload = { ...payload };
+    delete (fallbackPayload as { user_features?: unknown }).user_features;
+    if (fallbackPayload.features && typeof fallbackPayload.features === "object") {
+      fallbackPayload.features = {
+        ...(fallbackPayload.features as Record<string, unknown>),
+        user_vocal: userFeatures,
+      };
+    }
+    ({ data, error } = await insert(fallbackPayload));
+  }
 
   const missingColumn =
     error?.message &&
@@ -62,15 +107,33 @@ export async function saveAnalysis(params: {
     const fallbackPayload = { ...payload };
     delete (fallbackPayload as { summary?: unknown }).summary;
     delete (fallbackPayload as { features?: unknown }).features;
-    const fallback = await supabaseAdmin
-      .from("analyses")
-      .insert(fallbackPayload);
-    error = fallback.error;
+    ({ data, error } = await insert(fallbackPayload));
   }
 
   if (error) {
     console.warn("saveAnalysis insert error", error);
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+export async function getAnalysis(userId: string, analysisId: string): Promise<AnalysisRecord | null> {
+  if (!supabaseAdmin) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("analyses")
+    .select("*")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle<AnalysisRecord>();
+
+  if (error) {
+    throw new Error(`Failed to load analysis: ${error.message}`);
   }
+  return data ?? null;
 }
 
 export async function getRecentAnalyses(userId: string, limit = 10) {
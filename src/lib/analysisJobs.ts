@@ -0,0 +1,221 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { AnalysisOptions, AnalysisUploads } from "@/lib/analyzePipeline";
+import type { PlanId } from "@/lib/plans";
+
+export type AnalysisJobStatus = "pending" | "queued" | "running" | "succeeded" | "failed";
+
+export type AnalysisJobRequest = AnalysisOptions & {
+  planId: PlanId;
+  hasUserVocal: boolean;
+};
+
+export type AnalysisJob = {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  status: AnalysisJobStatus;
+  request: AnalysisJobRequest;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  credit_charged: boolean;
+  credit_refunded: boolean;
+  attempts: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+const UPLOAD_BUCKET = process.env.ANALYSIS_UPLOAD_BUCKET ?? "analysis-uploads";
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+// Reserves a credit and creates the job in one transaction. Replaying an idempotency key returns
+// the original job without charging again; null means the user has no credits left.
+export async function submitAnalysisJob(params: {
+  userId: string;
+  idempotencyKey: string;
+  request: AnalysisJobRequest;
+  status: "pending" | "running";
+  charge: boolean;
+}): Promise<{ job: AnalysisJob; created: boolean; credits: number | null } | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("reserve_analysis_job", {
+    p_user_id: params.userId,
+    p_idempotency_key: params.idempotencyKey,
+    p_request: params.request,
+    p_status: params.status,
+    p_charge: params.charge,
+  });
+
+  if (error) {
+    if (error.message.includes("insufficient_credits")) {
+      return null;
+    }
+    throw new Error(`Failed to submit analysis job: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { job_id: string; created: boolean; credits: number | null }
+    | undefined;
+  if (!row) {
+    throw new Error("Failed to submit analysis job: no job returned.");
+  }
+
+  const job = await getAnalysisJob(params.userId, row.job_id);
+  if (!job) {
+    throw new Error("Failed to load submitted analysis job.");
+  }
+  return { job, created: row.created, credits: row.credits };
+}
+
+export async function getAnalysisJob(userId: string, jobId: string): Promise<AnalysisJob | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("analysis_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<AnalysisJob>();
+
+  if (error) {
+    throw new Error(`Failed to load analysis job: ${error.message}`);
+  }
+  return data ?? null;
+}
+
+export async function markJobQueued(jobId: string): Promise<void> {
+  const client = ensureAdmin();
+  const { error } = await client
+    .from("analysis_jobs")
+    .update({ status: "queued" })
+    .eq("id", jobId)
+    .eq("status", "pending");
+
+  if (error) {
+    throw new Error(`Failed to queue analysis job: ${error.message}`);
+  }
+}
+
+// Claims the oldest queued job (or a stalled running one) with FOR UPDATE SKIP LOCKED.
+export async function claimNextJob(): Promise<AnalysisJob | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("claim_analysis_job");
+
+  if (error) {
+    throw new Error(`Failed to claim analysis job: ${error.message}`);
+  }
+  const rows = (Array.isArray(data) ? data : data ? [data] : []) as AnalysisJob[];
+  return rows[0] ?? null;
+}
+
+export async function completeJob(jobId: string, result: Record<string, unknown>): Promise<void> {
+  const client = ensureAdmin();
+  const { error } = await client
+    .from("analysis_jobs")
+    .update({ status: "succeeded", result, error: null, finished_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to complete analysis job: ${error.message}`);
+  }
+}
+
+// Marks the job failed and refunds its reserved credit exactly once.
+export async function failJob(jobId: string, message: string): Promise<void> {
+  const client = ensureAdmin();
+  const { error } = await client.rpc("fail_analysis_job", {
+    p_job_id: jobId,
+    p_error: message,
+  });
+
+  if (error) {
+    throw new Error(`Failed to mark analysis job as failed: ${error.message}`);
+  }
+}
+
+// Fails jobs that will never run: pending ones whose submission died before queueing, and
+// running ones that stalled after the last attempt. Each goes through fail_analysis_job, so its
+// credit is refunded once. Returns how many jobs were failed.
+export async function failStalledJobs(): Promise<number> {
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("fail_stalled_analysis_jobs");
+
+  if (error) {
+    throw new Error(`Failed to fail stalled analysis jobs: ${error.message}`);
+  }
+  return typeof data === "number" ? data : 0;
+}
+
+const uploadPath = (job: Pick<AnalysisJob, "id" | "user_id">, name: "file" | "user-vocal") =>
+  `${job.user_id}/${job.id}/${name}`;
+
+export async function storeJobUploads(
+  job: Pick<AnalysisJob, "id" | "user_id">,
+  uploads: AnalysisUploads,
+  contentType?: string | null
+): Promise<void> {
+  const client = ensureAdmin();
+  const bucket = client.storage.from(UPLOAD_BUCKET);
+  const entries: Array<["file" | "user-vocal", Buffer]> = [["file", uploads.file]];
+  if (uploads.userVocal) {
+    entries.push(["user-vocal", uploads.userVocal]);
+  }
+
+  for (const [name, buffer] of entries) {
+    const { error } = await bucket.upload(uploadPath(job, name), buffer, {
+      contentType: (name === "file" && contentType) || "application/octet-stream",
+      upsert: true,
+    });
+    if (error) {
+      throw new Error(`Failed to store analysis upload: ${error.message}`);
+    }
+  }
+}
+
+export async function loadJobUploads(job: AnalysisJob): Promise<AnalysisUploads> {
+  const client = ensureAdmin();
+  const bucket = client.storage.from(UPLOAD_BUCKET);
+
+  const download = async (name: "file" | "user-vocal") => {
+    const { data, error } = await bucket.download(uploadPath(job, name));
+    if (error || !data) {
+      throw new Error(`Failed to load analysis upload: ${error?.message ?? "Not found"}`);
+    }
+    return Buffer.from(await data.arrayBuffer());
+  };
+
+  return {
+    file: await download("file"),
+    userVocal: job.request.hasUserVocal ? await download("user-vocal") : null,
+  };
+}
+
+export async function removeJobUploads(job: Pick<AnalysisJob, "id" | "user_id">): Promise<void> {
+  const client = ensureAdmin();
+  const { error } = await client.storage
+    .from(UPLOAD_BUCKET)
+    .remove([uploadPath(job, "file"), uploadPath(job, "user-vocal")]);
+  if (error) {
+    console.warn("removeJobUploads failed", error);
+  }
+}
+
+// Shape returned by the submit and poll endpoints.
+export function serializeJob(job: AnalysisJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    result: job.status === "succeeded" ? job.result : null,
+    error: job.status === "failed" ? job.error : null,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+  };
+}
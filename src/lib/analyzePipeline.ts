@@ -0,0 +1,770 @@
+import pluginCatalog from "@/data/dawPlugins.json";
+import type { DawId } from "@/data/daws";
+import type { PluginPreset } from "@/types/plugins";
+import { saveAnalysis } from "@/lib/analysis";
+import { identifySong, type AudDSongMetadata } from "@/lib/audd";
+import {
+  buildChainSchema,
+  describeChainSchema,
+  generateValidatedChain,
+  type PluginValidation,
+} from "@/lib/chainValidation";
+import { dawIdToLabel } from "@/lib/daws";
+import type { PlanId } from "@/lib/plans";
+import { RequestError } from "@/lib/requestError";
+import { getPluginProfile } from "@/lib/pluginProfile";
+import {
+  prettyPluginList,
+  sanitizePluginSelection,
+  getPluginBySlug,
+} from "@/lib/pluginInventory";
+import type { EventSender } from "@/lib/sse";
+import { transcribe15s } from "@/lib/transcription";
+import { assertDAWAllowed, normalizeDawIdentifier, type PlanContext } from "@/middleware/planGate";
+import {
+  extractMetrics,
+  scanSections,
+  type Metrics,
+  type SectionScan,
+} from "@/workers/metrics.worker";
+import type { SectionCandidate } from "@/workers/sections";
+import { compareMetrics, type MetricDeltas } from "@/workers/metricDeltas";
+import { compareToReferences, type TonalComparison } from "@/workers/tonalBalance";
+import type { BandIssue } from "@/workers/vocalIssues";
+
+export class AnalysisRequestError extends RequestError {}
+
+export function isAnalysisRequestError(error: unknown): error is AnalysisRequestError {
+  return error instanceof AnalysisRequestError;
+}
+
+// Everything needed to rerun an analysis except the audio, so it can be stored with a job.
+export type AnalysisOptions = {
+  daw: string;
+  dawLabel: string;
+  premiumPlugins: string[];
+  usedProfile: boolean;
+  skipSongDetection: boolean;
+  separateVocals: boolean;
+  tonalReference: string | null;
+  sectionMode: "best" | "compare" | null;
+  start: number;
+  end: number;
+  fileName: string | null;
+  fileType: string | null;
+  userVocalName: string | null;
+};
+
+export type AnalysisUploads = {
+  file: Buffer;
+  userVocal: Buffer | null;
+};
+
+export type AnalysisInput = {
+  userId: string;
+  planId: PlanId;
+  options: AnalysisOptions;
+  uploads: AnalysisUploads;
+};
+
+const CLIP_SECONDS = 15;
+
+type PluginDefinition = {
+  name: string;
+  type: string;
+  description: string;
+};
+
+const catalog = pluginCatalog as Record<string, PluginDefinition[]>;
+
+const openaiApiKey = process.env.OPENAI_API_KEY;
+
+const ENABLE_TRANSCRIPTS = process.env.ENABLE_TRANSCRIPTS === "true";
+const USE_NATIVE_AUDIO = process.env.USE_NATIVE_AUDIO === "true";
+const VOCAL_SEPARATOR = process.env.VOCAL_SEPARATOR;
+
+function secondsToTimestamp(value: number): string {
+  if (!Number.isFinite(value)) {
+    return "0:00";
+  }
+  const clamped = Math.max(0, value);
+  const minutes = Math.floor(clamped / 60)
+    .toString()
+    .padStart(1, "0");
+  const seconds = Math.floor(clamped % 60)
+    .toString()
+    .padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+function formatMetricValue(value: number | string): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (!Number.isFinite(value)) {
+    return "null";
+  }
+  return Number(value).toFixed(2);
+}
+
+function formatBandIssue(issue: BandIssue | undefined): string {
+  if (!issue) {
+    return "null";
+  }
+  return JSON.stringify(issue);
+}
+
+function buildVocalIssueGuidance(metrics: Metrics | null): string[] {
+  if (!metrics) {
+    return [];
+  }
+  const flagged = (issue: BandIssue | undefined): issue is BandIssue =>
+    Boolean(issue && issue.events > 0 && (issue.severity === "moderate" || issue.severity === "severe"));
+
+  const lines: string[] = [];
+  if (flagged(metrics.sibilance)) {
+    lines.push(
+      `Sibilance is ${metrics.sibilance.severity}: include a de-esser centered near ${metrics.sibilance.peak_hz} Hz with its threshold a few dB below the ${metrics.sibilance.peak_level_db} dBFS burst level.`
+    );
+  }
+  if (flagged(metrics.plosives)) {
+    lines.push(
+      `Plosives are ${metrics.plosives.severity}: add a high-pass filter or dynamic low cut just above ${metrics.plosives.peak_hz} Hz.`
+    );
+  }
+  if (flagged(metrics.harshness)) {
+    lines.push(
+      `Harshness is ${metrics.harshness.severity}: use a narrow or dynamic EQ cut around ${metrics.harshness.peak_hz} Hz.`
+    );
+  }
+  return lines;
+}
+
+function buildSystemPrompt(
+  daw: string,
+  allowedPlugins: PluginDefinition[],
+  premiumLine?: string | null,
+  songLine?: string | null,
+  referenceMatch = false
+): string {
+  const pluginLines = allowedPlugins
+    .map(
+      (plugin) =>
+        `- ${plugin.name} (${plugin.type}): ${plugin.description}`
+    )
+    .join("\n");
+
+  return [
+    referenceMatch
+      ? `You are ChainGen, an elite mix engineer who builds corrective DAW-ready plugin chains in ${daw} that turn a user's raw vocal into the sound of a reference vocal.`
+      : `You are ChainGen, an elite mix engineer who crafts DAW-ready plugin chains for vocals in ${daw}.`,
+    referenceMatch
+      ? "The chain is applied to the user vocal. Every plugin must close a measured gap between the user vocal and the reference; leave aspects that already match untouched."
+      : null,
+    premiumLine ? premiumLine : null,
+    songLine ? songLine : null,
+    "Respond ONLY with valid JSON shaped as {\"summary\": string, \"plugins\": [{\"name\": string, \"type\": string, \"settings\": object, \"comment\": string}]}.",
+    "Use realistic parameters, reference the provided metrics, and be explicit about tone, timing, and dynamics.",
+    "Ground every statement in the supplied metrics or transcript. If genre, vibe, or vocal style is unclear, say it is unspecified—never guess or default to trap/rap.",
+    "Stay within the following plugin catalog:",
+    pluginLines || "- No plugins available; fall back to general advice.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function formatTonalBalance(tonalBalance: TonalComparison | null | undefined): string | null {
+  if (!tonalBalance || !tonalBalance.deltas.length) {
+    return null;
+  }
+  const bands = tonalBalance.deltas
+    .map((delta) => `${delta.center_hz}Hz ${delta.delta_db > 0 ? "+" : ""}${delta.delta_db.toFixed(1)}`)
+    .join(", ");
+  return [
+    `Tonal balance vs "${tonalBalance.label}" reference (1/3-octave, measured minus reference, dB): ${bands}.`,
+    "Tie every EQ move to one of these deltas: cut where the clip reads above the reference, boost where it reads below, and quote the band and delta in the plugin comment.",
+  ].join("\n");
+}
+
+function formatFeatures(metrics: Metrics | null): string {
+  return metrics
+    ? [
+        `tempo_bpm=${formatMetricValue(metrics.tempo_bpm)}`,
+        `centroid_hz=${formatMetricValue(metrics.centroid_hz)}`,
+        `mfcc_mean=${JSON.stringify(metrics.mfcc_mean)}`,
+        `pitch_dev_cents=${formatMetricValue(metrics.pitch_dev_cents)}`,
+        `integrated_lufs=${formatMetricValue(metrics.integrated_lufs)}`,
+        `short_term_max_lufs=${formatMetricValue(metrics.short_term_max_lufs)}`,
+        `momentary_max_lufs=${formatMetricValue(metrics.momentary_max_lufs)}`,
+        `loudness_range_lu=${formatMetricValue(metrics.loudness_range_lu)}`,
+        `true_peak_dbtp=${formatMetricValue(metrics.true_peak_dbtp)}`,
+        `sibilance=${formatBandIssue(metrics.sibilance)}`,
+        `plosives=${formatBandIssue(metrics.plosives)}`,
+        `harshness=${formatBandIssue(metrics.harshness)}`,
+        `transient_density="${metrics.transient_density}"`,
+        `vocal_isolated=${metrics.separation?.applied ? "true" : "false"}`,
+      ].join(", ")
+    : "tempo_bpm=null, centroid_hz=null, mfcc_mean=[], pitch_dev_cents=null, integrated_lufs=null, short_term_max_lufs=null, momentary_max_lufs=null, loudness_range_lu=null, true_peak_dbtp=null, sibilance=null, plosives=null, harshness=null, transient_density=\"unknown\"";
+}
+
+function formatMetricDeltas(deltas: MetricDeltas): string {
+  const signed = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+  const tonal = deltas.tonal_deltas
+    .map((delta) => `${delta.center_hz}Hz ${signed(delta.delta_db)}`)
+    .join(", ");
+  return [
+    `Deltas (reference minus user vocal): integrated_lufs=${signed(deltas.integrated_lufs)}, short_term_max_lufs=${signed(deltas.short_term_max_lufs)}, loudness_range_lu=${signed(deltas.loudness_range_lu)}, true_peak_dbtp=${signed(deltas.true_peak_dbtp)}, pitch_dev_cents=${signed(deltas.pitch_dev_cents)}, centroid_hz=${signed(deltas.centroid_hz, 0)}, transient_density reference="${deltas.transient_density.reference}" user="${deltas.transient_density.user}".`,
+    tonal ? `Tonal deltas (1/3-octave, reference minus user vocal, dB): ${tonal}.` : null,
+    "Boost bands with positive tonal deltas and cut bands with negative ones, compress or expand to close the loudness-range gap, and only add pitch correction when the user vocal deviates more than the reference. Quote the delta each plugin corrects in its comment.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function buildUserPrompt(params: {
+  daw: string;
+  metrics: Metrics | null;
+  transcript: string | null;
+  songContext?: string | null;
+  premiumGuidance?: string | null;
+  tonalBalance?: TonalComparison | null;
+  userMetrics?: Metrics | null;
+  metricDeltas?: MetricDeltas | null;
+}): string {
+  const {
+    daw,
+    metrics,
+    transcript,
+    songContext,
+    premiumGuidance,
+    tonalBalance,
+    userMetrics,
+    metricDeltas,
+  } = params;
+  const referenceMatch = Boolean(userMetrics && metricDeltas);
+
+  const transcriptLine = transcript
+    ? `transcript_excerpt="${transcript}"`
+    : "transcript_excerpt=\"\"";
+
+  const guidanceLines = [
+    premiumGuidance ?? null,
+    referenceMatch && metricDeltas ? formatMetricDeltas(metricDeltas) : formatTonalBalance(tonalBalance),
+    ...buildVocalIssueGuidance(referenceMatch ? userMetrics ?? null : metrics),
+  ].filter(
+    (line): line is string => Boolean(line)
+  );
+
+  const featureLines = referenceMatch
+    ? [
+        `Reference features: ${formatFeatures(metrics)}`,
+        `User vocal features: ${formatFeatures(userMetrics ?? null)}`,
+      ]
+    : [`Features: ${formatFeatures(metrics)}`];
+
+  return [
+    `DAW = ${daw}`,
+    ...featureLines,
+    transcriptLine,
+    songContext ?? "Song context unknown.",
+    ...guidanceLines,
+    "Base the summary strictly on these inputs. Do not invent genres or vocal types; if the energy or style is unclear, say so explicitly.",
+    "Return JSON only. No prose outside the JSON payload.",
+  ].join("\n");
+}
+
+export function dawLabelFor(daw: string): string {
+  return catalog[daw] ? daw : dawIdToLabel(normalizeDawIdentifier(daw));
+}
+
+// Premium plugins come from the saved plugin profile when there is one, otherwise from the request.
+export async function resolvePremiumPlugins(
+  userId: string,
+  dawId: DawId,
+  plan: PlanContext["plan"],
+  requested: string[] = []
+): Promise<{ premiumPlugins: string[]; usedProfile: boolean }> {
+  if (!plan.canUsePremiumInventory) {
+    return { premiumPlugins: [], usedProfile: false };
+  }
+  const profileRow = await getPluginProfile(userId, dawId);
+  if (profileRow && profileRow.plugins.length > 0) {
+    const premiumPlugins = sanitizePluginSelection(dawId, profileRow.plugins);
+    return { premiumPlugins, usedProfile: premiumPlugins.length > 0 };
+  }
+  return { premiumPlugins: sanitizePluginSelection(dawId, requested), usedProfile: false };
+}
+
+// The DAW's stock catalog plus the user's premium plugins; generated chains may only use these.
+export function buildAllowedCatalog(dawLabel: string, premiumPlugins: string[]) {
+  const basePlugins = catalog[dawLabel] ?? [];
+  const premiumDetails = premiumPlugins
+    .map((slug) => getPluginBySlug(slug))
+    .filter(
+      (plugin): plugin is NonNullable<ReturnType<typeof getPluginBySlug>> =>
+        Boolean(plugin)
+    );
+  const premiumCatalogEntries = premiumDetails.map((plugin) => {
+    const categories = Array.isArray(plugin.categories)
+      ? plugin.categories
+      : [];
+    const inferredType =
+      categories.find((category) =>
+        ["compressor", "eq", "equalizer", "saturator", "reverb", "delay", "pitch", "vocal"].includes(
+          category.toLowerCase()
+        )
+      ) ?? categories[0];
+    const type =
+      inferredType?.length && inferredType.trim()
+        ? inferredType[0].toUpperCase() + inferredType.slice(1)
+        : plugin.name.toLowerCase().includes("compressor")
+        ? "Compressor"
+        : plugin.name.toLowerCase().includes("eq")
+        ? "Equalizer"
+        : plugin.name.toLowerCase().includes("reverb")
+        ? "Reverb"
+        : plugin.name.toLowerCase().includes("delay")
+        ? "Delay"
+        : plugin.name.toLowerCase().includes("satur")
+        ? "Saturation"
+        : plugin.name.toLowerCase().includes("tune")
+        ? "Pitch Correction"
+        : "Plugin";
+    const categorySummary =
+      categories.length > 1
+        ? ` (${categories.join(", ")})`
+        : categories.length === 1
+        ? ""
+        : "";
+    return {
+      name: plugin.name,
+      type,
+      description: `${plugin.vendor} premium ${type.toLowerCase()}${categorySummary}.`,
+    };
+  });
+
+  const allowedPlugins = [
+    ...basePlugins,
+    ...premiumCatalogEntries.filter(
+      (entry) =>
+        !basePlugins.some(
+          (plugin) => plugin.name.toLowerCase() === entry.name.toLowerCase()
+        )
+    ),
+  ];
+
+  return { premiumDetails, allowedPlugins };
+}
+
+export async function parseAnalysisRequest(
+  formData: FormData,
+  context: { userId: string; plan: PlanContext["plan"] }
+): Promise<{ options: AnalysisOptions; uploads: AnalysisUploads }> {
+  const { userId, plan } = context;
+  const skipSongDetection =
+    typeof formData.get("skipSongDetection") === "string"
+      ? formData.get("skipSongDetection") === "true"
+      : false;
+
+  const daw = formData.get("daw");
+  if (typeof daw !== "string" || !daw.trim()) {
+    throw new AnalysisRequestError("Missing DAW selection.", 400);
+  }
+
+  const dawId = normalizeDawIdentifier(daw) as DawId;
+  assertDAWAllowed(plan, dawId);
+
+  const dawLabel = dawLabelFor(daw);
+
+  let requestedPremium: string[] = [];
+  const rawPremium = formData.get("premiumPlugins");
+  if (typeof rawPremium === "string" && rawPremium.trim()) {
+    try {
+      const parsed = JSON.parse(rawPremium);
+      if (Array.isArray(parsed)) {
+        requestedPremium = parsed.filter((slug): slug is string => typeof slug === "string");
+      }
+    } catch (error) {
+      console.warn("premiumPlugins parse failed", error);
+    }
+  }
+
+  const { premiumPlugins, usedProfile } = await resolvePremiumPlugins(
+    userId,
+    dawId,
+    plan,
+    requestedPremium
+  );
+
+  const file = formData.get("file");
+  if (!(file instanceof Blob)) {
+    throw new AnalysisRequestError("Audio file missing from request.", 400);
+  }
+  const uploadedFile = file as File;
+  const uploadedFileName =
+    typeof uploadedFile?.name === "string" && uploadedFile.name.trim().length > 0
+      ? uploadedFile.name
+      : undefined;
+  const uploadedFileType =
+    typeof uploadedFile?.type === "string" && uploadedFile.type.trim().length > 0
+      ? uploadedFile.type
+      : undefined;
+
+  // Separation only helps full mixes, so callers opt in.
+  const separateVocals = formData.get("separateVocals") === "true";
+
+  const userVocal = formData.get("userVocal");
+  const userVocalFile = userVocal instanceof Blob && userVocal.size > 0 ? (userVocal as File) : null;
+  const userVocalName =
+    typeof userVocalFile?.name === "string" && userVocalFile.name.trim().length > 0
+      ? userVocalFile.name
+      : undefined;
+
+  const tonalReferenceRaw = formData.get("tonalReference");
+  const tonalReference =
+    typeof tonalReferenceRaw === "string" && tonalReferenceRaw.trim().length > 0
+      ? tonalReferenceRaw.trim()
+      : null;
+
+  const sectionModeRaw = formData.get("sectionMode");
+  const sectionMode =
+    sectionModeRaw === "best" || sectionModeRaw === "compare" ? sectionModeRaw : null;
+
+  const [startValue, endValue] = [formData.get("start"), formData.get("end")];
+  const rawStart =
+    typeof startValue === "string" ? Number.parseFloat(startValue) : 0;
+  const rawEnd = typeof endValue === "string" ? Number.parseFloat(endValue) : 0;
+  const clipStart = Number.isFinite(rawStart) ? Math.max(0, rawStart) : 0;
+  const clipEnd = Number.isFinite(rawEnd)
+    ? Math.max(clipStart, rawEnd)
+    : clipStart + 15;
+
+  const fileBuffer = Buffer.from(await file.arrayBuffer());
+  if (!fileBuffer.length) {
+    throw new AnalysisRequestError("Uploaded audio is empty.", 400);
+  }
+
+  const userVocalBuffer = userVocalFile ? Buffer.from(await userVocalFile.arrayBuffer()) : null;
+  if (userVocalBuffer && !userVocalBuffer.length) {
+    throw new AnalysisRequestError("Uploaded user vocal is empty.", 400);
+  }
+
+  return {
+    options: {
+      daw,
+      dawLabel,
+      premiumPlugins,
+      usedProfile,
+      skipSongDetection,
+      separateVocals,
+      tonalReference,
+      sectionMode,
+      start: clipStart,
+      end: clipEnd,
+      fileName: uploadedFileName ?? null,
+      fileType: uploadedFileType ?? null,
+      userVocalName: userVocalName ?? null,
+    },
+    uploads: { file: fileBuffer, userVocal: userVocalBuffer },
+  };
+}
+
+export async function runAnalysisPipeline(
+  input: AnalysisInput,
+  send?: EventSender
+): Promise<Record<string, unknown>> {
+  const emit: EventSender = send ?? (() => {});
+  const {
+    dawLabel,
+    premiumPlugins,
+    usedProfile,
+    skipSongDetection,
+    separateVocals,
+    tonalReference,
+    sectionMode,
+  } = input.options;
+  const uploadedFileName = input.options.fileName ?? undefined;
+  const uploadedFileType = input.options.fileType ?? undefined;
+  const userVocalName = input.options.userVocalName ?? undefined;
+  const fileBuffer = input.uploads.file;
+  const userVocalBuffer = input.uploads.userVocal;
+  let clipStart = input.options.start;
+  let clipEnd = input.options.end;
+
+  let sectionScan: SectionScan | null = null;
+  if (sectionMode) {
+    emit("stage", { stage: "scanning_sections" });
+    sectionScan = await scanSections(fileBuffer, uploadedFileName);
+    const best = sectionScan.candidates[0];
+    if (!best) {
+      throw new AnalysisRequestError(
+        "No usable section was found in this track. Pick a window manually.",
+        422
+      );
+    }
+    clipStart = best.start;
+    clipEnd = best.end;
+  }
+
+  const duration = Math.max(0, clipEnd - clipStart);
+  const clipWindowLabel = `${secondsToTimestamp(clipStart)} \u2192 ${secondsToTimestamp(
+    clipEnd
+  )} (${secondsToTimestamp(Math.min(duration, CLIP_SECONDS))} of max ${secondsToTimestamp(
+    CLIP_SECONDS
+  )})`;
+
+  let songMetadata: AudDSongMetadata | null = null;
+  if (!skipSongDetection) {
+    emit("stage", { stage: "detecting_song" });
+    const recognition = await identifySong(fileBuffer);
+    songMetadata =
+      recognition && (recognition.score === null || recognition.score >= 0.4)
+        ? recognition
+        : null;
+    emit("song", { song: songMetadata });
+  }
+
+  if (USE_NATIVE_AUDIO) {
+    throw new AnalysisRequestError(
+      "Native audio mode is not yet available. Set USE_NATIVE_AUDIO=false to run hybrid analysis.",
+      501
+    );
+  }
+
+  emit("stage", { stage: "extracting_metrics" });
+  const separationOptions = { separate: separateVocals, separator: VOCAL_SEPARATOR };
+  const metrics = await extractMetrics(fileBuffer, uploadedFileName, {
+    offset: sectionScan ? clipStart : undefined,
+    ...separationOptions,
+  });
+
+  const tonalBalance = compareToReferences(metrics.tonal_profile, tonalReference);
+  const userMetrics = userVocalBuffer
+    ? await extractMetrics(userVocalBuffer, userVocalName)
+    : null;
+  const metricDeltas = userMetrics ? compareMetrics(metrics, userMetrics) : null;
+  emit("metrics", {
+    features: { ...metrics, tonal_balance: tonalBalance, metric_deltas: metricDeltas },
+    userFeatures: userMetrics,
+  });
+
+  const sectionCandidates: Array<SectionCandidate & { metrics?: Metrics }> = [];
+  if (sectionScan) {
+    for (const [index, candidate] of sectionScan.candidates.entries()) {
+      if (index === 0) {
+        sectionCandidates.push({ ...candidate, metrics });
+      } else if (sectionMode === "compare") {
+        const candidateMetrics = await extractMetrics(fileBuffer, uploadedFileName, {
+          offset: candidate.start,
+          ...separationOptions,
+        });
+        sectionCandidates.push({ ...candidate, metrics: candidateMetrics });
+      } else {
+        sectionCandidates.push(candidate);
+      }
+    }
+  }
+
+  const transcriptionEnabled = ENABLE_TRANSCRIPTS && Boolean(openaiApiKey);
+  if (transcriptionEnabled) {
+    emit("stage", { stage: "transcribing" });
+  }
+  const transcript =
+    transcriptionEnabled && openaiApiKey
+      ? await transcribe15s(fileBuffer, openaiApiKey, {
+          fileName: uploadedFileName,
+          mimeType: uploadedFileType,
+        })
+      : "";
+
+  const { premiumDetails, allowedPlugins } = buildAllowedCatalog(dawLabel, premiumPlugins);
+
+  const premiumLine = premiumDetails.length
+    ? (() => {
+        const premiumNames = prettyPluginList(premiumPlugins);
+        const pitchTools = premiumDetails
+          .filter((plugin) => {
+            const name = `${plugin.vendor} ${plugin.name}`.toLowerCase();
+            const categories = Array.isArray(plugin.categories)
+              ? plugin.categories.map((cat) => cat.toLowerCase())
+              : [];
+            return (
+              name.includes("auto-tune") ||
+              name.includes("autotune") ||
+              name.includes("pitch") ||
+              categories.includes("pitch")
+            );
+          })
+          .map((plugin) => plugin.name);
+        const pitchNote = pitchTools.length
+          ? ` When pitch stability or tuning is required, lean on ${pitchTools.join(
+              " or "
+            )} for transparent correction.`
+          : "";
+        return `User owns these premium plugins for ${dawLabel}: ${premiumNames}. Always favor these premium tools over stock equivalents when they fit the task.${pitchNote}`;
+      })()
+    : null;
+  const songLine = songMetadata
+    ? [
+        `Song Detected: "${songMetadata.title}" by ${songMetadata.artist}.`,
+        songMetadata.album ? `Album: ${songMetadata.album}.` : null,
+        songMetadata.releaseDate ? `Release Date: ${songMetadata.releaseDate}.` : null,
+        songMetadata.timecode
+          ? `AudD reported this section occurs around ${songMetadata.timecode} within the original track.`
+          : null,
+        `Uploaded clip window (actual audio analyzed): ${clipWindowLabel}. Use this window as the true reference even if external metadata differs.`,
+        songMetadata.genres.length
+          ? `Associated genres: ${songMetadata.genres.join(", ")}.`
+          : null,
+        "Focus on the vocal processing present around this clip window rather than generic artist defaults.",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    : `Uploaded clip window (actual audio analyzed): ${clipWindowLabel}. Treat this as the reference range and do not assume a song or timecode beyond the provided metrics.`;
+  const chainSchema = buildChainSchema(allowedPlugins);
+  const systemPrompt = buildSystemPrompt(
+    dawLabel,
+    allowedPlugins,
+    premiumLine,
+    songLine,
+    Boolean(userMetrics)
+  );
+  const songContext = songMetadata
+    ? `Snippet is from "${songMetadata.title}" by ${songMetadata.artist}${
+        songMetadata.timecode ? ` (AudD timecode ${songMetadata.timecode})` : ""
+      } (album: ${songMetadata.album ?? "unknown"}). Uploaded clip window analyzed: ${clipWindowLabel}. Ignore any global album timecodes and base conclusions strictly on this clip window.`
+    : `Song context unknown. Uploaded clip window analyzed: ${clipWindowLabel}.`;
+  const shouldHintPitchCorrection =
+    metrics && typeof metrics.pitch_dev_cents === "number"
+      ? Math.abs(metrics.pitch_dev_cents) >= 120
+      : false;
+  const premiumGuidance = premiumDetails.length
+    ? [
+        "Incorporate at least one of the premium plugins when it meaningfully improves the chain.",
+        shouldHintPitchCorrection
+          ? "Pitch deviation is high—apply premium pitch correction (for example Auto-Tune) to capture the reference vibe."
+          : null,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    : null;
+
+  const userPrompt = buildUserPrompt({
+    daw: dawLabel,
+    metrics,
+    transcript: transcript || null,
+    songContext,
+    premiumGuidance,
+    tonalBalance,
+    userMetrics,
+    metricDeltas,
+  });
+
+  const chainResult = await generateValidatedChain(
+    {
+      task: "analyze",
+      systemPrompt: [systemPrompt, describeChainSchema(chainSchema)].join("\n"),
+      userMessages: [userPrompt],
+      temperature: 0.4,
+      catalog: allowedPlugins,
+      metrics: userMetrics ?? metrics,
+      tonalReference,
+      metricDeltas,
+    },
+    chainSchema,
+    {
+      planId: input.planId,
+      ...(send && {
+        onAttempt: (attempt: number, provider: string) => send("stage", { stage: "generating", attempt, provider }),
+        onPlugin: (plugin: PluginPreset, validation: PluginValidation) => send("plugin", { plugin, validation }),
+      }),
+    }
+  );
+
+  const generation = chainResult.generation;
+  if (!chainResult.ok) {
+    throw new AnalysisRequestError(chainResult.error, 502);
+  }
+
+  const { summary, plugins, report: validation } = chainResult;
+
+  emit("stage", { stage: "saving" });
+  const featuresPayload: Record<string, unknown> = {
+    ...metrics,
+    transcript_excerpt: transcript || null,
+    premium_plugins: premiumPlugins,
+    premium_profile_used: usedProfile,
+    detected_song: songMetadata,
+    song_detection_skipped: skipSongDetection,
+    tonal_balance: tonalBalance,
+  };
+  if (userMetrics) {
+    featuresPayload.analysis_mode = "reference_match";
+    featuresPayload.metric_deltas = metricDeltas;
+  }
+  if (sectionScan) {
+    featuresPayload.section_mode = sectionMode;
+    featuresPayload.section_candidates = sectionScan.candidates;
+    featuresPayload.track_duration = sectionScan.duration;
+  }
+
+  try {
+    await saveAnalysis({
+      userId: input.userId,
+      daw: dawLabel,
+      start: clipStart,
+      end: clipEnd,
+      duration,
+      plugins,
+      summary: summary || null,
+      features: featuresPayload,
+      userFeatures: userMetrics,
+    });
+  } catch (error) {
+    console.warn("saveAnalysis failed", error);
+  }
+
+  console.info("analyze_telemetry", {
+    user_id: input.userId,
+    daw: dawLabel,
+    used_profile: usedProfile,
+    premium_count: premiumPlugins.length,
+    song_detected: Boolean(songMetadata),
+    song_detection_skipped: skipSongDetection,
+    section_mode: sectionMode,
+    reference_match: Boolean(userMetrics),
+    separation_applied: metrics.separation.applied,
+    generator: generation.provider,
+    generator_fallback: generation.fallback,
+    validation_attempts: validation.attempts,
+    validation_passed: validation.valid,
+  });
+
+  return {
+    daw: dawLabel,
+    summary: summary || null,
+    plugins,
+    usedAudio: true,
+    features: featuresPayload,
+    userFeatures: userMetrics,
+    metricDeltas,
+    separation: metrics.separation,
+    generator: {
+      provider: generation.provider,
+      model: generation.model,
+      fallback: generation.fallback,
+    },
+    validation,
+    premiumProfileUsed: usedProfile,
+    premiumPlugins,
+    song: songMetadata,
+    sections: sectionScan
+      ? {
+          mode: sectionMode,
+          duration: sectionScan.duration,
+          selected: { start: clipStart, end: clipEnd },
+          candidates: sectionCandidates,
+        }
+      : null,
+  };
+}
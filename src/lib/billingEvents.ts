@@ -0,0 +1,268 @@
+import { createHash } from "crypto";
+import type Stripe from "stripe";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  findUserIdByStripeCustomer,
+  getOrCreateProfile,
+  setStripeCustomerId,
+} from "@/lib/profile";
+import { calendarMonthPeriod, startCreditPeriod } from "@/lib/creditLedger";
+import {
+  creditsForPlanChange,
+  planChangeReason,
+  resolveBillingEvent,
+  type BillingEventResolution,
+} from "@/lib/stripePlans";
+
+export type BillingEventOutcome = "processing" | "processed" | "ignored" | "failed";
+
+export type BillingEventRecord = {
+  event_id: string;
+  type: string;
+  user_id: string | null;
+  payload_hash: string;
+  payload: Stripe.Event;
+  outcome: BillingEventOutcome;
+  detail: string | null;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  updated_at: string;
+};
+
+export type BillingEventResult = {
+  duplicate: boolean;
+  outcome: BillingEventOutcome;
+  userId: string | null;
+  detail: string | null;
+  error: string | null;
+};
+
+let auditUnavailable = false;
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+const isMissingAudit = (message?: string) =>
+  Boolean(message && /billing_events|claim_billing_event/.test(message.toLowerCase()));
+
+export function hashPayload(payload: string | Buffer): string {
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// Returns a short description of what the event did, or null when it changed nothing.
+async function applyBillingResolution({
+  userId: metadataUserId,
+  customerId,
+  action,
+}: BillingEventResolution): Promise<{ userId: string | null; detail: string | null }> {
+  const userId =
+    metadataUserId ?? (customerId ? await findUserIdByStripeCustomer(customerId) : null);
+  if (!userId) {
+    return { userId: null, detail: null };
+  }
+
+  const profile = await getOrCreateProfile(userId);
+  let detail: string | null = null;
+
+  switch (action.kind) {
+    case "activate": {
+      // The period start is part of the grant check, so renewals top up exactly once.
+      const period = action.period ?? calendarMonthPeriod();
+      const reason = planChangeReason(profile.tier, action.planId) ?? action.reason;
+      await startCreditPeriod({
+        userId,
+        tier: action.planId,
+        period,
+        kind: "grant",
+        reason,
+        credits: creditsForPlanChange(profile, action.planId, period),
+        force: true,
+      });
+      detail = `${profile.tier} -> ${action.planId} (${reason})`;
+      break;
+    }
+    case "cancel":
+      if (profile.tier === "free") {
+        break;
+      }
+      await startCreditPeriod({
+        userId,
+        tier: "free",
+        period: calendarMonthPeriod(),
+        kind: "grant",
+        reason: action.reason,
+        force: true,
+      });
+      detail = `${profile.tier} -> free (${action.reason})`;
+      break;
+    case "grace":
+      detail = `kept ${profile.tier} while subscription is ${action.status}`;
+      break;
+    case "link":
+      break;
+  }
+
+  if (customerId && profile.stripe_customer_id !== customerId) {
+    try {
+      await setStripeCustomerId(userId, customerId);
+      detail = detail ?? `linked customer ${customerId}`;
+    } catch (setError) {
+      console.warn("Failed to persist Stripe customer ID", setError);
+    }
+  }
+
+  return { userId, detail };
+}
+
+// Claims the event for processing. A delivery that already succeeded, or one still being handled
+// by another request, is not claimed; failed or stalled events are.
+async function claimBillingEvent(
+  event: Stripe.Event,
+  payloadHash: string
+): Promise<{ claimed: boolean; outcome: BillingEventOutcome }> {
+  if (auditUnavailable) {
+    return { claimed: true, outcome: "processing" };
+  }
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("claim_billing_event", {
+    p_event_id: event.id,
+    p_type: event.type,
+    p_payload_hash: payloadHash,
+    p_payload: event,
+  });
+
+  if (error) {
+    if (isMissingAudit(error.message)) {
+      auditUnavailable = true;
+      console.warn("billing_events table missing. Webhook deliveries will not be deduplicated.");
+      return { claimed: true, outcome: "processing" };
+    }
+    throw new Error(`Failed to claim billing event: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { claimed: boolean; outcome: BillingEventOutcome }
+    | undefined;
+  return row ?? { claimed: false, outcome: "processing" };
+}
+
+async function finishBillingEvent(
+  eventId: string,
+  result: Pick<BillingEventResult, "outcome" | "userId" | "detail" | "error">
+): Promise<void> {
+  if (auditUnavailable) {
+    return;
+  }
+  const client = ensureAdmin();
+  const { error } = await client
+    .from("billing_events")
+    .update({
+      outcome: result.outcome,
+      user_id: result.userId,
+      detail: result.detail,
+      error: result.error,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("event_id", eventId);
+
+  if (error) {
+    console.error("finishBillingEvent failed", eventId, error);
+  }
+}
+
+export async function processBillingEvent(
+  event: Stripe.Event,
+  payloadHash: string
+): Promise<BillingEventResult> {
+  const claim = await claimBillingEvent(event, payloadHash);
+  if (!claim.claimed) {
+    return { duplicate: true, outcome: claim.outcome, userId: null, detail: null, error: null };
+  }
+
+  let result: BillingEventResult;
+  let resolution: BillingEventResolution | null = null;
+  try {
+    resolution = resolveBillingEvent(event);
+    const applied = resolution
+      ? await applyBillingResolution(resolution)
+      : { userId: null, detail: null };
+    result = {
+      duplicate: false,
+      outcome: applied.detail ? "processed" : "ignored",
+      userId: applied.userId,
+      detail: applied.detail ?? (resolution ? "no matching user or change" : "unhandled event type"),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Stripe webhook handling error", event.id, error);
+    result = {
+      duplicate: false,
+      outcome: "failed",
+      userId: resolution?.userId ?? null,
+      detail: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  await finishBillingEvent(event.id, result);
+  return result;
+}
+
+export async function getBillingEvent(eventId: string): Promise<BillingEventRecord | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("billing_events")
+    .select("*")
+    .eq("event_id", eventId)
+    .maybeSingle<BillingEventRecord>();
+
+  if (error) {
+    throw new Error(`Failed to load billing event: ${error.message}`);
+  }
+  return data ?? null;
+}
+
+export async function listBillingEvents(filters: {
+  userId?: string | null;
+  outcome?: BillingEventOutcome | null;
+  limit?: number;
+}): Promise<Omit<BillingEventRecord, "payload">[]> {
+  const client = ensureAdmin();
+  let query = client
+    .from("billing_events")
+    .select(
+      "event_id, type, user_id, payload_hash, outcome, detail, error, attempts, received_at, updated_at"
+    )
+    .order("received_at", { ascending: false })
+    .limit(filters.limit ?? 50);
+  if (filters.userId) {
+    query = query.eq("user_id", filters.userId);
+  }
+  if (filters.outcome) {
+    query = query.eq("outcome", filters.outcome);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load billing events: ${error.message}`);
+  }
+  return (data ?? []) as Omit<BillingEventRecord, "payload">[];
+}
+
+// Replays a stored failed event from its recorded payload.
+export async function replayBillingEvent(
+  eventId: string
+): Promise<BillingEventResult | null> {
+  const record = await getBillingEvent(eventId);
+  if (!record) {
+    return null;
+  }
+  return processBillingEvent(record.payload, record.payload_hash);
+}
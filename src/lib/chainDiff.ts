@@ -0,0 +1,113 @@
+import type { PluginPreset } from "@/types/plugins";
+
+export type SettingChange = {
+  key: string;
+  from: string | null;
+  to: string | null;
+};
+
+export type PluginChange = {
+  name: string;
+  from: number;
+  to: number;
+  settings: SettingChange[];
+  bypassed: { from: boolean; to: boolean } | null;
+};
+
+export type ChainDiff = {
+  added: Array<{ index: number; name: string }>;
+  removed: Array<{ index: number; name: string }>;
+  reordered: Array<{ name: string; from: number; to: number }>;
+  changed: PluginChange[];
+  identical: boolean;
+};
+
+type ChainPlugin = Pick<PluginPreset, "name" | "settings" | "bypassed">;
+
+function diffSettings(
+  before: Record<string, string> | undefined,
+  after: Record<string, string> | undefined
+): SettingChange[] {
+  const from = before ?? {};
+  const to = after ?? {};
+  const keys = [...Object.keys(from), ...Object.keys(to).filter((key) => !(key in from))];
+  return keys
+    .filter((key) => from[key] !== to[key])
+    .map((key) => ({ key, from: from[key] ?? null, to: to[key] ?? null }));
+}
+
+// Indexes of one longest strictly increasing subsequence. Chains are short, so the quadratic
+// version is fine.
+function longestIncreasingRun(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let end = -1;
+
+  values.forEach((value, i) => {
+    for (let j = 0; j < i; j += 1) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (end === -1 || lengths[i] > lengths[end]) {
+      end = i;
+    }
+  });
+
+  const run = new Set<number>();
+  for (let index = end; index !== -1; index = previous[index]) {
+    run.add(index);
+  }
+  return run;
+}
+
+// Pairs plugins by name in chain order, so a repeated plugin matches its nth occurrence. Moves are
+// judged among the paired plugins only: the ones outside a longest run that kept its relative order
+// count as reordered, so an insertion or a single move does not flag the rest of the chain.
+export function diffPluginChains(before: ChainPlugin[], after: ChainPlugin[]): ChainDiff {
+  const unmatched = before.map((_, index) => index);
+  const pairs: Array<{ from: number; to: number }> = [];
+  const added: ChainDiff["added"] = [];
+
+  after.forEach((plugin, to) => {
+    const key = plugin.name.toLowerCase();
+    const position = unmatched.findIndex((index) => before[index].name.toLowerCase() === key);
+    if (position === -1) {
+      added.push({ index: to, name: plugin.name });
+      return;
+    }
+    pairs.push({ from: unmatched[position], to });
+    unmatched.splice(position, 1);
+  });
+
+  const removed = unmatched.map((index) => ({ index, name: before[index].name }));
+
+  const inPlace = longestIncreasingRun(pairs.map((pair) => pair.from));
+  const reordered = pairs
+    .filter((_, index) => !inPlace.has(index))
+    .map((pair) => ({ name: after[pair.to].name, from: pair.from, to: pair.to }));
+
+  const changed = pairs
+    .map(({ from, to }) => {
+      const settings = diffSettings(before[from].settings, after[to].settings);
+      const bypassedFrom = Boolean(before[from].bypassed);
+      const bypassedTo = Boolean(after[to].bypassed);
+      return {
+        name: after[to].name,
+        from,
+        to,
+        settings,
+        bypassed: bypassedFrom !== bypassedTo ? { from: bypassedFrom, to: bypassedTo } : null,
+      };
+    })
+    .filter((change) => change.settings.length > 0 || change.bypassed);
+
+  return {
+    added,
+    removed,
+    reordered,
+    changed,
+    identical: !added.length && !removed.length && !reordered.length && !changed.length,
+  };
+}
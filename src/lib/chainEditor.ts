@@ -0,0 +1,117 @@
+import type { ParameterSpec, ParameterUnit } from "@/data/parameterSchemas";
+import { parseParameterValue, resolveParameterSchema } from "@/exporters/parameters";
+import type { CatalogPlugin } from "@/lib/ruleBasedChain";
+import type { PluginPreset } from "@/types/plugins";
+
+const MAX_EDITED_PLUGINS = 24;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function roundTo(value: number, step?: number): number {
+  if (step && step > 0) {
+    const precision = Math.max(0, -Math.floor(Math.log10(step)));
+    return Number((Math.round(value / step) * step).toFixed(precision));
+  }
+  return Number(value.toPrecision(4));
+}
+
+// The typed parameter a setting key maps to, if the plugin has a known schema.
+export function findSettingSpec(
+  plugin: Pick<PluginPreset, "name" | "type" | "vendor" | "category">,
+  key: string
+): ParameterSpec | null {
+  const schema = resolveParameterSchema({ ...plugin, settings: {} });
+  const normalized = normalizeKey(key);
+  return schema?.find((spec) => spec.aliases.includes(normalized)) ?? null;
+}
+
+export function formatSettingValue(value: number, unit: ParameterUnit): string {
+  if (unit === "ratio") return `${value}:1`;
+  if (unit === "%" || unit === "") return `${value}${unit}`;
+  return `${value} ${unit}`;
+}
+
+export function readSettingValue(raw: string, spec: ParameterSpec): number | null {
+  const value = parseParameterValue(raw, spec.unit);
+  return value !== null && Number.isFinite(value) ? value : null;
+}
+
+export function clampSettingValue(value: number, spec: ParameterSpec): number {
+  return roundTo(Math.min(spec.max, Math.max(spec.min, value)), spec.step);
+}
+
+// A catalog plugin with every schema parameter set to the middle of its range.
+export function createCatalogPlugin(entry: CatalogPlugin): PluginPreset {
+  const schema = resolveParameterSchema({ name: entry.name, type: entry.type, settings: {} }) ?? [];
+  const settings = schema.reduce<Record<string, string>>((acc, spec) => {
+    const middle =
+      spec.scale === "log" && spec.min > 0
+        ? Math.sqrt(spec.min * spec.max)
+        : (spec.min + spec.max) / 2;
+    acc[spec.label] = formatSettingValue(clampSettingValue(middle, spec), spec.unit);
+    return acc;
+  }, {});
+  return { name: entry.name, type: entry.type, settings, comment: null, bypassed: false };
+}
+
+// Validates a chain sent back from the editor. Slot indexes follow array order, and stored typed
+// parameters are dropped so exporters rebuild them from the edited settings.
+export function parseEditedChain(
+  raw: unknown,
+  isAllowed: (name: string) => boolean
+): { plugins: PluginPreset[]; error: string | null } {
+  if (!Array.isArray(raw)) {
+    return { plugins: [], error: "plugins must be an array." };
+  }
+  if (raw.length === 0) {
+    return { plugins: [], error: "A chain needs at least one plugin." };
+  }
+  if (raw.length > MAX_EDITED_PLUGINS) {
+    return { plugins: [], error: `A chain can hold at most ${MAX_EDITED_PLUGINS} plugins.` };
+  }
+
+  const plugins: PluginPreset[] = [];
+  for (const [index, entry] of raw.entries()) {
+    if (!isRecord(entry) || typeof entry.name !== "string" || !entry.name.trim()) {
+      return { plugins: [], error: `plugins[${index}] needs a name.` };
+    }
+    const name = entry.name.trim();
+    if (!isAllowed(name)) {
+      return { plugins: [], error: `${name} is not available for this DAW.` };
+    }
+    if (entry.settings !== undefined && !isRecord(entry.settings)) {
+      return { plugins: [], error: `${name} settings must be an object.` };
+    }
+
+    const settings = Object.entries(entry.settings ?? {}).reduce<Record<string, string>>(
+      (acc, [key, value]) => {
+        if (key.trim() && (typeof value === "string" || typeof value === "number" || typeof value === "boolean")) {
+          acc[key.trim()] = String(value);
+        }
+        return acc;
+      },
+      {}
+    );
+
+    const plugin: PluginPreset = {
+      name,
+      type: typeof entry.type === "string" && entry.type.trim() ? entry.type.trim() : "Plugin",
+      settings,
+      comment: typeof entry.comment === "string" ? entry.comment : null,
+      bypassed: entry.bypassed === true,
+      slotIndex: index,
+    };
+    if (typeof entry.vendor === "string") plugin.vendor = entry.vendor;
+    if (typeof entry.category === "string") plugin.category = entry.category;
+    if (isRecord(entry.identifiers)) plugin.identifiers = entry.identifiers as PluginPreset["identifiers"];
+    if (Array.isArray(entry.tags)) {
+      plugin.tags = entry.tags.filter((tag): tag is string => typeof tag === "string");
+    }
+    plugins.push(plugin);
+  }
+
+  return { plugins, error: null };
+}
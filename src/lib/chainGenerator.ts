@@ -0,0 +1,248 @@
+import OpenAI from "openai";
+import type { PlanId } from "@/lib/plans";
+import { buildRuleBasedChain, restyleRuleBased, type CatalogPlugin } from "@/lib/ruleBasedChain";
+import type { PluginPreset } from "@/types/plugins";
+import type { MetricDeltas } from "@/workers/metricDeltas";
+import type { Metrics } from "@/workers/metrics.worker";
+
+export type ChainTask = "analyze" | "restyle";
+export type ChainProviderId = "openai" | "openai_compatible" | "rule_based";
+
+export type ChainGenerationRequest = {
+  task: ChainTask;
+  systemPrompt: string;
+  userMessages: string[];
+  temperature?: number;
+  // Structured inputs for backends that do not read prompts.
+  catalog: CatalogPlugin[];
+  metrics?: Metrics | null;
+  tonalReference?: string | null;
+  // Reference minus user vocal in A/B mode, where `metrics` are the user vocal's.
+  metricDeltas?: MetricDeltas | null;
+  existingChain?: PluginPreset[];
+  stylePrompt?: string;
+};
+
+export type ChainGenerationResult = {
+  // Raw JSON text; callers parse and normalize it the same way for every backend.
+  content: string;
+  provider: ChainProviderId;
+  model: string | null;
+  fallback: boolean;
+};
+
+export type ChainStreamHandlers = {
+  // Called before each backend runs, so a fallback can discard the previous partial output.
+  onStart?: (provider: ChainProviderId) => void;
+  onDelta?: (delta: string) => void;
+};
+
+export interface ChainGenerator {
+  id: ChainProviderId;
+  model: string | null;
+  generate(request: ChainGenerationRequest, onDelta?: (delta: string) => void): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<ChainTask, string> = {
+  analyze: "gpt-4.1-mini",
+  restyle: "gpt-4o-mini",
+};
+
+const PROVIDER_IDS: ChainProviderId[] = ["openai", "openai_compatible", "rule_based"];
+
+export function createOpenAIGenerator(options: { apiKey: string; model: string }): ChainGenerator {
+  const client = new OpenAI({ apiKey: options.apiKey });
+  return {
+    id: "openai",
+    model: options.model,
+    async generate(request, onDelta) {
+      const params = {
+        model: options.model,
+        temperature: request.temperature ?? 0.4,
+        input: [
+          {
+            role: "system" as const,
+            content: [{ type: "input_text" as const, text: request.systemPrompt }],
+          },
+          {
+            role: "user" as const,
+            content: request.userMessages.map((text) => ({ type: "input_text" as const, text })),
+          },
+        ],
+        text: { format: { type: "json_object" as const } },
+      };
+      if (!onDelta) {
+        const response = await client.responses.create(params);
+        return response.output_text ?? "";
+      }
+
+      let content = "";
+      const stream = await client.responses.create({ ...params, stream: true });
+      for await (const event of stream) {
+        if (event.type === "response.output_text.delta") {
+          content += event.delta;
+          onDelta(event.delta);
+        }
+      }
+      return content;
+    },
+  };
+}
+
+// Any server speaking the OpenAI chat completions API (Ollama, LM Studio, vLLM, llama.cpp).
+export function createCompatibleGenerator(options: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+}): ChainGenerator {
+  const client = new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey || "not-needed" });
+  return {
+    id: "openai_compatible",
+    model: options.model,
+    async generate(request, onDelta) {
+      const params = {
+        model: options.model,
+        temperature: request.temperature ?? 0.4,
+        response_format: { type: "json_object" as const },
+        messages: [
+          { role: "system" as const, content: request.systemPrompt },
+          { role: "user" as const, content: request.userMessages.join("\n\n") },
+        ],
+      };
+      if (!onDelta) {
+        const completion = await client.chat.completions.create(params);
+        return completion.choices[0]?.message?.content ?? "";
+      }
+
+      let content = "";
+      const stream = await client.chat.completions.create({ ...params, stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+      return content;
+    },
+  };
+}
+
+export const ruleBasedGenerator: ChainGenerator = {
+  id: "rule_based",
+  model: null,
+  async generate(request, onDelta) {
+    const content =
+      request.task === "restyle"
+        ? JSON.stringify(restyleRuleBased(request.existingChain ?? [], request.stylePrompt ?? ""))
+        : JSON.stringify(
+            buildRuleBasedChain(request.catalog, request.metrics ?? null, {
+              tonalReference: request.tonalReference,
+              metricDeltas: request.metricDeltas,
+            })
+          );
+    onDelta?.(content);
+    return content;
+  },
+};
+
+function parseProvider(raw: string | undefined): ChainProviderId | null {
+  const value = raw?.trim().toLowerCase();
+  return value && (PROVIDER_IDS as string[]).includes(value) ? (value as ChainProviderId) : null;
+}
+
+// CHAIN_PROVIDER_<PLAN> overrides CHAIN_PROVIDER so providers can be A/B tested per plan.
+export function resolveChainGenerator(options: { task: ChainTask; planId?: PlanId | null }): ChainGenerator {
+  const env = process.env;
+  const planOverride = options.planId ? env[`CHAIN_PROVIDER_${options.planId.toUpperCase()}`] : undefined;
+  const provider =
+    parseProvider(planOverride) ??
+    parseProvider(env.CHAIN_PROVIDER) ??
+    (env.OPENAI_API_KEY ? "openai" : "rule_based");
+  const model = env[`CHAIN_MODEL_${options.task.toUpperCase()}`] ?? env.CHAIN_MODEL;
+
+  if (provider === "openai" && env.OPENAI_API_KEY) {
+    return createOpenAIGenerator({ apiKey: env.OPENAI_API_KEY, model: model ?? DEFAULT_MODELS[options.task] });
+  }
+  if (provider === "openai_compatible" && env.LLM_BASE_URL && model) {
+    return createCompatibleGenerator({ baseURL: env.LLM_BASE_URL, model, apiKey: env.LLM_API_KEY });
+  }
+  return ruleBasedGenerator;
+}
+
+export async function generateChain(
+  request: ChainGenerationRequest,
+  options: { planId?: PlanId | null; generator?: ChainGenerator; stream?: ChainStreamHandlers } = {}
+): Promise<ChainGenerationResult> {
+  const generator = options.generator ?? resolveChainGenerator({ task: request.task, planId: options.planId });
+  const stream = options.stream;
+  try {
+    stream?.onStart?.(generator.id);
+    const content = await generator.generate(request, stream?.onDelta);
+    if (content || generator.id === "rule_based") {
+      return { content, provider: generator.id, model: generator.model, fallback: false };
+    }
+    console.warn("chain generator returned no content", generator.id);
+  } catch (error) {
+    if (generator.id === "rule_based") {
+      throw error;
+    }
+    console.warn("chain generator failed, using rule-based fallback", generator.id, error);
+  }
+
+  stream?.onStart?.(ruleBasedGenerator.id);
+  const content = await ruleBasedGenerator.generate(request, stream?.onDelta);
+  return { content, provider: ruleBasedGenerator.id, model: null, fallback: true };
+}
+
+// Emits each complete object of the top-level "plugins" array while the JSON text is still streaming.
+export function createPluginStreamParser(onPlugin: (plugin: unknown, index: number) => void) {
+  let buffer = "";
+  let position = -1;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+  let count = 0;
+
+  return (delta: string) => {
+    buffer += delta;
+    if (finished) return;
+    if (position < 0) {
+      const match = /"plugins"\s*:\s*\[/.exec(buffer);
+      if (!match) return;
+      position = match.index + match[0].length;
+    }
+
+    for (; position < buffer.length; position += 1) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        if (depth === 0) objectStart = position;
+        depth += 1;
+      } else if (char === "}") {
+        depth -= 1;
+        if (depth === 0 && objectStart >= 0) {
+          try {
+            onPlugin(JSON.parse(buffer.slice(objectStart, position + 1)), count);
+            count += 1;
+          } catch {
+            // Malformed entry; the full-response validation reports it.
+          }
+          objectStart = -1;
+        }
+      } else if (char === "]" && depth === 0) {
+        finished = true;
+        return;
+      }
+    }
+  };
+}
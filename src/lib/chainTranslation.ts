@@ -0,0 +1,200 @@
+import pluginCatalog from "@/data/dawPlugins.json";
+import type { PluginChain, PluginChainPlugin } from "@/exporters/types";
+import { dawIdToLabel, labelToDawId } from "@/lib/daws";
+
+type CatalogEntry = { name: string; type: string; description?: string };
+
+export type TranslationChange = {
+  from: string;
+  to: string;
+  type: string;
+  translated: boolean;
+};
+
+export type ChainTranslation = {
+  chain: PluginChain;
+  changes: TranslationChange[];
+};
+
+const catalog = pluginCatalog as Record<string, CatalogEntry[]>;
+
+// Ordered fallbacks per catalog type; the first type the target DAW ships wins.
+const TYPE_EQUIVALENTS: Record<string, string[]> = {
+  Equalizer: ["Equalizer", "Filter"],
+  Filter: ["Filter", "Equalizer"],
+  Compressor: ["Compressor", "Dynamics", "Limiter"],
+  Limiter: ["Limiter", "Dynamics", "Compressor"],
+  Dynamics: ["Dynamics", "Limiter", "Compressor"],
+  Saturation: ["Saturation"],
+  Reverb: ["Reverb"],
+  Delay: ["Delay"],
+  Modulation: ["Modulation"],
+  "Pitch Correction": ["Pitch Correction", "Pitch Shifter"],
+  "Pitch Shifter": ["Pitch Shifter", "Pitch Correction"],
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  eq: "Equalizer",
+  equaliser: "Equalizer",
+  equalizer: "Equalizer",
+  filter: "Filter",
+  compression: "Compressor",
+  compressor: "Compressor",
+  limiter: "Limiter",
+  maximizer: "Limiter",
+  dynamics: "Dynamics",
+  saturation: "Saturation",
+  saturator: "Saturation",
+  distortion: "Saturation",
+  reverb: "Reverb",
+  delay: "Delay",
+  echo: "Delay",
+  modulation: "Modulation",
+  chorus: "Modulation",
+  "pitch correction": "Pitch Correction",
+  autotune: "Pitch Correction",
+  "pitch shifter": "Pitch Shifter",
+};
+
+const SETTING_ALIASES: Record<string, string> = {
+  thresh: "Threshold",
+  threshold: "Threshold",
+  ratio: "Ratio",
+  attack: "Attack",
+  release: "Release",
+  makeup: "Makeup Gain",
+  "makeup gain": "Makeup Gain",
+  gain: "Gain",
+  freq: "Frequency",
+  frequency: "Frequency",
+  q: "Q",
+  bandwidth: "Q",
+  ceiling: "Ceiling",
+  "output ceiling": "Ceiling",
+  mix: "Mix",
+  "dry/wet": "Mix",
+  wet: "Mix",
+  decay: "Decay",
+  "decay time": "Decay",
+  size: "Size",
+  "pre-delay": "Pre-Delay",
+  predelay: "Pre-Delay",
+  time: "Time",
+  "delay time": "Time",
+  feedback: "Feedback",
+  drive: "Drive",
+  rate: "Rate",
+  depth: "Depth",
+  key: "Key",
+  scale: "Scale",
+  speed: "Speed",
+};
+
+// Native parameter labels for stock plugins that don't use the canonical names.
+const NATIVE_SETTING_LABELS: Record<string, Record<string, string>> = {
+  "Limiter@Logic Pro": { Ceiling: "Output Level" },
+  "Fruity Limiter@FL Studio": { Ceiling: "Ceil" },
+  "ReaEQ@Reaper": { Q: "Bandwidth" },
+  "D-Verb@Pro Tools": { "Pre-Delay": "Predelay" },
+  "Saturator@Ableton Live": { Mix: "Dry/Wet" },
+};
+
+function findCatalogEntry(name: string, dawLabel?: string | null): { daw: string; entry: CatalogEntry } | null {
+  const needle = name.trim().toLowerCase();
+  const labels = dawLabel && catalog[dawLabel] ? [dawLabel, ...Object.keys(catalog)] : Object.keys(catalog);
+  for (const label of labels) {
+    const entry = catalog[label]?.find((plugin) => plugin.name.toLowerCase() === needle);
+    if (entry) {
+      return { daw: label, entry };
+    }
+  }
+  return null;
+}
+
+export function normalizePluginType(type: string): string | null {
+  const trimmed = type.trim();
+  if (TYPE_EQUIVALENTS[trimmed]) {
+    return trimmed;
+  }
+  return TYPE_ALIASES[trimmed.toLowerCase()] ?? null;
+}
+
+function resolveCatalogType(plugin: PluginChainPlugin, stockType: string | null): string | null {
+  if (stockType && TYPE_EQUIVALENTS[stockType]) {
+    return stockType;
+  }
+  return normalizePluginType(plugin.type);
+}
+
+function pickEquivalent(type: string, entries: CatalogEntry[]): CatalogEntry | null {
+  for (const candidate of TYPE_EQUIVALENTS[type] ?? [type]) {
+    const match = entries.find((entry) => entry.type === candidate);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+export function translateSettings(
+  settings: Record<string, string>,
+  targetPlugin?: string,
+  targetDawLabel?: string
+): Record<string, string> {
+  const native =
+    targetPlugin && targetDawLabel ? NATIVE_SETTING_LABELS[`${targetPlugin}@${targetDawLabel}`] ?? {} : {};
+  return Object.entries(settings).reduce<Record<string, string>>((acc, [key, value]) => {
+    const canonical = SETTING_ALIASES[key.trim().toLowerCase()] ?? key;
+    acc[native[canonical] ?? canonical] = value;
+    return acc;
+  }, {});
+}
+
+export function canTranslateTo(targetDawId: string): boolean {
+  return Boolean(catalog[dawIdToLabel(targetDawId)]);
+}
+
+export function translateChain(chain: PluginChain, targetDawId: string): ChainTranslation {
+  const targetLabel = dawIdToLabel(targetDawId);
+  const sourceLabel = chain.dawId ? dawIdToLabel(chain.dawId) : chain.daw;
+  const targetEntries = catalog[targetLabel] ?? [];
+  const changes: TranslationChange[] = [];
+
+  const plugins = chain.plugins.map((plugin) => {
+    const stock = findCatalogEntry(plugin.name, sourceLabel);
+    // Third-party plugins load in any host, so only stock devices are swapped.
+    if (!stock || stock.daw === targetLabel || findCatalogEntry(plugin.name, targetLabel)?.daw === targetLabel) {
+      return plugin;
+    }
+
+    const type = resolveCatalogType(plugin, stock.entry.type);
+    const equivalent = type ? pickEquivalent(type, targetEntries) : null;
+    if (!equivalent) {
+      changes.push({ from: plugin.name, to: plugin.name, type: type ?? plugin.type, translated: false });
+      return plugin;
+    }
+
+    changes.push({ from: plugin.name, to: equivalent.name, type: equivalent.type, translated: true });
+    const note = `Translated from ${plugin.name} (${stock.daw}).`;
+    return {
+      ...plugin,
+      name: equivalent.name,
+      type: equivalent.type,
+      settings: translateSettings(plugin.settings, equivalent.name, targetLabel),
+      comment: plugin.comment ? `${plugin.comment} ${note}` : note,
+      vendor: null,
+      identifiers: null,
+      parameters: null,
+    };
+  });
+
+  return {
+    chain: {
+      ...chain,
+      daw: targetLabel,
+      dawId: labelToDawId(targetLabel) ?? targetDawId,
+      plugins,
+    },
+    changes,
+  };
+}
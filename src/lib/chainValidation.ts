@@ -0,0 +1,308 @@
+import { TYPE_PARAMETER_SCHEMAS, type ParameterSpec } from "@/data/parameterSchemas";
+import { parseParameterValue, resolveParameterSchema } from "@/exporters/parameters";
+import {
+  createPluginStreamParser,
+  generateChain,
+  type ChainGenerationRequest,
+  type ChainGenerationResult,
+  type ChainGenerator,
+  type ChainProviderId,
+} from "@/lib/chainGenerator";
+import { normalizePluginType } from "@/lib/chainTranslation";
+import type { PlanId } from "@/lib/plans";
+import type { CatalogPlugin } from "@/lib/ruleBasedChain";
+import type { PluginPreset } from "@/types/plugins";
+
+export type PluginValidationStatus = "valid" | "invalid" | "rejected";
+
+export type PluginValidation = {
+  index: number;
+  name: string;
+  status: PluginValidationStatus;
+  errors: string[];
+  warnings: string[];
+};
+
+export type ChainValidationReport = {
+  valid: boolean;
+  attempts: number;
+  violations: string[];
+  plugins: PluginValidation[];
+};
+
+type RequiredSetting = {
+  // Any one of these parameter ids satisfies the requirement.
+  ids: string[];
+  label: string;
+};
+
+type SchemaEntry = {
+  name: string;
+  type: string;
+  parameters: ParameterSpec[];
+  required: RequiredSetting[];
+};
+
+export type ChainSchema = {
+  entries: Record<string, SchemaEntry>;
+};
+
+const MAX_PLUGINS = 12;
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const REQUIRED_PARAMETERS: Record<string, string[][]> = {
+  Equalizer: [["frequency"]],
+  Filter: [["frequency"]],
+  Compressor: [["threshold"], ["ratio"], ["attack"], ["release"]],
+  Limiter: [["ceiling"]],
+  Dynamics: [["threshold", "ceiling"]],
+  Saturation: [["drive"]],
+  Reverb: [["decay", "size"], ["mix"]],
+  Delay: [["time"], ["mix"]],
+  Modulation: [["rate"], ["depth", "mix"]],
+  "Pitch Correction": [["retune"]],
+  "Pitch Shifter": [["pitch"]],
+};
+
+// EQ band keys the model commonly uses that still carry a frequency.
+const EXTRA_ALIASES: Record<string, string[]> = {
+  frequency: ["highpass", "lowcut", "hpf", "lowpass", "highcut", "lpf", "shelf", "band"],
+};
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function keyMatches(key: string, spec: ParameterSpec): boolean {
+  const normalized = normalizeKey(key);
+  const aliases = [...spec.aliases, ...(EXTRA_ALIASES[spec.id] ?? [])];
+  return aliases.some(
+    (alias) => normalized === alias || (alias.length >= 4 && normalized.includes(alias))
+  );
+}
+
+export function buildChainSchema(catalog: CatalogPlugin[]): ChainSchema {
+  const entries: Record<string, SchemaEntry> = {};
+  for (const plugin of catalog) {
+    const type = normalizePluginType(plugin.type) ?? plugin.type;
+    const parameters =
+      resolveParameterSchema({ name: plugin.name, type: plugin.type, settings: {} }) ??
+      TYPE_PARAMETER_SCHEMAS[type] ??
+      [];
+    const required = (REQUIRED_PARAMETERS[type] ?? [])
+      .map((ids) => {
+        const specs = parameters.filter((spec) => ids.includes(spec.id));
+        return specs.length
+          ? { ids: specs.map((spec) => spec.id), label: specs.map((spec) => spec.label).join(" or ") }
+          : null;
+      })
+      .filter((entry): entry is RequiredSetting => Boolean(entry));
+    entries[plugin.name.toLowerCase()] = { name: plugin.name, type: plugin.type, parameters, required };
+  }
+  return { entries };
+}
+
+export function describeChainSchema(schema: ChainSchema): string {
+  const lines = Object.values(schema.entries)
+    .filter((entry) => entry.required.length > 0)
+    .map((entry) => `- ${entry.name}: ${entry.required.map((requirement) => requirement.label).join(", ")}`);
+  return [
+    "Every plugin name must match the catalog exactly; unknown plugins are rejected.",
+    "Each plugin's settings object must include these keys:",
+    ...lines,
+  ].join("\n");
+}
+
+function normalizeSettings(raw: unknown): Record<string, string> | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return null;
+  }
+
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === "string") {
+      result[key] = value;
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      result[key] = String(value);
+    }
+  }
+  return result;
+}
+
+function validateSettings(entry: SchemaEntry, settings: Record<string, string>) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const requirement of entry.required) {
+    const specs = entry.parameters.filter((spec) => requirement.ids.includes(spec.id));
+    const present = Object.entries(settings).find(([key]) => specs.some((spec) => keyMatches(key, spec)));
+    if (!present) {
+      errors.push(`Missing required setting ${requirement.label}.`);
+      continue;
+    }
+    const spec = specs.find((candidate) => keyMatches(present[0], candidate)) ?? specs[0];
+    if (parseParameterValue(present[1], spec.unit) === null) {
+      errors.push(`${present[0]} value "${present[1]}" is not a number${spec.unit ? ` in ${spec.unit}` : ""}.`);
+    }
+  }
+
+  for (const [key, raw] of Object.entries(settings)) {
+    const spec = entry.parameters.find((candidate) => keyMatches(key, candidate));
+    if (!spec) continue;
+    const value = parseParameterValue(raw, spec.unit);
+    if (value !== null && Number.isFinite(value) && (value < spec.min || value > spec.max)) {
+      warnings.push(`${key} ${raw} is outside ${spec.min}–${spec.max}${spec.unit ? ` ${spec.unit}` : ""} and will be clamped on export.`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// Checks model output against the catalog schema. Unknown plugins are rejected, never substituted.
+export function validateChainOutput(
+  raw: unknown,
+  schema: ChainSchema
+): { summary: string; plugins: PluginPreset[]; report: ChainValidationReport } {
+  const record = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const summary = typeof record.summary === "string" ? record.summary.trim() : "";
+  const violations: string[] = [];
+  const reports: PluginValidation[] = [];
+  const plugins: PluginPreset[] = [];
+
+  if (!Array.isArray(record.plugins)) {
+    violations.push('Response must contain a "plugins" array.');
+    return { summary, plugins, report: { valid: false, attempts: 1, violations, plugins: reports } };
+  }
+  if (record.plugins.length > MAX_PLUGINS) {
+    violations.push(`Return at most ${MAX_PLUGINS} plugins; received ${record.plugins.length}.`);
+  }
+
+  record.plugins.slice(0, MAX_PLUGINS).forEach((item, index) => {
+    const entryRecord = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const name = typeof entryRecord.name === "string" ? entryRecord.name.trim() : "";
+    const entry = schema.entries[name.toLowerCase()];
+
+    if (!entry) {
+      const error = name ? `"${name}" is not in the allowed catalog.` : "Plugin name is missing.";
+      reports.push({ index, name, status: "rejected", errors: [error], warnings: [] });
+      violations.push(`plugins[${index}]: ${error}`);
+      return;
+    }
+
+    const settings = normalizeSettings(entryRecord.settings);
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    if (!settings) {
+      errors.push("Settings must be an object of key/value pairs.");
+    } else {
+      const result = validateSettings(entry, settings);
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+    }
+
+    const claimedType = typeof entryRecord.type === "string" ? entryRecord.type.trim() : "";
+    if (claimedType && normalizePluginType(claimedType) !== normalizePluginType(entry.type)) {
+      warnings.push(`Type "${claimedType}" replaced with catalog type "${entry.type}".`);
+    }
+
+    const comment =
+      typeof entryRecord.comment === "string"
+        ? entryRecord.comment
+        : typeof entryRecord.summary === "string"
+        ? entryRecord.summary
+        : "";
+
+    reports.push({ index, name: entry.name, status: errors.length ? "invalid" : "valid", errors, warnings });
+    violations.push(...errors.map((error) => `plugins[${index}] ${entry.name}: ${error}`));
+    plugins.push({ name: entry.name, type: entry.type, settings: settings ?? {}, comment });
+  });
+
+  return {
+    summary,
+    plugins,
+    report: { valid: violations.length === 0, attempts: 1, violations, plugins: reports },
+  };
+}
+
+function buildRepairMessage(previous: string, violations: string[]): string {
+  return [
+    "Your previous response failed validation:",
+    ...violations.map((violation) => `- ${violation}`),
+    `Previous response: ${previous}`,
+    "Return the corrected JSON only. Use catalog plugin names exactly and include every required setting.",
+  ].join("\n");
+}
+
+// Generates a chain and feeds validation errors back to the model for a bounded number of repairs.
+export async function generateValidatedChain(
+  request: ChainGenerationRequest,
+  schema: ChainSchema,
+  options: {
+    planId?: PlanId | null;
+    generator?: ChainGenerator;
+    maxRepairs?: number;
+    // Streaming hooks: drafts are catalog-checked individually before the full response validates.
+    onAttempt?: (attempt: number, provider: ChainProviderId) => void;
+    onPlugin?: (plugin: PluginPreset, validation: PluginValidation) => void;
+  } = {}
+): Promise<
+  | { ok: true; generation: ChainGenerationResult; summary: string; plugins: PluginPreset[]; report: ChainValidationReport }
+  | { ok: false; generation: ChainGenerationResult; error: string }
+> {
+  const maxRepairs = options.maxRepairs ?? MAX_REPAIR_ATTEMPTS;
+  let messages = request.userMessages;
+  let attempt = 0;
+
+  for (;;) {
+    attempt += 1;
+    const streaming = Boolean(options.onAttempt || options.onPlugin);
+    let parser: ((delta: string) => void) | null = null;
+    const generation = await generateChain({ ...request, userMessages: messages }, {
+      planId: options.planId,
+      generator: options.generator,
+      stream: streaming
+        ? {
+            onStart: (provider) => {
+              options.onAttempt?.(attempt, provider);
+              parser = createPluginStreamParser((raw, index) => {
+                const draft = validateChainOutput({ plugins: [raw] }, schema);
+                const validation = draft.report.plugins[0];
+                if (draft.plugins[0] && validation) {
+                  options.onPlugin?.(draft.plugins[0], { ...validation, index });
+                }
+              });
+            },
+            onDelta: (delta) => parser?.(delta),
+          }
+        : undefined,
+    });
+    const content = generation.content;
+    const canRepair = attempt <= maxRepairs && generation.provider !== "rule_based";
+
+    let parsed: unknown;
+    try {
+      parsed = content ? JSON.parse(content) : null;
+    } catch (error) {
+      console.warn("chain output parse error", error, content);
+      parsed = undefined;
+    }
+
+    if (parsed === undefined || parsed === null) {
+      if (canRepair) {
+        messages = [...request.userMessages, buildRepairMessage(content || "(empty)", ["Response was not valid JSON."])];
+        continue;
+      }
+      return {
+        ok: false,
+        generation,
+        error: content ? "Model response was not valid JSON." : "Model returned no content.",
+      };
+    }
+
+    const result = validateChainOutput(parsed, schema);
+    if (result.report.valid || !canRepair) {
+      return { ok: true, generation, ...result, report: { ...result.report, attempts: attempt } };
+    }
+    messages = [...request.userMessages, buildRepairMessage(content, result.report.violations)];
+  }
+}
@@ -0,0 +1,217 @@
+import type Stripe from "stripe";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getPlan, normalizePlanId } from "@/lib/plans";
+import type { Profile } from "@/lib/profile";
+
+export type CreditLedgerKind = "grant" | "reset" | "consume" | "refund";
+
+export type CreditLedgerEntry = {
+  id: string;
+  user_id: string;
+  kind: CreditLedgerKind;
+  delta: number;
+  balance_after: number | null;
+  reason: string;
+  job_id: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  created_at: string;
+};
+
+export type CreditPeriod = {
+  start: Date;
+  end: Date;
+};
+
+let ledgerUnavailable = false;
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+const isMissingLedger = (message?: string) =>
+  Boolean(message && /credit_ledger|credits_period|start_credit_period/.test(message.toLowerCase()));
+
+// Free plans reset on the first of each UTC month.
+export function calendarMonthPeriod(now = new Date()): CreditPeriod {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+// Pinned API versions report the period on the subscription; newer ones moved it to the items.
+export function subscriptionPeriod(subscription: Stripe.Subscription): CreditPeriod | null {
+  const legacy = subscription as unknown as {
+    current_period_start?: number;
+    current_period_end?: number;
+  };
+  const item = subscription.items?.data?.[0];
+  const start = item?.current_period_start ?? legacy.current_period_start;
+  const end = item?.current_period_end ?? legacy.current_period_end;
+  if (typeof start !== "number" || typeof end !== "number") {
+    return null;
+  }
+  return { start: new Date(start * 1000), end: new Date(end * 1000) };
+}
+
+export async function recordCreditEntry(entry: {
+  userId: string;
+  kind: CreditLedgerKind;
+  delta: number;
+  balanceAfter?: number | null;
+  reason: string;
+  jobId?: string | null;
+}): Promise<void> {
+  if (ledgerUnavailable || entry.delta === 0) {
+    return;
+  }
+  const client = ensureAdmin();
+  const { error } = await client.from("credit_ledger").insert({
+    user_id: entry.userId,
+    kind: entry.kind,
+    delta: entry.delta,
+    balance_after: entry.balanceAfter ?? null,
+    reason: entry.reason,
+    job_id: entry.jobId ?? null,
+  });
+
+  if (error) {
+    if (isMissingLedger(error.message)) {
+      ledgerUnavailable = true;
+      console.warn("credit_ledger table missing. Add it to record credit usage.");
+      return;
+    }
+    console.error("recordCreditEntry failed", error);
+  }
+}
+
+// Takes one credit and records it in one transaction. Null means the user has no credits left.
+export async function consumeCredit(userId: string, reason: string): Promise<number | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("consume_credit", {
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    if (error.message.includes("insufficient_credits")) {
+      return null;
+    }
+    throw new Error(`Failed to consume credit: ${error.message}`);
+  }
+  return typeof data === "number" ? data : null;
+}
+
+// Returns a credit taken by consumeCredit when the work it paid for failed.
+export async function refundCredit(userId: string, reason: string): Promise<number | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client.rpc("refund_credit", {
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw new Error(`Failed to refund credit: ${error.message}`);
+  }
+  return typeof data === "number" ? data : null;
+}
+
+// Sets the plan allowance for a new billing period and records the change in one transaction.
+// Without `force` it only applies once the stored period has ended; with `force` (renewals and
+// plan changes) it applies unless the same tier and period were already granted.
+export async function startCreditPeriod(params: {
+  userId: string;
+  tier: string;
+  period: CreditPeriod;
+  kind: Extract<CreditLedgerKind, "grant" | "reset">;
+  reason: string;
+  force?: boolean;
+  credits?: number;
+}): Promise<Profile | null> {
+  const client = ensureAdmin();
+  const tier = normalizePlanId(params.tier);
+  const credits = params.credits ?? getPlan(tier).generationsPerMonth;
+  const { data, error } = await client.rpc("start_credit_period", {
+    p_user_id: params.userId,
+    p_tier: tier,
+    p_credits: credits,
+    p_period_start: params.period.start.toISOString(),
+    p_period_end: params.period.end.toISOString(),
+    p_kind: params.kind,
+    p_reason: params.reason,
+    p_force: params.force ?? false,
+  });
+
+  if (error) {
+    if (!isMissingLedger(error.message)) {
+      throw new Error(`Failed to start credit period: ${error.message}`);
+    }
+    ledgerUnavailable = true;
+    console.warn("start_credit_period function missing. Credits will not reset automatically.");
+    if (!params.force) {
+      return null;
+    }
+    // Plan changes still have to land without the ledger schema.
+    const fallback = await client
+      .from("profiles")
+      .update({ tier, credits })
+      .eq("id", params.userId)
+      .select("id, credits, tier, updated_at")
+      .single<Profile>();
+    if (fallback.error) {
+      throw new Error(`Failed to update profile: ${fallback.error.message}`);
+    }
+    return fallback.data;
+  }
+
+  const rows = (Array.isArray(data) ? data : data ? [data] : []) as Profile[];
+  return rows[0] ?? null;
+}
+
+// Paid plans renew from the Stripe webhook; free plans roll over lazily on the next request.
+export async function resetCreditsIfDue(profile: Profile, now = new Date()): Promise<Profile> {
+  if (ledgerUnavailable || normalizePlanId(profile.tier) !== "free") {
+    return profile;
+  }
+  const periodEnd = profile.credits_period_end ? Date.parse(profile.credits_period_end) : Number.NaN;
+  if (Number.isFinite(periodEnd) && periodEnd > now.getTime()) {
+    return profile;
+  }
+
+  try {
+    const updated = await startCreditPeriod({
+      userId: profile.id,
+      tier: profile.tier,
+      period: calendarMonthPeriod(now),
+      kind: "reset",
+      reason: "monthly_reset",
+    });
+    return updated ? { ...profile, ...updated } : profile;
+  } catch (error) {
+    console.error("resetCreditsIfDue failed", error);
+    return profile;
+  }
+}
+
+export async function listCreditLedger(userId: string, limit = 50): Promise<CreditLedgerEntry[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("credit_ledger")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    if (isMissingLedger(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load credit ledger: ${error.message}`);
+  }
+  return (data ?? []) as CreditLedgerEntry[];
+}
@@ -0,0 +1,192 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RequestError } from "@/lib/requestError";
+import type { PluginPreset } from "@/types/plugins";
+
+export type PresetRevisionAction = "create" | "import" | "restyle" | "edit" | "restore";
+
+export type PresetRevision = {
+  id: string;
+  preset_id: string;
+  user_id: string;
+  version: number;
+  parent_id: string | null;
+  action: PresetRevisionAction;
+  prompt: string | null;
+  restored_from: string | null;
+  plugins: PluginPreset[];
+  summary: string | null;
+  // The workspace member who made the change, when it was not the author.
+  edited_by?: string | null;
+  created_at: string;
+};
+
+export class PresetRevisionError extends RequestError {}
+
+let revisionsUnavailable = false;
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+const isMissingRevisions = (message?: string) =>
+  Boolean(message && /preset_revisions|record_preset_revision/.test(message.toLowerCase()));
+
+const historyUnavailableError = () =>
+  new PresetRevisionError("Preset history is not enabled for this project.", 503);
+
+const recordRevisionEditor = async (revision: PresetRevision, editedBy: string) => {
+  const client = ensureAdmin();
+  const { error } = await client
+    .from("preset_revisions")
+    .update({ edited_by: editedBy })
+    .eq("id", revision.id);
+
+  if (error) {
+    if (!error.message.toLowerCase().includes("edited_by")) {
+      console.warn("preset revision editor not recorded", revision.id, error.message);
+    }
+    return revision;
+  }
+  return { ...revision, edited_by: editedBy };
+};
+
+// Saves a new chain on the preset and appends it to the preset's history in one transaction.
+// Presets saved before versioning get their current chain recorded as version 1 first. Returns
+// null when the revisions schema is missing; the preset itself is still updated.
+export async function recordPresetRevision(params: {
+  presetId: string;
+  userId: string;
+  action: PresetRevisionAction;
+  plugins: PluginPreset[];
+  prompt?: string | null;
+  summary?: string | null;
+  restoredFrom?: string | null;
+  editedBy?: string | null;
+}): Promise<PresetRevision | null> {
+  const client = ensureAdmin();
+
+  if (!revisionsUnavailable) {
+    const { data, error } = await client.rpc("record_preset_revision", {
+      p_preset_id: params.presetId,
+      p_user_id: params.userId,
+      p_action: params.action,
+      p_prompt: params.prompt ?? null,
+      p_plugins: params.plugins,
+      p_summary: params.summary ?? null,
+      p_restored_from: params.restoredFrom ?? null,
+    });
+
+    if (!error) {
+      const rows = (Array.isArray(data) ? data : data ? [data] : []) as PresetRevision[];
+      const revision = rows[0] ?? null;
+      if (revision && params.editedBy && params.editedBy !== params.userId) {
+        return recordRevisionEditor(revision, params.editedBy);
+      }
+      return revision;
+    }
+    if (error.message.includes("preset_not_found")) {
+      throw new PresetRevisionError("Preset not found.", 404);
+    }
+    if (!isMissingRevisions(error.message)) {
+      throw new Error(`Failed to record preset revision: ${error.message}`);
+    }
+    revisionsUnavailable = true;
+    console.warn("preset_revisions table missing. Preset history will not be recorded.");
+  }
+
+  const updates: Record<string, unknown> = { plugins: params.plugins };
+  if (params.summary) {
+    updates.summary = params.summary;
+  }
+  const { data, error } = await client
+    .from("analysis_presets")
+    .update(updates)
+    .eq("id", params.presetId)
+    .eq("user_id", params.userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to update preset: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new PresetRevisionError("Preset not found.", 404);
+  }
+  return null;
+}
+
+export async function listPresetRevisions(
+  userId: string,
+  presetId: string
+): Promise<PresetRevision[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("preset_revisions")
+    .select("*")
+    .eq("preset_id", presetId)
+    .eq("user_id", userId)
+    .order("version", { ascending: false });
+
+  if (error) {
+    if (isMissingRevisions(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load preset revisions: ${error.message}`);
+  }
+  return (data ?? []) as PresetRevision[];
+}
+
+// Unlike the list, a missing revisions schema is an error here: there is nothing to look up.
+export async function getPresetRevision(
+  userId: string,
+  presetId: string,
+  revisionId: string
+): Promise<PresetRevision | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("preset_revisions")
+    .select("*")
+    .eq("id", revisionId)
+    .eq("preset_id", presetId)
+    .eq("user_id", userId)
+    .maybeSingle<PresetRevision>();
+
+  if (error) {
+    if (isMissingRevisions(error.message)) {
+      throw historyUnavailableError();
+    }
+    throw new Error(`Failed to load preset revision: ${error.message}`);
+  }
+  return data ?? null;
+}
+
+// Restoring never rewrites history: the old chain comes back as a new revision. `userId` is the
+// chain's author; `editedBy` is the member restoring it, when that is someone else.
+export async function restorePresetRevision(
+  userId: string,
+  presetId: string,
+  revisionId: string,
+  editedBy?: string | null
+): Promise<PresetRevision> {
+  const target = await getPresetRevision(userId, presetId, revisionId);
+  if (!target) {
+    throw new PresetRevisionError("Revision not found.", 404);
+  }
+  const revision = await recordPresetRevision({
+    presetId,
+    userId,
+    action: "restore",
+    plugins: target.plugins,
+    summary: target.summary,
+    restoredFrom: target.id,
+    editedBy,
+  });
+  if (!revision) {
+    throw historyUnavailableError();
+  }
+  return revision;
+}
@@ -0,0 +1,253 @@
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RequestError } from "@/lib/requestError";
+import type { PluginPreset } from "@/types/plugins";
+
+export type PresetShare = {
+  id: string;
+  token: string;
+  preset_id: string;
+  user_id: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export type SharedChainMetrics = Partial<{
+  tempo_bpm: number;
+  integrated_lufs: number;
+  loudness_range_lu: number;
+  true_peak_dbtp: number;
+  centroid_hz: number;
+  spectral_rolloff_hz: number;
+  pitch_dev_cents: number;
+  transient_density: string;
+}>;
+
+// What a share link exposes: the chain and its analysis, never the owner's notes, tags or folders.
+export type SharedChain = {
+  daw: string;
+  plugins: PluginPreset[];
+  summary: string | null;
+  song: { title: string | null; artist: string | null; timecode: string | null } | null;
+  metrics: SharedChainMetrics | null;
+  clipStart: number;
+  clipEnd: number;
+  createdAt: string;
+  expiresAt: string | null;
+};
+
+export class PresetShareError extends RequestError {}
+
+export const MAX_SHARE_DAYS = 365;
+
+const SHARED_METRIC_KEYS = [
+  "tempo_bpm",
+  "integrated_lufs",
+  "loudness_range_lu",
+  "true_peak_dbtp",
+  "centroid_hz",
+  "spectral_rolloff_hz",
+  "pitch_dev_cents",
+] as const;
+
+const SHARE_TOKEN_PATTERN = /^[\w-]{16,64}$/;
+
+const UNAVAILABLE_MESSAGE = "This share link is invalid, expired or revoked.";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const readString = (record: Record<string, unknown>, key: string) => {
+  const value = record[key];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+};
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+const isMissingShares = (message?: string) =>
+  Boolean(message && message.toLowerCase().includes("preset_shares"));
+
+const missingSharesError = () =>
+  new PresetShareError("Share links are not available yet. Please try again later.", 503);
+
+export const createShareToken = () => randomBytes(18).toString("base64url");
+
+export function isShareActive(share: Pick<PresetShare, "expires_at" | "revoked_at">, now = new Date()) {
+  if (share.revoked_at) return false;
+  return !share.expires_at || new Date(share.expires_at).getTime() > now.getTime();
+}
+
+export function toSharedChain(
+  preset: Record<string, unknown>,
+  share: Pick<PresetShare, "expires_at">
+): SharedChain {
+  const features = isRecord(preset.features) ? preset.features : {};
+
+  const metrics = SHARED_METRIC_KEYS.reduce<SharedChainMetrics>((acc, key) => {
+    const value = features[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      acc[key] = value;
+    }
+    return acc;
+  }, {});
+  const transientDensity = readString(features, "transient_density");
+  if (transientDensity) {
+    metrics.transient_density = transientDensity;
+  }
+
+  const song = isRecord(features.detected_song) ? features.detected_song : null;
+  const summary =
+    (typeof preset.summary === "string" && preset.summary.trim() ? preset.summary.trim() : null) ??
+    readString(features, "ai_summary") ??
+    readString(features, "summary");
+
+  return {
+    daw: typeof preset.daw === "string" ? preset.daw : "",
+    plugins: Array.isArray(preset.plugins) ? (preset.plugins as PluginPreset[]) : [],
+    summary,
+    song:
+      song && (readString(song, "title") || readString(song, "artist"))
+        ? {
+            title: readString(song, "title"),
+            artist: readString(song, "artist"),
+            timecode: readString(song, "timecode"),
+          }
+        : null,
+    metrics: Object.keys(metrics).length > 0 ? metrics : null,
+    clipStart: Number(preset.clip_start) || 0,
+    clipEnd: Number(preset.clip_end) || 0,
+    createdAt: typeof preset.created_at === "string" ? preset.created_at : "",
+    expiresAt: share.expires_at,
+  };
+}
+
+export async function listPresetShares(userId: string, presetId: string): Promise<PresetShare[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("preset_shares")
+    .select("*")
+    .eq("preset_id", presetId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    if (isMissingShares(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load share links: ${error.message}`);
+  }
+  return (data ?? []) as PresetShare[];
+}
+
+export async function createPresetShare(
+  userId: string,
+  presetId: string,
+  expiresInDays: number | null
+): Promise<PresetShare> {
+  const client = ensureAdmin();
+  const { data: preset, error: presetError } = await client
+    .from("analysis_presets")
+    .select("id")
+    .eq("id", presetId)
+    .eq("user_id", userId)
+    .maybeSingle<{ id: string }>();
+
+  if (presetError) {
+    throw new Error(`Failed to load preset: ${presetError.message}`);
+  }
+  if (!preset) {
+    throw new PresetShareError("Preset not found.", 404);
+  }
+
+  const expiresAt =
+    expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await client
+    .from("preset_shares")
+    .insert({ token: createShareToken(), preset_id: presetId, user_id: userId, expires_at: expiresAt })
+    .select("*")
+    .single<PresetShare>();
+
+  if (error || !data) {
+    if (isMissingShares(error?.message)) {
+      throw missingSharesError();
+    }
+    throw new Error(`Failed to create share link: ${error?.message ?? "Unknown error"}`);
+  }
+  return data;
+}
+
+export async function revokePresetShare(
+  userId: string,
+  presetId: string,
+  shareId: string
+): Promise<PresetShare> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("preset_shares")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", shareId)
+    .eq("preset_id", presetId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select("*")
+    .maybeSingle<PresetShare>();
+
+  if (error) {
+    if (isMissingShares(error.message)) {
+      throw missingSharesError();
+    }
+    throw new Error(`Failed to revoke share link: ${error.message}`);
+  }
+  if (!data) {
+    throw new PresetShareError("Share link not found or already revoked.", 404);
+  }
+  return data;
+}
+
+// Unknown, revoked and expired tokens all look the same to the viewer.
+export async function resolveShareToken(
+  token: string
+): Promise<{ share: PresetShare; preset: Record<string, unknown> }> {
+  if (!SHARE_TOKEN_PATTERN.test(token)) {
+    throw new PresetShareError(UNAVAILABLE_MESSAGE, 404);
+  }
+  const client = ensureAdmin();
+  const { data: share, error } = await client
+    .from("preset_shares")
+    .select("*")
+    .eq("token", token)
+    .maybeSingle<PresetShare>();
+
+  if (error) {
+    if (isMissingShares(error.message)) {
+      throw new PresetShareError(UNAVAILABLE_MESSAGE, 404);
+    }
+    throw new Error(`Failed to load share link: ${error.message}`);
+  }
+  if (!share || !isShareActive(share)) {
+    throw new PresetShareError(UNAVAILABLE_MESSAGE, 404);
+  }
+
+  const { data: preset, error: presetError } = await client
+    .from("analysis_presets")
+    .select("*")
+    .eq("id", share.preset_id)
+    .maybeSingle<Record<string, unknown>>();
+
+  if (presetError) {
+    throw new Error(`Failed to load shared preset: ${presetError.message}`);
+  }
+  if (!preset) {
+    throw new PresetShareError(UNAVAILABLE_MESSAGE, 404);
+  }
+  return { share, preset };
+}
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getPlan, normalizePlanId } from "@/lib/plans";
+import { recordCreditEntry } from "@/lib/creditLedger";
 
 export type Profile = {
   id: string;
@@ -7,6 +8,8 @@ export type Profile = {
   tier: string;
   updated_at: string | null;
   stripe_customer_id?: string | null;
+  credits_period_start?: string | null;
+  credits_period_end?: string | null;
 };
 
 const DEFAULT_TIER = "free";
@@ -34,10 +37,24 @@ export async function getOrCreateProfile(userId: string): Promise<Profile> {
   const selectColumns = "id, credits, tier, updated_at, stripe_customer_id";
   let { data, error } = await client
     .from("profiles")
-    .select(selectColumns)
+    .select(
+      "id, credits, tier, updated_at, stripe_customer_id, credits_period_start, credits_period_end"
+    )
     .eq("id", userId)
     .maybeSingle();
 
+  if (error?.message && error.message.toLowerCase().includes("credits_period")) {
+    const fallback = await client
+      .from("profiles")
+      .select(selectColumns)
+      .eq("id", userId)
+      .maybeSingle();
+    error = fallback.error;
+    data = fallback.data
+      ? { ...fallback.data, credits_period_start: null, credits_period_end: null }
+      : fallback.data;
+  }
+
   const missingColumn =
     error?.message &&
     error.message.toLowerCase().includes("stripe_customer_id");
@@ -50,7 +67,12 @@ export async function getOrCreateProfile(userId: string): Promise<Profile> {
       .maybeSingle();
     error = fallback.error;
     data = fallback.data
-      ? { ...fallback.data, stripe_customer_id: null }
+      ? {
+          ...fallback.data,
+          stripe_customer_id: null,
+          credits_period_start: null,
+          credits_period_end: null,
+        }
       : fallback.data;
   }
 
@@ -113,6 +135,14 @@ export async function getOrCreateProfile(userId: string): Promise<Profile> {
     );
   }
 
+  await recordCreditEntry({
+    userId,
+    kind: "grant",
+    delta: inserted.credits,
+    balanceAfter: inserted.credits,
+    reason: "signup",
+  });
+
   return {
     ...inserted,
     stripe_customer_id: inserted.stripe_customer_id ?? null,
@@ -120,105 +150,6 @@ export async function getOrCreateProfile(userId: string): Promise<Profile> {
   };
 }
 
-export async function decrementCredits(userId: string): Promise<Profile> {
-  const client = ensureAdmin();
-
-  const { data: current, error: fetchError } = await client
-    .from("profiles")
-    .select("id, credits, tier, updated_at, stripe_customer_id")
-    .eq("id", userId)
-    .single<Profile>();
-
-  if (fetchError || !current) {
-    throw new Error(
-      `Failed to load profile for decrement: ${fetchError?.message ?? "Not found"}`
-    );
-  }
-
-  const plan = getPlan(current.tier);
-  const currentCredits = clampCredits(plan.id, current.credits);
-  const nextCredits = Math.max(0, currentCredits - 1);
-
-  const { data: updated, error: updateError } = await client
-    .from("profiles")
-    .update({ credits: nextCredits })
-    .eq("id", userId)
-    .select("id, credits, tier, updated_at, stripe_customer_id")
-    .single<Profile>();
-
-  if (updateError || !updated) {
-    throw new Error(
-      `Failed to decrement credits: ${updateError?.message ?? "Unknown error"}`
-    );
-  }
-
-  return updated;
-}
-
-export async function updateProfileCredits(
-  userId: string,
-  credits: number
-): Promise<Profile> {
-  const client = ensureAdmin();
-
-  const { data, error } = await client
-    .from("profiles")
-    .update({ credits })
-    .eq("id", userId)
-    .select("id, credits, tier, updated_at, stripe_customer_id")
-    .single();
-
-  if (error || !data) {
-    throw new Error(
-      `Failed to update profile credits: ${error?.message ?? "Unknown error"}`
-    );
-  }
-
-  return {
-    ...data,
-    credits: clampCredits(data.tier, data.credits),
-    stripe_customer_id: data.stripe_customer_id ?? null,
-  };
-}
-
-export async function updateProfileTier(
-  userId: string,
-  tier: string,
-  credits?: number
-): Promise<Profile> {
-  const client = ensureAdmin();
-
-  const normalizedTier = normalizePlanId(tier);
-  const targetPlan = getPlan(normalizedTier);
-
-  const payload: Partial<Profile> & { tier: string } = { tier: normalizedTier };
-  if (typeof credits === "number") {
-    payload.credits = credits;
-  } else {
-    payload.credits = targetPlan.generationsPerMonth;
-  }
-
-  const { data, error } = await client
-    .from("profiles")
-    .update(payload)
-    .eq("id", userId)
-    .select("id, credits, tier, updated_at, stripe_customer_id")
-    .single();
-
-  if (error || !data) {
-    throw new Error(
-      `Failed to update profile: ${error?.message ?? "Unknown error"}`
-    );
-  }
-
-  return {
-    ...data,
-    tier: normalizedTier,
-    credits: clampCredits(normalizedTier, payload.credits),
-    stripe_customer_id: data.stripe_customer_id ?? null,
-  };
-}
-
 export async function setStripeCustomerId(
   userId: string,
   customerId: string
@@ -239,3 +170,20 @@ export async function setStripeCustomerId(
     throw new Error(`Failed to set stripe customer id: ${error.message}`);
   }
 }
+
+export async function findUserIdByStripeCustomer(customerId: string): Promise<string | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("profiles")
+    .select("id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle<{ id: string }>();
+
+  if (error) {
+    if (error.message.toLowerCase().includes("stripe_customer_id")) {
+      return null;
+    }
+    throw new Error(`Failed to look up Stripe customer: ${error.message}`);
+  }
+  return data?.id ?? null;
+}
@@ -0,0 +1,14 @@
+// Base for errors whose message is written for the client. Route handlers return the status and
+// message of these as-is; any other error becomes a generic 500, whatever status it carries.
+export class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function isRequestError(error: unknown): error is RequestError {
+  return error instanceof RequestError;
+}
@@ -0,0 +1,377 @@
+import { normalizePluginType } from "@/lib/chainTranslation";
+import type { PluginPreset } from "@/types/plugins";
+import type { MetricDeltas } from "@/workers/metricDeltas";
+import type { Metrics } from "@/workers/metrics.worker";
+import { compareToReferences, type TonalBandDelta } from "@/workers/tonalBalance";
+import type { BandIssue } from "@/workers/vocalIssues";
+
+export type CatalogPlugin = { name: string; type: string; description?: string };
+
+type GeneratedPlugin = {
+  name: string;
+  type: string;
+  settings: Record<string, string>;
+  comment: string;
+};
+
+// What the chain aims for: a stored tonal curve, or in A/B mode the reference clip.
+export type RuleBasedTarget = {
+  tonalReference?: string | null;
+  // Reference minus user vocal; present when the user vocal is matched to a reference clip.
+  metricDeltas?: MetricDeltas | null;
+};
+
+const DE_ESSER_PATTERN = /de-?ess/i;
+const LIMITER_PATTERN = /limit|maxim/i;
+
+function findPlugin(
+  catalog: CatalogPlugin[],
+  types: string[],
+  pattern?: RegExp
+): CatalogPlugin | undefined {
+  for (const type of types) {
+    const match = catalog.find(
+      (plugin) =>
+        normalizePluginType(plugin.type) === type && (!pattern || pattern.test(plugin.name))
+    );
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function isFlagged(issue: BandIssue | undefined): issue is BandIssue {
+  return Boolean(issue && issue.events > 0 && (issue.severity === "moderate" || issue.severity === "severe"));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function finite(value: number | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function signed(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+// Per-band deltas of the vocal over its target (positive means too much), and how to name the target.
+function tonalTarget(
+  metrics: Metrics | null,
+  target: RuleBasedTarget
+): { label: string; deltas: TonalBandDelta[] } | null {
+  if (target.metricDeltas?.tonal_deltas.length) {
+    return {
+      label: "the reference clip",
+      deltas: target.metricDeltas.tonal_deltas.map((delta) => ({
+        center_hz: delta.center_hz,
+        delta_db: -delta.delta_db,
+      })),
+    };
+  }
+  // Matches the requested reference curve, or the closest stored one when none was picked.
+  const comparison = metrics ? compareToReferences(metrics.tonal_profile ?? [], target.tonalReference) : null;
+  return comparison ? { label: `"${comparison.label}"`, deltas: comparison.deltas } : null;
+}
+
+function equalizerStage(
+  catalog: CatalogPlugin[],
+  metrics: Metrics | null,
+  target: RuleBasedTarget
+): GeneratedPlugin | null {
+  const plugin = findPlugin(catalog, ["Equalizer", "Filter"]);
+  if (!plugin) return null;
+
+  const settings: Record<string, string> = {};
+  const notes: string[] = [];
+
+  const highPass = isFlagged(metrics?.plosives)
+    ? clamp(Math.round((metrics.plosives.peak_hz ?? 80) + 40), 80, 150)
+    : 80;
+  settings["High-Pass"] = `${highPass} Hz`;
+  notes.push(
+    isFlagged(metrics?.plosives)
+      ? `High-pass at ${highPass} Hz for ${metrics.plosives.severity} plosives around ${metrics.plosives.peak_hz} Hz.`
+      : `High-pass at ${highPass} Hz to clear rumble.`
+  );
+
+  const tonal = tonalTarget(metrics, target);
+  if (tonal) {
+    const sorted = [...tonal.deltas].sort((a, b) => b.delta_db - a.delta_db);
+    const excess = sorted[0];
+    const deficit = sorted[sorted.length - 1];
+    if (excess && excess.delta_db >= 2) {
+      const gain = -Math.min(6, Math.round(excess.delta_db * 0.75 * 10) / 10);
+      settings["Cut Frequency"] = `${excess.center_hz} Hz`;
+      settings["Cut Gain"] = `${gain.toFixed(1)} dB`;
+      notes.push(`Cut ${excess.center_hz} Hz, which reads ${signed(excess.delta_db)} dB over ${tonal.label}.`);
+    }
+    if (deficit && deficit.delta_db <= -2) {
+      const gain = Math.min(4, Math.round(-deficit.delta_db * 0.5 * 10) / 10);
+      settings["Boost Frequency"] = `${deficit.center_hz} Hz`;
+      settings["Boost Gain"] = `+${gain.toFixed(1)} dB`;
+      notes.push(`Boost ${deficit.center_hz} Hz, which reads ${signed(deficit.delta_db)} dB under ${tonal.label}.`);
+    }
+  }
+
+  if (isFlagged(metrics?.harshness) && !settings["Cut Frequency"]) {
+    settings["Cut Frequency"] = `${metrics.harshness.peak_hz} Hz`;
+    settings["Cut Gain"] = "-2.5 dB";
+    settings.Q = "2.0";
+    notes.push(`Narrow cut for ${metrics.harshness.severity} harshness at ${metrics.harshness.peak_hz} Hz.`);
+  }
+
+  return { name: plugin.name, type: plugin.type, settings, comment: notes.join(" ") };
+}
+
+function deEsserStage(catalog: CatalogPlugin[], metrics: Metrics | null): GeneratedPlugin | null {
+  if (!metrics || !isFlagged(metrics.sibilance)) return null;
+  const plugin =
+    catalog.find((entry) => DE_ESSER_PATTERN.test(entry.name)) ??
+    findPlugin(catalog, ["Dynamics"], /ReaXcomp|multi/i);
+  if (!plugin) return null;
+
+  const threshold = Math.round(finite(metrics.sibilance.peak_level_db ?? undefined, -20) - 6);
+  return {
+    name: plugin.name,
+    type: plugin.type,
+    settings: {
+      Frequency: `${metrics.sibilance.peak_hz} Hz`,
+      Threshold: `${threshold} dB`,
+      Range: "-6 dB",
+    },
+    comment: `${metrics.sibilance.events} ${metrics.sibilance.severity} sibilance bursts peaking at ${metrics.sibilance.peak_hz} Hz; threshold sits 6 dB under the ${metrics.sibilance.peak_level_db} dBFS burst level.`,
+  };
+}
+
+function pitchStage(catalog: CatalogPlugin[], metrics: Metrics | null): GeneratedPlugin | null {
+  const deviation = finite(metrics?.pitch_dev_cents, 0);
+  if (Math.abs(deviation) < 120) return null;
+  const plugin = findPlugin(catalog, ["Pitch Correction"]);
+  if (!plugin) return null;
+  return {
+    name: plugin.name,
+    type: plugin.type,
+    settings: {
+      "Retune Speed": deviation >= 200 ? "10 ms" : "25 ms",
+      Scale: "Chromatic",
+      Mix: "100%",
+    },
+    comment: `Pitch deviation of ${deviation.toFixed(0)} cents calls for corrective tuning.`,
+  };
+}
+
+function compressorStage(
+  catalog: CatalogPlugin[],
+  metrics: Metrics | null,
+  deltas?: MetricDeltas | null
+): GeneratedPlugin | null {
+  const plugin = findPlugin(catalog, ["Compressor", "Dynamics"]);
+  if (!plugin) return null;
+
+  const range = finite(metrics?.loudness_range_lu, 6);
+  const shortTerm = finite(metrics?.short_term_max_lufs, -12);
+  // In A/B mode the ratio closes the loudness-range gap to the reference clip instead.
+  const excess = deltas ? -finite(deltas.loudness_range_lu, 0) : null;
+  const ratio =
+    excess === null
+      ? range >= 10 ? 4 : range >= 6 ? 3 : 2
+      : excess >= 4 ? 4 : excess >= 2 ? 3 : excess > -2 ? 2 : 1.5;
+  const threshold = Math.round(clamp(shortTerm - 8, -40, -6));
+  const fast = metrics?.transient_density === "high";
+  const reason =
+    excess === null
+      ? `Loudness range of ${range.toFixed(1)} LU sets a ${ratio}:1 ratio`
+      : `Loudness range reads ${signed(excess)} LU over the reference clip, so a ${ratio}:1 ratio ${
+          excess >= 2 ? "closes the gap" : "keeps it close"
+        }`;
+  return {
+    name: plugin.name,
+    type: plugin.type,
+    settings: {
+      Threshold: `${threshold} dB`,
+      Ratio: `${ratio}:1`,
+      Attack: fast ? "5 ms" : "15 ms",
+      Release: "80 ms",
+      "Makeup Gain": `${ratio} dB`,
+    },
+    comment: `${reason}; ${
+      fast ? "dense transients need a fast attack" : "a slower attack keeps consonants natural"
+    }.`,
+  };
+}
+
+function reverbStage(catalog: CatalogPlugin[], metrics: Metrics | null): GeneratedPlugin | null {
+  const plugin = findPlugin(catalog, ["Reverb"]);
+  if (!plugin) return null;
+  const tempo = finite(metrics?.tempo_bpm, 0);
+  const decay = tempo > 0 ? clamp((60 / tempo) * 2, 0.8, 2.5) : 1.4;
+  return {
+    name: plugin.name,
+    type: plugin.type,
+    settings: {
+      Decay: `${decay.toFixed(1)} s`,
+      "Pre-Delay": "20 ms",
+      Mix: "12%",
+    },
+    comment: tempo > 0
+      ? `Decay set to two beats at ${tempo.toFixed(0)} BPM so the tail clears before the next phrase.`
+      : "Tempo unknown; a short plate-style decay keeps the vocal upfront.",
+  };
+}
+
+function limiterStage(
+  catalog: CatalogPlugin[],
+  metrics: Metrics | null,
+  deltas?: MetricDeltas | null
+): GeneratedPlugin | null {
+  const plugin =
+    findPlugin(catalog, ["Limiter"]) ?? findPlugin(catalog, ["Dynamics"], LIMITER_PATTERN);
+  if (!plugin) return null;
+  const truePeak = finite(metrics?.true_peak_dbtp, -120);
+  const settings: Record<string, string> = { Ceiling: "-1.0 dB", Release: "50 ms" };
+  const notes = [
+    truePeak > -1
+      ? `True peak measured at ${truePeak.toFixed(1)} dBTP; the ceiling keeps it under -1 dBTP.`
+      : "Safety ceiling at -1 dBTP.",
+  ];
+
+  const quieter = finite(deltas?.integrated_lufs, 0);
+  if (quieter >= 1) {
+    const gain = Math.min(6, Math.round(quieter * 10) / 10);
+    settings.Gain = `+${gain.toFixed(1)} dB`;
+    notes.push(`The reference clip sits ${quieter.toFixed(1)} LU louder, so the limiter drives ${gain.toFixed(1)} dB.`);
+  }
+  return { name: plugin.name, type: plugin.type, settings, comment: notes.join(" ") };
+}
+
+// Deterministic chain built straight from measured metrics; used offline and as the LLM fallback.
+export function buildRuleBasedChain(
+  catalog: CatalogPlugin[],
+  metrics: Metrics | null,
+  target: RuleBasedTarget = {}
+): { summary: string; plugins: GeneratedPlugin[] } {
+  const deltas = target.metricDeltas ?? null;
+  const equalizer = equalizerStage(catalog, metrics, target);
+  const deEsser = deEsserStage(catalog, metrics);
+  if (equalizer && !deEsser && isFlagged(metrics?.sibilance)) {
+    equalizer.settings["Sibilance Cut"] = `-3.0 dB @ ${metrics.sibilance.peak_hz} Hz`;
+    equalizer.comment += ` No de-esser in the catalog, so a static cut tames ${metrics.sibilance.severity} sibilance at ${metrics.sibilance.peak_hz} Hz.`;
+  }
+
+  const plugins = [
+    equalizer,
+    deEsser,
+    pitchStage(catalog, metrics),
+    compressorStage(catalog, metrics, deltas),
+    reverbStage(catalog, metrics),
+    limiterStage(catalog, metrics, deltas),
+  ].filter((plugin): plugin is GeneratedPlugin => Boolean(plugin));
+
+  const summary = metrics
+    ? `Rule-based chain from measured metrics: ${finite(metrics.integrated_lufs, -70).toFixed(1)} LUFS integrated, ${finite(
+        metrics.loudness_range_lu,
+        0
+      ).toFixed(1)} LU loudness range, ${finite(metrics.pitch_dev_cents, 0).toFixed(0)} cents pitch deviation and ${
+        metrics.transient_density
+      } transient density. ${
+        deltas ? "EQ and dynamics match the user vocal to the reference clip." : "Genre and vocal style are unspecified."
+      }`
+    : "Rule-based starter chain; no metrics were available, so settings are conservative defaults.";
+
+  return { summary, plugins };
+}
+
+type StyleRule = {
+  pattern: RegExp;
+  apply(plugin: PluginPreset, type: string | null): Record<string, string> | null;
+  note: string;
+};
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/-?\d+(\.\d+)?/);
+  return match ? Number.parseFloat(match[0]) : null;
+}
+
+function shiftSetting(
+  settings: Record<string, string>,
+  key: string,
+  delta: number,
+  min: number,
+  max: number,
+  format: (value: number) => string
+): Record<string, string> | null {
+  const current = parseNumber(settings[key]);
+  if (current === null) return null;
+  return { [key]: format(clamp(current + delta, min, max)) };
+}
+
+const STYLE_RULES: StyleRule[] = [
+  {
+    pattern: /bright|air|crisp|present|shine/i,
+    apply: (_plugin, type) => (type === "Equalizer" ? { "High Shelf": "+2.0 dB @ 10 kHz" } : null),
+    note: "lifted the air band",
+  },
+  {
+    pattern: /dark|warm|vintage|lo-?fi|smooth/i,
+    apply: (_plugin, type) => (type === "Equalizer" ? { "High Shelf": "-2.0 dB @ 8 kHz" } : null),
+    note: "softened the top end",
+  },
+  {
+    pattern: /wet|spacious|ambient|dreamy|big|lush/i,
+    apply: (plugin, type) =>
+      type === "Reverb" || type === "Delay"
+        ? shiftSetting(plugin.settings, "Mix", 10, 0, 60, (value) => `${Math.round(value)}%`)
+        : null,
+    note: "pushed the ambience",
+  },
+  {
+    pattern: /dry|intimate|tight|close/i,
+    apply: (plugin, type) =>
+      type === "Reverb" || type === "Delay"
+        ? shiftSetting(plugin.settings, "Mix", -8, 0, 60, (value) => `${Math.round(value)}%`)
+        : null,
+    note: "pulled the ambience back",
+  },
+  {
+    pattern: /aggressive|punchy|hard|upfront|loud/i,
+    apply: (plugin, type) =>
+      type === "Compressor" ? shiftSetting(plugin.settings, "Ratio", 1, 1.5, 10, (value) => `${value}:1`) : null,
+    note: "compressed harder",
+  },
+  {
+    pattern: /gentle|soft|natural|open|dynamic/i,
+    apply: (plugin, type) =>
+      type === "Compressor" ? shiftSetting(plugin.settings, "Ratio", -1, 1.5, 10, (value) => `${value}:1`) : null,
+    note: "eased the compression",
+  },
+];
+
+// Keyword-driven restyle used when no LLM backend is reachable.
+export function restyleRuleBased(
+  chain: PluginPreset[],
+  stylePrompt: string
+): { plugins: GeneratedPlugin[] } {
+  const rules = STYLE_RULES.filter((rule) => rule.pattern.test(stylePrompt));
+  const plugins = chain.map((plugin) => {
+    const type = normalizePluginType(plugin.type ?? "");
+    const changes = rules
+      .map((rule) => ({ rule, update: rule.apply(plugin, type) }))
+      .filter((entry): entry is { rule: StyleRule; update: Record<string, string> } => Boolean(entry.update));
+    const settings = changes.reduce(
+      (acc, entry) => ({ ...acc, ...entry.update }),
+      { ...(plugin.settings ?? {}) }
+    );
+    const note = changes.length
+      ? `Restyled offline (${changes.map((entry) => entry.rule.note).join(", ")}).`
+      : null;
+    return {
+      name: plugin.name,
+      type: plugin.type,
+      settings,
+      comment: [plugin.comment, note].filter(Boolean).join(" "),
+    };
+  });
+  return { plugins };
+}
@@ -0,0 +1,93 @@
+export type EventSender = (event: string, data: unknown) => void;
+
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Runs the producer and streams everything it sends; the stream closes when the producer settles.
+export function eventStreamResponse(producer: (send: EventSender) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send: EventSender = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        } catch {
+          // The client disconnected; keep running so credits and saves stay consistent.
+          closed = true;
+        }
+      };
+
+      try {
+        await producer(send);
+      } catch (error) {
+        console.error("event stream producer failed", error);
+        send("error", { error: "Unexpected error while streaming.", status: 500 });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export function parseEventBlock(block: string): { event: string; data: unknown } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return null;
+  }
+}
+
+// Browser-side reader for POST responses, which EventSource cannot issue.
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed.event, parsed.data);
+      boundary = buffer.indexOf("\n\n");
+    }
+    if (done) break;
+  }
+
+  const trailing = parseEventBlock(buffer.trim());
+  if (trailing) onEvent(trailing.event, trailing.data);
+}
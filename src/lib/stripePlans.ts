@@ -0,0 +1,238 @@
+import type Stripe from "stripe";
+import { getPlan, normalizePlanId, type PlanId } from "@/lib/plans";
+import { subscriptionPeriod, type CreditPeriod } from "@/lib/creditLedger";
+import type { Profile } from "@/lib/profile";
+
+export type PaidPlanId = Exclude<PlanId, "free">;
+
+export type PricePlanMap = Map<string, PaidPlanId>;
+
+export type BillingAction =
+  | {
+      kind: "activate";
+      planId: PaidPlanId;
+      period: CreditPeriod | null;
+      reason: "subscription_started" | "subscription_updated" | "subscription_renewal";
+    }
+  | { kind: "grace"; status: string }
+  | { kind: "cancel"; reason: string }
+  | { kind: "link" };
+
+export type BillingEventResolution = {
+  userId: string | null;
+  customerId: string | null;
+  action: BillingAction;
+};
+
+const asPaidPlan = (value?: string | null): PaidPlanId | null => {
+  const planId = normalizePlanId(value);
+  return planId === "free" ? null : planId;
+};
+
+// STRIPE_PRICE_ID and STRIPE_PRO_PRICE_ID are the prices sold at checkout. STRIPE_PRICE_PLAN_MAP
+// adds any other prices still in use, e.g. "price_annual_std=standard_15,price_legacy=pro_29".
+export function loadPricePlanMap(env: Record<string, string | undefined> = process.env): PricePlanMap {
+  const map: PricePlanMap = new Map();
+  for (const entry of (env.STRIPE_PRICE_PLAN_MAP ?? "").split(",")) {
+    const [priceId, planId] = entry.split("=").map((part) => part.trim());
+    const plan = asPaidPlan(planId);
+    if (priceId && plan) {
+      map.set(priceId, plan);
+    }
+  }
+  if (env.STRIPE_PRICE_ID) map.set(env.STRIPE_PRICE_ID, "standard_15");
+  if (env.STRIPE_PRO_PRICE_ID) map.set(env.STRIPE_PRO_PRICE_ID, "pro_29");
+  return map;
+}
+
+export function priceIdForPlan(planId: PaidPlanId, map: PricePlanMap = loadPricePlanMap()): string | null {
+  const env = planId === "pro_29" ? process.env.STRIPE_PRO_PRICE_ID : process.env.STRIPE_PRICE_ID;
+  if (env) return env;
+  for (const [priceId, plan] of map) {
+    if (plan === planId) return priceId;
+  }
+  return null;
+}
+
+const planRank = (planId: PlanId) => getPlan(planId).priceMonthlyUSD;
+
+const highestPlan = (plans: Array<PaidPlanId | null>): PaidPlanId | null =>
+  plans.reduce<PaidPlanId | null>(
+    (best, plan) => (plan && (!best || planRank(plan) > planRank(best)) ? plan : best),
+    null
+  );
+
+const priceIdOf = (price: string | { id?: string } | null | undefined) =>
+  typeof price === "string" ? price : price?.id ?? null;
+
+// Falls back to the plan recorded at checkout when a price is missing from the map.
+export function planForSubscription(
+  subscription: Stripe.Subscription,
+  map: PricePlanMap = loadPricePlanMap()
+): PaidPlanId | null {
+  const fromPrices = highestPlan(
+    (subscription.items?.data ?? []).map((item) => {
+      const priceId = priceIdOf(item.price);
+      return priceId ? map.get(priceId) ?? null : null;
+    })
+  );
+  return fromPrices ?? asPaidPlan(subscription.metadata?.plan_id);
+}
+
+const customerIdOf = (customer: string | { id: string } | null | undefined) =>
+  typeof customer === "string" ? customer : customer?.id ?? null;
+
+// Pinned API versions put these fields on the invoice and its lines; newer ones nest them under `parent`.
+type LooseInvoice = {
+  subscription_details?: { metadata?: Record<string, string> | null } | null;
+  parent?: { subscription_details?: { metadata?: Record<string, string> | null } | null } | null;
+  lines?: { data?: LooseInvoiceLine[] };
+};
+
+type LooseInvoiceLine = {
+  type?: string;
+  proration?: boolean;
+  price?: string | { id?: string } | null;
+  pricing?: { price_details?: { price?: string } | null } | null;
+  parent?: { subscription_item_details?: { proration?: boolean } | null } | null;
+  period?: { start?: number; end?: number } | null;
+};
+
+const invoiceMetadata = (invoice: LooseInvoice) =>
+  invoice.subscription_details?.metadata ?? invoice.parent?.subscription_details?.metadata ?? null;
+
+const invoicePlan = (invoice: LooseInvoice, map: PricePlanMap) => {
+  const lines = (invoice.lines?.data ?? []).filter(
+    (line) =>
+      !line.proration &&
+      !line.parent?.subscription_item_details?.proration &&
+      (line.type === undefined || line.type === "subscription")
+  );
+  let planId: PaidPlanId | null = null;
+  let period: CreditPeriod | null = null;
+  for (const line of lines) {
+    const priceId = priceIdOf(line.price) ?? line.pricing?.price_details?.price ?? null;
+    const plan = priceId ? map.get(priceId) ?? null : null;
+    if (plan && plan === highestPlan([plan, planId])) {
+      planId = plan;
+      const start = line.period?.start;
+      const end = line.period?.end;
+      period =
+        typeof start === "number" && typeof end === "number"
+          ? { start: new Date(start * 1000), end: new Date(end * 1000) }
+          : null;
+    }
+  }
+  return { planId: planId ?? asPaidPlan(invoiceMetadata(invoice)?.plan_id), period };
+};
+
+const resolveSubscription = (
+  subscription: Stripe.Subscription,
+  eventType: string,
+  map: PricePlanMap
+): BillingEventResolution => {
+  const base = {
+    userId: subscription.metadata?.supabase_user_id ?? null,
+    customerId: customerIdOf(subscription.customer),
+  };
+
+  if (eventType === "customer.subscription.deleted") {
+    return { ...base, action: { kind: "cancel", reason: "subscription_deleted" } };
+  }
+
+  switch (subscription.status) {
+    case "active":
+    case "trialing": {
+      const planId = planForSubscription(subscription, map);
+      if (!planId) {
+        console.warn("Stripe subscription has no mapped price", subscription.id);
+        return { ...base, action: { kind: "link" } };
+      }
+      return {
+        ...base,
+        action: {
+          kind: "activate",
+          planId,
+          period: subscriptionPeriod(subscription),
+          reason:
+            eventType === "customer.subscription.created" ? "subscription_started" : "subscription_updated",
+        },
+      };
+    }
+    // Stripe retries the payment while past due; the paid plan stays until it gives up.
+    case "past_due":
+      return { ...base, action: { kind: "grace", status: subscription.status } };
+    case "incomplete":
+      return { ...base, action: { kind: "link" } };
+    default:
+      return { ...base, action: { kind: "cancel", reason: `subscription_${subscription.status}` } };
+  }
+};
+
+// Maps a verified webhook event to the plan change it implies, or null for events we ignore.
+export function resolveBillingEvent(
+  event: Stripe.Event,
+  map: PricePlanMap = loadPricePlanMap()
+): BillingEventResolution | null {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      // The plan is applied by the subscription events that follow; checkout only links the customer.
+      const session = event.data.object;
+      return {
+        userId: session.metadata?.supabase_user_id ?? null,
+        customerId: customerIdOf(session.customer),
+        action: { kind: "link" },
+      };
+    }
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      return resolveSubscription(event.data.object, event.type, map);
+    case "invoice.paid": {
+      const invoice = event.data.object;
+      const loose = invoice as unknown as LooseInvoice;
+      const { planId, period } = invoicePlan(loose, map);
+      const base = {
+        userId: invoiceMetadata(loose)?.supabase_user_id ?? null,
+        customerId: customerIdOf(invoice.customer),
+      };
+      if (!planId) {
+        return { ...base, action: { kind: "link" } };
+      }
+      return {
+        ...base,
+        action: {
+          kind: "activate",
+          planId,
+          period,
+          reason: invoice.billing_reason === "subscription_create" ? "subscription_started" : "subscription_renewal",
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// A plan change inside the current period keeps the analyses already used; a new period starts full.
+export function creditsForPlanChange(
+  profile: Pick<Profile, "tier" | "credits" | "credits_period_start">,
+  planId: PlanId,
+  period: CreditPeriod
+): number {
+  const allowance = getPlan(planId).generationsPerMonth;
+  const samePeriod =
+    profile.credits_period_start != null &&
+    Date.parse(profile.credits_period_start) === period.start.getTime();
+  if (!samePeriod) {
+    return allowance;
+  }
+  const used = Math.max(0, getPlan(profile.tier).generationsPerMonth - (profile.credits ?? 0));
+  return Math.max(0, allowance - used);
+}
+
+export function planChangeReason(fromTier: string, toPlan: PlanId): string | null {
+  const from = normalizePlanId(fromTier);
+  if (from === toPlan) return null;
+  return planRank(toPlan) > planRank(from) ? "plan_upgraded" : "plan_downgraded";
+}
@@ -0,0 +1,507 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RequestError } from "@/lib/requestError";
+
+export const WORKSPACE_ROLES = ["viewer", "editor", "admin"] as const;
+
+export const MAX_WORKSPACE_NAME_LENGTH = 80;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export type Workspace = {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+  role: WorkspaceRole;
+};
+
+export type WorkspaceMember = {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+};
+
+export type WorkspaceInvite = {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string;
+  created_at: string;
+  workspace_name?: string | null;
+};
+
+// Where a folder or preset lives: a personal library (workspace_id null) or a workspace.
+export type LibraryScope = {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+};
+
+export class WorkspaceError extends RequestError {}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, admin: 2 };
+
+const ensureAdmin = () => {
+  if (!supabaseAdmin) {
+    throw new Error(
+      "Supabase admin client is not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+    );
+  }
+  return supabaseAdmin;
+};
+
+const isMissingWorkspaces = (message?: string) =>
+  Boolean(message && /workspaces|workspace_members|workspace_invites|workspace_id/.test(message.toLowerCase()));
+
+const missingWorkspacesError = () =>
+  new WorkspaceError("Workspaces are not available yet. Please try again later.", 503);
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === "string" && (WORKSPACE_ROLES as readonly string[]).includes(value);
+
+export const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole) =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+export async function listWorkspaces(userId: string): Promise<Workspace[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .select("role, workspaces(id, name, owner_id, created_at)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load workspaces: ${error.message}`);
+  }
+
+  return (data ?? []).flatMap((row) => {
+    const workspace = (Array.isArray(row.workspaces) ? row.workspaces[0] : row.workspaces) as
+      | Omit<Workspace, "role">
+      | null
+      | undefined;
+    return workspace && isWorkspaceRole(row.role) ? [{ ...workspace, role: row.role }] : [];
+  });
+}
+
+export async function getWorkspaceRole(userId: string, workspaceId: string): Promise<WorkspaceRole | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .select("role")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .maybeSingle<{ role: string }>();
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return null;
+    }
+    throw new Error(`Failed to load workspace membership: ${error.message}`);
+  }
+  return data && isWorkspaceRole(data.role) ? data.role : null;
+}
+
+// Non-members get a 404 so workspace IDs do not leak.
+export async function assertWorkspaceRole(
+  userId: string,
+  workspaceId: string,
+  required: WorkspaceRole
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(userId, workspaceId);
+  if (!role) {
+    throw new WorkspaceError("Workspace not found.", 404);
+  }
+  if (!hasWorkspaceRole(role, required)) {
+    throw new WorkspaceError(`This needs the ${required} role in the workspace.`, 403);
+  }
+  return role;
+}
+
+export async function getWorkspace(workspaceId: string): Promise<Omit<Workspace, "role"> | null> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspaces")
+    .select("id, name, owner_id, created_at")
+    .eq("id", workspaceId)
+    .maybeSingle<Omit<Workspace, "role">>();
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return null;
+    }
+    throw new Error(`Failed to load workspace: ${error.message}`);
+  }
+  return data ?? null;
+}
+
+export async function createWorkspace(
+  userId: string,
+  email: string | null,
+  name: string
+): Promise<Workspace> {
+  const client = ensureAdmin();
+  const { data: workspace, error } = await client
+    .from("workspaces")
+    .insert({ name, owner_id: userId })
+    .select("id, name, owner_id, created_at")
+    .single<Omit<Workspace, "role">>();
+
+  if (error || !workspace) {
+    if (isMissingWorkspaces(error?.message)) {
+      throw missingWorkspacesError();
+    }
+    throw new Error(`Failed to create workspace: ${error?.message ?? "Unknown error"}`);
+  }
+
+  const { error: memberError } = await client
+    .from("workspace_members")
+    .insert({ workspace_id: workspace.id, user_id: userId, email, role: "admin" });
+
+  if (memberError) {
+    await client.from("workspaces").delete().eq("id", workspace.id);
+    throw new Error(`Failed to add workspace owner: ${memberError.message}`);
+  }
+  return { ...workspace, role: "admin" };
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<void> {
+  const client = ensureAdmin();
+  const { error } = await client
+    .from("workspaces")
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq("id", workspaceId);
+
+  if (error) {
+    throw new Error(`Failed to rename workspace: ${error.message}`);
+  }
+}
+
+// Folders go with the workspace; its presets fall back to their authors' personal libraries.
+export async function deleteWorkspace(userId: string, workspaceId: string): Promise<void> {
+  const workspace = await getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new WorkspaceError("Workspace not found.", 404);
+  }
+  if (workspace.owner_id !== userId) {
+    throw new WorkspaceError("Only the workspace owner can delete it.", 403);
+  }
+
+  const client = ensureAdmin();
+  const { error } = await client.from("workspaces").delete().eq("id", workspaceId);
+  if (error) {
+    throw new Error(`Failed to delete workspace: ${error.message}`);
+  }
+}
+
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .select("workspace_id, user_id, email, role, created_at")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load workspace members: ${error.message}`);
+  }
+  return (data ?? []) as WorkspaceMember[];
+}
+
+// Emails members joined with, for labeling changes they made in someone else's chain.
+export async function listMemberEmails(userIds: string[]): Promise<Record<string, string>> {
+  if (!userIds.length) return {};
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .select("user_id, email")
+    .in("user_id", [...new Set(userIds)]);
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return {};
+    }
+    throw new Error(`Failed to load member emails: ${error.message}`);
+  }
+  return (data ?? []).reduce<Record<string, string>>((acc, row) => {
+    if (typeof row.email === "string" && row.email) {
+      acc[row.user_id as string] = row.email;
+    }
+    return acc;
+  }, {});
+}
+
+const INVITE_COLUMNS = "id, workspace_id, email, role, invited_by, created_at";
+
+export const normalizeInviteEmail = (email: string) => email.trim().toLowerCase();
+
+// Invites go to an email address, so only a confirmed address can see or accept them.
+export const confirmedInviteEmail = (user: { email?: string | null; email_confirmed_at?: string | null }) =>
+  user.email && user.email_confirmed_at ? normalizeInviteEmail(user.email) : null;
+
+// Invites are keyed by email and never look up accounts, so an admin cannot tell whether an
+// address is registered or what plan it is on. Re-inviting the same email updates the role.
+export async function inviteWorkspaceMember(
+  workspaceId: string,
+  invitedBy: string,
+  invite: { email: string; role: WorkspaceRole }
+): Promise<WorkspaceInvite> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_invites")
+    .upsert(
+      { workspace_id: workspaceId, email: normalizeInviteEmail(invite.email), role: invite.role, invited_by: invitedBy },
+      { onConflict: "workspace_id,email" }
+    )
+    .select(INVITE_COLUMNS)
+    .single<WorkspaceInvite>();
+
+  if (error || !data) {
+    if (isMissingWorkspaces(error?.message)) {
+      throw missingWorkspacesError();
+    }
+    throw new Error(`Failed to invite workspace member: ${error?.message ?? "Unknown error"}`);
+  }
+  return data;
+}
+
+export async function listWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_invites")
+    .select(INVITE_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load workspace invites: ${error.message}`);
+  }
+  return (data ?? []) as WorkspaceInvite[];
+}
+
+export async function revokeWorkspaceInvite(workspaceId: string, inviteId: string): Promise<void> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_invites")
+    .delete()
+    .eq("id", inviteId)
+    .eq("workspace_id", workspaceId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to revoke workspace invite: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new WorkspaceError("Invite not found.", 404);
+  }
+}
+
+export async function listInvitesForEmail(email: string): Promise<WorkspaceInvite[]> {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_invites")
+    .select(`${INVITE_COLUMNS}, workspaces(name)`)
+    .eq("email", normalizeInviteEmail(email))
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    if (isMissingWorkspaces(error.message)) {
+      return [];
+    }
+    throw new Error(`Failed to load workspace invites: ${error.message}`);
+  }
+
+  return (data ?? []).map(({ workspaces, ...invite }) => {
+    const workspace = (Array.isArray(workspaces) ? workspaces[0] : workspaces) as
+      | { name: string }
+      | null
+      | undefined;
+    return { ...(invite as WorkspaceInvite), workspace_name: workspace?.name ?? null };
+  });
+}
+
+const loadInviteForEmail = async (inviteId: string, email: string) => {
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_invites")
+    .select(INVITE_COLUMNS)
+    .eq("id", inviteId)
+    .eq("email", normalizeInviteEmail(email))
+    .maybeSingle<WorkspaceInvite>();
+
+  if (error) {
+    throw new Error(`Failed to load workspace invite: ${error.message}`);
+  }
+  if (!data) {
+    throw new WorkspaceError("Invite not found.", 404);
+  }
+  return data;
+};
+
+// Joining an existing membership keeps the current role and just clears the invite.
+export async function acceptWorkspaceInvite(
+  member: { userId: string; email: string },
+  inviteId: string
+): Promise<WorkspaceMember | null> {
+  const invite = await loadInviteForEmail(inviteId, member.email);
+
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .insert({
+      workspace_id: invite.workspace_id,
+      user_id: member.userId,
+      email: invite.email,
+      role: invite.role,
+    })
+    .select("workspace_id, user_id, email, role, created_at")
+    .single<WorkspaceMember>();
+
+  if (error && error.code !== "23505") {
+    throw new Error(`Failed to join workspace: ${error.message}`);
+  }
+
+  const { error: deleteError } = await client.from("workspace_invites").delete().eq("id", invite.id);
+  if (deleteError) {
+    console.warn("workspace invite cleanup failed", invite.id, deleteError.message);
+  }
+  return data ?? null;
+}
+
+export async function declineWorkspaceInvite(email: string, inviteId: string): Promise<void> {
+  const invite = await loadInviteForEmail(inviteId, email);
+  const client = ensureAdmin();
+  const { error } = await client.from("workspace_invites").delete().eq("id", invite.id);
+  if (error) {
+    throw new Error(`Failed to decline workspace invite: ${error.message}`);
+  }
+}
+
+const assertNotOwner = async (workspaceId: string, memberId: string, message: string) => {
+  const workspace = await getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new WorkspaceError("Workspace not found.", 404);
+  }
+  if (workspace.owner_id === memberId) {
+    throw new WorkspaceError(message, 409);
+  }
+};
+
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  memberId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  await assertNotOwner(workspaceId, memberId, "The workspace owner always stays an admin.");
+
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .update({ role })
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", memberId)
+    .select("workspace_id, user_id, email, role, created_at")
+    .maybeSingle<WorkspaceMember>();
+
+  if (error) {
+    throw new Error(`Failed to update workspace member: ${error.message}`);
+  }
+  if (!data) {
+    throw new WorkspaceError("Member not found.", 404);
+  }
+  return data;
+}
+
+export async function removeWorkspaceMember(workspaceId: string, memberId: string): Promise<void> {
+  await assertNotOwner(workspaceId, memberId, "The workspace owner cannot leave. Delete the workspace instead.");
+
+  const client = ensureAdmin();
+  const { data, error } = await client
+    .from("workspace_members")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", memberId)
+    .select("user_id");
+
+  if (error) {
+    throw new Error(`Failed to remove workspace member: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new WorkspaceError("Member not found.", 404);
+  }
+}
+
+const loadScope = async (table: "analysis_folders" | "analysis_presets", id: string) => {
+  const client = ensureAdmin();
+  let { data, error } = await client
+    .from(table)
+    .select("id, user_id, workspace_id")
+    .eq("id", id)
+    .maybeSingle<LibraryScope>();
+
+  if (error?.message && error.message.toLowerCase().includes("workspace_id")) {
+    const fallback = await client
+      .from(table)
+      .select("id, user_id")
+      .eq("id", id)
+      .maybeSingle<Omit<LibraryScope, "workspace_id">>();
+    error = fallback.error;
+    data = fallback.data ? { ...fallback.data, workspace_id: null } : null;
+  }
+
+  if (error) {
+    throw new Error(`Failed to load ${table === "analysis_folders" ? "folder" : "preset"}: ${error.message}`);
+  }
+  return data ?? null;
+};
+
+// Personal items are only visible to their owner; workspace items need the given role.
+const assertScopeAccess = async (
+  userId: string,
+  scope: LibraryScope | null,
+  required: WorkspaceRole,
+  notFound: string
+): Promise<LibraryScope> => {
+  if (!scope) {
+    throw new WorkspaceError(notFound, 404);
+  }
+  if (!scope.workspace_id) {
+    if (scope.user_id !== userId) {
+      throw new WorkspaceError(notFound, 404);
+    }
+    return scope;
+  }
+
+  const role = await getWorkspaceRole(userId, scope.workspace_id);
+  if (!role) {
+    throw new WorkspaceError(notFound, 404);
+  }
+  if (!hasWorkspaceRole(role, required)) {
+    throw new WorkspaceError(`This needs the ${required} role in the workspace.`, 403);
+  }
+  return scope;
+};
+
+export async function resolveFolderAccess(
+  userId: string,
+  folderId: string,
+  required: WorkspaceRole
+): Promise<LibraryScope> {
+  return assertScopeAccess(userId, await loadScope("analysis_folders", folderId), required, "Folder not found.");
+}
+
+export async function resolvePresetAccess(
+  userId: string,
+  presetId: string,
+  required: WorkspaceRole
+): Promise<LibraryScope> {
+  return assertScopeAccess(userId, await loadScope("analysis_presets", presetId), required, "Preset not found.");
+}
@@ -1,6 +1,8 @@
 import { getPlan } from "@/lib/plans";
 import { dawIdToLabel, labelToDawId } from "@/lib/daws";
 import { getOrCreateProfile, type Profile } from "@/lib/profile";
+import { resetCreditsIfDue } from "@/lib/creditLedger";
+import { RequestError } from "@/lib/requestError";
 
 const BYPASS_PLAN_GATES = (() => {
   if (typeof process === "undefined") return false;
@@ -19,12 +21,9 @@ const BYPASS_PLAN_GATES = (() => {
 
 const PRO_PLAN_ID = "pro_29";
 
-export class PlanGateError extends Error {
-  status: number;
-
+export class PlanGateError extends RequestError {
   constructor(message: string, status = 403) {
-    super(message);
-    this.status = status;
+    super(message, status);
   }
 }
 
@@ -41,7 +40,7 @@ export type PlanFeatureFlag =
   | "priorityProcessing";
 
 export async function resolvePlanContext(userId: string): Promise<PlanContext> {
-  const profile = await getOrCreateProfile(userId);
+  const profile = await resetCreditsIfDue(await getOrCreateProfile(userId));
   if (BYPASS_PLAN_GATES) {
     const plan = getPlan(PRO_PLAN_ID);
     return {
@@ -85,18 +84,26 @@ export function assertQuotaAvailable(context: PlanContext) {
   if (remaining > 0) {
     return;
   }
+  throw quotaExceededError(context);
+}
+
+export function quotaExceededError(context: PlanContext): PlanGateError {
   const planName =
     context.plan.id === "standard_15"
       ? "Standard"
       : context.plan.id === "pro_29"
       ? "Pro"
       : "Free";
-  throw new PlanGateError(
+  return new PlanGateError(
     `You have used all ${context.plan.generationsPerMonth} analyses on the ${planName} plan. Upgrade or wait for your quota to reset.`,
     402
   );
 }
 
+export function shouldChargeCredits(): boolean {
+  return !BYPASS_PLAN_GATES;
+}
+
 export function assertFeature(
   plan: ReturnType<typeof getPlan>,
   feature: PlanFeatureFlag,
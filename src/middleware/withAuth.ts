@@ -0,0 +1,219 @@
+import { randomUUID } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isAdminUser } from "@/lib/admin";
+import { isRequestError, RequestError } from "@/lib/requestError";
+import { DAWS } from "@/data/daws";
+import {
+  assertDAWAllowed,
+  assertFeature,
+  isPlanGateError,
+  normalizeDawIdentifier,
+  resolvePlanContext,
+  type PlanContext,
+  type PlanFeatureFlag,
+} from "@/middleware/planGate";
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "quota_exceeded"
+  | "plan_upgrade_required"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "payload_too_large"
+  | "unprocessable"
+  | "internal_error"
+  | "bad_gateway"
+  | "service_unavailable";
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  402: "quota_exceeded",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  422: "unprocessable",
+  500: "internal_error",
+  502: "bad_gateway",
+  503: "service_unavailable",
+};
+
+const codeForStatus = (status: number): ApiErrorCode =>
+  STATUS_CODES[status] ?? (status >= 500 ? "internal_error" : "bad_request");
+
+export class ApiError extends RequestError {
+  code: ApiErrorCode;
+
+  constructor(message: string, status = 400, code?: ApiErrorCode) {
+    super(message, status);
+    this.code = code ?? codeForStatus(status);
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export type SupabaseAdminClient = NonNullable<typeof supabaseAdmin>;
+
+export type ApiContext<P> = {
+  requestId: string;
+  params: P;
+};
+
+export type AuthContext<P> = ApiContext<P> &
+  PlanContext & {
+    user: User;
+    supabase: SupabaseAdminClient;
+  };
+
+type RouteContext<P> = { params: Promise<P> };
+
+export type RouteHandler<P> = (request: NextRequest, context: RouteContext<P>) => Promise<Response>;
+
+export type DawSource = (
+  request: NextRequest
+) => Promise<string | null | undefined> | string | null | undefined;
+
+export type ApiHandlerOptions = {
+  // Message for unexpected failures; the details stay in the server log.
+  errorMessage?: string;
+};
+
+export type WithAuthOptions = ApiHandlerOptions & {
+  feature?: PlanFeatureFlag;
+  featureMessage?: string;
+  daw?: DawSource;
+  admin?: boolean;
+};
+
+const REQUEST_ID_PATTERN = /^[\w.-]{8,128}$/;
+
+const resolveRequestId = (request: Request) => {
+  const incoming = request.headers.get("x-request-id");
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+};
+
+export function errorResponse(requestId: string, message: string, status = 400, code?: ApiErrorCode) {
+  return NextResponse.json(
+    { error: message, code: code ?? codeForStatus(status), requestId },
+    { status, headers: { "X-Request-Id": requestId } }
+  );
+}
+
+// Our own request errors (ApiError, PlanGateError, AnalysisRequestError, PresetImportError,
+// PresetRevisionError, PresetShareError, WorkspaceError) extend RequestError and carry an HTTP
+// status and a message that is safe to show. Library errors that also carry a status, such as
+// Supabase or OpenAI API errors, fall through to the generic 500.
+const toErrorResponse = (error: unknown, requestId: string) => {
+  if (isApiError(error)) {
+    return errorResponse(requestId, error.message, error.status, error.code);
+  }
+  if (isPlanGateError(error)) {
+    const code = error.status === 403 ? "plan_upgrade_required" : undefined;
+    return errorResponse(requestId, error.message, error.status, code);
+  }
+  if (isRequestError(error) && error.status >= 400 && error.status < 600) {
+    return errorResponse(requestId, error.message, error.status);
+  }
+  return null;
+};
+
+// Adds a request ID and a consistent error shape to a route handler, without authentication.
+export function withApiHandler<P = Record<string, never>>(
+  handler: (request: NextRequest, context: ApiContext<P>) => Promise<Response>,
+  options: ApiHandlerOptions = {}
+): RouteHandler<P> {
+  return async (request, routeContext) => {
+    const requestId = resolveRequestId(request);
+    let response: Response;
+    try {
+      const params = ((await routeContext?.params) ?? {}) as P;
+      response = await handler(request, { requestId, params });
+    } catch (error) {
+      const handled = toErrorResponse(error, requestId);
+      if (!handled) {
+        console.error(`${request.method} ${new URL(request.url).pathname} error`, { requestId }, error);
+      }
+      response =
+        handled ??
+        errorResponse(requestId, options.errorMessage ?? "Something went wrong. Please try again later.", 500);
+    }
+    if (!response.headers.has("X-Request-Id")) {
+      response.headers.set("X-Request-Id", requestId);
+    }
+    return response;
+  };
+}
+
+// Authenticates the bearer token, resolves the caller's plan and applies the route's gates before
+// the handler runs, so handlers only parse their input once access is settled.
+export function withAuth<P = Record<string, never>>(
+  handler: (request: NextRequest, context: AuthContext<P>) => Promise<Response>,
+  options: WithAuthOptions = {}
+): RouteHandler<P> {
+  return withApiHandler<P>(async (request, context) => {
+    if (!supabaseAdmin) {
+      throw new ApiError(
+        "Supabase configuration missing. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.",
+        500
+      );
+    }
+
+    const authorization = request.headers.get("authorization");
+    if (!authorization?.startsWith("Bearer ")) {
+      throw new ApiError("Authorization header missing.", 401);
+    }
+
+    const accessToken = authorization.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAdmin.auth.getUser(accessToken);
+
+    if (authError || !user) {
+      throw new ApiError("Invalid or expired session.", 401);
+    }
+
+    if (options.admin && !isAdminUser(user)) {
+      throw new ApiError("Admin access required.", 403);
+    }
+
+    const planContext = await resolvePlanContext(user.id);
+    if (options.feature) {
+      assertFeature(planContext.plan, options.feature, options.featureMessage);
+    }
+    if (options.daw) {
+      const raw = await options.daw(request);
+      const dawId = raw ? normalizeDawIdentifier(raw) : null;
+      // Unknown DAWs are left to the handler's own validation.
+      if (dawId && dawId in DAWS) {
+        assertDAWAllowed(planContext.plan, dawId);
+      }
+    }
+
+    return handler(request, { ...context, ...planContext, user, supabase: supabaseAdmin });
+  }, options);
+}
+
+const readField = (record: unknown, field: string) => {
+  if (!record || typeof record !== "object") return null;
+  const value = (record as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : null;
+};
+
+export const dawFromQuery =
+  (field = "daw"): DawSource =>
+  (request) =>
+    new URL(request.url).searchParams.get(field);
+
+// Reads a clone so the handler can still consume the body.
+export const dawFromJson =
+  (field = "daw"): DawSource =>
+  async (request) =>
+    readField(await request.clone().json().catch(() => null), field);
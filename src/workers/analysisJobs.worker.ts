@@ -0,0 +1,128 @@
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  failStalledJobs,
+  loadJobUploads,
+  removeJobUploads,
+  type AnalysisJob,
+} from "@/lib/analysisJobs";
+import {
+  isAnalysisRequestError,
+  runAnalysisPipeline,
+  type AnalysisUploads,
+} from "@/lib/analyzePipeline";
+import { getOrCreateProfile } from "@/lib/profile";
+import type { EventSender } from "@/lib/sse";
+
+export type JobOutcome =
+  | { ok: true; result: Record<string, unknown> }
+  | { ok: false; error: string; status: number };
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Runs a claimed job to completion. Uploads come from storage unless the caller still holds them.
+export async function processAnalysisJob(
+  job: AnalysisJob,
+  uploads?: AnalysisUploads,
+  send?: EventSender
+): Promise<JobOutcome> {
+  try {
+    const payload = await runAnalysisPipeline(
+      {
+        userId: job.user_id,
+        planId: job.request.planId,
+        options: job.request,
+        uploads: uploads ?? (await loadJobUploads(job)),
+      },
+      send
+    );
+
+    let remainingCredits: number | null = null;
+    try {
+      remainingCredits = (await getOrCreateProfile(job.user_id)).credits;
+    } catch (error) {
+      console.warn("remaining credits lookup failed", error);
+    }
+
+    const result = { ...payload, jobId: job.id, remainingCredits };
+    await completeJob(job.id, result);
+    return { ok: true, result };
+  } catch (error) {
+    console.error("analysis job failed", job.id, error);
+    const outcome: JobOutcome = isAnalysisRequestError(error)
+      ? { ok: false, error: error.message, status: error.status }
+      : { ok: false, error: "Unable to analyze the audio clip. Please try again later.", status: 500 };
+    try {
+      await failJob(job.id, outcome.error);
+    } catch (failError) {
+      console.error("failJob failed", job.id, failError);
+    }
+    return outcome;
+  } finally {
+    if (!uploads) {
+      await removeJobUploads(job);
+    }
+  }
+}
+
+let draining: Promise<void> | null = null;
+let requested = false;
+
+// Drains queued jobs in this process. Calls made while draining trigger one more pass.
+export function kickJobWorker(): Promise<void> {
+  requested = true;
+  if (draining) {
+    return draining;
+  }
+
+  draining = (async () => {
+    try {
+      while (requested) {
+        requested = false;
+        for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+          await processAnalysisJob(job);
+        }
+      }
+    } catch (error) {
+      console.error("analysis job worker failed", error);
+    } finally {
+      draining = null;
+    }
+  })();
+  return draining;
+}
+
+// Runs jobs until `maxJobs` have finished or `budgetMs` has passed, for callers with a time
+// limit. The budget only stops new claims; a job already started runs to the end.
+export async function drainJobBatch(options: { maxJobs: number; budgetMs: number }): Promise<number> {
+  const deadline = Date.now() + options.budgetMs;
+  let processed = 0;
+  while (processed < options.maxJobs && Date.now() < deadline) {
+    const job = await claimNextJob();
+    if (!job) break;
+    await processAnalysisJob(job);
+    processed += 1;
+  }
+  return processed;
+}
+
+// Fails and refunds jobs that can no longer run. Errors are logged so draining still happens.
+export async function sweepStalledJobs(): Promise<number> {
+  try {
+    return await failStalledJobs();
+  } catch (error) {
+    console.error("stalled analysis job sweep failed", error);
+    return 0;
+  }
+}
+
+// Long-running loop for a dedicated worker process; also picks up jobs stalled by a crashed instance.
+export async function runJobWorker(options: { pollIntervalMs?: number; signal?: AbortSignal } = {}) {
+  const interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  while (!options.signal?.aborted) {
+    await sweepStalledJobs();
+    await kickJobWorker();
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
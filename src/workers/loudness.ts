@@ -0,0 +1,212 @@
+export type LoudnessMetrics = {
+  integrated_lufs: number;
+  momentary_max_lufs: number;
+  short_term_max_lufs: number;
+  loudness_range_lu: number;
+  true_peak_dbtp: number;
+  sample_peak_dbfs: number;
+};
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+const LOUDNESS_FLOOR = -70;
+const PEAK_FLOOR = -120;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const LRA_RELATIVE_GATE = -20;
+const SEGMENT_SECONDS = 0.1;
+const MOMENTARY_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+// BS.1770-4 stage 1 (high shelf) and stage 2 (RLB high-pass), re-derived for any sample rate.
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = 10 ** (gain / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float64Array, filter: Biquad): Float64Array {
+  const output = new Float64Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i += 1) {
+    const x0 = input[i];
+    const y0 = filter.b0 * x0 + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    output[i] = y0;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+  }
+  return output;
+}
+
+function powerToLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : Number.NEGATIVE_INFINITY;
+}
+
+function lufsToPower(lufs: number): number {
+  return 10 ** ((lufs + 0.691) / 10);
+}
+
+function round(value: number, floor: number): number {
+  return Number(Math.max(floor, Number.isFinite(value) ? value : floor).toFixed(2));
+}
+
+// Mean-square of the K-weighted, channel-summed signal per 100 ms segment.
+function segmentPowers(channels: Float32Array[], sampleRate: number): number[] {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const segmentLength = Math.round(sampleRate * SEGMENT_SECONDS);
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const segmentCount = Math.floor(length / segmentLength);
+  const powers = new Array<number>(segmentCount).fill(0);
+
+  for (const channel of channels) {
+    const weighted = applyBiquad(applyBiquad(Float64Array.from(channel.subarray(0, length)), shelf), highPass);
+    for (let segment = 0; segment < segmentCount; segment += 1) {
+      let sum = 0;
+      const start = segment * segmentLength;
+      for (let i = start; i < start + segmentLength; i += 1) {
+        sum += weighted[i] * weighted[i];
+      }
+      powers[segment] += sum / segmentLength;
+    }
+  }
+
+  return powers;
+}
+
+function blockPowers(segments: number[], blockSegments: number): number[] {
+  const blocks: number[] = [];
+  if (blockSegments <= 0) return blocks;
+  for (let start = 0; start + blockSegments <= segments.length; start += 1) {
+    let sum = 0;
+    for (let i = start; i < start + blockSegments; i += 1) {
+      sum += segments[i];
+    }
+    blocks.push(sum / blockSegments);
+  }
+  return blocks;
+}
+
+function gatedLoudness(blocks: number[]): number {
+  const absoluteFloor = lufsToPower(ABSOLUTE_GATE);
+  const aboveAbsolute = blocks.filter((power) => power > absoluteFloor);
+  if (!aboveAbsolute.length) return Number.NEGATIVE_INFINITY;
+  const ungated = aboveAbsolute.reduce((acc, power) => acc + power, 0) / aboveAbsolute.length;
+  const relativeFloor = lufsToPower(powerToLufs(ungated) + RELATIVE_GATE);
+  const gated = aboveAbsolute.filter((power) => power > relativeFloor);
+  if (!gated.length) return Number.NEGATIVE_INFINITY;
+  return powerToLufs(gated.reduce((acc, power) => acc + power, 0) / gated.length);
+}
+
+function loudnessRange(shortTermBlocks: number[]): number {
+  const absoluteFloor = lufsToPower(ABSOLUTE_GATE);
+  const aboveAbsolute = shortTermBlocks.filter((power) => power > absoluteFloor);
+  if (aboveAbsolute.length < 2) return 0;
+  const ungated = aboveAbsolute.reduce((acc, power) => acc + power, 0) / aboveAbsolute.length;
+  const relativeFloor = lufsToPower(powerToLufs(ungated) + LRA_RELATIVE_GATE);
+  const loudness = aboveAbsolute
+    .filter((power) => power > relativeFloor)
+    .map(powerToLufs)
+    .sort((a, b) => a - b);
+  if (loudness.length < 2) return 0;
+  const percentile = (p: number) => loudness[Math.round((loudness.length - 1) * p)];
+  return percentile(0.95) - percentile(0.1);
+}
+
+let interpolationPhases: Float64Array[] | null = null;
+
+// Hann-windowed sinc split into OVERSAMPLE polyphase branches.
+function getInterpolationPhases(): Float64Array[] {
+  if (interpolationPhases) return interpolationPhases;
+  const length = OVERSAMPLE * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const taps = Array.from({ length }, (_, n) => {
+    const t = (n - center) / OVERSAMPLE;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+    return sinc * window;
+  });
+  interpolationPhases = Array.from({ length: OVERSAMPLE }, (_, phase) => {
+    const branch = new Float64Array(TAPS_PER_PHASE);
+    for (let i = 0; i < TAPS_PER_PHASE; i += 1) {
+      branch[i] = taps[i * OVERSAMPLE + phase];
+    }
+    const gain = branch.reduce((acc, value) => acc + value, 0);
+    return branch.map((value) => value / gain);
+  });
+  return interpolationPhases;
+}
+
+export function truePeak(channels: Float32Array[]): number {
+  const phases = getInterpolationPhases();
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i += 1) {
+      for (const branch of phases) {
+        let sum = 0;
+        for (let tap = 0; tap < TAPS_PER_PHASE; tap += 1) {
+          const index = i - tap;
+          if (index >= 0) {
+            sum += branch[tap] * channel[index];
+          }
+        }
+        peak = Math.max(peak, Math.abs(sum));
+      }
+    }
+  }
+  return peak;
+}
+
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMetrics {
+  const segments = channels.length ? segmentPowers(channels, sampleRate) : [];
+  const momentary = blockPowers(segments, MOMENTARY_SEGMENTS);
+  const shortTerm = blockPowers(segments, SHORT_TERM_SEGMENTS);
+  // Clips shorter than 3 s still get a short-term reading over what is available.
+  const shortTermBlocks = shortTerm.length ? shortTerm : blockPowers(segments, segments.length);
+
+  const samplePeak = channels.reduce(
+    (peak, channel) => channel.reduce((acc, value) => Math.max(acc, Math.abs(value)), peak),
+    0
+  );
+  const interpolatedPeak = Math.max(samplePeak, truePeak(channels));
+
+  return {
+    integrated_lufs: round(gatedLoudness(momentary), LOUDNESS_FLOOR),
+    momentary_max_lufs: round(powerToLufs(Math.max(0, ...momentary)), LOUDNESS_FLOOR),
+    short_term_max_lufs: round(powerToLufs(Math.max(0, ...shortTermBlocks)), LOUDNESS_FLOOR),
+    loudness_range_lu: round(loudnessRange(shortTerm), 0),
+    true_peak_dbtp: round(20 * Math.log10(interpolatedPeak), PEAK_FLOOR),
+    sample_peak_dbfs: round(20 * Math.log10(samplePeak), PEAK_FLOOR),
+  };
+}
@@ -0,0 +1,49 @@
+import type { Metrics } from "./metrics.worker";
+import type { TonalBandDelta } from "./tonalBalance";
+
+export type MetricDeltas = {
+  // Reference minus user: positive values mean the user vocal needs more of it.
+  tonal_deltas: TonalBandDelta[];
+  integrated_lufs: number;
+  short_term_max_lufs: number;
+  loudness_range_lu: number;
+  true_peak_dbtp: number;
+  pitch_dev_cents: number;
+  centroid_hz: number;
+  transient_density: {
+    reference: Metrics["transient_density"];
+    user: Metrics["transient_density"];
+  };
+};
+
+function difference(reference: number, user: number): number {
+  if (!Number.isFinite(reference) || !Number.isFinite(user)) return 0;
+  return Number((reference - user).toFixed(2));
+}
+
+// Both profiles are already relative to their own mean, so bands compare directly.
+function tonalDeltas(reference: Metrics["tonal_profile"], user: Metrics["tonal_profile"]): TonalBandDelta[] {
+  const userLevels = new Map(user.map((band) => [band.center_hz, band.level_db]));
+  return reference.flatMap((band) => {
+    const userLevel = userLevels.get(band.center_hz);
+    return userLevel === undefined
+      ? []
+      : [{ center_hz: band.center_hz, delta_db: Number((band.level_db - userLevel).toFixed(1)) }];
+  });
+}
+
+export function compareMetrics(reference: Metrics, user: Metrics): MetricDeltas {
+  return {
+    tonal_deltas: tonalDeltas(reference.tonal_profile ?? [], user.tonal_profile ?? []),
+    integrated_lufs: difference(reference.integrated_lufs, user.integrated_lufs),
+    short_term_max_lufs: difference(reference.short_term_max_lufs, user.short_term_max_lufs),
+    loudness_range_lu: difference(reference.loudness_range_lu, user.loudness_range_lu),
+    true_peak_dbtp: difference(reference.true_peak_dbtp, user.true_peak_dbtp),
+    pitch_dev_cents: difference(reference.pitch_dev_cents, user.pitch_dev_cents),
+    centroid_hz: difference(reference.centroid_hz, user.centroid_hz),
+    transient_density: {
+      reference: reference.transient_density,
+      user: user.transient_density,
+    },
+  };
+}
@@ -5,13 +5,29 @@ import { mkdir, readFile, unlink, writeFile } from "fs/promises";
 import ffmpeg from "fluent-ffmpeg";
 import ffmpegStatic from "ffmpeg-static";
 import { transcribe15s } from "../lib/transcription";
+import { measureLoudness } from "./loudness";
+import { findCandidateSections, type SectionCandidate, type SectionScanOptions } from "./sections";
+import { downmix, resolveSeparator, type SeparationInfo } from "./separation";
+import { measureTonalProfile, type TonalBand } from "./tonalBalance";
+import { detectVocalIssues, type BandIssue } from "./vocalIssues";
 
 export type Metrics = {
   tempo_bpm: number;
   centroid_hz: number;
   mfcc_mean: number[];
   pitch_dev_cents: number;
+  // Kept for saved analyses; mirrors integrated_lufs.
   rms_lufs: number;
+  integrated_lufs: number;
+  momentary_max_lufs: number;
+  short_term_max_lufs: number;
+  loudness_range_lu: number;
+  true_peak_dbtp: number;
+  sibilance: BandIssue;
+  plosives: BandIssue;
+  harshness: BandIssue;
+  tonal_profile: TonalBand[];
+  separation: SeparationInfo;
   transient_density: "low" | "high";
   spectral_rolloff_hz: number;
   harmonic_to_noise_ratio: number;
@@ -23,6 +39,7 @@ type EssentiaModule = typeof import("essentia.js");
 
 const TARGET_SAMPLE_RATE = 44100;
 const CLIP_SECONDS = 15;
+const MAX_SCAN_SECONDS = 600;
 const FRAME_SIZE = 2048;
 const HOP_SIZE = 1024;
 const TMP_ROOT = join(tmpdir(), "chain-gen-metrics");
@@ -107,15 +124,20 @@ function sanitizeExt(filename?: string): string {
 
 async function trimToRaw(
   sourcePath: string,
-  targetPath: string
+  targetPath: string,
+  options: { offset?: number; duration?: number; channels?: number } = {}
 ): Promise<void> {
   await new Promise<void>((resolve, reject) => {
-    ffmpeg(sourcePath)
+    const command = ffmpeg(sourcePath);
+    if (options.offset && options.offset > 0) {
+      command.seekInput(options.offset);
+    }
+    command
       .audioFrequency(TARGET_SAMPLE_RATE)
-      .audioChannels(1)
+      .audioChannels(options.channels ?? 1)
       .audioCodec("pcm_f32le")
       .format("f32le")
-      .duration(CLIP_SECONDS)
+      .duration(options.duration ?? CLIP_SECONDS)
       .output(targetPath)
       .on("end", () => resolve())
       .on("error", (error) => reject(error))
@@ -123,9 +145,78 @@ async function trimToRaw(
   });
 }
 
+async function decodeToFloat32(
+  buffer: Buffer,
+  filename: string | undefined,
+  options: { offset?: number; duration?: number } = {}
+): Promise<Float32Array> {
+  await ensureTmpDir();
+  const uniqueId = randomUUID();
+  const inputPath = join(TMP_ROOT, `${uniqueId}_in${sanitizeExt(filename)}`);
+  const outputPath = join(TMP_ROOT, `${uniqueId}_out.f32`);
+
+  try {
+    await writeFile(inputPath, buffer);
+    await trimToRaw(inputPath, outputPath, options);
+    const rawBuffer = await readFile(outputPath);
+    return new Float32Array(
+      rawBuffer.buffer.slice(rawBuffer.byteOffset, rawBuffer.byteOffset + rawBuffer.byteLength)
+    );
+  } finally {
+    await Promise.allSettled([unlink(inputPath), unlink(outputPath)]);
+  }
+}
+
+export type SectionScan = {
+  duration: number;
+  candidates: SectionCandidate[];
+};
+
+export async function scanSections(
+  buffer: Buffer,
+  filename?: string,
+  options: SectionScanOptions = {}
+): Promise<SectionScan> {
+  if (!buffer || buffer.length === 0) {
+    throw new Error("Audio buffer is empty.");
+  }
+
+  const audio = await decodeToFloat32(buffer, filename, { duration: MAX_SCAN_SECONDS });
+  if (!audio.length) {
+    throw new Error("Decoded audio has no samples.");
+  }
+
+  return {
+    duration: Number((audio.length / TARGET_SAMPLE_RATE).toFixed(2)),
+    candidates: findCandidateSections(audio, TARGET_SAMPLE_RATE, {
+      windowSeconds: CLIP_SECONDS,
+      ...options,
+    }),
+  };
+}
+
+function deinterleave(samples: Float32Array): { left: Float32Array; right: Float32Array } {
+  const frames = Math.floor(samples.length / 2);
+  const left = new Float32Array(frames);
+  const right = new Float32Array(frames);
+  for (let i = 0; i < frames; i += 1) {
+    left[i] = samples[2 * i];
+    right[i] = samples[2 * i + 1];
+  }
+  return { left, right };
+}
+
+function isDualMono(left: Float32Array, right: Float32Array): boolean {
+  for (let i = 0; i < left.length; i += 1) {
+    if (Math.abs(left[i] - right[i]) > 1e-6) return false;
+  }
+  return true;
+}
+
 export async function extractMetrics(
   buffer: Buffer,
-  filename?: string
+  filename?: string,
+  options: { offset?: number; separate?: boolean; separator?: string } = {}
 ): Promise<Metrics> {
   if (!buffer || buffer.length === 0) {
     throw new Error("Audio buffer is empty.");
@@ -141,14 +232,35 @@ export async function extractMetrics(
 
   try {
     await writeFile(inputPath, buffer);
-    await trimToRaw(inputPath, outputPath);
+    await trimToRaw(inputPath, outputPath, { offset: options.offset, channels: 2 });
 
     const rawBuffer = await readFile(outputPath);
     const pcmBuffer = rawBuffer.buffer.slice(
       rawBuffer.byteOffset,
       rawBuffer.byteOffset + rawBuffer.byteLength
     );
-    const audio = new Float32Array(pcmBuffer);
+    const { left, right } = deinterleave(new Float32Array(pcmBuffer));
+    // BS.1770 sums the channels, so loudness and true peak need both of them. A mono source
+    // decodes to two identical channels and is measured as one.
+    const mono = isDualMono(left, right);
+    const loudnessChannels = mono ? [left] : [left, right];
+    const mixdown = downmix({ left, right, sampleRate: TARGET_SAMPLE_RATE });
+
+    // Isolate the lead vocal from full mixes so spectral and pitch metrics ignore drums and bass.
+    // A mono source has no stereo image to separate on. Loudness, vocal issues and the tonal
+    // profile always read the mixdown, because the mask drops the lows and the noisy highs
+    // those measurements look at.
+    let audio: Float32Array = mixdown;
+    let separation: SeparationInfo = { applied: false, method: null, vocal_ratio: null };
+    if (options.separate && !mono) {
+      const { vocal, ...info } = await resolveSeparator(options.separator).separate({
+        left,
+        right,
+        sampleRate: TARGET_SAMPLE_RATE,
+      });
+      audio = vocal;
+      separation = info;
+    }
 
     if (!audio.length) {
       throw new Error("Decoded audio has no samples.");
@@ -224,23 +336,9 @@ export async function extractMetrics(
       }
     }
 
-    const rmsVector = spectral.spectral_rms;
-    const rmsValues: number[] = [];
-    if (rmsVector?.size) {
-      for (let i = 0; i < rmsVector.size(); i += 1) {
-        const value = rmsVector.get(i);
-        if (Number.isFinite(value) && value > 0) {
-          rmsValues.push(value);
-        }
-      }
-    }
-
-    const meanRms = mean(rmsValues);
-    const rmsLufsRaw =
-      meanRms > 0 ? Number((-0.691 * Math.log(meanRms)).toFixed(2)) : -Infinity;
-    const rmsLufs = Number.isFinite(rmsLufsRaw)
-      ? rmsLufsRaw
-      : Number((-0.691 * Math.log(Math.max(meanRms, 1e-6))).toFixed(2));
+    const loudness = measureLoudness(loudnessChannels, TARGET_SAMPLE_RATE);
+    const vocalIssues = detectVocalIssues(mixdown, TARGET_SAMPLE_RATE);
+    const tonalProfile = measureTonalProfile(mixdown, TARGET_SAMPLE_RATE);
 
     const fluxVector = spectral.spectral_flux;
     const fluxValues: number[] = [];
@@ -344,7 +442,17 @@ export async function extractMetrics(
       centroid_hz: Number(centroidHz.toFixed(2)),
       mfcc_mean: mfccMean,
       pitch_dev_cents: pitchDevCents,
-      rms_lufs: rmsLufs,
+      rms_lufs: loudness.integrated_lufs,
+      integrated_lufs: loudness.integrated_lufs,
+      momentary_max_lufs: loudness.momentary_max_lufs,
+      short_term_max_lufs: loudness.short_term_max_lufs,
+      loudness_range_lu: loudness.loudness_range_lu,
+      true_peak_dbtp: loudness.true_peak_dbtp,
+      sibilance: vocalIssues.sibilance,
+      plosives: vocalIssues.plosives,
+      harshness: vocalIssues.harshness,
+      tonal_profile: tonalProfile,
+      separation,
       transient_density: transientDensity,
       spectral_rolloff_hz: Number(spectralRolloffHz.toFixed(2)),
       harmonic_to_noise_ratio: Number(harmonicToNoiseRatio.toFixed(2)),
@@ -0,0 +1,153 @@
+export type SectionCandidate = {
+  start: number;
+  end: number;
+  score: number;
+  vocal_presence: number;
+  energy_db: number;
+};
+
+export type SectionScanOptions = {
+  windowSeconds?: number;
+  hopSeconds?: number;
+  limit?: number;
+};
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+const FRAME_SECONDS = 0.5;
+const SILENCE_DB = -50;
+const VOCAL_LOW_HZ = 300;
+const VOCAL_HIGH_HZ = 3400;
+const VOCAL_WEIGHT = 0.6;
+const ENERGY_WEIGHT = 0.4;
+const MAX_OVERLAP = 0.5;
+
+// RBJ cookbook second-order sections, Q = 1/sqrt(2).
+function passFilter(kind: "high" | "low", frequency: number, sampleRate: number): Biquad {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b1 = kind === "high" ? -(1 + cos) : 1 - cos;
+  const b0 = kind === "high" ? (1 + cos) / 2 : (1 - cos) / 2;
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b0 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+function filterInPlace(samples: Float64Array, filter: Biquad) {
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    const x0 = samples[i];
+    const y0 = filter.b0 * x0 + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    samples[i] = y0;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+  }
+}
+
+function toDb(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -120;
+}
+
+function frameEnergies(audio: Float32Array, sampleRate: number) {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const band = Float64Array.from(audio);
+  filterInPlace(band, passFilter("high", VOCAL_LOW_HZ, sampleRate));
+  filterInPlace(band, passFilter("low", VOCAL_HIGH_HZ, sampleRate));
+
+  const frames: Array<{ total: number; vocal: number }> = [];
+  for (let start = 0; start + frameLength <= audio.length; start += frameLength) {
+    let total = 0;
+    let vocal = 0;
+    for (let i = start; i < start + frameLength; i += 1) {
+      total += audio[i] * audio[i];
+      vocal += band[i] * band[i];
+    }
+    frames.push({ total: total / frameLength, vocal: vocal / frameLength });
+  }
+  return frames;
+}
+
+function overlapRatio(a: SectionCandidate, b: SectionCandidate): number {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  return overlap > 0 ? overlap / Math.min(a.end - a.start, b.end - b.start) : 0;
+}
+
+// Scores overlapping windows for vocal-band presence and energy and keeps the best distinct ones.
+export function findCandidateSections(
+  audio: Float32Array,
+  sampleRate: number,
+  options: SectionScanOptions = {}
+): SectionCandidate[] {
+  const windowSeconds = options.windowSeconds ?? 15;
+  const hopSeconds = options.hopSeconds ?? 5;
+  const limit = options.limit ?? 3;
+  const frames = frameEnergies(audio, sampleRate);
+  if (!frames.length) return [];
+
+  const framesPerWindow = Math.max(1, Math.min(frames.length, Math.round(windowSeconds / FRAME_SECONDS)));
+  const framesPerHop = Math.max(1, Math.round(hopSeconds / FRAME_SECONDS));
+
+  const lastFirst = frames.length - framesPerWindow;
+  const starts: number[] = [];
+  for (let first = 0; first <= lastFirst; first += framesPerHop) {
+    starts.push(first);
+  }
+  // The hop rarely divides the track evenly, so one more window ends on the last frame and the
+  // tail, often a final chorus, is still scored.
+  if (starts[starts.length - 1] !== lastFirst) {
+    starts.push(lastFirst);
+  }
+
+  const windows: Array<Omit<SectionCandidate, "score">> = [];
+  for (const first of starts) {
+    const slice = frames.slice(first, first + framesPerWindow);
+    const active = slice.filter((frame) => toDb(frame.total) > SILENCE_DB);
+    const energy = slice.reduce((acc, frame) => acc + frame.total, 0) / slice.length;
+    const vocal = active.length
+      ? active.reduce((acc, frame) => acc + Math.min(1, frame.vocal / frame.total), 0) / slice.length
+      : 0;
+    windows.push({
+      start: first * FRAME_SECONDS,
+      end: (first + framesPerWindow) * FRAME_SECONDS,
+      vocal_presence: vocal,
+      energy_db: toDb(energy),
+    });
+  }
+
+  const loudest = Math.max(...windows.map((window) => window.energy_db));
+  const scored = windows
+    .map((window) => {
+      const energyScore = Math.min(1, Math.max(0, 1 + (window.energy_db - loudest) / 20));
+      return {
+        ...window,
+        score: VOCAL_WEIGHT * window.vocal_presence + ENERGY_WEIGHT * energyScore,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const picked: SectionCandidate[] = [];
+  for (const candidate of scored) {
+    if (picked.length >= limit) break;
+    if (picked.some((existing) => overlapRatio(existing, candidate) > MAX_OVERLAP)) continue;
+    picked.push(candidate);
+  }
+
+  return picked.map((candidate) => ({
+    start: Number(candidate.start.toFixed(2)),
+    end: Number(candidate.end.toFixed(2)),
+    score: Number(candidate.score.toFixed(3)),
+    vocal_presence: Number(candidate.vocal_presence.toFixed(3)),
+    energy_db: Number(candidate.energy_db.toFixed(2)),
+  }));
+}
@@ -0,0 +1,162 @@
+import { istft, stft, type Stft } from "./spectrum";
+
+export type StereoAudio = {
+  left: Float32Array;
+  right: Float32Array;
+  sampleRate: number;
+};
+
+export type SeparationInfo = {
+  applied: boolean;
+  method: string | null;
+  // Energy of the isolated vocal relative to the mono downmix.
+  vocal_ratio: number | null;
+};
+
+export type SeparationResult = SeparationInfo & {
+  vocal: Float32Array;
+};
+
+// Implementations must stay CPU-only; heavier model-backed separators plug in here too.
+export interface VocalSeparator {
+  id: string;
+  label: string;
+  separate(audio: StereoAudio): Promise<SeparationResult>;
+}
+
+const FFT_SIZE = 2048;
+const HOP_SIZE = 512;
+const HARMONIC_KERNEL = 17;
+const PERCUSSIVE_KERNEL = 17;
+const CENTER_SHARPNESS = 4;
+const VOCAL_LOW_HZ = 80;
+const VOCAL_HIGH_HZ = 16000;
+
+export function downmix(audio: StereoAudio): Float32Array {
+  return Float32Array.from(audio.left, (value, i) => 0.5 * (value + (audio.right[i] ?? value)));
+}
+
+function energy(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    sum += samples[i] * samples[i];
+  }
+  return sum;
+}
+
+function median(window: Float64Array, count: number): number {
+  const sorted = window.subarray(0, count).sort();
+  return sorted[Math.floor(count / 2)];
+}
+
+// Median filter along one axis of a frames x bins magnitude grid.
+function medianFilter(grid: Float64Array[], kernel: number, axis: "time" | "frequency"): Float64Array[] {
+  const frames = grid.length;
+  const bins = grid[0]?.length ?? 0;
+  const radius = Math.floor(kernel / 2);
+  const scratch = new Float64Array(kernel);
+  const output = grid.map(() => new Float64Array(bins));
+
+  for (let frame = 0; frame < frames; frame += 1) {
+    for (let bin = 0; bin < bins; bin += 1) {
+      let count = 0;
+      for (let offset = -radius; offset <= radius; offset += 1) {
+        if (axis === "time") {
+          const index = frame + offset;
+          if (index >= 0 && index < frames) scratch[count++] = grid[index][bin];
+        } else {
+          const index = bin + offset;
+          if (index >= 0 && index < bins) scratch[count++] = grid[frame][index];
+        }
+      }
+      output[frame][bin] = median(scratch, count);
+    }
+  }
+  return output;
+}
+
+// Keeps in-phase center content, then the harmonic part of it (Fitzgerald HPSS soft mask).
+function centerHarmonicMask(left: Stft, right: Stft, sampleRate: number): Float64Array[] {
+  const binHz = sampleRate / FFT_SIZE;
+  const firstBin = Math.ceil(VOCAL_LOW_HZ / binHz);
+  const lastBin = Math.floor(VOCAL_HIGH_HZ / binHz);
+
+  const centerMask: Float64Array[] = [];
+  const centerMagnitude: Float64Array[] = [];
+  left.re.forEach((leftRe, frame) => {
+    const leftIm = left.im[frame];
+    const rightRe = right.re[frame];
+    const rightIm = right.im[frame];
+    const mask = new Float64Array(leftRe.length);
+    const magnitude = new Float64Array(leftRe.length);
+    for (let bin = 0; bin < leftRe.length; bin += 1) {
+      const power =
+        leftRe[bin] * leftRe[bin] + leftIm[bin] * leftIm[bin] + rightRe[bin] * rightRe[bin] + rightIm[bin] * rightIm[bin];
+      const cross = leftRe[bin] * rightRe[bin] + leftIm[bin] * rightIm[bin];
+      const similarity = power > 0 ? Math.max(0, (2 * cross) / power) : 0;
+      mask[bin] = bin >= firstBin && bin <= lastBin ? similarity ** CENTER_SHARPNESS : 0;
+      const midRe = 0.5 * (leftRe[bin] + rightRe[bin]);
+      const midIm = 0.5 * (leftIm[bin] + rightIm[bin]);
+      magnitude[bin] = mask[bin] * Math.hypot(midRe, midIm);
+    }
+    centerMask.push(mask);
+    centerMagnitude.push(magnitude);
+  });
+
+  const harmonic = medianFilter(centerMagnitude, HARMONIC_KERNEL, "time");
+  const percussive = medianFilter(centerMagnitude, PERCUSSIVE_KERNEL, "frequency");
+
+  return centerMask.map((mask, frame) =>
+    mask.map((value, bin) => {
+      const h = harmonic[frame][bin] ** 2;
+      const p = percussive[frame][bin] ** 2;
+      return h + p > 0 ? value * (h / (h + p)) : 0;
+    })
+  );
+}
+
+export const centerHarmonicSeparator: VocalSeparator = {
+  id: "center_hpss",
+  label: "Center channel + harmonic/percussive separation",
+  async separate(audio) {
+    const mix = downmix(audio);
+    const mixEnergy = energy(mix);
+    if (mix.length < FFT_SIZE || mixEnergy === 0) {
+      return { vocal: mix, applied: false, method: null, vocal_ratio: null };
+    }
+
+    const left = stft(audio.left, FFT_SIZE, HOP_SIZE);
+    const right = stft(audio.right, FFT_SIZE, HOP_SIZE);
+    const mask = centerHarmonicMask(left, right, audio.sampleRate);
+
+    const vocalSpectrum: Stft = {
+      ...left,
+      re: left.re.map((frame, index) =>
+        frame.map((value, bin) => mask[index][bin] * 0.5 * (value + right.re[index][bin]))
+      ),
+      im: left.im.map((frame, index) =>
+        frame.map((value, bin) => mask[index][bin] * 0.5 * (value + right.im[index][bin]))
+      ),
+    };
+    const vocal = istft(vocalSpectrum);
+
+    return {
+      vocal,
+      applied: true,
+      method: this.id,
+      vocal_ratio: Number((energy(vocal) / mixEnergy).toFixed(3)),
+    };
+  },
+};
+
+export const SEPARATORS: Record<string, VocalSeparator> = {
+  [centerHarmonicSeparator.id]: centerHarmonicSeparator,
+};
+
+export function registerSeparator(separator: VocalSeparator) {
+  SEPARATORS[separator.id] = separator;
+}
+
+export function resolveSeparator(id?: string | null): VocalSeparator {
+  return (id && SEPARATORS[id]) || centerHarmonicSeparator;
+}
@@ -0,0 +1,149 @@
+export type Band = { low: number; high: number };
+
+const ISTFT_WEIGHT_FLOOR = 0.1;
+
+const hannWindows = new Map<number, Float64Array>();
+
+function getWindow(size: number): Float64Array {
+  let window = hannWindows.get(size);
+  if (!window) {
+    window = Float64Array.from(
+      { length: size },
+      (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1))
+    );
+    hannWindows.set(size, window);
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT.
+export function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i += 1) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k += 1) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+// One-sided power per bin, scaled so a band's sum is its mean-square level.
+export function powerSpectra(audio: Float32Array, fftSize: number, hopSize: number): Float64Array[] {
+  const window = getWindow(fftSize);
+  const windowPower = window.reduce((acc, value) => acc + value * value, 0);
+  const spectra: Float64Array[] = [];
+  for (let start = 0; start + fftSize <= audio.length; start += hopSize) {
+    const re = new Float64Array(fftSize);
+    const im = new Float64Array(fftSize);
+    for (let i = 0; i < fftSize; i += 1) {
+      re[i] = audio[start + i] * window[i];
+    }
+    fft(re, im);
+    const power = new Float64Array(fftSize / 2 + 1);
+    for (let bin = 0; bin < power.length; bin += 1) {
+      power[bin] = (2 * (re[bin] * re[bin] + im[bin] * im[bin])) / (fftSize * windowPower);
+    }
+    spectra.push(power);
+  }
+  return spectra;
+}
+
+export function toDb(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -120;
+}
+
+export function bandPower(spectrum: Float64Array, band: Band, binHz: number): number {
+  const first = Math.max(1, Math.ceil(band.low / binHz));
+  const last = Math.min(spectrum.length - 1, Math.floor(band.high / binHz));
+  let sum = 0;
+  for (let bin = first; bin <= last; bin += 1) {
+    sum += spectrum[bin];
+  }
+  return sum;
+}
+
+export type Stft = {
+  size: number;
+  hop: number;
+  length: number;
+  // Bins 0..size/2 per frame.
+  re: Float64Array[];
+  im: Float64Array[];
+};
+
+export function stft(audio: Float32Array, size: number, hop: number): Stft {
+  const window = getWindow(size);
+  const re: Float64Array[] = [];
+  const im: Float64Array[] = [];
+  for (let start = 0; start + size <= audio.length; start += hop) {
+    const frameRe = new Float64Array(size);
+    const frameIm = new Float64Array(size);
+    for (let i = 0; i < size; i += 1) {
+      frameRe[i] = audio[start + i] * window[i];
+    }
+    fft(frameRe, frameIm);
+    re.push(frameRe.slice(0, size / 2 + 1));
+    im.push(frameIm.slice(0, size / 2 + 1));
+  }
+  return { size, hop, length: audio.length, re, im };
+}
+
+// Weighted overlap-add inverse of stft(). The weight floor keeps the window edges at the start
+// and end of the clip from amplifying masked (non-consistent) spectra.
+export function istft(spectrum: Stft): Float32Array {
+  const { size, hop, length, re, im } = spectrum;
+  const window = getWindow(size);
+  const output = new Float64Array(length);
+  const weight = new Float64Array(length);
+  const half = size / 2;
+
+  re.forEach((frameRe, frame) => {
+    const frameIm = im[frame];
+    const fullRe = new Float64Array(size);
+    const fullIm = new Float64Array(size);
+    for (let bin = 0; bin <= half; bin += 1) {
+      // Conjugated input so the forward FFT computes the inverse.
+      fullRe[bin] = frameRe[bin];
+      fullIm[bin] = -frameIm[bin];
+      if (bin > 0 && bin < half) {
+        fullRe[size - bin] = frameRe[bin];
+        fullIm[size - bin] = frameIm[bin];
+      }
+    }
+    fft(fullRe, fullIm);
+    const start = frame * hop;
+    for (let i = 0; i < size; i += 1) {
+      output[start + i] += (fullRe[i] / size) * window[i];
+      weight[start + i] += window[i] * window[i];
+    }
+  });
+
+  return Float32Array.from(output, (value, i) => value / Math.max(weight[i], ISTFT_WEIGHT_FLOOR));
+}
@@ -0,0 +1,101 @@
+import { TONAL_BAND_CENTERS_HZ, TONAL_REFERENCES, type TonalReference } from "../data/tonalReferences";
+import { bandPower, powerSpectra, toDb } from "./spectrum";
+
+export type TonalBand = {
+  center_hz: number;
+  level_db: number;
+};
+
+export type TonalBandDelta = {
+  center_hz: number;
+  delta_db: number;
+};
+
+export type TonalComparison = {
+  reference: string;
+  label: string;
+  // RMS of the per-band deltas; lower means a closer match.
+  deviation_db: number;
+  deltas: TonalBandDelta[];
+};
+
+const FFT_SIZE = 8192;
+const HOP_SIZE = 4096;
+const SILENCE_DB = -100;
+const THIRD_OCTAVE = 2 ** (1 / 6);
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// Long-term 1/3-octave spectrum over the whole clip, relative to its own mean level.
+export function measureTonalProfile(audio: Float32Array, sampleRate: number): TonalBand[] {
+  const spectra = powerSpectra(audio, FFT_SIZE, HOP_SIZE);
+  if (!spectra.length) return [];
+
+  const average = new Float64Array(spectra[0].length);
+  for (const spectrum of spectra) {
+    for (let bin = 0; bin < average.length; bin += 1) {
+      average[bin] += spectrum[bin] / spectra.length;
+    }
+  }
+
+  const binHz = sampleRate / FFT_SIZE;
+  const bands = TONAL_BAND_CENTERS_HZ.filter((center) => center * THIRD_OCTAVE < sampleRate / 2).map(
+    (center) => ({
+      center_hz: center,
+      level_db: toDb(bandPower(average, { low: center / THIRD_OCTAVE, high: center * THIRD_OCTAVE }, binHz)),
+    })
+  );
+  if (!bands.some((band) => band.level_db > SILENCE_DB)) return [];
+
+  const meanLevel = bands.reduce((acc, band) => acc + band.level_db, 0) / bands.length;
+  return bands.map((band) => ({ center_hz: band.center_hz, level_db: round(band.level_db - meanLevel) }));
+}
+
+// Measured minus reference per band, with the overall offset removed.
+export function compareTonalProfile(
+  profile: TonalBand[],
+  reference: TonalReference
+): TonalComparison | null {
+  const pairs = profile.flatMap((band) => {
+    const index = TONAL_BAND_CENTERS_HZ.indexOf(band.center_hz as (typeof TONAL_BAND_CENTERS_HZ)[number]);
+    return index === -1 ? [] : [{ center_hz: band.center_hz, raw: band.level_db - reference.curve[index] }];
+  });
+  if (!pairs.length) return null;
+
+  const offset = pairs.reduce((acc, pair) => acc + pair.raw, 0) / pairs.length;
+  const deltas = pairs.map((pair) => ({ center_hz: pair.center_hz, delta_db: round(pair.raw - offset) }));
+  const deviation = Math.sqrt(
+    deltas.reduce((acc, delta) => acc + delta.delta_db * delta.delta_db, 0) / deltas.length
+  );
+
+  return {
+    reference: reference.id,
+    label: reference.label,
+    deviation_db: round(deviation),
+    deltas,
+  };
+}
+
+// Compares against the requested reference, or the closest stored curve when none is given.
+export function compareToReferences(
+  profile: TonalBand[],
+  referenceId?: string | null
+): TonalComparison | null {
+  const requested = referenceId
+    ? TONAL_REFERENCES.find((reference) => reference.id === referenceId)
+    : undefined;
+  if (requested) {
+    return compareTonalProfile(profile, requested);
+  }
+
+  let closest: TonalComparison | null = null;
+  for (const reference of TONAL_REFERENCES) {
+    const comparison = compareTonalProfile(profile, reference);
+    if (comparison && (!closest || comparison.deviation_db < closest.deviation_db)) {
+      closest = comparison;
+    }
+  }
+  return closest;
+}
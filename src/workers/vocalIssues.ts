@@ -0,0 +1,141 @@
+import { bandPower, powerSpectra, toDb, type Band } from "./spectrum";
+
+export type IssueSeverity = "none" | "mild" | "moderate" | "severe";
+
+export type BandIssue = {
+  events: number;
+  peak_hz: number | null;
+  peak_level_db: number | null;
+  severity: IssueSeverity;
+};
+
+export type VocalIssues = {
+  sibilance: BandIssue;
+  plosives: BandIssue;
+  harshness: BandIssue;
+};
+
+type DetectorConfig = {
+  band: Band;
+  // Minimum share of frame energy the band must carry.
+  minRatio: number;
+  // dB above the band's median level that counts as a burst.
+  burstDb: number;
+  // Longest run, in frames, that still counts as a single event (0 = unlimited).
+  maxRunFrames: number;
+  // Compare against this band instead of the band's own median (harshness).
+  reference?: Band;
+};
+
+const FFT_SIZE = 1024;
+const HOP_SIZE = 512;
+const SILENCE_DB = -50;
+const EMPTY_ISSUE: BandIssue = { events: 0, peak_hz: null, peak_level_db: null, severity: "none" };
+
+const DETECTORS: Record<keyof VocalIssues, DetectorConfig> = {
+  sibilance: { band: { low: 5000, high: 10000 }, minRatio: 0.3, burstDb: 10, maxRunFrames: 0 },
+  plosives: { band: { low: 20, high: 150 }, minRatio: 0.5, burstDb: 12, maxRunFrames: 12 },
+  harshness: {
+    band: { low: 2000, high: 4000 },
+    minRatio: 0.2,
+    burstDb: 0,
+    maxRunFrames: 0,
+    reference: { low: 500, high: 2000 },
+  },
+};
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function severityFor(excessDb: number, activeShare: number): IssueSeverity {
+  const score = excessDb + activeShare * 20;
+  if (score >= 12) return "severe";
+  if (score >= 6) return "moderate";
+  return "mild";
+}
+
+function detect(
+  spectra: Float64Array[],
+  totals: number[],
+  active: boolean[],
+  config: DetectorConfig,
+  binHz: number
+): BandIssue {
+  const levels = spectra.map((spectrum) => toDb(bandPower(spectrum, config.band, binHz)));
+  const activeLevels = levels.filter((_, index) => active[index]);
+  if (!activeLevels.length) return EMPTY_ISSUE;
+
+  const baseline = median(activeLevels);
+  const flagged = spectra.map((spectrum, index) => {
+    if (!active[index]) return false;
+    const ratio = bandPower(spectrum, config.band, binHz) / totals[index];
+    if (ratio < config.minRatio) return false;
+    if (config.reference) {
+      return levels[index] - toDb(bandPower(spectrum, config.reference, binHz)) > config.burstDb;
+    }
+    return levels[index] - baseline > config.burstDb;
+  });
+
+  const runs: Array<{ start: number; end: number }> = [];
+  flagged.forEach((isFlagged, index) => {
+    if (!isFlagged) return;
+    const last = runs[runs.length - 1];
+    if (last && last.end === index - 1) {
+      last.end = index;
+    } else {
+      runs.push({ start: index, end: index });
+    }
+  });
+  const events = runs.filter(
+    (run) => config.maxRunFrames === 0 || run.end - run.start + 1 <= config.maxRunFrames
+  );
+  if (!events.length) return EMPTY_ISSUE;
+
+  const firstBin = Math.max(1, Math.ceil(config.band.low / binHz));
+  const lastBin = Math.min(spectra[0].length - 1, Math.floor(config.band.high / binHz));
+  const summed = new Float64Array(lastBin + 1);
+  let peakLevel = -120;
+  let eventFrames = 0;
+  for (const run of events) {
+    for (let frame = run.start; frame <= run.end; frame += 1) {
+      eventFrames += 1;
+      peakLevel = Math.max(peakLevel, levels[frame]);
+      for (let bin = firstBin; bin <= lastBin; bin += 1) {
+        summed[bin] += spectra[frame][bin];
+      }
+    }
+  }
+  let peakBin = firstBin;
+  for (let bin = firstBin; bin <= lastBin; bin += 1) {
+    if (summed[bin] > summed[peakBin]) peakBin = bin;
+  }
+
+  const activeCount = active.filter(Boolean).length;
+  return {
+    events: events.length,
+    peak_hz: Math.round(peakBin * binHz),
+    peak_level_db: Number(peakLevel.toFixed(1)),
+    severity: severityFor(peakLevel - baseline, eventFrames / Math.max(1, activeCount)),
+  };
+}
+
+// Frame-wise band energy tracking for de-esser, low-cut and presence-EQ decisions.
+export function detectVocalIssues(audio: Float32Array, sampleRate: number): VocalIssues {
+  const spectra = powerSpectra(audio, FFT_SIZE, HOP_SIZE);
+  if (!spectra.length) {
+    return { sibilance: EMPTY_ISSUE, plosives: EMPTY_ISSUE, harshness: EMPTY_ISSUE };
+  }
+
+  const binHz = sampleRate / FFT_SIZE;
+  const totals = spectra.map((spectrum) => spectrum.reduce((acc, value) => acc + value, 0));
+  const active = totals.map((total) => toDb(total) > SILENCE_DB);
+
+  return {
+    sibilance: detect(spectra, totals, active, DETECTORS.sibilance, binHz),
+    plosives: detect(spectra, totals, active, DETECTORS.plosives, binHz),
+    harshness: detect(spectra, totals, active, DETECTORS.harshness, binHz),
+  };
+}